@@ -0,0 +1,161 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  enqueueCheckpoint,
+  getPendingCheckpoints,
+  onDidChangeCheckpointQueue,
+  resolveCheckpoint,
+  resolveCheckpoints,
+} from '../services/checkpointQueue';
+import { loadState } from '../services/stateStore';
+import { handleAnswerCheckpoints } from '../views/helper';
+
+import type { ExtensionContext, Memento } from 'vscode';
+
+vi.mock('virtual:vscode', () => ({ default: () => '' }));
+vi.mock('vscode', () => ({ commands: {}, Uri: {}, window: { showErrorMessage: vi.fn() }, workspace: {} }));
+
+const HOUR = 60 * 60 * 1000;
+
+function createMemento(): Memento {
+  const values = new Map<string, unknown>();
+  return {
+    keys: () => [...values.keys()],
+    get: (key: string, defaultValue?: unknown) => values.has(key) ? structuredClone(values.get(key)) : defaultValue,
+    update: async (key: string, value: unknown) => {
+      values.set(key, structuredClone(value));
+    },
+  } as Memento;
+}
+
+function createContext(): ExtensionContext {
+  return { workspaceState: createMemento(), globalState: createMemento() } as unknown as ExtensionContext;
+}
+
+function enqueue(summary: string, options: Partial<Parameters<typeof enqueueCheckpoint>[0]> = {}) {
+  return enqueueCheckpoint({ summary, expiresAt: Date.now() + HOUR, onTimeout: () => ({ shouldContinue: false }), ...options });
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  // Settle whatever a failing test left behind so the next one starts from an empty queue
+  resolveCheckpoints(getPendingCheckpoints().map(checkpoint => checkpoint.id), { shouldContinue: false });
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('checkpoint queue', () => {
+  it('keeps checkpoints oldest first and notifies listeners of each change', () => {
+    const listener = vi.fn();
+    const unsubscribe = onDidChangeCheckpointQueue(listener);
+
+    const first = enqueue('First');
+    const second = enqueue('Second');
+    enqueue('Third');
+    resolveCheckpoint(second.id, { shouldContinue: true });
+    unsubscribe();
+
+    expect(getPendingCheckpoints().map(checkpoint => checkpoint.summary)).toEqual(['First', 'Third']);
+    expect(listener).toHaveBeenCalledTimes(4);
+    expect(listener).toHaveBeenLastCalledWith([expect.objectContaining({ id: first.id }), expect.objectContaining({ summary: 'Third' })]);
+  });
+
+  it('applies the onTimeout result once expiresAt passes', async () => {
+    vi.useFakeTimers();
+    const onTimeout = vi.fn(() => ({ shouldContinue: true, userInstruction: 'Keep going', resolution: 'timeout' as const }));
+    const { result } = enqueue('Waiting', { expiresAt: Date.now() + HOUR, onTimeout });
+
+    vi.advanceTimersByTime(HOUR - 1);
+    expect(onTimeout).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+
+    await expect(result).resolves.toEqual({ shouldContinue: true, userInstruction: 'Keep going', resolution: 'timeout' });
+    expect(onTimeout).toHaveBeenCalledOnce();
+    expect(getPendingCheckpoints()).toEqual([]);
+  });
+
+  it('does not time out a checkpoint that was already answered', async () => {
+    vi.useFakeTimers();
+    const onTimeout = vi.fn(() => ({ shouldContinue: false }));
+    const { id, result } = enqueue('Answered', { onTimeout });
+
+    resolveCheckpoint(id, { shouldContinue: true });
+    vi.advanceTimersByTime(2 * HOUR);
+
+    await expect(result).resolves.toEqual({ shouldContinue: true });
+    expect(onTimeout).not.toHaveBeenCalled();
+  });
+
+  it('ends the checkpoint and calls onCancel when the signal aborts', async () => {
+    const controller = new AbortController();
+    const onCancel = vi.fn();
+    const { result } = enqueue('Cancelled', { signal: controller.signal, onCancel });
+
+    controller.abort();
+
+    await expect(result).resolves.toEqual({ shouldContinue: false });
+    expect(onCancel).toHaveBeenCalledOnce();
+    expect(getPendingCheckpoints()).toEqual([]);
+  });
+
+  it('ignores an abort after the checkpoint was answered', async () => {
+    const controller = new AbortController();
+    const onCancel = vi.fn();
+    const { id, result } = enqueue('Answered', { signal: controller.signal, onCancel });
+
+    resolveCheckpoint(id, { shouldContinue: true });
+    controller.abort();
+
+    await expect(result).resolves.toEqual({ shouldContinue: true });
+    expect(onCancel).not.toHaveBeenCalled();
+  });
+
+  it('answers a checkpoint only once', async () => {
+    const { id, result } = enqueue('Once');
+    const listener = vi.fn();
+    const unsubscribe = onDidChangeCheckpointQueue(listener);
+
+    expect(resolveCheckpoint(id, { shouldContinue: true, userInstruction: 'First' })).toBe(true);
+    expect(resolveCheckpoint(id, { shouldContinue: false })).toBe(false);
+    unsubscribe();
+
+    await expect(result).resolves.toEqual({ shouldContinue: true, userInstruction: 'First' });
+    expect(listener).toHaveBeenCalledOnce();
+  });
+});
+
+describe('handleAnswerCheckpoints', () => {
+  it('resolves every id with the same answer and records each in history', async () => {
+    const context = createContext();
+    const first = enqueue('First');
+    const second = enqueueCheckpoint({ reason: 'Second', expiresAt: Date.now() + HOUR, onTimeout: () => ({ shouldContinue: false }) });
+    const untouched = enqueue('Untouched');
+
+    await handleAnswerCheckpoints(context, [first.id, second.id, 'checkpoint-unknown'], true, '  Add tests  ');
+
+    const answer = { shouldContinue: true, userInstruction: 'Add tests', respondedAt: expect.any(Number) };
+    await expect(first.result).resolves.toEqual(answer);
+    await expect(second.result).resolves.toEqual(answer);
+    expect(getPendingCheckpoints().map(checkpoint => checkpoint.id)).toEqual([untouched.id]);
+    // History lists the newest item first
+    expect(loadState(context).history.map(item => [item.summary, item.action, item.userInstruction])).toEqual([
+      ['Second', 'continue', 'Add tests'],
+      ['First', 'continue', 'Add tests'],
+    ]);
+  });
+
+  it('drops the instruction when the checkpoints are ended', async () => {
+    const context = createContext();
+    const { id, result } = enqueue('Ended');
+
+    await handleAnswerCheckpoints(context, [id], false, 'ignored');
+
+    await expect(result).resolves.toMatchObject({ shouldContinue: false, userInstruction: undefined });
+    expect(loadState(context).history).toMatchObject([{ summary: 'Ended', action: 'end' }]);
+    expect(loadState(context).history[0].userInstruction).toBeUndefined();
+  });
+});
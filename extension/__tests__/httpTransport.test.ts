@@ -0,0 +1,292 @@
+// @vitest-environment node
+import * as net from 'node:net';
+
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+
+import { PROGRESS_HEARTBEAT_INTERVAL, setPopupHandler, startHTTPServer, stopHTTPServer } from '../mcp/server';
+
+import type { PopupResult } from '../mcp/server';
+
+// The tool name helpers live next to the VS Code views; only the checkpoint tool is needed here
+vi.mock('../views/helper', () => ({
+  getRandomizedToolNames: () => ({ checkpoint: 'checkpoint', promptRefiner: 'prompt_refiner', inputBridge: 'input_bridge' }),
+  isCheckpointToolName: (name: string) => name === 'checkpoint',
+  isInputBridgeToolName: () => false,
+  isPromptRefinerToolName: () => false,
+}));
+
+interface SSEEvent {
+  event: string;
+  data: string;
+}
+
+let baseUrl = '';
+
+function getFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.on('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+function initializeRequest(id: number) {
+  return { jsonrpc: '2.0', id, method: 'initialize', params: { protocolVersion: '2024-11-05', clientInfo: { name: 'test' } } };
+}
+
+function post(path: string, body: unknown, headers: Record<string, string> = {}) {
+  return fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+/**
+ * Hand out the events of an SSE response one at a time
+ */
+function readEvents(response: Response) {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const next = async (): Promise<SSEEvent> => {
+    while (!buffer.includes('\n\n')) {
+      const { value, done } = await reader.read();
+      if (done) {
+        throw new Error('SSE stream ended');
+      }
+      buffer += decoder.decode(value, { stream: true });
+    }
+    const end = buffer.indexOf('\n\n');
+    const block = buffer.slice(0, end);
+    buffer = buffer.slice(end + 2);
+    const field = (name: string) => block.split('\n').find(line => line.startsWith(`${name}: `))?.slice(name.length + 2) ?? '';
+    return { event: field('event'), data: field('data') };
+  };
+
+  return next;
+}
+
+async function openStream(path: string) {
+  const controller = new AbortController();
+  const response = await fetch(`${baseUrl}${path}`, { signal: controller.signal });
+  return { response, next: readEvents(response), close: () => controller.abort() };
+}
+
+async function initializeSession(): Promise<string> {
+  const response = await post('/mcp', initializeRequest(1));
+  return response.headers.get('mcp-session-id')!;
+}
+
+function checkpointCall(id: number, meta?: Record<string, unknown>) {
+  return { jsonrpc: '2.0', id, method: 'tools/call', params: { name: 'checkpoint', arguments: { summary: 'Done' }, ...(meta ? { _meta: meta } : {}) } };
+}
+
+/**
+ * Popup handler that waits until the test answers it or the request is aborted
+ */
+function waitingPopup() {
+  let answer: (result: PopupResult) => void = () => {};
+  let signal: AbortSignal | undefined;
+  const asked = new Promise<void>((resolve) => {
+    setPopupHandler(request => new Promise((resolvePopup) => {
+      signal = request.signal;
+      answer = resolvePopup;
+      request.signal?.addEventListener('abort', () => resolvePopup({ shouldContinue: false }));
+      resolve();
+    }));
+  });
+  return { asked, answer: (result: PopupResult) => answer(result), signal: () => signal };
+}
+
+beforeAll(async () => {
+  const port = await getFreePort();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  await startHTTPServer(port);
+  baseUrl = `http://127.0.0.1:${port}`;
+});
+
+afterAll(() => {
+  stopHTTPServer();
+  vi.restoreAllMocks();
+});
+
+describe('legacy SSE transport', () => {
+  it('acknowledges /message with 202 and pushes the response on the session stream only', async () => {
+    const first = await openStream('/sse');
+    const second = await openStream('/sse');
+    const firstEndpoint = await first.next();
+    const secondEndpoint = await second.next();
+    expect(firstEndpoint.event).toBe('endpoint');
+    expect(firstEndpoint.data).toMatch(/^\/message\?sessionId=/);
+    expect(secondEndpoint.data).not.toBe(firstEndpoint.data);
+
+    const response = await post(firstEndpoint.data, initializeRequest(1));
+    expect(response.status).toBe(202);
+
+    const message = await first.next();
+    expect(message.event).toBe('message');
+    expect(JSON.parse(message.data)).toMatchObject({ jsonrpc: '2.0', id: 1, result: { serverInfo: { name: 'windsurf-endless' } } });
+
+    // The first reply was not broadcast: the other stream's next event is the reply to its own request
+    await post(secondEndpoint.data, initializeRequest(2));
+    expect(JSON.parse((await second.next()).data)).toMatchObject({ id: 2 });
+
+    first.close();
+    second.close();
+  });
+
+  it('rejects messages for unknown or missing sessions', async () => {
+    expect((await post('/message?sessionId=session_unknown', initializeRequest(1))).status).toBe(404);
+    expect((await post('/message', initializeRequest(1))).status).toBe(400);
+  });
+});
+
+describe('streamable HTTP transport', () => {
+  it('creates a session on initialize and answers requests carrying its Mcp-Session-Id', async () => {
+    const initialize = await post('/mcp', initializeRequest(1));
+    expect(initialize.status).toBe(200);
+    const sessionId = initialize.headers.get('mcp-session-id');
+    expect(sessionId).toBeTruthy();
+    expect(await initialize.json()).toMatchObject({ id: 1 });
+
+    const request = await post('/mcp', { jsonrpc: '2.0', id: 2, method: 'unknown/method' }, { 'Mcp-Session-Id': sessionId! });
+    expect(request.status).toBe(200);
+    expect(request.headers.get('mcp-session-id')).toBe(sessionId);
+    expect(await request.json()).toMatchObject({ id: 2, error: { code: -32601 } });
+
+    const notification = await post('/mcp', { jsonrpc: '2.0', method: 'notifications/initialized' }, { 'Mcp-Session-Id': sessionId! });
+    expect(notification.status).toBe(202);
+  });
+
+  it('rejects unknown sessions and requests without a session header', async () => {
+    const unknown = await post('/mcp', { jsonrpc: '2.0', id: 1, method: 'tools/list' }, { 'Mcp-Session-Id': 'session_unknown' });
+    expect(unknown.status).toBe(404);
+    expect(await unknown.json()).toMatchObject({ error: { code: -32600, message: 'Session not found' } });
+
+    const missing = await post('/mcp', { jsonrpc: '2.0', id: 1, method: 'tools/list' });
+    expect(missing.status).toBe(400);
+    expect(await missing.json()).toMatchObject({ error: { code: -32600, message: 'Missing Mcp-Session-Id header' } });
+
+    const stream = await fetch(`${baseUrl}/mcp`);
+    expect(stream.status).toBe(400);
+  });
+
+  it('ends a session on DELETE', async () => {
+    const initialize = await post('/mcp', initializeRequest(1));
+    const sessionId = initialize.headers.get('mcp-session-id')!;
+
+    const deleted = await fetch(`${baseUrl}/mcp`, { method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId } });
+    expect(deleted.status).toBe(204);
+
+    const afterDelete = await post('/mcp', { jsonrpc: '2.0', id: 2, method: 'tools/list' }, { 'Mcp-Session-Id': sessionId });
+    expect(afterDelete.status).toBe(404);
+
+    const deleteAgain = await fetch(`${baseUrl}/mcp`, { method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId } });
+    expect(deleteAgain.status).toBe(404);
+  });
+
+  it('rejects batches only on sessions that negotiated 2025-06-18', async () => {
+    const batch = [{ jsonrpc: '2.0', id: 2, method: 'ping' }];
+
+    const current = await post('/mcp', { ...initializeRequest(1), params: { protocolVersion: '2025-06-18' } });
+    const rejected = await post('/mcp', batch, { 'Mcp-Session-Id': current.headers.get('mcp-session-id')! });
+    expect(await rejected.json()).toMatchObject({ id: null, error: { code: -32600 } });
+
+    const older = await post('/mcp', initializeRequest(1));
+    const accepted = await post('/mcp', batch, { 'Mcp-Session-Id': older.headers.get('mcp-session-id')! });
+    expect(await accepted.json()).toEqual([{ jsonrpc: '2.0', id: 2, result: {} }]);
+  });
+
+  it('keeps batches open on a session whose initialize was rejected', async () => {
+    const invalid = await post('/mcp', { jsonrpc: '1.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-06-18' } });
+    expect(await invalid.json()).toMatchObject({ id: 1, error: { code: -32600 } });
+
+    const batch = await post('/mcp', [{ jsonrpc: '2.0', id: 2, method: 'ping' }], { 'Mcp-Session-Id': invalid.headers.get('mcp-session-id')! });
+    expect(await batch.json()).toEqual([{ jsonrpc: '2.0', id: 2, result: {} }]);
+  });
+
+  it('serves POST and DELETE on /sse, the URL written to client configs', async () => {
+    const initialize = await post('/sse', initializeRequest(1));
+    expect(initialize.status).toBe(200);
+    const sessionId = initialize.headers.get('mcp-session-id')!;
+    expect(sessionId).toBeTruthy();
+
+    const deleted = await fetch(`${baseUrl}/sse`, { method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId } });
+    expect(deleted.status).toBe(204);
+  });
+});
+
+describe('checkpoint progress and cancellation', () => {
+  afterEach(() => {
+    setPopupHandler(null);
+    vi.useRealTimers();
+  });
+
+  it('streams progress heartbeats ahead of the result when the call carries a progressToken', async () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+    const sessionId = await initializeSession();
+    const popup = waitingPopup();
+
+    const pending = post('/mcp', checkpointCall(2, { progressToken: 'p1' }), {
+      'Accept': 'application/json, text/event-stream',
+      'Mcp-Session-Id': sessionId,
+    });
+    await popup.asked;
+    vi.advanceTimersByTime(PROGRESS_HEARTBEAT_INTERVAL * 2);
+
+    const response = await pending;
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    const next = readEvents(response);
+    expect(JSON.parse((await next()).data)).toMatchObject({ method: 'notifications/progress', params: { progressToken: 'p1', progress: 1 } });
+    expect(JSON.parse((await next()).data)).toMatchObject({ method: 'notifications/progress', params: { progressToken: 'p1', progress: 2 } });
+
+    popup.answer({ shouldContinue: true, userInstruction: 'Go on' });
+    expect(JSON.parse((await next()).data)).toMatchObject({ id: 2, result: { content: [{ type: 'text' }] } });
+
+    // The heartbeat stops with the call
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('sends no heartbeats without a progressToken', async () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+    const sessionId = await initializeSession();
+    const popup = waitingPopup();
+
+    const pending = post('/mcp', checkpointCall(2), { 'Mcp-Session-Id': sessionId });
+    await popup.asked;
+    expect(vi.getTimerCount()).toBe(0);
+
+    popup.answer({ shouldContinue: false });
+    expect(await (await pending).json()).toMatchObject({ id: 2, result: {} });
+  });
+
+  it('aborts the checkpoint named by notifications/cancelled and leaves it unanswered', async () => {
+    const sessionId = await initializeSession();
+    const popup = waitingPopup();
+
+    const pending = post('/mcp', checkpointCall(3), { 'Mcp-Session-Id': sessionId });
+    await popup.asked;
+
+    const cancel = await post('/mcp', { jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 3, reason: 'Stopped' } }, { 'Mcp-Session-Id': sessionId });
+    expect(cancel.status).toBe(202);
+    expect(popup.signal()?.aborted).toBe(true);
+    expect((await pending).status).toBe(202);
+  });
+
+  it('aborts pending checkpoints when their session is deleted', async () => {
+    const sessionId = await initializeSession();
+    const popup = waitingPopup();
+
+    const pending = post('/mcp', checkpointCall(4), { 'Mcp-Session-Id': sessionId });
+    await popup.asked;
+
+    await fetch(`${baseUrl}/mcp`, { method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId } });
+    expect(popup.signal()?.aborted).toBe(true);
+    expect((await pending).status).toBe(202);
+  });
+});
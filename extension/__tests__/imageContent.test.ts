@@ -0,0 +1,68 @@
+// @vitest-environment node
+import { describe, expect, it, vi } from 'vitest';
+
+import { buildImageContent, MAX_IMAGE_BYTES, MAX_IMAGES_PER_RESULT } from '../mcp/server';
+
+// Loading the server pulls in the VS Code views for tool names; images never need them
+vi.mock('../views/helper', () => ({}));
+
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+
+function png(name: string) {
+  return { id: name, name, dataUrl: `data:image/png;base64,${PNG_BASE64}` };
+}
+
+describe('buildImageContent', () => {
+  it('turns data URLs into image content with their decoded size', () => {
+    const { items, attachments, skipped } = buildImageContent([png('shot.png')]);
+
+    expect(items).toEqual([{ type: 'image', data: PNG_BASE64, mimeType: 'image/png' }]);
+    expect(attachments).toEqual([{ type: 'image', name: 'shot.png', mimeType: 'image/png', size: 70 }]);
+    expect(skipped).toBe(0);
+  });
+
+  it('strips whitespace from wrapped base64', () => {
+    const wrapped = { dataUrl: `data:image/jpeg;base64,${PNG_BASE64.slice(0, 40)}\n${PNG_BASE64.slice(40)}` };
+    expect(buildImageContent([wrapped]).items[0]).toEqual({ type: 'image', data: PNG_BASE64, mimeType: 'image/jpeg' });
+  });
+
+  it('keeps the first MAX_IMAGES_PER_RESULT images and skips the rest', () => {
+    const images = Array.from({ length: MAX_IMAGES_PER_RESULT + 2 }, (_, i) => png(`image-${i}.png`));
+    const { items, attachments, skipped } = buildImageContent(images);
+
+    expect(items).toHaveLength(MAX_IMAGES_PER_RESULT);
+    expect(attachments.map(attachment => attachment.name)).toEqual(['image-0.png', 'image-1.png', 'image-2.png', 'image-3.png', 'image-4.png']);
+    expect(skipped).toBe(2);
+  });
+
+  it('skips images over MAX_IMAGE_BYTES', () => {
+    const oversized = { name: 'huge.png', dataUrl: `data:image/png;base64,${'A'.repeat(Math.ceil((MAX_IMAGE_BYTES + 3) / 3) * 4)}` };
+    const { items, skipped } = buildImageContent([oversized, png('small.png')]);
+
+    expect(items).toHaveLength(1);
+    expect(skipped).toBe(1);
+  });
+
+  it('skips malformed data URLs', () => {
+    const { items, skipped } = buildImageContent([
+      { dataUrl: 'not a data url' },
+      { dataUrl: `data:image/png,${PNG_BASE64}` },
+      { dataUrl: 'data:image/png;base64,' },
+      { dataUrl: '' },
+    ]);
+
+    expect(items).toEqual([]);
+    expect(skipped).toBe(4);
+  });
+
+  it('skips non-image and unsupported mime types', () => {
+    const { items, skipped } = buildImageContent([
+      { dataUrl: 'data:text/plain;base64,aGVsbG8=' },
+      { dataUrl: `data:image/svg+xml;base64,${PNG_BASE64}` },
+      { dataUrl: `data:image/bmp;base64,${PNG_BASE64}` },
+    ]);
+
+    expect(items).toEqual([]);
+    expect(skipped).toBe(3);
+  });
+});
@@ -0,0 +1,167 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { t } from '../../shared/i18n';
+import { enqueueCheckpoint, getPendingCheckpoints, resolveCheckpoints } from '../services/checkpointQueue';
+import { defaultSettings } from '../services/persistedState';
+import { InfiniteAskPanel } from '../views/infiniteAskPanel';
+
+import type { SettingsState } from '../services/persistedState';
+import type { ExtensionContext } from 'vscode';
+
+const vscode = vi.hoisted(() => ({
+  commands: { executeCommand: vi.fn() },
+  ViewColumn: { Active: -1, Beside: -2 },
+  window: { createWebviewPanel: vi.fn(), showInformationMessage: vi.fn() },
+  workspace: {},
+}));
+const settings = vi.hoisted(() => ({ current: {} as SettingsState }));
+
+vi.mock('vscode', () => vscode);
+vi.mock('../views/helper', () => ({
+  getSettings: () => settings.current,
+  WebviewHelper: { setupHtml: () => '', setupWebviewHooks: () => {} },
+}));
+
+const reviewTemplate = { id: 'review', name: 'Review', description: '', content: 'Review the changes', category: 'custom' };
+
+const context = {
+  // The webview's global stores, where the prompt templates live
+  globalState: { get: () => ({ prompts: [reviewTemplate], promptCategories: [] }) },
+} as unknown as ExtensionContext;
+
+function timeoutSettings(patch: Partial<SettingsState>): SettingsState {
+  return { ...defaultSettings, ...patch };
+}
+
+describe('infiniteAskPanel.buildTimeoutResult', () => {
+  it('ends the conversation for the end action', () => {
+    const result = InfiniteAskPanel.buildTimeoutResult(context, timeoutSettings({ dialogTimeoutAction: 'end', dialogTimeoutInstruction: 'ignored' }));
+
+    expect(result).toEqual({ shouldContinue: false, resolution: 'timeout', respondedAt: expect.any(Number) });
+  });
+
+  it('continues with the preset instruction for the continue action', () => {
+    const result = InfiniteAskPanel.buildTimeoutResult(context, timeoutSettings({ dialogTimeoutAction: 'continue', dialogTimeoutInstruction: '  Keep going  ' }));
+
+    expect(result).toEqual({ shouldContinue: true, userInstruction: 'Keep going', resolution: 'timeout', respondedAt: expect.any(Number) });
+  });
+
+  it('continues without an instruction when none is preset', () => {
+    const result = InfiniteAskPanel.buildTimeoutResult(context, timeoutSettings({ dialogTimeoutAction: 'continue', dialogTimeoutInstruction: ' ' }));
+
+    expect(result.shouldContinue).toBe(true);
+    expect(result.userInstruction).toBeUndefined();
+  });
+
+  it('continues with the chosen template for the template action', () => {
+    const result = InfiniteAskPanel.buildTimeoutResult(context, timeoutSettings({ dialogTimeoutAction: 'template', dialogTimeoutTemplateId: 'review' }));
+
+    expect(result).toEqual({
+      shouldContinue: true,
+      userInstruction: 'Review the changes',
+      selectedTemplateId: 'review',
+      resolution: 'timeout',
+      respondedAt: expect.any(Number),
+    });
+  });
+
+  it('falls back to the preset instruction when the template no longer exists', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const result = InfiniteAskPanel.buildTimeoutResult(context, timeoutSettings({
+      dialogTimeoutAction: 'template',
+      dialogTimeoutTemplateId: 'deleted',
+      dialogTimeoutInstruction: 'Keep going',
+    }));
+
+    expect(result).toMatchObject({ shouldContinue: true, userInstruction: 'Keep going' });
+    expect(result.selectedTemplateId).toBeUndefined();
+  });
+});
+
+describe('infiniteAskPanel.fillInput', () => {
+  function enqueue(sessionId: string) {
+    return enqueueCheckpoint({ summary: 'Waiting', sessionId, expiresAt: Date.now() + 60_000, onTimeout: () => ({ shouldContinue: false }) });
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    resolveCheckpoints(getPendingCheckpoints().map(checkpoint => checkpoint.id), { shouldContinue: false });
+    vi.restoreAllMocks();
+  });
+
+  it('leaves calls without a session to the clipboard', async () => {
+    enqueue('session-a');
+
+    await expect(InfiniteAskPanel.fillInput('text')).resolves.toEqual({ filled: false });
+  });
+
+  it('leaves sessions without a pending checkpoint to the clipboard', async () => {
+    enqueue('session-a');
+
+    await expect(InfiniteAskPanel.fillInput('text', 'session-b')).resolves.toEqual({ filled: false });
+  });
+
+  it('refuses to pick between several checkpoints of the session', async () => {
+    enqueue('session-a');
+    enqueue('session-a');
+
+    await expect(InfiniteAskPanel.fillInput('text', 'session-a')).resolves.toEqual({
+      filled: false,
+      error: t('host.fillAmbiguous', { count: 2 }),
+    });
+  });
+
+  it('reports a checkpoint still waiting in the queue', async () => {
+    enqueue('session-a');
+
+    await expect(InfiniteAskPanel.fillInput('text', 'session-a')).resolves.toEqual({ filled: false, error: t('host.fillQueued') });
+  });
+
+  it('hands the content to a checkpoint that takes it itself', async () => {
+    const onFill = vi.fn(() => true);
+    enqueueCheckpoint({ sessionId: 'session-a', expiresAt: Date.now() + 60_000, onTimeout: () => ({ shouldContinue: false }), onFill });
+
+    await expect(InfiniteAskPanel.fillInput('text', 'session-a')).resolves.toEqual({ filled: true });
+    expect(onFill).toHaveBeenCalledWith('text');
+  });
+});
+
+describe('infiniteAskPanel.show', () => {
+  function createPanel() {
+    return {
+      title: '',
+      webview: { html: '', onDidReceiveMessage: () => ({ dispose: () => {} }), postMessage: vi.fn() },
+      onDidDispose: () => ({ dispose: () => {} }),
+      dispose: vi.fn(),
+    };
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vscode.window.createWebviewPanel.mockImplementation(createPanel);
+  });
+
+  afterEach(() => {
+    // Ending the last checkpoint closes the panel
+    resolveCheckpoints(getPendingCheckpoints().map(checkpoint => checkpoint.id), { shouldContinue: false });
+    vscode.commands.executeCommand.mockClear();
+    vi.restoreAllMocks();
+  });
+
+  it.each([
+    ['center', -1, []],
+    ['top-right', -2, ['workbench.action.moveEditorToAboveGroup']],
+    ['bottom-right', -2, ['workbench.action.moveEditorToBelowGroup']],
+  ] as const)('places the %s dialog in its own layout', async (dialogPosition, column, commands) => {
+    settings.current = { ...defaultSettings, dialogPosition };
+
+    void InfiniteAskPanel.show(context, { summary: 'Done' });
+    await vi.waitFor(() => expect(vscode.window.createWebviewPanel).toHaveBeenLastCalledWith('infiniteAsk', expect.any(String), column, expect.any(Object)));
+
+    expect(vscode.commands.executeCommand.mock.calls.map(([command]) => command)).toEqual(commands);
+  });
+});
@@ -0,0 +1,316 @@
+// @vitest-environment node
+import * as net from 'node:net';
+
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+import { t } from '../../shared/i18n';
+import { setFillInputHandler, setPopupHandler, setPromptProvider, setResourceProvider, startHTTPServer, stopHTTPServer } from '../mcp/server';
+import { getPendingCheckpoints } from '../services/checkpointQueue';
+import { createHistoryResourceProvider } from '../services/historyResources';
+import { defaultSettings } from '../services/persistedState';
+import { createPromptLibraryProvider } from '../services/promptLibrary';
+import { InfiniteAskPanel } from '../views/infiniteAskPanel';
+
+import type { PopupResult } from '../mcp/server';
+import type { ConversationState, HistoryItemState } from '../services/persistedState';
+import type { ExtensionContext } from 'vscode';
+
+const workspace = vi.hoisted(() => ({
+  conversations: [] as ConversationState[],
+  history: [] as HistoryItemState[],
+}));
+
+const vscode = vi.hoisted(() => ({
+  env: { clipboard: { writeText: vi.fn() } },
+  window: { showInformationMessage: vi.fn(() => Promise.resolve(undefined)) },
+}));
+
+vi.mock('vscode', () => vscode);
+
+// Tool names and workspace state live next to the VS Code views
+vi.mock('../views/helper', () => ({
+  getRandomizedToolNames: () => ({ checkpoint: 'checkpoint', promptRefiner: 'prompt_refiner', inputBridge: 'input_bridge' }),
+  isCheckpointToolName: (name: string) => name === 'checkpoint',
+  isInputBridgeToolName: (name: string) => name === 'input_bridge',
+  isPromptRefinerToolName: () => false,
+  getSettings: () => defaultSettings,
+  getWorkspaceHistory: () => workspace,
+}));
+
+// The webview's global stores, where the prompt templates live
+const stores = {
+  prompts: [
+    { id: 'review', name: 'Review', description: 'Review a change', content: 'Review {{file}} for {{ focus }}, then {{file}} again', category: 'quality' },
+    { id: 'plain', name: 'Plain', description: 'No variables', content: 'Keep going', category: 'custom' },
+  ],
+  promptCategories: [{ id: 'quality', name: 'Quality' }],
+};
+
+const context = {
+  globalState: { get: () => stores },
+} as unknown as ExtensionContext;
+
+let baseUrl = '';
+let sessionId = '';
+let nextId = 1;
+
+function getFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.on('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+function call(method: string, params?: Record<string, unknown>) {
+  return fetch(`${baseUrl}/mcp`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(sessionId && { 'Mcp-Session-Id': sessionId }) },
+    body: JSON.stringify({ jsonrpc: '2.0', id: nextId++, method, params }),
+  });
+}
+
+/**
+ * Problems found checking `value` against the subset of JSON Schema the tool schemas use
+ * Properties the schema does not declare count as problems too
+ */
+function schemaErrors(value: unknown, schema: any, path = '$'): string[] {
+  const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+  const actual = value === null ? 'null' : Array.isArray(value) ? 'array' : Number.isInteger(value) ? 'integer' : typeof value;
+  if (!types.includes(actual) && !(actual === 'integer' && types.includes('number'))) {
+    return [`${path}: expected ${types.join(' | ')}, got ${actual}`];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${path}: ${JSON.stringify(value)} is not one of ${schema.enum.join(', ')}`];
+  }
+  if (schema.format === 'date-time' && Number.isNaN(Date.parse(value as string))) {
+    return [`${path}: not a date-time`];
+  }
+  if (actual === 'array') {
+    return (value as unknown[]).flatMap((item, index) => schemaErrors(item, schema.items, `${path}[${index}]`));
+  }
+  if (actual === 'object') {
+    const record = value as Record<string, unknown>;
+    return [
+      ...(schema.required ?? []).filter((key: string) => !Object.hasOwn(record, key)).map((key: string) => `${path}.${key}: missing`),
+      ...Object.entries(record).flatMap(([key, item]) => schema.properties?.[key]
+        ? schemaErrors(item, schema.properties[key], `${path}.${key}`)
+        : [`${path}.${key}: not declared`]),
+    ];
+  }
+  return [];
+}
+
+async function request(method: string, params?: Record<string, unknown>): Promise<{ result?: any; error?: any }> {
+  return await (await call(method, params)).json() as { result?: any; error?: any };
+}
+
+beforeAll(async () => {
+  const port = await getFreePort();
+  await startHTTPServer(port);
+  baseUrl = `http://127.0.0.1:${port}`;
+  const initialize = await call('initialize', { protocolVersion: '2025-06-18', clientInfo: { name: 'test' } });
+  sessionId = initialize.headers.get('mcp-session-id')!;
+});
+
+afterAll(() => {
+  stopHTTPServer();
+  setResourceProvider(null);
+  setPromptProvider(null);
+});
+
+describe('history resources', () => {
+  beforeAll(() => {
+    workspace.conversations = [{
+      id: 'conv/1',
+      name: 'Refactor',
+      workspacePath: '/repo',
+      createdAt: 0,
+      updatedAt: 1000,
+      messages: [{ id: 'm1', timestamp: 500, type: 'response', shouldContinue: true, userInstruction: 'Add tests' }],
+      isActive: true,
+    }];
+    workspace.history = [
+      { id: 'h1', conversationId: 'conv/1', conversationName: 'Refactor', workspacePath: '/repo', timestamp: 100, summary: 'First', action: 'continue' },
+      { id: 'h2', conversationId: 'conv/1', conversationName: 'Refactor', workspacePath: '/repo', timestamp: 200, summary: 'Second', action: 'end' },
+    ];
+    setResourceProvider(createHistoryResourceProvider(context));
+  });
+
+  it('lists the fixed resources and one resource per conversation', async () => {
+    const { result } = await request('resources/list');
+
+    expect(result.resources.map((resource: any) => resource.uri)).toEqual([
+      'endless://history/recent',
+      'endless://conversations',
+      'endless://conversation/conv%2F1',
+    ]);
+  });
+
+  it('reads recent history newest first', async () => {
+    const { result } = await request('resources/read', { uri: 'endless://history/recent' });
+    const { items } = JSON.parse(result.contents[0].text);
+
+    expect(result.contents[0].mimeType).toBe('application/json');
+    expect(items.map((item: any) => item.summary)).toEqual(['Second', 'First']);
+  });
+
+  it('reads a conversation by its encoded id', async () => {
+    const { result } = await request('resources/read', { uri: 'endless://conversation/conv%2F1' });
+    const conversation = JSON.parse(result.contents[0].text);
+
+    expect(conversation).toMatchObject({ id: 'conv/1', name: 'Refactor', messageCount: 1 });
+    expect(conversation.messages[0]).toMatchObject({ type: 'response', userInstruction: 'Add tests' });
+  });
+
+  it.each([
+    'endless://conversation/missing',
+    'endless://conversation/%E0%A4%A',
+    'endless://history/all',
+    'file:///etc/passwd',
+  ])('answers %s with resource not found', async (uri) => {
+    const { error } = await request('resources/read', { uri });
+
+    expect(error).toEqual({ code: -32002, message: 'Resource not found', data: { uri } });
+  });
+
+  it('rejects a read without a uri', async () => {
+    const { error } = await request('resources/read', {});
+
+    expect(error).toMatchObject({ code: -32602 });
+  });
+});
+
+describe('prompt templates', () => {
+  beforeAll(() => {
+    setPromptProvider(createPromptLibraryProvider(context));
+  });
+
+  it('lists templates with their placeholders as required arguments', async () => {
+    const { result } = await request('prompts/list');
+
+    expect(result.prompts).toEqual([
+      {
+        name: 'review',
+        title: 'Review',
+        description: '[Quality] Review a change',
+        arguments: [{ name: 'file', required: true }, { name: 'focus', required: true }],
+      },
+      { name: 'plain', title: 'Plain', description: 'No variables', arguments: [] },
+    ]);
+  });
+
+  it('fills every placeholder from the arguments', async () => {
+    const { result } = await request('prompts/get', { name: 'review', arguments: { file: 'a.ts', focus: 'naming' } });
+
+    expect(result).toEqual({
+      description: '[Quality] Review a change',
+      messages: [{ role: 'user', content: { type: 'text', text: 'Review a.ts for naming, then a.ts again' } }],
+    });
+  });
+
+  it('passes non-string argument values as text', async () => {
+    const { result } = await request('prompts/get', { name: 'review', arguments: { file: 42, focus: true } });
+
+    expect(result.messages[0].content.text).toBe('Review 42 for true, then 42 again');
+  });
+
+  it('names the missing required arguments', async () => {
+    const { error } = await request('prompts/get', { name: 'review', arguments: { file: 'a.ts' } });
+
+    expect(error).toEqual({ code: -32602, message: 'Missing required arguments: focus' });
+  });
+
+  it('rejects unknown prompts and calls without a name', async () => {
+    expect((await request('prompts/get', { name: 'missing' })).error).toEqual({ code: -32602, message: 'Unknown prompt: missing' });
+    expect((await request('prompts/get', {})).error).toEqual({ code: -32602, message: 'Missing prompt name' });
+  });
+});
+
+describe('checkpoint results', () => {
+  const PNG_DATA_URL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+
+  async function checkpoint(answer: PopupResult) {
+    setPopupHandler(async () => answer);
+    const { result } = await request('tools/call', { name: 'checkpoint', arguments: { summary: 'Done' } });
+    return result;
+  }
+
+  let outputSchema: any;
+
+  beforeAll(async () => {
+    const { result } = await request('tools/list');
+    outputSchema = result.tools.find((tool: any) => tool.name === 'checkpoint').outputSchema;
+  });
+
+  afterAll(() => {
+    setPopupHandler(null);
+  });
+
+  it.each<[string, PopupResult]>([
+    ['an instruction with a template and an image', {
+      shouldContinue: true,
+      userInstruction: 'Add tests',
+      selectedTemplateId: 'review',
+      images: [{ id: 'i1', name: 'shot.png', dataUrl: PNG_DATA_URL }],
+      respondedAt: 1_700_000_000_000,
+    }],
+    ['a plain continue', { shouldContinue: true }],
+    ['an end', { shouldContinue: false, userInstruction: 'ignored', images: [{ id: 'i1', name: 'shot.png', dataUrl: PNG_DATA_URL }] }],
+    ['a timeout', { shouldContinue: true, userInstruction: 'Keep going', resolution: 'timeout' }],
+  ])('declares structuredContent for %s', async (_, answer) => {
+    const result = await checkpoint(answer);
+
+    expect(schemaErrors(result.structuredContent, outputSchema)).toEqual([]);
+  });
+
+  it('reports the answer in structuredContent', async () => {
+    const result = await checkpoint({
+      shouldContinue: true,
+      userInstruction: 'Add tests',
+      selectedTemplateId: 'review',
+      images: [{ id: 'i1', name: 'shot.png', dataUrl: PNG_DATA_URL }],
+      respondedAt: 1_700_000_000_000,
+    });
+
+    expect(result.structuredContent).toEqual({
+      shouldContinue: true,
+      instruction: 'Add tests',
+      selectedTemplateId: 'review',
+      attachments: [{ type: 'image', name: 'shot.png', mimeType: 'image/png', size: 70 }],
+      respondedAt: '2023-11-14T22:13:20.000Z',
+      resolution: 'user',
+    });
+    expect(result.content.map((item: any) => item.type)).toEqual(['text', 'image']);
+  });
+
+  it('drops the instruction and images when the conversation ends', async () => {
+    const result = await checkpoint({ shouldContinue: false, userInstruction: 'ignored', images: [{ id: 'i1', name: 'shot.png', dataUrl: PNG_DATA_URL }] });
+
+    expect(result.structuredContent).toMatchObject({ shouldContinue: false, instruction: null, selectedTemplateId: null, attachments: [] });
+    expect(result.content).toHaveLength(1);
+  });
+});
+
+describe('input bridge', () => {
+  beforeAll(() => {
+    setFillInputHandler(InfiniteAskPanel.fillInputOrCopy);
+  });
+
+  afterAll(() => {
+    setFillInputHandler(null);
+  });
+
+  it('copies the content to the clipboard when the session has no pending checkpoint', async () => {
+    expect(getPendingCheckpoints()).toEqual([]);
+
+    const { result } = await request('tools/call', { name: 'input_bridge', arguments: { content: 'Refined prompt' } });
+
+    expect(vscode.env.clipboard.writeText).toHaveBeenCalledWith('Refined prompt');
+    expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(t('host.copiedToClipboard'), t('host.viewContent'));
+    expect(result.content).toEqual([{ type: 'text', text: t('tool.filled') }]);
+  });
+});
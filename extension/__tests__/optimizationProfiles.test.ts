@@ -0,0 +1,128 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { getLanguage, setLanguage, translate } from '../../shared/i18n';
+import {
+  getBuiltinProfiles,
+  getOptimizationProfiles,
+  resolveOptimizationProfile,
+  saveOptimizationProfiles,
+} from '../services/optimizationProfiles';
+
+import type { ExtensionContext, Memento } from 'vscode';
+
+function createContext(): ExtensionContext {
+  const values = new Map<string, unknown>();
+  const globalState = {
+    keys: () => [...values.keys()],
+    get: (key: string, defaultValue?: unknown) => values.has(key) ? structuredClone(values.get(key)) : defaultValue,
+    update: async (key: string, value: unknown) => {
+      if (value === undefined) {
+        values.delete(key);
+      }
+      else {
+        values.set(key, structuredClone(value));
+      }
+    },
+  } as Memento;
+  return { globalState } as unknown as ExtensionContext;
+}
+
+const reviewer = { id: 'reviewer', name: 'Reviewer', description: 'Ask for a review', systemPrompt: 'Turn the prompt into a review request' };
+
+const initialLanguage = getLanguage();
+
+afterEach(() => {
+  setLanguage(initialLanguage);
+});
+
+describe('optimization profiles', () => {
+  it('starts with the built-in profiles and the general profile as default', () => {
+    const state = getOptimizationProfiles(createContext());
+
+    expect(state.profiles.map(profile => profile.id)).toEqual(['general', 'concise', 'acceptance-criteria', 'translate-en', 'step-list']);
+    expect(state.defaultProfileId).toBe('general');
+  });
+
+  it('adds, edits and removes profiles', () => {
+    const context = createContext();
+    const [general, ...rest] = getBuiltinProfiles();
+
+    saveOptimizationProfiles(context, { profiles: [general, ...rest, reviewer], defaultProfileId: 'reviewer' });
+    expect(getOptimizationProfiles(context)).toMatchObject({ defaultProfileId: 'reviewer', profiles: expect.arrayContaining([reviewer]) });
+
+    saveOptimizationProfiles(context, { profiles: [general, { ...reviewer, name: '  Strict reviewer  ' }], defaultProfileId: 'reviewer' });
+    expect(getOptimizationProfiles(context).profiles).toEqual([general, { ...reviewer, name: 'Strict reviewer' }]);
+
+    saveOptimizationProfiles(context, { profiles: [general], defaultProfileId: 'reviewer' });
+    // The default falls back to the first profile once its own is gone
+    expect(getOptimizationProfiles(context)).toEqual({ profiles: [general], defaultProfileId: 'general' });
+  });
+
+  it('drops profiles without a name or system prompt and repeated ids', () => {
+    const context = createContext();
+
+    const saved = saveOptimizationProfiles(context, {
+      profiles: [
+        reviewer,
+        { ...reviewer, name: 'Duplicate' },
+        { id: 'unnamed', name: ' ', systemPrompt: 'Something' },
+        { id: 'empty', name: 'Empty', systemPrompt: '  ' },
+        { name: 'No id', systemPrompt: 'Something' },
+      ],
+    });
+
+    expect(saved).toEqual({ profiles: [reviewer], defaultProfileId: 'reviewer' });
+    expect(getOptimizationProfiles(context)).toEqual(saved);
+  });
+
+  it('restores the built-in profiles when every profile is removed', () => {
+    const context = createContext();
+    saveOptimizationProfiles(context, { profiles: [reviewer] });
+
+    const saved = saveOptimizationProfiles(context, { profiles: [] });
+
+    expect(saved.profiles).toEqual(getBuiltinProfiles());
+    expect(getOptimizationProfiles(context)).toEqual(saved);
+  });
+
+  it('finds profiles by id or name regardless of case', () => {
+    const context = createContext();
+    saveOptimizationProfiles(context, { profiles: [...getBuiltinProfiles(), reviewer], defaultProfileId: 'concise' });
+
+    expect(resolveOptimizationProfile(context)?.id).toBe('concise');
+    expect(resolveOptimizationProfile(context, ' REVIEWER ')).toEqual(reviewer);
+    expect(resolveOptimizationProfile(context, 'Reviewer')).toEqual(reviewer);
+    expect(resolveOptimizationProfile(context, 'missing')).toBeUndefined();
+  });
+
+  it('shows unedited built-in profiles in the current language', () => {
+    const context = createContext();
+    setLanguage('zh-CN');
+    saveOptimizationProfiles(context, { profiles: getBuiltinProfiles() });
+
+    setLanguage('en-US');
+    const [general] = getOptimizationProfiles(context).profiles;
+
+    expect(general).toEqual({
+      id: 'general',
+      name: translate('en-US', 'builtinProfiles.general.name'),
+      description: translate('en-US', 'builtinProfiles.general.description'),
+      systemPrompt: translate('en-US', 'builtinProfiles.general.systemPrompt'),
+    });
+  });
+
+  it('keeps the text of built-in profiles the user edited', () => {
+    const context = createContext();
+    setLanguage('zh-CN');
+    const [general, ...rest] = getBuiltinProfiles();
+    const edited = { ...general, systemPrompt: '只修正错别字' };
+    saveOptimizationProfiles(context, { profiles: [edited, ...rest] });
+
+    setLanguage('en-US');
+    const [localizedGeneral, concise] = getOptimizationProfiles(context).profiles;
+
+    expect(localizedGeneral).toEqual(edited);
+    expect(concise.name).toBe(translate('en-US', 'builtinProfiles.concise.name'));
+  });
+});
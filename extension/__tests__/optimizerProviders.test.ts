@@ -0,0 +1,117 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { createOptimizerProvider, optimizePromptWithRules } from '../services/optimizerProviders';
+
+vi.mock('vscode', () => ({ env: { appName: 'Visual Studio Code' } }));
+
+describe('optimizePromptWithRules', () => {
+  it('drops filler lead-ins and repeated lines and lists the missing requirements', () => {
+    expect(optimizePromptWithRules('  Could you please   refactor the parser\nrefactor the parser\n\n')).toBe([
+      'Task: refactor the parser.',
+      '',
+      'Requirements:',
+      '- Follow the existing code style and project conventions',
+      '- Make sure related tests still pass after the change',
+      '- Briefly explain what changed and why when done',
+      '- Ask before making assumptions about anything unclear',
+    ].join('\n'));
+  });
+
+  it('answers in Chinese for a Chinese prompt', () => {
+    expect(optimizePromptWithRules('请帮我重构解析器，并补充测试')).toBe([
+      '任务：重构解析器，并补充测试。',
+      '',
+      '要求：',
+      '- 保持现有代码风格与项目约定',
+      '- 完成后简要说明改动内容与原因',
+      '- 遇到不明确的地方先提出问题，不要自行假设',
+    ].join('\n'));
+  });
+
+  it('leaves out requirements the prompt already covers', () => {
+    const prompt = 'Fix the bug in the existing style, run the tests, explain the change and ask if unclear!';
+
+    expect(optimizePromptWithRules(prompt)).toBe(prompt);
+  });
+});
+
+describe('openai-compatible provider', () => {
+  const provider = createOptimizerProvider({ provider: 'openai-compatible', modelId: '', endpoint: 'http://localhost:11434/v1/', model: 'llama', apiKey: 'key' });
+
+  function streamResponse(pieces: string[]): Response {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        pieces.forEach(piece => controller.enqueue(encoder.encode(piece)));
+        controller.close();
+      },
+    });
+    return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+  }
+
+  function delta(content: string): string {
+    return `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('joins content deltas split across network chunks and stops at [DONE]', async () => {
+    const fetch = vi.fn(async () => streamResponse([
+      delta('Refactor').slice(0, 20),
+      `${delta('Refactor').slice(20)}: keep-alive\n\n${delta(' the parser')}`,
+      'data: not json\n\ndata: [DONE]\n\n',
+    ]));
+    vi.stubGlobal('fetch', fetch);
+    const onChunk = vi.fn();
+
+    await expect(provider.optimize('fix parser', 'Be clear', new AbortController().signal, onChunk)).resolves.toBe('Refactor the parser');
+    expect(onChunk.mock.calls).toEqual([['Refactor'], [' the parser']]);
+    expect(fetch).toHaveBeenCalledWith('http://localhost:11434/v1/chat/completions', expect.objectContaining({
+      headers: { 'Content-Type': 'application/json', 'Authorization': 'Bearer key' },
+    }));
+    expect(JSON.parse((fetch.mock.calls[0] as any)[1].body)).toMatchObject({
+      model: 'llama',
+      messages: [{ role: 'system', content: 'Be clear' }, { role: 'user', content: 'fix parser' }],
+      stream: true,
+    });
+  });
+
+  it('reads a final event that is not followed by a newline', async () => {
+    vi.stubGlobal('fetch', async () => streamResponse([delta('Done').trimEnd()]));
+
+    await expect(provider.optimize('p', 's', new AbortController().signal, () => {})).resolves.toBe('Done');
+  });
+
+  it('fails with the message of an error event', async () => {
+    vi.stubGlobal('fetch', async () => streamResponse([delta('Partial'), `data: ${JSON.stringify({ error: { message: 'model overloaded' } })}\n\n`]));
+
+    await expect(provider.optimize('p', 's', new AbortController().signal, () => {})).rejects.toThrow('model overloaded');
+  });
+
+  it('reads a plain JSON body from servers that ignore streaming', async () => {
+    vi.stubGlobal('fetch', async () => Response.json({ choices: [{ message: { content: 'Whole answer' } }] }));
+    const onChunk = vi.fn();
+
+    await expect(provider.optimize('p', 's', new AbortController().signal, onChunk)).resolves.toBe('Whole answer');
+    expect(onChunk).toHaveBeenCalledWith('Whole answer');
+  });
+
+  it('reports the status and body of an HTTP error', async () => {
+    vi.stubGlobal('fetch', async () => new Response('invalid api key', { status: 401 }));
+
+    await expect(provider.optimize('p', 's', new AbortController().signal)).rejects.toThrow('HTTP 401: invalid api key');
+  });
+
+  it('reports the abort reason instead of a connection error', async () => {
+    vi.stubGlobal('fetch', async () => {
+      throw new DOMException('The operation was aborted', 'AbortError');
+    });
+    const controller = new AbortController();
+    controller.abort('Stopped by the test');
+
+    await expect(provider.optimize('p', 's', controller.signal)).rejects.toThrow('Stopped by the test');
+  });
+});
@@ -0,0 +1,126 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+
+import { t } from '../../shared/i18n';
+import { defaultSettings, parsePersistedState, resolveSettings, STATE_VERSION, StateSchemaError } from '../services/persistedState';
+
+const conversation = { id: 'c1', name: 'Refactor', workspacePath: '/repo', createdAt: 1, updatedAt: 2, messages: [], isActive: true };
+const historyItem = { id: 'h1', conversationId: 'c1', conversationName: 'Refactor', workspacePath: '/repo', timestamp: 3, summary: 'Done', action: 'continue' };
+
+describe('parsePersistedState', () => {
+  it('moves the changed settings of unversioned state into settingsOverrides', () => {
+    const { state, dropped } = parsePersistedState({
+      settings: { ...defaultSettings, mcpServerPort: 4000, language: 'en-US' },
+      conversations: [conversation],
+      history: [historyItem],
+      activeConversationId: 'c1',
+    }, '/repo');
+
+    expect(state.schemaVersion).toBe(STATE_VERSION);
+    expect(state.settingsOverrides).toEqual({ mcpServerPort: 4000, language: 'en-US' });
+    expect(state.settings).toEqual({ ...defaultSettings, mcpServerPort: 4000, language: 'en-US' });
+    expect(state.conversations).toEqual([conversation]);
+    expect(state.history).toEqual([{ ...historyItem, userInstruction: undefined, resolution: undefined }]);
+    expect(state.activeConversationId).toBe('c1');
+    expect(dropped).toEqual([]);
+  });
+
+  it('migrates version 1 state the same way', () => {
+    const { state } = parsePersistedState({ schemaVersion: 1, settings: { dialogTimeout: 60 } }, '/repo');
+
+    expect(state.settingsOverrides).toEqual({ dialogTimeout: 60 });
+  });
+
+  it('keeps the overrides of current state as stored', () => {
+    const { state } = parsePersistedState({ schemaVersion: STATE_VERSION, settingsOverrides: { dialogTheme: 'dark' } }, '/repo');
+
+    expect(state.settingsOverrides).toEqual({ dialogTheme: 'dark' });
+  });
+
+  it('drops settings of the wrong type or outside their choices, so the defaults apply', () => {
+    const { state } = parsePersistedState({
+      schemaVersion: STATE_VERSION,
+      settingsOverrides: {
+        mcpServerPort: '4000',
+        dialogTheme: 'sepia',
+        fallbackPorts: [3457, 'x'],
+        redactionDetectors: ['email', 'creditCard'],
+        optimizerTimeouts: { 'rule-based': 10, 'vscode-lm': -1 },
+        autoStart: false,
+        retired: true,
+      },
+    }, '/repo');
+
+    expect(state.settingsOverrides).toEqual({
+      autoStart: false,
+      optimizerTimeouts: { ...defaultSettings.optimizerTimeouts, 'rule-based': 10 },
+    });
+    expect(state.settings.mcpServerPort).toBe(defaultSettings.mcpServerPort);
+    expect(state.settings.dialogTheme).toBe(defaultSettings.dialogTheme);
+  });
+
+  it('backfills settings and fields missing from older state', () => {
+    const { state } = parsePersistedState({ schemaVersion: STATE_VERSION }, '/repo');
+
+    expect(state).toEqual({
+      schemaVersion: STATE_VERSION,
+      settings: defaultSettings,
+      globalSettings: {},
+      settingsOverrides: {},
+      conversations: [],
+      history: [],
+      activeConversationId: null,
+      activeSessionId: null,
+      workspacePath: '/repo',
+    });
+  });
+
+  it('drops invalid conversations and history items and reports them', () => {
+    const noName = { id: 'c2' };
+    const badAction = { ...historyItem, id: 'h2', action: 'pause' };
+    const { state, dropped } = parsePersistedState({
+      schemaVersion: STATE_VERSION,
+      conversations: [conversation, noName, 'c3'],
+      history: [historyItem, badAction, { id: 'h3', action: 'end' }],
+    }, '/repo');
+
+    expect(state.conversations.map(c => c.id)).toEqual(['c1']);
+    expect(state.history.map(item => item.id)).toEqual(['h1']);
+    expect(dropped).toEqual([noName, 'c3', badAction, { id: 'h3', action: 'end' }]);
+  });
+
+  it('fills the fields of valid entries that are missing or invalid', () => {
+    const { state } = parsePersistedState({
+      schemaVersion: STATE_VERSION,
+      conversations: [{ id: 'c1', name: 'Old', createdAt: 5, messages: [{ id: 'm1', timestamp: 1, type: 'ask' }, { id: 'm2' }] }],
+      history: [{ id: 'h1', timestamp: 3, action: 'end', resolution: 'later' }],
+    }, '/repo');
+
+    expect(state.conversations[0]).toEqual({ id: 'c1', name: 'Old', workspacePath: '', createdAt: 5, updatedAt: 5, messages: [{ id: 'm1', timestamp: 1, type: 'ask' }], isActive: false });
+    expect(state.history[0]).toMatchObject({ conversationId: 'default', conversationName: '', summary: '', resolution: undefined });
+  });
+
+  it('rejects state written by a newer version', () => {
+    expect(() => parsePersistedState({ schemaVersion: STATE_VERSION + 1 }, '/repo'))
+      .toThrow(new StateSchemaError(t('host.stateNewerVersion', { version: STATE_VERSION + 1 })));
+  });
+
+  it.each([null, 'state', [{ schemaVersion: STATE_VERSION }]])('rejects %j as not an object', (raw) => {
+    expect(() => parsePersistedState(raw, '/repo')).toThrow(StateSchemaError);
+  });
+});
+
+describe('resolveSettings', () => {
+  it('layers the defaults, then the global settings, then the workspace overrides', () => {
+    const settings = resolveSettings({ dialogTimeout: 60, dialogTheme: 'dark' }, { dialogTheme: 'light' });
+
+    expect(settings).toEqual({ ...defaultSettings, dialogTimeout: 60, dialogTheme: 'light' });
+  });
+
+  it('layers the global settings under the overrides of parsed state', () => {
+    const { state } = parsePersistedState({ schemaVersion: STATE_VERSION, settingsOverrides: { language: 'en-US' } }, '/repo', { language: 'zh-CN', autoStart: false });
+
+    expect(state.settings).toMatchObject({ language: 'en-US', autoStart: false });
+    expect(state.globalSettings).toEqual({ language: 'zh-CN', autoStart: false });
+  });
+});
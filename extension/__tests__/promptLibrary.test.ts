@@ -0,0 +1,65 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { getLanguage, setLanguage, translate } from '../../shared/i18n';
+import { getPromptLibrary } from '../services/promptLibrary';
+
+import type { ExtensionContext } from 'vscode';
+
+function createContext(stores: Record<string, unknown>): ExtensionContext {
+  return { globalState: { get: () => stores } } as unknown as ExtensionContext;
+}
+
+// How the webview stores its built-ins: in the language of first run
+function builtinPrompt(key: 'continue' | 'test', id: string) {
+  return {
+    id,
+    name: translate('zh-CN', `builtinPrompts.${key}.name`),
+    description: translate('zh-CN', `builtinPrompts.${key}.description`),
+    content: translate('zh-CN', `builtinPrompts.${key}.content`),
+    category: 'quick',
+    usageCount: 3,
+  };
+}
+
+const initialLanguage = getLanguage();
+
+afterEach(() => {
+  setLanguage(initialLanguage);
+});
+
+describe('getPromptLibrary', () => {
+  it('returns unedited built-in templates and categories in the current language', () => {
+    setLanguage('en-US');
+    const context = createContext({
+      prompts: [builtinPrompt('continue', 'prompt-continue')],
+      promptCategories: [{ id: 'quick', name: translate('zh-CN', 'promptCategories.quick'), icon: 'zap' }],
+    });
+
+    expect(getPromptLibrary(context)).toEqual({
+      templates: [{
+        id: 'prompt-continue',
+        name: translate('en-US', 'builtinPrompts.continue.name'),
+        description: translate('en-US', 'builtinPrompts.continue.description'),
+        content: translate('en-US', 'builtinPrompts.continue.content'),
+        category: 'quick',
+      }],
+      categories: [{ id: 'quick', name: translate('en-US', 'promptCategories.quick') }],
+    });
+  });
+
+  it('keeps the text of edited built-ins and of user templates', () => {
+    setLanguage('en-US');
+    const edited = { ...builtinPrompt('test', 'prompt-test'), content: '补充边界测试' };
+    const custom = { id: 'prompt-1', name: 'Review', description: '', content: 'Review it', category: 'quick' };
+    const context = createContext({
+      prompts: [edited, custom],
+      promptCategories: [{ id: 'quick', name: 'Fast lane' }],
+    });
+
+    const { templates, categories } = getPromptLibrary(context);
+
+    expect(templates.map(template => [template.name, template.content])).toEqual([[edited.name, '补充边界测试'], ['Review', 'Review it']]);
+    expect(categories).toEqual([{ id: 'quick', name: 'Fast lane' }]);
+  });
+});
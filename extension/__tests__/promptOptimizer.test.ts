@@ -0,0 +1,100 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { t } from '../../shared/i18n';
+import { defaultSettings } from '../services/persistedState';
+import { optimizePrompt } from '../services/promptOptimizer';
+
+import type { SettingsState } from '../services/persistedState';
+import type { ExtensionContext } from 'vscode';
+
+const settings = vi.hoisted(() => ({ current: {} as SettingsState }));
+
+vi.mock('vscode', () => ({ env: { appName: 'Visual Studio Code' } }));
+vi.mock('../views/helper', () => ({ getSettings: () => settings.current }));
+
+const context = {
+  globalState: { get: () => undefined },
+  secrets: { get: async () => undefined },
+} as unknown as ExtensionContext;
+
+// A request that only ends when its signal aborts, like a model that never answers
+function hangingFetch(_url: string, init: RequestInit): Promise<Response> {
+  return new Promise((_, reject) => {
+    const abort = () => reject(new DOMException('The operation was aborted', 'AbortError'));
+    if (init.signal!.aborted) {
+      abort();
+    }
+    init.signal!.addEventListener('abort', abort);
+  });
+}
+
+beforeEach(() => {
+  settings.current = { ...defaultSettings, optimizerProvider: 'openai-compatible', optimizerEndpoint: 'http://localhost:11434/v1', optimizerModel: 'llama' };
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('optimizePrompt', () => {
+  it('fails with the timeout message once the provider timeout passes', async () => {
+    vi.useFakeTimers();
+    vi.stubGlobal('fetch', hangingFetch);
+
+    const pending = optimizePrompt(context, 'fix the parser');
+    await vi.advanceTimersByTimeAsync(defaultSettings.optimizerTimeouts['openai-compatible'] * 1000);
+
+    await expect(pending).resolves.toMatchObject({
+      success: false,
+      error: t('optimizer.timeout', { seconds: defaultSettings.optimizerTimeouts['openai-compatible'] }),
+    });
+    expect((await pending).cancelled).toBeUndefined();
+  });
+
+  it('reports a cancelled request when the caller aborts', async () => {
+    vi.stubGlobal('fetch', hangingFetch);
+    const controller = new AbortController();
+
+    const pending = optimizePrompt(context, 'fix the parser', { signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).resolves.toEqual({ success: false, cancelled: true, error: t('optimizer.cancelled') });
+  });
+
+  it('does not start a request that was cancelled already', async () => {
+    const fetch = vi.fn(hangingFetch);
+    vi.stubGlobal('fetch', fetch);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(optimizePrompt(context, 'fix the parser', { signal: controller.signal })).resolves.toMatchObject({ cancelled: true });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('applies the rules for the general profile with the rule-based provider', async () => {
+    settings.current = { ...settings.current, optimizerProvider: 'rule-based' };
+
+    const result = await optimizePrompt(context, 'Please refactor the parser');
+
+    expect(result).toMatchObject({ success: true, optimizedPrompt: expect.stringMatching(/^Task: refactor the parser\./) });
+  });
+
+  it('tells the user the rule-based provider cannot follow other profiles', async () => {
+    settings.current = { ...settings.current, optimizerProvider: 'rule-based' };
+
+    const result = await optimizePrompt(context, 'Please refactor the parser', { profile: 'concise' });
+
+    expect(result).toMatchObject({ success: false, error: t('optimizer.profileUnsupported', { profile: t('builtinProfiles.concise.name') }) });
+  });
+
+  it('names the available profiles when the requested one does not exist', async () => {
+    const result = await optimizePrompt(context, 'fix the parser', { profile: 'missing' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain(t('builtinProfiles.general.name'));
+  });
+});
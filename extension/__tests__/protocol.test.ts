@@ -0,0 +1,234 @@
+// @vitest-environment node
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  cancelRequest,
+  cancelSessionRequests,
+  dispatchMessage,
+  getInitializeProtocolVersion,
+  getProgressToken,
+  JSONRPC_ERRORS,
+  JSONRPCError,
+  LATEST_PROTOCOL_VERSION,
+  negotiateProtocolVersion,
+  parseMessage,
+} from '../mcp/protocol';
+
+import type { MethodTable, RequestContext } from '../mcp/protocol';
+
+const options = { sessionId: 'test' };
+
+function createMethods(): MethodTable {
+  return {
+    echo: params => params,
+    empty: () => undefined,
+    fail: () => {
+      throw new JSONRPCError(JSONRPC_ERRORS.INVALID_PARAMS, 'Bad params', { field: 'x' });
+    },
+    crash: () => {
+      throw new Error('Boom');
+    },
+    notify: vi.fn(),
+  };
+}
+
+describe('protocol version negotiation', () => {
+  it('echoes supported versions and offers the latest otherwise', () => {
+    expect(negotiateProtocolVersion('2024-11-05')).toBe('2024-11-05');
+    expect(negotiateProtocolVersion('2025-06-18')).toBe('2025-06-18');
+    expect(negotiateProtocolVersion('1999-01-01')).toBe(LATEST_PROTOCOL_VERSION);
+    expect(negotiateProtocolVersion(undefined)).toBe(LATEST_PROTOCOL_VERSION);
+  });
+
+  it('reads the version an initialize request settles on', () => {
+    expect(getInitializeProtocolVersion({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { ...options, protocolVersion: '2025-03-26' } })).toBe('2025-03-26');
+    expect(getInitializeProtocolVersion({ jsonrpc: '2.0', id: 1, method: 'initialize' })).toBe(LATEST_PROTOCOL_VERSION);
+    expect(getInitializeProtocolVersion({ jsonrpc: '2.0', id: 1, method: 'ping' })).toBeUndefined();
+    expect(getInitializeProtocolVersion([{ jsonrpc: '2.0', id: 1, method: 'initialize' }])).toBeUndefined();
+  });
+});
+
+describe('parseMessage', () => {
+  it('returns the payload or a parse error', () => {
+    expect(parseMessage('{"a":1}')).toEqual({ payload: { a: 1 } });
+    expect(parseMessage('{')).toEqual({ error: { jsonrpc: '2.0', id: null, error: { code: JSONRPC_ERRORS.PARSE_ERROR, message: 'Parse error' } } });
+  });
+});
+
+describe('dispatchMessage', () => {
+  it('answers single calls with the handler result', async () => {
+    const methods = createMethods();
+    expect(await dispatchMessage({ jsonrpc: '2.0', id: 1, method: 'echo', params: { a: 1 } }, methods, options))
+      .toEqual({ jsonrpc: '2.0', id: 1, result: { a: 1 } });
+    expect(await dispatchMessage({ jsonrpc: '2.0', id: 'x', method: 'empty' }, methods, options))
+      .toEqual({ jsonrpc: '2.0', id: 'x', result: {} });
+  });
+
+  it('turns handler errors into error responses', async () => {
+    const methods = createMethods();
+    expect(await dispatchMessage({ jsonrpc: '2.0', id: 1, method: 'fail' }, methods, options))
+      .toEqual({ jsonrpc: '2.0', id: 1, error: { code: JSONRPC_ERRORS.INVALID_PARAMS, message: 'Bad params', data: { field: 'x' } } });
+    expect(await dispatchMessage({ jsonrpc: '2.0', id: 2, method: 'crash' }, methods, options))
+      .toEqual({ jsonrpc: '2.0', id: 2, error: { code: JSONRPC_ERRORS.INTERNAL_ERROR, message: 'Boom' } });
+    expect(await dispatchMessage({ jsonrpc: '2.0', id: 3, method: 'missing' }, methods, options))
+      .toMatchObject({ id: 3, error: { code: JSONRPC_ERRORS.METHOD_NOT_FOUND } });
+  });
+
+  it('runs notifications without answering them', async () => {
+    const methods = createMethods();
+    expect(await dispatchMessage({ jsonrpc: '2.0', method: 'notify', params: { a: 1 } }, methods, options)).toBeNull();
+    expect(methods.notify).toHaveBeenCalledOnce();
+    expect(await dispatchMessage({ jsonrpc: '2.0', method: 'crash' }, methods, options)).toBeNull();
+    expect(await dispatchMessage({ jsonrpc: '2.0', method: 'missing' }, methods, options)).toBeNull();
+  });
+
+  it('ignores responses sent by the client', async () => {
+    expect(await dispatchMessage({ jsonrpc: '2.0', id: 1, result: {} }, createMethods(), options)).toBeNull();
+  });
+
+  it('rejects invalid requests with -32600', async () => {
+    const methods = createMethods();
+    const invalid = (id: unknown) => ({ jsonrpc: '2.0', id, error: { code: JSONRPC_ERRORS.INVALID_REQUEST, message: 'Invalid Request' } });
+
+    expect(await dispatchMessage({ jsonrpc: '1.0', id: 1, method: 'echo' }, methods, options)).toEqual(invalid(1));
+    expect(await dispatchMessage({ jsonrpc: '2.0', id: 2, method: 42 }, methods, options)).toEqual(invalid(2));
+    expect(await dispatchMessage({ jsonrpc: '2.0', id: 3, method: 'echo', params: 'text' }, methods, options)).toEqual(invalid(3));
+    expect(await dispatchMessage({ jsonrpc: '2.0', id: { nested: true }, method: 'echo' }, methods, options)).toEqual(invalid(null));
+    expect(await dispatchMessage('text', methods, options)).toEqual(invalid(null));
+    expect(await dispatchMessage(null, methods, options)).toEqual(invalid(null));
+  });
+
+  it('answers batches member by member and leaves out notifications', async () => {
+    const methods = createMethods();
+    const reply = await dispatchMessage([
+      { jsonrpc: '2.0', id: 1, method: 'echo', params: { a: 1 } },
+      { jsonrpc: '2.0', method: 'notify' },
+      { jsonrpc: '2.0', id: 2, method: 'missing' },
+      { foo: 'bar' },
+    ], methods, options);
+
+    expect(reply).toEqual([
+      { jsonrpc: '2.0', id: 1, result: { a: 1 } },
+      { jsonrpc: '2.0', id: 2, error: { code: JSONRPC_ERRORS.METHOD_NOT_FOUND, message: 'Unknown method: missing' } },
+      { jsonrpc: '2.0', id: null, error: { code: JSONRPC_ERRORS.INVALID_REQUEST, message: 'Invalid Request' } },
+    ]);
+    expect(methods.notify).toHaveBeenCalledOnce();
+  });
+
+  it('rejects empty batches and answers notification-only batches with nothing', async () => {
+    const methods = createMethods();
+    expect(await dispatchMessage([], methods, options)).toMatchObject({ id: null, error: { code: JSONRPC_ERRORS.INVALID_REQUEST } });
+    expect(await dispatchMessage([{ jsonrpc: '2.0', method: 'notify' }], methods, options)).toBeNull();
+  });
+
+  it('rejects batches on sessions that negotiated a version without batching', async () => {
+    const methods = createMethods();
+    const batch = [{ jsonrpc: '2.0', id: 1, method: 'echo' }];
+
+    expect(await dispatchMessage(batch, methods, { ...options, protocolVersion: '2025-06-18' })).toEqual({
+      jsonrpc: '2.0',
+      id: null,
+      error: { code: JSONRPC_ERRORS.INVALID_REQUEST, message: 'Invalid Request: batches are not supported in protocol version 2025-06-18' },
+    });
+    expect(await dispatchMessage(batch, methods, { ...options, protocolVersion: '2025-03-26' })).toEqual([{ jsonrpc: '2.0', id: 1, result: {} }]);
+    expect(await dispatchMessage(batch, methods, { ...options, protocolVersion: '2024-11-05' })).toEqual([{ jsonrpc: '2.0', id: 1, result: {} }]);
+    // Before initialize there is no version yet
+    expect(await dispatchMessage(batch, methods, options)).toEqual([{ jsonrpc: '2.0', id: 1, result: {} }]);
+  });
+});
+
+describe('getProgressToken', () => {
+  it('reads string and number tokens from _meta', () => {
+    expect(getProgressToken({ _meta: { progressToken: 'abc' } })).toBe('abc');
+    expect(getProgressToken({ _meta: { progressToken: 7 } })).toBe(7);
+  });
+
+  it('ignores missing or malformed tokens', () => {
+    expect(getProgressToken(undefined)).toBeUndefined();
+    expect(getProgressToken({})).toBeUndefined();
+    expect(getProgressToken({ _meta: 'token' })).toBeUndefined();
+    expect(getProgressToken({ _meta: { progressToken: { id: 1 } } })).toBeUndefined();
+    expect(getProgressToken({ _meta: { progressToken: Number.NaN } })).toBeUndefined();
+  });
+});
+
+describe('request cancellation', () => {
+  /**
+   * Method table whose `wait` handler stays pending until it is released or aborted
+   */
+  function createWaitingMethods() {
+    const contexts: RequestContext[] = [];
+    const releases: Array<() => void> = [];
+    const methods: MethodTable = {
+      wait: (_params, context) => {
+        contexts.push(context);
+        return new Promise((resolve, reject) => {
+          releases.push(() => resolve({ done: true }));
+          context.signal.addEventListener('abort', () => reject(new Error('aborted')));
+        });
+      },
+    };
+    return { methods, contexts, releases };
+  }
+
+  it('aborts the matching in-flight request and leaves it unanswered', async () => {
+    const { methods, contexts } = createWaitingMethods();
+    const pending = dispatchMessage({ jsonrpc: '2.0', id: 1, method: 'wait' }, methods, { sessionId: 'cancel' });
+
+    expect(cancelRequest('other', 1)).toBe(false);
+    expect(cancelRequest('cancel', 1, 'User gave up')).toBe(true);
+    expect(contexts[0].signal.aborted).toBe(true);
+    expect(contexts[0].signal.reason).toBe('User gave up');
+    expect(await pending).toBeNull();
+    // Finished requests are no longer tracked
+    expect(cancelRequest('cancel', 1)).toBe(false);
+  });
+
+  it('aborts every request of a closed session only', async () => {
+    const { methods, contexts, releases } = createWaitingMethods();
+    const closed = Promise.all([
+      dispatchMessage({ jsonrpc: '2.0', id: 1, method: 'wait' }, methods, { sessionId: 'closed' }),
+      dispatchMessage({ jsonrpc: '2.0', id: 2, method: 'wait' }, methods, { sessionId: 'closed' }),
+    ]);
+    const open = dispatchMessage({ jsonrpc: '2.0', id: 1, method: 'wait' }, methods, { sessionId: 'open' });
+
+    cancelSessionRequests('closed');
+    expect(contexts.map(context => context.signal.aborted)).toEqual([true, true, false]);
+    expect(await closed).toEqual([null, null]);
+
+    releases[2]();
+    expect(await open).toEqual({ jsonrpc: '2.0', id: 1, result: { done: true } });
+  });
+
+  it('rejects a request reusing the id of a pending request on the same session', async () => {
+    const { methods, contexts, releases } = createWaitingMethods();
+    const first = dispatchMessage({ jsonrpc: '2.0', id: 5, method: 'wait' }, methods, { sessionId: 'duplicate' });
+
+    expect(await dispatchMessage({ jsonrpc: '2.0', id: 5, method: 'wait' }, methods, { sessionId: 'duplicate' })).toEqual({
+      jsonrpc: '2.0',
+      id: 5,
+      error: { code: JSONRPC_ERRORS.INVALID_REQUEST, message: 'Invalid Request: id 5 is already in use by a pending request' },
+    });
+    expect(contexts).toHaveLength(1);
+
+    // The first request can still be cancelled, and its id is free again afterwards
+    expect(cancelRequest('duplicate', 5)).toBe(true);
+    expect(await first).toBeNull();
+    const reused = dispatchMessage({ jsonrpc: '2.0', id: 5, method: 'wait' }, methods, { sessionId: 'duplicate' });
+    releases[1]();
+    expect(await reused).toEqual({ jsonrpc: '2.0', id: 5, result: { done: true } });
+  });
+
+  it('sends handler notifications through the transport sink', async () => {
+    const notify = vi.fn();
+    const methods: MethodTable = {
+      work: (_params, context) => {
+        context.sendNotification('notifications/progress', { progressToken: 't', progress: 1 });
+        return {};
+      },
+    };
+
+    await dispatchMessage({ jsonrpc: '2.0', id: 1, method: 'work' }, methods, { sessionId: 'notify', notify });
+    expect(notify).toHaveBeenCalledWith({ jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: 't', progress: 1 } });
+  });
+});
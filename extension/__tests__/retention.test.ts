@@ -0,0 +1,78 @@
+// @vitest-environment node
+import { describe, expect, it, vi } from 'vitest';
+
+import { runRetention } from '../services/retention';
+import { loadState, onDidPatchState, updateState } from '../services/stateStore';
+import { getStoreSnapshot, saveStore } from '../services/webviewStorage';
+
+import type { RetainedSession } from '../../shared/retention';
+import type { ExtensionContext, Memento } from 'vscode';
+
+// The host job around the shared rules; the rules themselves are tested in webview/__tests__/retention.test.ts
+vi.mock('vscode', () => ({ window: { showInformationMessage: vi.fn() }, workspace: {} }));
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = 100 * DAY;
+// Without workspace folders stores and state live under this key
+const KEY = 'global';
+
+function createMemento(): Memento {
+  const values = new Map<string, unknown>();
+  return {
+    keys: () => [...values.keys()],
+    get: (key: string, defaultValue?: unknown) => values.has(key) ? structuredClone(values.get(key)) : defaultValue,
+    update: async (key: string, value: unknown) => {
+      values.set(key, structuredClone(value));
+    },
+  } as Memento;
+}
+
+function session(id: string, daysAgo: number): RetainedSession & { id: string } {
+  return { id, status: 'completed', updatedAt: NOW - daysAgo * DAY, messageCount: 1, continueCount: 0, endCount: 1, totalDuration: 1000, messages: [{}] };
+}
+
+async function createContext(): Promise<ExtensionContext> {
+  const context = { workspaceState: createMemento(), globalState: createMemento() } as unknown as ExtensionContext;
+  await updateState(context, state => ({
+    ...state,
+    settingsOverrides: { autoCleanHistory: true, historyRetentionDays: 30, keepSessionStatistics: false, showNotifications: false },
+    history: [
+      { id: 'h-old', conversationId: 'c', conversationName: '', workspacePath: '', timestamp: NOW - 40 * DAY, summary: '', action: 'end' },
+      { id: 'h-new', conversationId: 'c', conversationName: '', workspacePath: '', timestamp: NOW - DAY, summary: '', action: 'end' },
+    ],
+  }));
+  saveStore(context, KEY, 'sessions', [session('s-old', 40), session('s-new', 1)]);
+  return context;
+}
+
+describe('runRetention', () => {
+  it('writes and forwards the pruned sessions after the state change is stored', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const context = await createContext();
+    const onStoresPruned = vi.fn(() => {
+      // The pruned history is already stored when the sessions are forwarded
+      expect(loadState(context).history.map(item => item.id)).toEqual(['h-new']);
+    });
+
+    const report = await runRetention(context, onStoresPruned, NOW);
+
+    expect(report).toMatchObject({ history: 1, sessions: 1 });
+    expect(onStoresPruned).toHaveBeenCalledWith({ sessions: [session('s-new', 1)] });
+    expect(getStoreSnapshot(context, KEY).sessions).toEqual([session('s-new', 1)]);
+  });
+
+  it('prunes the sessions a panel saved while the state change was written', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const context = await createContext();
+    const saved = [session('s-old', 40), session('s-new', 1), session('s-latest', 0)];
+    const unsubscribe = onDidPatchState(() => saveStore(context, KEY, 'sessions', saved));
+    const onStoresPruned = vi.fn();
+
+    const report = await runRetention(context, onStoresPruned, NOW);
+    unsubscribe();
+
+    expect(report).toMatchObject({ history: 1, sessions: 1 });
+    expect(onStoresPruned).toHaveBeenCalledWith({ sessions: [session('s-new', 1), session('s-latest', 0)] });
+    expect(getStoreSnapshot(context, KEY).sessions).toEqual([session('s-new', 1), session('s-latest', 0)]);
+  });
+});
@@ -0,0 +1,157 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { STATE_VERSION } from '../services/persistedState';
+import { applyCommand, loadState, queueStoreWrite, readState, updateState } from '../services/stateStore';
+import { getStoreSnapshot, saveStore } from '../services/webviewStorage';
+
+import type { ExtensionContext, Memento } from 'vscode';
+
+const { showWarningMessage } = vi.hoisted(() => ({ showWarningMessage: vi.fn() }));
+
+vi.mock('vscode', () => ({ window: { showWarningMessage }, workspace: {} }));
+
+// Without workspace folders the state lives under this key
+const KEY = 'global';
+const STORAGE_KEY = 'windsurf-endless:state';
+const QUARANTINE_KEY = 'windsurf-endless:state-quarantine';
+
+function createMemento(): Memento {
+  const values = new Map<string, unknown>();
+  return {
+    keys: () => [...values.keys()],
+    get: (key: string, defaultValue?: unknown) => values.has(key) ? structuredClone(values.get(key)) : defaultValue,
+    update: async (key: string, value: unknown) => {
+      values.set(key, structuredClone(value));
+    },
+  } as Memento;
+}
+
+function createContext(stored?: unknown): ExtensionContext {
+  const workspaceState = createMemento();
+  if (stored !== undefined) {
+    workspaceState.update(STORAGE_KEY, { [KEY]: stored });
+  }
+  return { workspaceState, globalState: createMemento() } as unknown as ExtensionContext;
+}
+
+function storedState(context: ExtensionContext) {
+  return context.workspaceState.get<Record<string, any>>(STORAGE_KEY)?.[KEY];
+}
+
+// Resolves once the writes queued before it are done
+function flushQueue(context: ExtensionContext) {
+  return readState(context, () => undefined);
+}
+
+function statistics(totalSessions: number, totalMessages: number) {
+  return { totalSessions, activeSessions: totalSessions, completedSessions: 0, totalMessages, totalContinues: 0, totalEnds: 0, averageSessionDuration: 0, averageMessagesPerSession: 0 };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  showWarningMessage.mockClear();
+});
+
+describe('loadState', () => {
+  it('writes back migrated state through the queue', async () => {
+    const context = createContext({ settings: { dialogTimeout: 60 }, conversations: [], history: [] });
+
+    expect(loadState(context).settingsOverrides).toEqual({ dialogTimeout: 60 });
+    expect(storedState(context).schemaVersion).toBeUndefined();
+    await flushQueue(context);
+
+    expect(storedState(context)).toMatchObject({ schemaVersion: STATE_VERSION, settingsOverrides: { dialogTimeout: 60 } });
+    expect(storedState(context)).not.toHaveProperty('settings');
+  });
+
+  it('does not overwrite a change queued after the state was loaded', async () => {
+    const context = createContext({ settings: {}, conversations: [], history: [] });
+
+    loadState(context);
+    await updateState(context, state => ({ ...state, activeConversationId: 'c1' }));
+    await flushQueue(context);
+
+    expect(storedState(context).activeConversationId).toBe('c1');
+  });
+
+  it('quarantines invalid entries before writing back the valid ones', async () => {
+    const context = createContext({ schemaVersion: STATE_VERSION, conversations: [{ id: 'c1' }], history: [] });
+
+    expect(loadState(context).conversations).toEqual([]);
+    await flushQueue(context);
+
+    expect(storedState(context).conversations).toEqual([]);
+    expect(context.workspaceState.get<any>(QUARANTINE_KEY)[KEY]).toMatchObject([{ data: [{ id: 'c1' }] }]);
+  });
+
+  it('quarantines state written by a newer version once and starts over', async () => {
+    const newer = { schemaVersion: STATE_VERSION + 1, conversations: [{ id: 'c1', name: 'Kept' }] };
+    const context = createContext(newer);
+
+    expect(loadState(context).conversations).toEqual([]);
+    loadState(context);
+    await flushQueue(context);
+
+    expect(context.workspaceState.get<any>(QUARANTINE_KEY)[KEY]).toEqual([{ quarantinedAt: expect.any(Number), reason: expect.any(String), data: newer }]);
+    expect(storedState(context)).toMatchObject({ schemaVersion: STATE_VERSION, conversations: [] });
+    expect(showWarningMessage).toHaveBeenCalledOnce();
+  });
+
+  it('logs a write-back that fails instead of rejecting', async () => {
+    const context = createContext({ settings: {} });
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(context.workspaceState, 'update').mockRejectedValue(new Error('disk full'));
+
+    loadState(context);
+    await flushQueue(context);
+
+    expect(error).toHaveBeenCalledWith(expect.stringContaining('[StateStore]'), new Error('disk full'));
+  });
+});
+
+describe('applyCommand', () => {
+  it('drops invalid and unknown settings from save_settings', async () => {
+    const context = createContext();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await applyCommand(context, { type: 'save_settings', data: { values: { autoStart: false, dialogTimeout: 'soon', injected: true }, scope: 'global' } });
+    const next = await applyCommand(context, { type: 'save_settings', data: { values: { dialogPosition: 'nowhere', maxHistoryItems: 20 }, scope: 'workspace' } });
+
+    expect(next.globalSettings).toEqual({ autoStart: false });
+    expect(next.settingsOverrides).toEqual({ maxHistoryItems: 20 });
+    expect(loadState(context).settings).toMatchObject({ autoStart: false, maxHistoryItems: 20, dialogPosition: 'center' });
+  });
+});
+
+describe('queueStoreWrite', () => {
+  it('keeps the sessions two panels write at the same time', async () => {
+    const context = createContext();
+    const base = [{ id: 's1', name: 'First' }, { id: 's2', name: 'Second' }];
+    await saveStore(context, KEY, 'sessions', base);
+    await saveStore(context, KEY, 'sessionStatistics', statistics(2, 4));
+
+    // Both panels edit the same copy: one adds a session and renames one, the other deletes one and adds its own
+    await Promise.all([
+      queueStoreWrite(context, KEY, 'sessions', [{ id: 's1', name: 'Renamed' }, base[1], { id: 'a', name: 'From A' }], base),
+      queueStoreWrite(context, KEY, 'sessionStatistics', statistics(3, 5), statistics(2, 4)),
+      queueStoreWrite(context, KEY, 'sessions', [base[0], { id: 'b', name: 'From B' }], base),
+      queueStoreWrite(context, KEY, 'sessionStatistics', { ...statistics(2, 4), totalMessages: 6 }, statistics(2, 4)),
+    ]);
+
+    expect(getStoreSnapshot(context, KEY).sessions).toEqual([{ id: 's1', name: 'Renamed' }, { id: 'a', name: 'From A' }, { id: 'b', name: 'From B' }]);
+    expect(getStoreSnapshot(context, KEY).sessionStatistics).toEqual(statistics(3, 7));
+  });
+
+  it('replaces stores that are not merged', async () => {
+    const context = createContext();
+    await saveStore(context, KEY, 'prompts', [{ id: 'p1' }]);
+
+    await expect(queueStoreWrite(context, KEY, 'prompts', [{ id: 'p2' }], [])).resolves.toEqual([{ id: 'p2' }]);
+    expect(getStoreSnapshot(context, KEY).prompts).toEqual([{ id: 'p2' }]);
+  });
+});
@@ -1,17 +1,27 @@
-import { commands, env, window, workspace } from 'vscode';
+import { commands, window, workspace } from 'vscode';
+
+import { setLanguage, t } from '../shared/i18n';
 
 import {
   setEnvironmentConfig,
   setFillInputHandler,
   setPopupHandler,
   setPromptOptimizerHandler,
+  setPromptProvider,
+  setResourceProvider,
   startHTTPServer,
   stopHTTPServer,
 } from './mcp';
+import { onDidChangeCheckpointQueue } from './services/checkpointQueue';
 import { configureMCP, defaultMCPConfig, injectRules, removeMCPConfig } from './services/config';
+import { createHistoryResourceProvider } from './services/historyResources';
+import { createPromptLibraryProvider } from './services/promptLibrary';
 import { isWindsurfEnvironment, optimizePrompt } from './services/promptOptimizer';
-import { getMCPSettings, resetRandomizedToolNames, SidebarPanelProvider } from './views/helper';
+import { scheduleRetention } from './services/retention';
+import { onDidPatchState } from './services/stateStore';
+import { broadcastCheckpointQueue, broadcastStatePatch, broadcastStoreUpdate, getMCPSettings, getSettings, resetRandomizedToolNames, SidebarPanelProvider } from './views/helper';
 import { InfiniteAskPanel } from './views/infiniteAskPanel';
+import { showNativeCheckpoint } from './views/nativeCheckpoint';
 
 import type { ExtensionContext } from 'vscode';
 
@@ -22,69 +32,61 @@ export function activate(context: ExtensionContext) {
   const isWindsurf = isWindsurfEnvironment();
   console.log(`Environment: ${isWindsurf ? 'Windsurf' : 'VSCode/Cursor'}`);
   setEnvironmentConfig({ isWindsurf });
+  setLanguage(getSettings(context).language);
 
   // Set up VSCode popup handler for MCP server
   setPopupHandler(async (request) => {
-    const result = await InfiniteAskPanel.show(context, {
+    const options = {
       summary: request.summary,
       reason: request.reason,
-    });
+      source: request.source,
+      sessionId: request.sessionId,
+      signal: request.signal,
+    };
+    // Settings live in workspaceState, so the mode can differ per workspace
+    const result = getSettings(context).checkpointMode === 'native'
+      ? await showNativeCheckpoint(context, options)
+      : await InfiniteAskPanel.show(context, options);
     return result;
   });
 
   // Set up prompt optimizer handler for MCP server
   setPromptOptimizerHandler(async (request) => {
     try {
-      const result = await optimizePrompt(request.prompt);
+      const result = await optimizePrompt(context, request.prompt, { profile: request.profile, signal: request.signal });
       return {
         success: result.success,
         optimizedPrompt: result.optimizedPrompt,
         error: result.error,
+        systemPrompt: result.systemPrompt,
       };
     }
     catch (error: any) {
       return {
         success: false,
-        error: error.message || '优化提示词时发生错误',
+        error: error.message || t('optimizer.error'),
       };
     }
   });
 
-  // Set up fill input handler for MCP server
-  // This fills the Windsurf Endless dialog input if open, otherwise uses clipboard
-  setFillInputHandler(async (request) => {
-    try {
-      // First, try to fill the Windsurf Endless dialog if it's open
-      const filledDialog = await InfiniteAskPanel.fillInput(request.content);
+  // Keep the sidebar queue in sync with pending checkpoints
+  context.subscriptions.push({ dispose: onDidChangeCheckpointQueue(broadcastCheckpointQueue) });
 
-      if (filledDialog) {
-        // Content was sent to the dialog's input box
-        window.showInformationMessage('优化后的提示词已填入对话框输入框');
-        return { success: true };
-      }
+  // Every panel applies the patches of state changes, whichever panel or host code made them
+  context.subscriptions.push({ dispose: onDidPatchState(broadcastStatePatch) });
 
-      // Dialog not open - use clipboard method for main Cascade input
-      await env.clipboard.writeText(request.content);
-
-      // Show notification with the content for manual paste
-      window.showInformationMessage(
-        '优化后的提示词已复制到剪贴板，请按 Ctrl+V 粘贴到输入框。',
-        '查看内容',
-      ).then((selection) => {
-        if (selection === '查看内容') {
-          window.showInformationMessage(request.content.substring(0, 200) + (request.content.length > 200 ? '...' : ''));
-        }
-      });
+  // Prune old conversations, history and sessions now and once a day
+  context.subscriptions.push(scheduleRetention(context, broadcastStoreUpdate));
 
-      return { success: true };
-    }
-    catch (error: any) {
-      return {
-        success: false,
-        error: error.message || '填入输入框时发生错误',
-      };
-    }
-  });
+  // Expose conversation history to the AI as MCP resources
+  setResourceProvider(createHistoryResourceProvider(context));
+
+  // Serve the synced template library as MCP prompts
+  setPromptProvider(createPromptLibraryProvider(context));
+
+  // Set up fill input handler for MCP server
+  // This fills the calling session's Windsurf Endless dialog, or uses the clipboard when it has none
+  setFillInputHandler(request => InfiniteAskPanel.fillInputOrCopy(request));
 
   // Start HTTP MCP server for HTTP transport mode
   // Load saved MCP settings or use defaults
@@ -95,7 +97,7 @@ export function activate(context: ExtensionContext) {
     console.log(`MCP HTTP server started on port ${serverPort}`);
   }).catch((error) => {
     console.error('Failed to start MCP HTTP server:', error);
-    window.showErrorMessage(`无法启动 MCP 服务器 (端口 ${serverPort}): ${error.message || error}`);
+    window.showErrorMessage(t('host.serverStartFailed', { port: serverPort, error: error.message || error }));
   });
 
   // 1. Initial Configuration - Configure MCP and inject rules
@@ -128,6 +130,12 @@ export function activate(context: ExtensionContext) {
       await commands.executeCommand('windsurf-endless.sidebarView.focus');
     }),
 
+    // Search history, sessions and conversations from the sidebar
+    commands.registerCommand('windsurf-endless.search', async () => {
+      await commands.executeCommand('windsurf-endless.sidebarView.focus');
+      sidebarProvider.focusSearch();
+    }),
+
     // Manual configuration command
     commands.registerCommand('windsurf-endless.configure', async () => {
       const currentSettings = getMCPSettings(context);
@@ -136,42 +144,38 @@ export function activate(context: ExtensionContext) {
         serverPort: currentSettings?.serverPort ?? defaultMCPConfig.serverPort,
       });
       injectRules(context);
-      window.showInformationMessage('Windsurf Endless: Configuration updated successfully!');
+      window.showInformationMessage(t('host.configUpdated'));
     }),
 
     // Show Windsurf Endless dialog (for testing)
     commands.registerCommand('windsurf-endless.showInfiniteAsk', async () => {
       const result = await InfiniteAskPanel.show(context, {
-        summary: '测试对话框',
-        reason: '这是一个测试消息，用于验证 Windsurf Endless 功能是否正常工作。',
+        summary: t('host.testSummary'),
+        reason: t('host.testReason'),
       });
 
       if (result.shouldContinue) {
-        window.showInformationMessage(
-          `用户选择继续${result.userInstruction ? `，指令: ${result.userInstruction}` : ''}`,
-        );
+        window.showInformationMessage(result.userInstruction
+          ? t('host.userContinuedWithInstruction', { instruction: result.userInstruction })
+          : t('host.userContinued'));
       }
       else {
-        window.showInformationMessage('用户选择结束对话');
+        window.showInformationMessage(t('host.userEnded'));
       }
     }),
 
     // Remove MCP configuration
     commands.registerCommand('windsurf-endless.removeConfig', async () => {
       removeMCPConfig();
-      window.showInformationMessage('Windsurf Endless: MCP configuration removed.');
+      window.showInformationMessage(t('host.configRemoved'));
     }),
 
     // Restart extension / reload window
     commands.registerCommand('windsurf-endless.restart', async () => {
-      const choice = await window.showWarningMessage(
-        '确定要重新加载窗口吗？这将重启所有扩展。',
-        { modal: true },
-        '确定',
-        '取消',
-      );
-
-      if (choice === '确定') {
+      const confirm = t('common.confirm');
+      const choice = await window.showWarningMessage(t('host.confirmReload'), { modal: true }, confirm);
+
+      if (choice === confirm) {
         await commands.executeCommand('workbench.action.reloadWindow');
       }
     }),
@@ -180,7 +184,7 @@ export function activate(context: ExtensionContext) {
     commands.registerCommand('windsurf-endless.openMcpSettings', async () => {
       // Focus sidebar and navigate to settings
       await commands.executeCommand('windsurf-endless.sidebarView.focus');
-      window.showInformationMessage('请在侧边栏的"设置"标签页中配置 MCP 服务器。');
+      window.showInformationMessage(t('host.openMcpSettings'));
     }),
   );
 
@@ -197,6 +201,8 @@ export function deactivate() {
   setPopupHandler(null);
   setPromptOptimizerHandler(null);
   setFillInputHandler(null);
+  setResourceProvider(null);
+  setPromptProvider(null);
   // Reset randomized tool names for next activation
   resetRandomizedToolNames();
   // Stop HTTP server on deactivation
@@ -6,12 +6,17 @@ export {
   checkPortAvailable,
   findAvailablePort,
   getServerState,
+  MAX_IMAGE_BYTES,
+  MAX_IMAGES_PER_RESULT,
+  notifyPromptListChanged,
   REQUEST_TIMEOUT,
   restartHTTPServer,
   setEnvironmentConfig,
   setFillInputHandler,
   setPopupHandler,
   setPromptOptimizerHandler,
+  setPromptProvider,
+  setResourceProvider,
   showLocalPopup,
   startHTTPServer,
   startMCPServer,
@@ -25,13 +30,22 @@ export type {
   FillInputHandler,
   FillInputRequest,
   FillInputResult,
+  MCPPrompt,
+  MCPPromptArgument,
+  MCPPromptMessage,
+  MCPResource,
+  MCPResourceContents,
+  MCPResourceTemplate,
   PopupHandler,
+  PopupImage,
   PopupRequest,
   PopupResult,
   PromptOptimizeConfig,
   PromptOptimizeRequest,
   PromptOptimizeResult,
   PromptOptimizerHandler,
+  PromptProvider,
+  ResourceProvider,
   ServerState,
   ServerStateCallback,
   TransportType,
@@ -0,0 +1,319 @@
+/**
+ * MCP JSON-RPC Protocol Layer
+ * Transport-agnostic dispatching shared by the stdio and HTTP transports
+ */
+
+// ==================== Constants ====================
+export const JSONRPC_VERSION = '2.0';
+
+// Newest first; the first entry is offered when the client asks for a version we do not speak
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+export const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
+// First protocol version without JSON-RPC batching
+const BATCHING_REMOVED_VERSION = '2025-06-18';
+
+export const JSONRPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  // MCP-specific: resources/read for an unknown URI
+  RESOURCE_NOT_FOUND: -32002,
+} as const;
+
+// ==================== Types ====================
+export type JSONRPCId = string | number;
+
+export interface JSONRPCRequest {
+  jsonrpc: typeof JSONRPC_VERSION;
+  id?: JSONRPCId;
+  method: string;
+  params?: Record<string, any> | any[];
+}
+
+export interface JSONRPCResponse {
+  jsonrpc: typeof JSONRPC_VERSION;
+  id: JSONRPCId | null;
+  result?: any;
+  error?: { code: number; message: string; data?: any };
+}
+
+/** Result of dispatching one message or batch; null when nothing needs to be sent back */
+export type JSONRPCReply = JSONRPCResponse | JSONRPCResponse[] | null;
+
+/**
+ * Per-request context handed to method handlers
+ */
+export interface RequestContext {
+  /** Connection the request arrived on; request ids are only unique within one session */
+  sessionId: string;
+  request: JSONRPCRequest;
+  /** Aborted when the client sends notifications/cancelled for this request */
+  signal: AbortSignal;
+  /** Push a notification to the client over the transport that carried the request */
+  sendNotification: (method: string, params?: Record<string, any>) => void;
+}
+
+/** Handler for one method; the return value becomes `result` (ignored for notifications) */
+export type MethodHandler = (params: any, context: RequestContext) => any;
+
+export type MethodTable = Record<string, MethodHandler>;
+
+export interface DispatchOptions {
+  sessionId: string;
+  /** Version the session negotiated in `initialize`; absent before that */
+  protocolVersion?: string;
+  /** Transport sink for server-to-client notifications; notifications are dropped when omitted */
+  notify?: (message: JSONRPCRequest) => void;
+}
+
+/**
+ * Error carrying a JSON-RPC error code, thrown by method handlers
+ */
+export class JSONRPCError extends Error {
+  constructor(
+    public readonly code: number,
+    message: string,
+    public readonly data?: any,
+  ) {
+    super(message);
+    this.name = 'JSONRPCError';
+  }
+}
+
+// ==================== Helpers ====================
+export function createErrorResponse(id: JSONRPCId | null, code: number, message: string, data?: any): JSONRPCResponse {
+  return {
+    jsonrpc: JSONRPC_VERSION,
+    id,
+    error: data === undefined ? { code, message } : { code, message, data },
+  };
+}
+
+/**
+ * Pick the protocol version to answer `initialize` with
+ * Echoes the client's version when supported, otherwise offers our latest
+ */
+export function negotiateProtocolVersion(requested: unknown): string {
+  return typeof requested === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+    ? requested
+    : LATEST_PROTOCOL_VERSION;
+}
+
+export function isSupportedProtocolVersion(version: string): boolean {
+  return SUPPORTED_PROTOCOL_VERSIONS.includes(version);
+}
+
+/**
+ * Batches are allowed before a version is negotiated and for versions older than BATCHING_REMOVED_VERSION
+ * Versions are dates, so they compare as strings
+ */
+function allowsBatching(version: string | undefined): boolean {
+  return version === undefined || version < BATCHING_REMOVED_VERSION;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isValidId(id: unknown): id is JSONRPCId {
+  return typeof id === 'string' || (typeof id === 'number' && Number.isFinite(id));
+}
+
+function isValidRequest(message: any): message is JSONRPCRequest {
+  return message !== null
+    && typeof message === 'object'
+    && !Array.isArray(message)
+    && message.jsonrpc === JSONRPC_VERSION
+    && typeof message.method === 'string'
+    && (!('id' in message) || isValidId(message.id))
+    && (message.params === undefined || (message.params !== null && typeof message.params === 'object'));
+}
+
+/**
+ * Responses from the client (to server-initiated requests) carry no method and need no reply
+ */
+function isClientResponse(message: any): boolean {
+  return message !== null
+    && typeof message === 'object'
+    && message.method === undefined
+    && ('result' in message || 'error' in message);
+}
+
+/**
+ * Read the progress token a client attached to a request, if any
+ */
+export function getProgressToken(params: unknown): JSONRPCId | undefined {
+  const token = isRecord(params) && isRecord(params._meta) ? params._meta.progressToken : undefined;
+  return isValidId(token) ? token : undefined;
+}
+
+/**
+ * True when the payload (single message or batch) contains an `initialize` request
+ */
+export function isInitializeRequest(payload: unknown): boolean {
+  const messages = Array.isArray(payload) ? payload : [payload];
+  return messages.some(message => message?.method === 'initialize');
+}
+
+/**
+ * Protocol version a single `initialize` request settles on, the same one its response carries
+ * @returns undefined when the payload is anything else
+ */
+export function getInitializeProtocolVersion(payload: unknown): string | undefined {
+  if (!isRecord(payload) || payload.method !== 'initialize') {
+    return undefined;
+  }
+  return negotiateProtocolVersion(isRecord(payload.params) ? payload.params.protocolVersion : undefined);
+}
+
+/**
+ * Parse raw transport text into a JSON-RPC payload
+ * @returns The parsed payload, or a ready-to-send -32700 error response
+ */
+export function parseMessage(text: string): { payload: unknown } | { error: JSONRPCResponse } {
+  try {
+    return { payload: JSON.parse(text) };
+  }
+  catch {
+    return { error: createErrorResponse(null, JSONRPC_ERRORS.PARSE_ERROR, 'Parse error') };
+  }
+}
+
+// ==================== Cancellation ====================
+// In-flight requests per session, so notifications/cancelled can abort the matching handler
+const inFlightRequests = new Map<string, Map<JSONRPCId, AbortController>>();
+
+function isInFlight(sessionId: string, id: JSONRPCId): boolean {
+  return inFlightRequests.get(sessionId)?.has(id) ?? false;
+}
+
+function trackRequest(sessionId: string, id: JSONRPCId): AbortController {
+  const controller = new AbortController();
+  let requests = inFlightRequests.get(sessionId);
+  if (!requests) {
+    requests = new Map();
+    inFlightRequests.set(sessionId, requests);
+  }
+  requests.set(id, controller);
+  return controller;
+}
+
+function untrackRequest(sessionId: string, id: JSONRPCId, controller: AbortController): void {
+  const requests = inFlightRequests.get(sessionId);
+  if (requests?.get(id) === controller) {
+    requests.delete(id);
+    if (requests.size === 0) {
+      inFlightRequests.delete(sessionId);
+    }
+  }
+}
+
+/**
+ * Abort an in-flight request
+ * @returns false when no such request is running (already finished or unknown)
+ */
+export function cancelRequest(sessionId: string, requestId: JSONRPCId, reason?: string): boolean {
+  const controller = inFlightRequests.get(sessionId)?.get(requestId);
+  if (!controller) {
+    return false;
+  }
+  controller.abort(reason ?? 'Request cancelled by client');
+  return true;
+}
+
+export function hasInFlightRequests(sessionId: string): boolean {
+  return (inFlightRequests.get(sessionId)?.size ?? 0) > 0;
+}
+
+/**
+ * Abort every in-flight request of a session, e.g. when its connection goes away
+ */
+export function cancelSessionRequests(sessionId: string, reason = 'Session closed'): void {
+  const requests = inFlightRequests.get(sessionId);
+  if (!requests) {
+    return;
+  }
+  inFlightRequests.delete(sessionId);
+  requests.forEach(controller => controller.abort(reason));
+}
+
+// ==================== Dispatcher ====================
+async function dispatchSingle(message: unknown, methods: MethodTable, options: DispatchOptions): Promise<JSONRPCResponse | null> {
+  if (isClientResponse(message)) {
+    return null;
+  }
+
+  if (!isValidRequest(message)) {
+    const id = isRecord(message) ? message.id : undefined;
+    return createErrorResponse(isValidId(id) ? id : null, JSONRPC_ERRORS.INVALID_REQUEST, 'Invalid Request');
+  }
+
+  const { id, method, params } = message;
+  const isNotification = id === undefined;
+  const handler = Object.hasOwn(methods, method) ? methods[method] : undefined;
+
+  if (!handler) {
+    // Unknown notifications are ignored, as required by JSON-RPC
+    return isNotification
+      ? null
+      : createErrorResponse(id, JSONRPC_ERRORS.METHOD_NOT_FOUND, `Unknown method: ${method}`);
+  }
+
+  // A second request reusing a pending id could never be cancelled on its own
+  if (!isNotification && isInFlight(options.sessionId, id)) {
+    return createErrorResponse(id, JSONRPC_ERRORS.INVALID_REQUEST, `Invalid Request: id ${id} is already in use by a pending request`);
+  }
+
+  const controller = isNotification ? new AbortController() : trackRequest(options.sessionId, id);
+  const context: RequestContext = {
+    sessionId: options.sessionId,
+    request: message,
+    signal: controller.signal,
+    sendNotification: (notificationMethod, notificationParams) => {
+      options.notify?.({ jsonrpc: JSONRPC_VERSION, method: notificationMethod, params: notificationParams });
+    },
+  };
+
+  try {
+    const result = await handler(params, context);
+    // A cancelled request must not be answered
+    if (isNotification || controller.signal.aborted) {
+      return null;
+    }
+    return { jsonrpc: JSONRPC_VERSION, id, result: result ?? {} };
+  }
+  catch (error: any) {
+    if (isNotification || controller.signal.aborted) {
+      return null;
+    }
+    return error instanceof JSONRPCError
+      ? createErrorResponse(id, error.code, error.message, error.data)
+      : createErrorResponse(id, JSONRPC_ERRORS.INTERNAL_ERROR, error?.message ?? String(error));
+  }
+  finally {
+    if (!isNotification) {
+      untrackRequest(options.sessionId, id, controller);
+    }
+  }
+}
+
+/**
+ * Dispatch a parsed JSON-RPC payload (single message or batch) against a method table
+ * Batch members run concurrently; notifications never produce a response
+ */
+export async function dispatchMessage(payload: unknown, methods: MethodTable, options: DispatchOptions): Promise<JSONRPCReply> {
+  if (Array.isArray(payload)) {
+    if (!allowsBatching(options.protocolVersion)) {
+      return createErrorResponse(null, JSONRPC_ERRORS.INVALID_REQUEST, `Invalid Request: batches are not supported in protocol version ${options.protocolVersion}`);
+    }
+    if (payload.length === 0) {
+      return createErrorResponse(null, JSONRPC_ERRORS.INVALID_REQUEST, 'Invalid Request: empty batch');
+    }
+    const responses = await Promise.all(payload.map(message => dispatchSingle(message, methods, options)));
+    const replies = responses.filter((response): response is JSONRPCResponse => response !== null);
+    return replies.length > 0 ? replies : null;
+  }
+  return dispatchSingle(payload, methods, options);
+}
@@ -11,6 +11,7 @@ import * as os from 'node:os';
 import * as path from 'node:path';
 import * as readline from 'node:readline';
 
+import { t } from '../../shared/i18n';
 // ==================== MCP Protocol ====================
 // Import randomized tool name utilities
 import {
@@ -20,12 +21,34 @@ import {
   isPromptRefinerToolName,
 } from '../views/helper';
 
+import {
+  cancelRequest,
+  cancelSessionRequests,
+  createErrorResponse,
+  dispatchMessage,
+  getInitializeProtocolVersion,
+  getProgressToken,
+  hasInFlightRequests,
+  isInitializeRequest,
+  isSupportedProtocolVersion,
+  JSONRPC_ERRORS,
+  JSONRPCError,
+  negotiateProtocolVersion,
+  parseMessage,
+} from './protocol';
+
+import type { DispatchOptions, JSONRPCReply, JSONRPCRequest, MethodTable, RequestContext } from './protocol';
 import type { ChildProcess } from 'node:child_process';
 import type { IncomingMessage, ServerResponse } from 'node:http';
 
 // ==================== Constants ====================
 export const VERSION = '1.0.0';
 export const REQUEST_TIMEOUT = 24 * 60 * 60 * 1000; // 24 hours
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024; // 5 MB per decoded image
+export const MAX_IMAGES_PER_RESULT = 5;
+// How often notifications/progress is sent while a checkpoint waits for the user
+export const PROGRESS_HEARTBEAT_INTERVAL = 30 * 1000;
+const SUPPORTED_IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
 
 // Transport types
 export type TransportType = 'http' | 'stdio' | 'auto';
@@ -56,12 +79,28 @@ let currentServerState: ServerState = {
   clientCount: 0,
 };
 
-// Forward declaration for SSE clients (used in getServerState)
-interface SSEClient {
+// Forward declaration for HTTP sessions (used in getServerState)
+// 'sse' sessions use the legacy GET /sse + POST /message?sessionId= pair,
+// 'streamable' sessions use the single-endpoint Streamable HTTP transport with Mcp-Session-Id headers
+type SessionTransport = 'sse' | 'streamable';
+
+interface MCPSession {
   id: string;
-  res: http.ServerResponse;
+  transport: SessionTransport;
+  stream: http.ServerResponse | null; // Open SSE stream for server-to-client messages
+  createdAt: number;
+  lastActivityAt: number;
 }
-let sseClients: SSEClient[] = [];
+const sessions = new Map<string, MCPSession>();
+
+// stdio carries exactly one client, so all its messages share one session
+const STDIO_SESSION_ID = 'stdio';
+
+// clientInfo.name reported by each session's initialize request, shown as the checkpoint source
+const clientNames = new Map<string, string>();
+
+// Protocol version each session negotiated in initialize; newer versions do not allow batches
+const protocolVersions = new Map<string, string>();
 
 /**
  * Subscribe to server state changes
@@ -90,23 +129,46 @@ export function getServerState(): ServerState {
     uptime: currentServerState.startedAt
       ? Math.floor((Date.now() - currentServerState.startedAt) / 1000)
       : 0,
-    clientCount: sseClients.length,
+    clientCount: sessions.size,
   };
 }
 
 // ==================== Types ====================
+export interface PopupImage {
+  id?: string;
+  name?: string;
+  dataUrl: string;
+}
+
 export interface PopupResult {
   shouldContinue: boolean;
   userInstruction?: string;
+  images?: PopupImage[];
+  /** Template the user picked in the dialog, if any */
+  selectedTemplateId?: string;
+  /** Epoch milliseconds when the user answered */
+  respondedAt?: number;
+  /** 'timeout' when nobody answered and the configured default action was applied */
+  resolution?: 'user' | 'timeout';
 }
 
 export interface PopupRequest {
   summary?: string;
   reason?: string;
+  /** Aborted when the MCP client cancels the tool call; the popup should close and settle */
+  signal?: AbortSignal;
+  /** Human-readable origin of the call: client name and session */
+  source?: string;
+  /** MCP session that made the call, used to route input_bridge content back to its dialog */
+  sessionId?: string;
 }
 
 export interface PromptOptimizeRequest {
   prompt: string;
+  /** Optimization profile id or name; the default profile when omitted */
+  profile?: string;
+  /** Aborted when the MCP client cancels the tool call */
+  signal?: AbortSignal;
 }
 
 export interface PromptOptimizeConfig {
@@ -121,9 +183,9 @@ let environmentConfig: PromptOptimizeConfig = {
 /**
  * Set environment configuration
  */
-export function setEnvironmentConfig(config: PromptOptimizeConfig): void {
+export function setEnvironmentConfig(config: Partial<PromptOptimizeConfig>): void {
   environmentConfig = { ...environmentConfig, ...config };
-  log('INFO', `Environment config updated: isWindsurf=${config.isWindsurf}`);
+  log('INFO', `Environment config updated: isWindsurf=${environmentConfig.isWindsurf}`);
 }
 
 /**
@@ -137,10 +199,14 @@ export interface PromptOptimizeResult {
   success: boolean;
   optimizedPrompt?: string;
   error?: string;
+  /** Instructions of the profile that was applied, so the AI can follow them itself when no provider works */
+  systemPrompt?: string;
 }
 
 export interface FillInputRequest {
   content: string;
+  /** MCP session that made the call; only that session's checkpoint dialog may be filled */
+  sessionId?: string;
 }
 
 export interface FillInputResult {
@@ -148,6 +214,65 @@ export interface FillInputResult {
   error?: string;
 }
 
+export interface MCPResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface MCPResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface MCPResourceContents {
+  uri: string;
+  mimeType?: string;
+  text: string;
+}
+
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface MCPPrompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: MCPPromptArgument[];
+}
+
+export interface MCPPromptMessage {
+  role: 'user' | 'assistant';
+  content: { type: 'text'; text: string };
+}
+
+/**
+ * Source of MCP prompts (implemented by the extension on top of the template library)
+ */
+export interface PromptProvider {
+  listPrompts: () => MCPPrompt[] | Promise<MCPPrompt[]>;
+  /** Returns null when no prompt has this name; required arguments are validated by the server */
+  getPrompt: (name: string, args: Record<string, string>) =>
+    { description?: string; messages: MCPPromptMessage[] } | null
+    | Promise<{ description?: string; messages: MCPPromptMessage[] } | null>;
+}
+
+/**
+ * Source of MCP resources (implemented by the extension on top of workspace state)
+ */
+export interface ResourceProvider {
+  listResources: () => MCPResource[] | Promise<MCPResource[]>;
+  listResourceTemplates: () => MCPResourceTemplate[];
+  /** Returns null when the URI does not name a known resource */
+  readResource: (uri: string) => MCPResourceContents[] | null | Promise<MCPResourceContents[] | null>;
+}
+
 // Custom popup handler type (for VSCode integration)
 export type PopupHandler = (request: PopupRequest) => Promise<PopupResult>;
 
@@ -166,6 +291,12 @@ let customPromptOptimizerHandler: PromptOptimizerHandler | null = null;
 // Global fill input handler - can be set by extension
 let customFillInputHandler: FillInputHandler | null = null;
 
+// Global resource provider - can be set by extension
+let customResourceProvider: ResourceProvider | null = null;
+
+// Global prompt provider - can be set by extension
+let customPromptProvider: PromptProvider | null = null;
+
 /**
  * Set a custom popup handler (used by extension to integrate VSCode UI)
  */
@@ -211,11 +342,40 @@ export function getFillInputHandler(): FillInputHandler | null {
   return customFillInputHandler;
 }
 
-interface MCPRequest {
-  jsonrpc: string;
-  id?: number;
-  method: string;
-  params?: any;
+/**
+ * Set the resource provider backing resources/list and resources/read
+ */
+export function setResourceProvider(provider: ResourceProvider | null): void {
+  customResourceProvider = provider;
+  log('INFO', `Resource provider ${provider ? 'set' : 'cleared'}`);
+}
+
+/**
+ * Get current resource provider
+ */
+export function getResourceProvider(): ResourceProvider | null {
+  return customResourceProvider;
+}
+
+/**
+ * Set the prompt provider backing prompts/list and prompts/get
+ */
+export function setPromptProvider(provider: PromptProvider | null): void {
+  customPromptProvider = provider;
+  log('INFO', `Prompt provider ${provider ? 'set' : 'cleared'}`);
+}
+
+/**
+ * Get current prompt provider
+ */
+export function getPromptProvider(): PromptProvider | null {
+  return customPromptProvider;
+}
+
+interface MCPImageContent {
+  type: 'image';
+  data: string;
+  mimeType: string;
 }
 
 interface MCPTool {
@@ -226,8 +386,57 @@ interface MCPTool {
     properties: Record<string, any>;
     required: string[];
   };
+  outputSchema?: {
+    type: 'object';
+    properties: Record<string, any>;
+    required: string[];
+  };
+}
+
+/**
+ * Structured checkpoint result, returned as `structuredContent`
+ */
+interface CheckpointAttachment {
+  type: 'image';
+  name: string;
+  mimeType: string;
+  size: number; // decoded bytes
+}
+
+interface CheckpointResult {
+  shouldContinue: boolean;
+  instruction: string | null;
+  selectedTemplateId: string | null;
+  attachments: CheckpointAttachment[];
+  respondedAt: string; // ISO 8601
+  resolution: 'user' | 'timeout';
 }
 
+const CHECKPOINT_OUTPUT_SCHEMA: MCPTool['outputSchema'] = {
+  type: 'object',
+  properties: {
+    shouldContinue: { type: 'boolean' },
+    instruction: { type: ['string', 'null'] },
+    selectedTemplateId: { type: ['string', 'null'] },
+    attachments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['image'] },
+          name: { type: 'string' },
+          mimeType: { type: 'string' },
+          size: { type: 'integer' },
+        },
+        required: ['type', 'name', 'mimeType', 'size'],
+      },
+    },
+    respondedAt: { type: 'string', format: 'date-time' },
+    resolution: { type: 'string', enum: ['user', 'timeout'] },
+  },
+  required: ['shouldContinue', 'instruction', 'selectedTemplateId', 'attachments', 'respondedAt', 'resolution'],
+};
+
 // ==================== Logging ====================
 const DEBUG_MODE = process.env.DEBUG_MCP === '1';
 
@@ -245,31 +454,37 @@ function log(level: string, message: string, data?: any): void {
 
 // ==================== Local Popups ====================
 export async function showLocalPopup(request: PopupRequest): Promise<PopupResult> {
-  const summary = request.summary || request.reason || '任务已完成';
-  const reason = request.reason || request.summary || '任务已完成';
+  const summary = request.summary || request.reason || t('common.taskCompleted');
+  const reason = request.reason || request.summary || t('common.taskCompleted');
 
   // Use custom handler if available (VSCode UI)
   if (customPopupHandler) {
     log('INFO', 'Using custom popup handler (VSCode UI)', { summary, reason });
-    return customPopupHandler({ summary, reason });
+    return customPopupHandler({
+      summary,
+      reason,
+      signal: request.signal,
+      source: request.source,
+      sessionId: request.sessionId,
+    });
   }
 
   // Fallback to system popups (should not be used when extension is active)
   log('INFO', 'Using fallback system popup');
-  const displayText = summary !== reason ? `${summary}\n\n原因：${reason}` : summary;
+  const displayText = summary !== reason ? t('popup.reasonWithSummary', { summary, reason }) : summary;
   if (process.platform === 'win32') {
-    return showWindowsPopup(displayText);
+    return showWindowsPopup(displayText, request.signal);
   }
   else if (process.platform === 'darwin') {
-    return showMacPopup(displayText);
+    return showMacPopup(displayText, request.signal);
   }
   else {
-    return showLinuxPopup(displayText);
+    return showLinuxPopup(displayText, request.signal);
   }
 }
 
 // Windows (PowerShell + WinForms)
-function showWindowsPopup(reason: string): Promise<PopupResult> {
+function showWindowsPopup(reason: string, signal?: AbortSignal): Promise<PopupResult> {
   return new Promise((resolve) => {
     const escapedReason = reason.replace(/'/g, "''").replace(/`/g, '``');
     const tempFile = path.join(os.tmpdir(), `ia_result_${Date.now()}.txt`);
@@ -285,7 +500,7 @@ $form.TopMost = $true
 $lblReason = New-Object System.Windows.Forms.Label
 $lblReason.Location = New-Object System.Drawing.Point(15, 10)
 $lblReason.Size = New-Object System.Drawing.Size(400, 20)
-$lblReason.Text = 'AI想要结束对话的原因：'
+$lblReason.Text = '${t('popup.reasonLabel')}'
 $form.Controls.Add($lblReason)
 $txtReason = New-Object System.Windows.Forms.TextBox
 $txtReason.Location = New-Object System.Drawing.Point(15, 35)
@@ -297,7 +512,7 @@ $form.Controls.Add($txtReason)
 $lblInst = New-Object System.Windows.Forms.Label
 $lblInst.Location = New-Object System.Drawing.Point(15, 95)
 $lblInst.Size = New-Object System.Drawing.Size(400, 20)
-$lblInst.Text = '输入新指令（可选）：'
+$lblInst.Text = '${t('popup.instructionLabel')}'
 $form.Controls.Add($lblInst)
 $txtInst = New-Object System.Windows.Forms.TextBox
 $txtInst.Location = New-Object System.Drawing.Point(15, 120)
@@ -307,13 +522,13 @@ $form.Controls.Add($txtInst)
 $btnContinue = New-Object System.Windows.Forms.Button
 $btnContinue.Location = New-Object System.Drawing.Point(100, 220)
 $btnContinue.Size = New-Object System.Drawing.Size(100, 35)
-$btnContinue.Text = '继续执行'
+$btnContinue.Text = '${t('popup.continue')}'
 $btnContinue.DialogResult = [System.Windows.Forms.DialogResult]::OK
 $form.Controls.Add($btnContinue)
 $btnEnd = New-Object System.Windows.Forms.Button
 $btnEnd.Location = New-Object System.Drawing.Point(230, 220)
 $btnEnd.Size = New-Object System.Drawing.Size(100, 35)
-$btnEnd.Text = '结束对话'
+$btnEnd.Text = '${t('popup.end')}'
 $btnEnd.DialogResult = [System.Windows.Forms.DialogResult]::Cancel
 $form.Controls.Add($btnEnd)
 $form.AcceptButton = $btnContinue
@@ -331,24 +546,26 @@ if ($result -eq [System.Windows.Forms.DialogResult]::OK) {
       windowsHide: false,
     });
 
-    handlePopupProcess(ps, tempFile, resolve);
+    handlePopupProcess(ps, tempFile, resolve, signal);
   });
 }
 
 // MacOS (AppleScript)
-function showMacPopup(reason: string): Promise<PopupResult> {
+function showMacPopup(reason: string, signal?: AbortSignal): Promise<PopupResult> {
   return new Promise((resolve) => {
     const escapedReason = reason.replace(/"/g, '\\"').replace(/'/g, "'\\''");
+    const continueLabel = t('popup.continue');
     const appleScript = `
-set dialogResult to display dialog "AI想要结束的原因:\\n${escapedReason}\\n\\n请输入新指令(可选):" default answer "" buttons {"结束对话", "继续执行"} default button "继续执行" with title "Windsurf Endless" with icon note
+set dialogResult to display dialog "${t('popup.reasonLabel')}\\n${escapedReason}\\n\\n${t('popup.instructionLabel')}" default answer "" buttons {"${t('popup.end')}", "${continueLabel}"} default button "${continueLabel}" with title "Windsurf Endless" with icon note
 
-if button returned of dialogResult is "继续执行" then
+if button returned of dialogResult is "${continueLabel}" then
     return "CONTINUE:::" & text returned of dialogResult
 else
     return "END:::"
 end if
 `;
     const p = spawn('osascript', ['-e', appleScript]);
+    killOnAbort(p, signal);
     let output = '';
     p.stdout.on('data', (data) => {
       output += data.toString();
@@ -372,16 +589,16 @@ end if
 }
 
 // Linux (Zenity)
-function showLinuxPopup(reason: string): Promise<PopupResult> {
+function showLinuxPopup(reason: string, signal?: AbortSignal): Promise<PopupResult> {
   return new Promise((resolve) => {
     const escapedReason = reason.replace(/"/g, '\\"');
     const tempFile = path.join(os.tmpdir(), `ia_result_${Date.now()}.txt`);
     const script = `
 result=$(zenity --forms --title="Windsurf Endless" \\
-    --text="AI想要结束对话的原因：\\n${escapedReason}" \\
-    --add-entry="输入新指令（可选）：" \\
-    --ok-label="继续执行" \\
-    --cancel-label="结束对话" 2>/dev/null)
+    --text="${t('popup.reasonLabel')}\\n${escapedReason}" \\
+    --add-entry="${t('popup.instructionLabel')}" \\
+    --ok-label="${t('popup.continue')}" \\
+    --cancel-label="${t('popup.end')}" 2>/dev/null)
 
 if [ $? -eq 0 ]; then
     echo "CONTINUE:::$result" > "${tempFile}"
@@ -390,15 +607,33 @@ else
 fi
 `;
     const sh = spawn('bash', ['-c', script], { stdio: 'ignore', detached: false });
-    handlePopupProcess(sh, tempFile, resolve);
+    handlePopupProcess(sh, tempFile, resolve, signal);
   });
 }
 
+/**
+ * Close a system popup when its tool call is cancelled; the process 'close' handler then settles it
+ */
+function killOnAbort(proc: ChildProcess, signal?: AbortSignal): void {
+  if (!signal) {
+    return;
+  }
+  const onAbort = () => proc.kill();
+  if (signal.aborted) {
+    onAbort();
+    return;
+  }
+  signal.addEventListener('abort', onAbort, { once: true });
+  proc.on('close', () => signal.removeEventListener('abort', onAbort));
+}
+
 function handlePopupProcess(
   proc: ChildProcess,
   tempFile: string,
   resolve: (result: PopupResult) => void,
+  signal?: AbortSignal,
 ): void {
+  killOnAbort(proc, signal);
   proc.on('close', () => {
     try {
       if (fs.existsSync(tempFile)) {
@@ -450,6 +685,7 @@ function generateTools(): MCPTool[] {
         },
         required: ['summary'],
       },
+      outputSchema: CHECKPOINT_OUTPUT_SCHEMA,
     },
     {
       name: toolNames.promptRefiner,
@@ -459,6 +695,7 @@ function generateTools(): MCPTool[] {
         properties: {
           prompt: { type: 'string', description: '' },
           optimized_prompt: { type: 'string', description: '' },
+          profile: { type: 'string', description: '' },
         },
         required: ['prompt'],
       },
@@ -490,16 +727,6 @@ function isInputBridgeTool(name: string): boolean {
   return isInputBridgeToolName(name);
 }
 
-function sendResponse(id: number, result: any): void {
-  const response = { jsonrpc: '2.0', id, result };
-  console.log(JSON.stringify(response));
-}
-
-function sendError(id: number, code: number, message: string): void {
-  const response = { jsonrpc: '2.0', id, error: { code, message } };
-  console.log(JSON.stringify(response));
-}
-
 /**
  * Normalize MCP arguments to handle various input formats
  * - Handles string JSON input
@@ -546,7 +773,75 @@ function normalizeArgs(args: any): Record<string, any> {
   return args;
 }
 
-async function handleToolCall(name: string, args: any): Promise<any> {
+/**
+ * Convert pasted images (data URLs) into MCP image content items
+ * Images that are malformed, unsupported or over MAX_IMAGE_BYTES are skipped
+ */
+export function buildImageContent(images: PopupImage[] = []): {
+  items: MCPImageContent[];
+  attachments: CheckpointAttachment[];
+  skipped: number;
+} {
+  const items: MCPImageContent[] = [];
+  const attachments: CheckpointAttachment[] = [];
+  let skipped = 0;
+
+  for (const image of images) {
+    if (items.length >= MAX_IMAGES_PER_RESULT) {
+      skipped++;
+      continue;
+    }
+
+    const match = /^data:([^;,]+);base64,(.+)$/s.exec(image.dataUrl || '');
+    if (!match || !SUPPORTED_IMAGE_MIME_TYPES.includes(match[1])) {
+      log('WARN', `Skipping unsupported image: ${image.name || image.id || 'unknown'}`);
+      skipped++;
+      continue;
+    }
+
+    const data = match[2].replace(/\s/g, '');
+    const byteLength = Math.floor((data.length * 3) / 4) - (data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0);
+    if (byteLength > MAX_IMAGE_BYTES) {
+      log('WARN', `Skipping oversized image: ${image.name || image.id || 'unknown'} (${byteLength} bytes)`);
+      skipped++;
+      continue;
+    }
+
+    items.push({ type: 'image', data, mimeType: match[1] });
+    attachments.push({ type: 'image', name: image.name || `image-${items.length}`, mimeType: match[1], size: byteLength });
+  }
+
+  return { items, attachments, skipped };
+}
+
+/**
+ * Send notifications/progress periodically while a tool waits on the user,
+ * so clients with short request timeouts keep the call alive
+ * @returns Function that stops the heartbeat
+ */
+function startProgressHeartbeat(context: RequestContext, message: string): () => void {
+  const progressToken = getProgressToken(context.request.params);
+  if (progressToken === undefined) {
+    return () => {};
+  }
+
+  let progress = 0;
+  const timer = setInterval(() => {
+    progress += 1;
+    context.sendNotification('notifications/progress', { progressToken, progress, message });
+  }, PROGRESS_HEARTBEAT_INTERVAL);
+  return () => clearInterval(timer);
+}
+
+/**
+ * Label a checkpoint with the client and session it came from, e.g. "Windsurf · 3f9c2a1b"
+ */
+function describeSource(sessionId: string): string {
+  const client = clientNames.get(sessionId) ?? 'MCP';
+  return `${client} · ${sessionId === STDIO_SESSION_ID ? 'stdio' : sessionId.slice(0, 8)}`;
+}
+
+async function handleToolCall(name: string, args: any, context: RequestContext): Promise<any> {
   // Normalize arguments to handle various input formats
   const normalizedArgs = normalizeArgs(args);
   log('INFO', `handleToolCall: ${name}`, { original: args, normalized: normalizedArgs });
@@ -567,7 +862,7 @@ async function handleToolCall(name: string, args: any): Promise<any> {
       || '';
 
     // Use meaningful defaults only when both are empty
-    const displaySummary = summary || reason || '任务已完成';
+    const displaySummary = summary || reason || t('common.taskCompleted');
     const displayReason = reason || '';
 
     const toolNames = getCurrentToolNames();
@@ -577,16 +872,58 @@ async function handleToolCall(name: string, args: any): Promise<any> {
       rawArgs: normalizedArgs,
     });
 
-    const result = await showLocalPopup({
-      summary: displaySummary,
-      reason: displayReason,
-    });
+    const stopHeartbeat = startProgressHeartbeat(context, t('checkpoint.waiting'));
+    let result: PopupResult;
+    try {
+      result = await showLocalPopup({
+        summary: displaySummary,
+        reason: displayReason,
+        signal: context.signal,
+        source: describeSource(context.sessionId),
+        sessionId: context.sessionId,
+      });
+    }
+    finally {
+      stopHeartbeat();
+    }
 
-    let responseText = `结果: should_continue=${result.shouldContinue}`;
-    if (result.shouldContinue && result.userInstruction) {
-      responseText += `\n用户指令: ${result.userInstruction}`;
+    if (context.signal.aborted) {
+      log('INFO', `${toolNames.checkpoint} cancelled by client`);
+      return { content: [{ type: 'text', text: t('checkpoint.cancelled') }] };
+    }
+
+    // Instructions and images are only meaningful when the user wants the AI to keep working
+    const images = result.shouldContinue ? buildImageContent(result.images) : { items: [], attachments: [], skipped: 0 };
+    const structured: CheckpointResult = {
+      shouldContinue: result.shouldContinue,
+      instruction: result.shouldContinue ? result.userInstruction || null : null,
+      selectedTemplateId: result.shouldContinue ? result.selectedTemplateId || null : null,
+      attachments: images.attachments,
+      respondedAt: new Date(result.respondedAt ?? Date.now()).toISOString(),
+      resolution: result.resolution ?? 'user',
+    };
+
+    const lines = [t('checkpoint.result', { value: String(structured.shouldContinue) })];
+    if (structured.instruction) {
+      lines.push(t('checkpoint.instruction', { instruction: structured.instruction }));
+    }
+    if (structured.selectedTemplateId) {
+      lines.push(t('checkpoint.template', { id: structured.selectedTemplateId }));
+    }
+    if (images.items.length > 0) {
+      lines.push(t('checkpoint.images', { count: images.items.length }));
+    }
+    if (images.skipped > 0) {
+      lines.push(t('checkpoint.skipped', { count: images.skipped }));
     }
-    return { content: [{ type: 'text', text: responseText }] };
+    if (structured.resolution === 'timeout') {
+      lines.push(t('checkpoint.timeout'));
+    }
+
+    return {
+      content: [{ type: 'text', text: lines.join('\n') }, ...images.items],
+      structuredContent: structured,
+    };
   }
 
   if (isPromptRefinerTool(name)) {
@@ -594,7 +931,7 @@ async function handleToolCall(name: string, args: any): Promise<any> {
     const optimizedPrompt = normalizedArgs.optimized_prompt;
 
     if (!prompt) {
-      return { content: [{ type: 'text', text: '错误: 请提供需要优化的提示词 (prompt 参数)' }] };
+      return { content: [{ type: 'text', text: t('tool.missingPrompt') }] };
     }
 
     // If AI already provided optimized prompt, use it directly
@@ -604,256 +941,496 @@ async function handleToolCall(name: string, args: any): Promise<any> {
       return {
         content: [{
           type: 'text',
-          text: `优化成功！\n\n优化后的提示词：\n${optimizedPrompt}\n\n提示：请调用 ${toolNames.inputBridge} 工具将此提示词填入输入框。`,
+          text: t('tool.optimized', { prompt: optimizedPrompt, tool: toolNames.inputBridge }),
         }],
       };
     }
 
-    // In Windsurf environment, don't use VSCode LM API - let AI optimize directly
-    if (environmentConfig.isWindsurf) {
-      log('INFO', 'Windsurf environment detected, returning optimization request to AI');
-      const toolNames = getCurrentToolNames();
-      return {
-        content: [{
-          type: 'text',
-          text: `请你直接优化以下提示词，优化后调用此工具时在 optimized_prompt 参数中提供优化结果，然后调用 ${toolNames.inputBridge} 填入输入框。\n\n需要优化的原始提示词：\n${prompt}\n\n优化要求：\n1. 保持原始意图不变\n2. 使表达更加清晰具体\n3. 添加必要的上下文和约束\n4. 使用更专业的措辞\n5. 保持简洁`,
-        }],
-      };
-    }
+    // Used when the extension has no optimizer handler to supply a profile's instructions
+    let requirements = t('tool.defaultRequirements');
 
-    // Non-Windsurf environment: use VSCode LM API
+    // Use the optimizer provider and profile configured in the extension
     if (customPromptOptimizerHandler) {
-      log('INFO', 'Using custom prompt optimizer handler (VSCode LM API)');
-      const result = await customPromptOptimizerHandler({ prompt });
+      log('INFO', 'Using custom prompt optimizer handler');
+      const result = await customPromptOptimizerHandler({ prompt, profile: normalizedArgs.profile, signal: context.signal });
       if (result.success && result.optimizedPrompt) {
         const toolNames = getCurrentToolNames();
         return {
           content: [{
             type: 'text',
-            text: `优化成功！\n\n优化后的提示词：\n${result.optimizedPrompt}\n\n提示：你可以调用 ${toolNames.inputBridge} 工具将此提示词填入输入框。`,
+            text: t('tool.optimizedMayFill', { prompt: result.optimizedPrompt, tool: toolNames.inputBridge }),
           }],
         };
       }
-      else {
+      // An unknown profile leaves nothing for the AI to follow either
+      if (!environmentConfig.isWindsurf || !result.systemPrompt) {
         return {
-          content: [{ type: 'text', text: `优化失败: ${result.error || '未知错误'}` }],
+          content: [{ type: 'text', text: t('tool.optimizeFailed', { error: result.error || t('common.unknownError') }) }],
         };
       }
+      log('WARN', `Optimizer provider failed in Windsurf: ${result.error}`);
+      requirements = result.systemPrompt;
     }
-    else {
+
+    // Windsurf has no VSCode LM API - when no other provider works, let AI optimize directly
+    if (environmentConfig.isWindsurf) {
+      log('INFO', 'Windsurf environment detected, returning optimization request to AI');
+      const toolNames = getCurrentToolNames();
       return {
-        content: [{ type: 'text', text: '错误: 提示词优化服务未配置。请确保扩展已正确加载。' }],
+        content: [{
+          type: 'text',
+          text: t('tool.optimizeYourself', { tool: toolNames.inputBridge, prompt, requirements }),
+        }],
       };
     }
+
+    return {
+      content: [{ type: 'text', text: t('tool.optimizerUnavailable') }],
+    };
   }
 
   if (isInputBridgeTool(name)) {
     const content = normalizedArgs.content;
     if (!content) {
-      return { content: [{ type: 'text', text: '错误: 请提供要填入的内容 (content 参数)' }] };
+      return { content: [{ type: 'text', text: t('tool.missingContent') }] };
     }
 
     if (customFillInputHandler) {
       log('INFO', 'Using custom fill input handler');
-      const result = await customFillInputHandler({ content });
+      const result = await customFillInputHandler({ content, sessionId: context.sessionId });
       if (result.success) {
         return {
-          content: [{ type: 'text', text: '成功！内容已填入对话框的自定义指令输入框。' }],
+          content: [{ type: 'text', text: t('tool.filled') }],
         };
       }
       else {
         return {
-          content: [{ type: 'text', text: `填入失败: ${result.error || '未知错误'}` }],
+          content: [{ type: 'text', text: t('tool.fillFailed', { error: result.error || t('common.unknownError') }) }],
         };
       }
     }
     else {
       return {
-        content: [{ type: 'text', text: '错误: 填入输入框服务未配置。请确保扩展已正确加载。' }],
+        content: [{ type: 'text', text: t('tool.fillUnavailable') }],
       };
     }
   }
 
-  throw new Error(`Unknown tool: ${name}`);
+  throw new JSONRPCError(JSONRPC_ERRORS.INVALID_PARAMS, `Unknown tool: ${name}`);
 }
 
-async function handleRequest(request: MCPRequest): Promise<void> {
-  const { method, id, params } = request;
-  try {
-    switch (method) {
-      case 'initialize':
-        sendResponse(id!, {
-          protocolVersion: '2024-11-05',
-          serverInfo: { name: 'windsurf-endless', version: VERSION },
-          capabilities: { tools: {} },
-        });
-        break;
-      case 'tools/list':
-        // Generate tools with randomized names on each request
-        sendResponse(id!, { tools: generateTools() });
-        break;
-      case 'tools/call': {
-        const result = await handleToolCall(params.name, params.arguments || {});
-        sendResponse(id!, result);
-        break;
-      }
-      case 'initialized':
-      case 'notifications/cancelled':
-        break;
-      default:
-        if (id !== undefined) {
-          sendError(id, -32601, `Unknown method: ${method}`);
-        }
+// ==================== Method Table ====================
+// Shared by every transport; see protocol.ts for envelope validation and batching
+const methods: MethodTable = {
+  'initialize': (params, context) => {
+    if (typeof params?.clientInfo?.name === 'string') {
+      clientNames.set(context.sessionId, params.clientInfo.name);
     }
-  }
-  catch (error: any) {
-    if (id !== undefined) {
-      sendError(id, -32603, error.message);
+    return {
+      protocolVersion: negotiateProtocolVersion(params?.protocolVersion),
+      serverInfo: { name: 'windsurf-endless', version: VERSION },
+      capabilities: { tools: {}, resources: {}, prompts: { listChanged: true } },
+    };
+  },
+  'ping': () => ({}),
+  // Generate tools with randomized names on each request
+  'tools/list': () => ({ tools: generateTools() }),
+  'tools/call': (params, context) => {
+    if (typeof params?.name !== 'string') {
+      throw new JSONRPCError(JSONRPC_ERRORS.INVALID_PARAMS, 'Missing tool name');
+    }
+    return handleToolCall(params.name, params.arguments || {}, context);
+  },
+  // Without a provider (standalone stdio process) there is simply nothing to list
+  'resources/list': async () => ({
+    resources: customResourceProvider ? await customResourceProvider.listResources() : [],
+  }),
+  'resources/templates/list': () => ({
+    resourceTemplates: customResourceProvider ? customResourceProvider.listResourceTemplates() : [],
+  }),
+  'resources/read': async (params) => {
+    if (typeof params?.uri !== 'string') {
+      throw new JSONRPCError(JSONRPC_ERRORS.INVALID_PARAMS, 'Missing resource uri');
+    }
+    const contents = customResourceProvider ? await customResourceProvider.readResource(params.uri) : null;
+    if (!contents) {
+      throw new JSONRPCError(JSONRPC_ERRORS.RESOURCE_NOT_FOUND, 'Resource not found', { uri: params.uri });
+    }
+    return { contents };
+  },
+  'prompts/list': async () => ({
+    prompts: customPromptProvider ? await customPromptProvider.listPrompts() : [],
+  }),
+  'prompts/get': async (params) => {
+    if (typeof params?.name !== 'string') {
+      throw new JSONRPCError(JSONRPC_ERRORS.INVALID_PARAMS, 'Missing prompt name');
+    }
+    const prompts = customPromptProvider ? await customPromptProvider.listPrompts() : [];
+    const prompt = prompts.find(p => p.name === params.name);
+    if (!customPromptProvider || !prompt) {
+      throw new JSONRPCError(JSONRPC_ERRORS.INVALID_PARAMS, `Unknown prompt: ${params.name}`);
     }
+
+    const args: Record<string, string> = {};
+    Object.entries(params.arguments ?? {}).forEach(([key, value]) => {
+      args[key] = String(value);
+    });
+    const missing = (prompt.arguments ?? []).filter(arg => arg.required && !Object.hasOwn(args, arg.name));
+    if (missing.length > 0) {
+      throw new JSONRPCError(JSONRPC_ERRORS.INVALID_PARAMS, `Missing required arguments: ${missing.map(arg => arg.name).join(', ')}`);
+    }
+
+    const result = await customPromptProvider.getPrompt(params.name, args);
+    if (!result) {
+      throw new JSONRPCError(JSONRPC_ERRORS.INVALID_PARAMS, `Unknown prompt: ${params.name}`);
+    }
+    return result;
+  },
+  'initialized': () => {},
+  'notifications/initialized': () => {},
+  'notifications/cancelled': (params, context) => {
+    if (params?.requestId === undefined) {
+      return;
+    }
+    const cancelled = cancelRequest(context.sessionId, params.requestId, params.reason);
+    log('INFO', `Cancellation for request ${params.requestId}: ${cancelled ? 'aborted' : 'not in flight'}`, params.reason);
+  },
+};
+
+async function handleMessage(payload: unknown, options: DispatchOptions): Promise<JSONRPCReply> {
+  const reply = await dispatchMessage(payload, methods, { ...options, protocolVersion: protocolVersions.get(options.sessionId) });
+  // A rejected initialize leaves the session without a negotiated version
+  const negotiated = getInitializeProtocolVersion(payload);
+  if (negotiated && reply && !Array.isArray(reply) && !reply.error) {
+    protocolVersions.set(options.sessionId, negotiated);
   }
+  return reply;
 }
 
 // ==================== HTTP Transport ====================
 const HTTP_PORT = Number.parseInt(process.env.MCP_HTTP_PORT || '6000', 10);
+const SESSION_HEADER = 'mcp-session-id';
+// Sessions without an open stream are dropped after this long without any request
+const SESSION_IDLE_TIMEOUT = REQUEST_TIMEOUT + 60 * 60 * 1000;
 
-// Note: SSEClient interface and sseClients are declared at the top of the file
+// Note: MCPSession interface and sessions map are declared at the top of the file
 let httpServer: http.Server | null = null;
 
-function sendSSEEvent(client: SSEClient, event: string, data: any): void {
+function generateSessionId(): string {
+  return `session_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+}
+
+function createSession(transport: SessionTransport, stream: ServerResponse | null = null): MCPSession {
+  pruneIdleSessions();
+  const session: MCPSession = {
+    id: generateSessionId(),
+    transport,
+    stream,
+    createdAt: Date.now(),
+    lastActivityAt: Date.now(),
+  };
+  sessions.set(session.id, session);
+  log('INFO', `MCP session created: ${session.id} (${transport})`);
+  notifyServerStateChange();
+  return session;
+}
+
+function closeSession(id: string): void {
+  const session = sessions.get(id);
+  if (!session) {
+    return;
+  }
+  sessions.delete(id);
+  clientNames.delete(id);
+  protocolVersions.delete(id);
+  // Pending tool calls can no longer be answered, so close their dialogs
+  cancelSessionRequests(id);
   try {
-    client.res.write(`event: ${event}\n`);
-    client.res.write(`data: ${JSON.stringify(data)}\n\n`);
+    session.stream?.end();
+  }
+  catch {
+    // Stream may already be closed by the client
+  }
+  log('INFO', `MCP session closed: ${id}`);
+  notifyServerStateChange();
+}
+
+function pruneIdleSessions(): void {
+  const cutoff = Date.now() - SESSION_IDLE_TIMEOUT;
+  for (const session of sessions.values()) {
+    // A checkpoint may legitimately wait longer than the idle timeout
+    if (!session.stream && session.lastActivityAt < cutoff && !hasInFlightRequests(session.id)) {
+      closeSession(session.id);
+    }
+  }
+}
+
+function sendSSEEvent(stream: ServerResponse, event: string, data: any): void {
+  try {
+    stream.write(`event: ${event}\n`);
+    // The endpoint event carries a bare URI; everything else is JSON
+    stream.write(`data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`);
   }
   catch (error: any) {
     log('ERROR', `Failed to send SSE event: ${error.message}`);
   }
 }
 
-function broadcastSSE(event: string, data: any): void {
-  for (const client of sseClients) {
-    sendSSEEvent(client, event, data);
+/**
+ * Deliver a JSON-RPC message on a session's own SSE stream
+ * Messages are never broadcast, so one IDE window cannot see another window's tool results
+ */
+function sendToSession(session: MCPSession, message: any): boolean {
+  if (!session.stream) {
+    log('WARN', `Session ${session.id} has no open stream, dropping message`);
+    return false;
   }
+  sendSSEEvent(session.stream, 'message', message);
+  return true;
 }
 
-async function handleHTTPRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
-  // CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+/**
+ * Tell every connected client that the prompt library changed
+ */
+export function notifyPromptListChanged(): void {
+  const notification = { jsonrpc: '2.0', method: 'notifications/prompts/list_changed' };
+  sessions.forEach((session) => {
+    if (session.stream) {
+      sendToSession(session, notification);
+    }
+  });
+}
 
-  if (req.method === 'OPTIONS') {
+function openSSEStream(req: IncomingMessage, res: ServerResponse, session: MCPSession): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    ...(session.transport === 'streamable' ? { 'Mcp-Session-Id': session.id } : {}),
+  });
+  session.stream = res;
+
+  req.on('close', () => {
+    if (session.stream !== res) {
+      return;
+    }
+    session.stream = null;
+    // Legacy SSE sessions live exactly as long as their stream
+    if (session.transport === 'sse') {
+      closeSession(session.id);
+    }
+    log('INFO', `SSE stream closed for session: ${session.id}`);
+  });
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function writeJSON(res: ServerResponse, status: number, body: any, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function writeJSONRPCError(res: ServerResponse, status: number, code: number, message: string): void {
+  writeJSON(res, status, createErrorResponse(null, code, message));
+}
+
+function acceptsEventStream(req: IncomingMessage): boolean {
+  return (req.headers.accept || '').includes('text/event-stream');
+}
+
+function wantsProgress(payload: unknown): boolean {
+  const messages: JSONRPCRequest[] = Array.isArray(payload) ? payload : [payload as JSONRPCRequest];
+  return messages.some(message => getProgressToken(message?.params) !== undefined);
+}
+
+function getSessionHeader(req: IncomingMessage): string | undefined {
+  const value = req.headers[SESSION_HEADER];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Legacy HTTP+SSE transport: POST /message?sessionId=...
+ * Acknowledges with 202 and delivers the response on the session's SSE stream only
+ */
+async function handleLegacyMessage(req: IncomingMessage, res: ServerResponse, sessionId: string | null): Promise<void> {
+  const session = sessionId ? sessions.get(sessionId) : undefined;
+  if (!session || session.transport !== 'sse') {
+    writeJSONRPCError(res, sessionId ? 404 : 400, JSONRPC_ERRORS.INVALID_REQUEST, sessionId ? 'Session not found' : 'Missing sessionId');
+    return;
+  }
+
+  const parsed = parseMessage(await readBody(req));
+  if ('error' in parsed) {
+    writeJSON(res, 400, parsed.error);
+    return;
+  }
+
+  session.lastActivityAt = Date.now();
+  res.writeHead(202);
+  res.end();
+
+  const reply = await handleMessage(parsed.payload, {
+    sessionId: session.id,
+    notify: message => sendToSession(session, message),
+  });
+  if (reply) {
+    sendToSession(session, reply);
+  }
+}
+
+/**
+ * Streamable HTTP transport: a single endpoint handling POST, GET and DELETE
+ * The session is created by `initialize` and identified by the Mcp-Session-Id header afterwards
+ */
+async function handleStreamableRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const sessionId = getSessionHeader(req);
+  const session = sessionId ? sessions.get(sessionId) : undefined;
+
+  const protocolVersion = req.headers['mcp-protocol-version'];
+  if (typeof protocolVersion === 'string' && !isSupportedProtocolVersion(protocolVersion)) {
+    writeJSONRPCError(res, 400, JSONRPC_ERRORS.INVALID_REQUEST, `Unsupported protocol version: ${protocolVersion}`);
+    return;
+  }
+
+  if (req.method === 'GET') {
+    if (!session) {
+      writeJSONRPCError(res, sessionId ? 404 : 400, JSONRPC_ERRORS.INVALID_REQUEST, sessionId ? 'Session not found' : 'Missing Mcp-Session-Id header');
+      return;
+    }
+    session.lastActivityAt = Date.now();
+    openSSEStream(req, res, session);
+    return;
+  }
+
+  if (req.method === 'DELETE') {
+    if (!session) {
+      writeJSONRPCError(res, 404, JSONRPC_ERRORS.INVALID_REQUEST, 'Session not found');
+      return;
+    }
+    closeSession(session.id);
     res.writeHead(204);
     res.end();
     return;
   }
 
-  const url = req.url || '/';
+  const parsed = parseMessage(await readBody(req));
+  if ('error' in parsed) {
+    writeJSON(res, 400, parsed.error);
+    return;
+  }
 
-  // Health check endpoint
-  if (req.method === 'GET' && url === '/health') {
-    res.writeHead(200, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify({
-      status: 'ok',
-      version: VERSION,
-      uptime: process.uptime(),
-      clients: sseClients.length,
-    }));
+  let target: MCPSession;
+  if (isInitializeRequest(parsed.payload)) {
+    target = createSession('streamable');
+  }
+  else if (session) {
+    target = session;
+  }
+  else {
+    writeJSONRPCError(res, sessionId ? 404 : 400, JSONRPC_ERRORS.INVALID_REQUEST, sessionId ? 'Session not found' : 'Missing Mcp-Session-Id header');
     return;
   }
 
-  // SSE endpoint for Streamable HTTP
-  if (req.method === 'GET' && (url === '/' || url === '/sse' || url === '/events')) {
+  target.lastActivityAt = Date.now();
+  const headers = { 'Mcp-Session-Id': target.id };
+
+  // Requests asking for progress get an SSE response so notifications can precede the result
+  if (acceptsEventStream(req) && wantsProgress(parsed.payload)) {
     res.writeHead(200, {
       'Content-Type': 'text/event-stream',
       'Cache-Control': 'no-cache',
       'Connection': 'keep-alive',
+      ...headers,
     });
+    const reply = await handleMessage(parsed.payload, {
+      sessionId: target.id,
+      notify: message => sendSSEEvent(res, 'message', message),
+    });
+    if (reply) {
+      sendSSEEvent(res, 'message', reply);
+    }
+    res.end();
+    return;
+  }
 
-    const clientId = `client_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-    const client: SSEClient = { id: clientId, res };
-    sseClients.push(client);
-
-    log('INFO', `SSE client connected: ${clientId}`);
+  const reply = await handleMessage(parsed.payload, {
+    sessionId: target.id,
+    // Without a streamed response, notifications can only go out on the session's GET stream
+    notify: message => target.stream && sendToSession(target, message),
+  });
 
-    // Send initial connection event
-    sendSSEEvent(client, 'endpoint', `/message?sessionId=${clientId}`);
+  if (!reply) {
+    res.writeHead(202, headers);
+    res.end();
+    return;
+  }
+  writeJSON(res, 200, reply, headers);
+}
 
-    req.on('close', () => {
-      sseClients = sseClients.filter(c => c.id !== clientId);
-      log('INFO', `SSE client disconnected: ${clientId}`);
-    });
+async function handleHTTPRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID');
+  res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
 
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
     return;
   }
 
-  // JSON-RPC endpoint
-  if (req.method === 'POST') {
-    let body = '';
-    req.on('data', chunk => body += chunk);
-    req.on('end', async () => {
-      try {
-        const request = JSON.parse(body) as MCPRequest;
-        const response = await handleRequestWithResponse(request);
-
-        res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify(response));
+  const url = new URL(req.url || '/', 'http://127.0.0.1');
+  const pathname = url.pathname;
 
-        // Also broadcast to SSE clients
-        if (response) {
-          broadcastSSE('message', response);
-        }
-      }
-      catch (error: any) {
-        log('ERROR', `HTTP request error: ${error.message}`);
-        res.writeHead(400, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32700, message: 'Parse error' } }));
-      }
+  // Health check endpoint
+  if (req.method === 'GET' && pathname === '/health') {
+    writeJSON(res, 200, {
+      status: 'ok',
+      version: VERSION,
+      uptime: process.uptime(),
+      clients: sessions.size,
     });
     return;
   }
 
-  // 404 for other requests
-  res.writeHead(404);
-  res.end('Not Found');
-}
+  // Legacy SSE endpoint: each stream is its own session
+  const isLegacyStreamPath = pathname === '/sse' || pathname === '/events' || pathname === '/';
+  if (req.method === 'GET' && isLegacyStreamPath && !getSessionHeader(req)) {
+    const session = createSession('sse');
+    openSSEStream(req, res, session);
+    // Tell the client where to POST its messages for this session
+    sendSSEEvent(res, 'endpoint', `/message?sessionId=${session.id}`);
+    return;
+  }
 
-async function handleRequestWithResponse(request: MCPRequest): Promise<any> {
-  const { method, id, params } = request;
-  try {
-    switch (method) {
-      case 'initialize':
-        return {
-          jsonrpc: '2.0',
-          id,
-          result: {
-            protocolVersion: '2024-11-05',
-            serverInfo: { name: 'windsurf-endless', version: VERSION },
-            capabilities: { tools: {} },
-          },
-        };
-      case 'tools/list':
-        // Generate tools with randomized names on each request
-        return { jsonrpc: '2.0', id, result: { tools: generateTools() } };
-      case 'tools/call': {
-        const result = await handleToolCall(params.name, params.arguments || {});
-        return { jsonrpc: '2.0', id, result };
-      }
-      case 'initialized':
-      case 'notifications/cancelled':
-        return null;
-      default:
-        if (id !== undefined) {
-          return { jsonrpc: '2.0', id, error: { code: -32601, message: `Unknown method: ${method}` } };
-        }
-        return null;
-    }
+  // Legacy SSE message endpoint
+  if (req.method === 'POST' && pathname === '/message') {
+    await handleLegacyMessage(req, res, url.searchParams.get('sessionId'));
+    return;
   }
-  catch (error: any) {
-    if (id !== undefined) {
-      return { jsonrpc: '2.0', id, error: { code: -32603, message: error.message } };
+
+  // Streamable HTTP endpoint; generated client configs point at /sse, and Streamable HTTP clients POST there
+  if (pathname === '/mcp' || pathname === '/' || pathname === '/sse') {
+    if (req.method === 'GET' || req.method === 'POST' || req.method === 'DELETE') {
+      await handleStreamableRequest(req, res);
+      return;
     }
-    return null;
+    res.writeHead(405);
+    res.end('Method Not Allowed');
+    return;
   }
+
+  // 404 for other requests
+  res.writeHead(404);
+  res.end('Not Found');
 }
 
 export function startHTTPServer(port: number = HTTP_PORT): Promise<void> {
@@ -864,7 +1441,18 @@ export function startHTTPServer(port: number = HTTP_PORT): Promise<void> {
       return;
     }
 
-    httpServer = http.createServer(handleHTTPRequest);
+    httpServer = http.createServer((req, res) => {
+      // A failed request, e.g. a client aborting mid-body, must still be answered and must not become an unhandled rejection
+      handleHTTPRequest(req, res).catch((error) => {
+        log('ERROR', `HTTP request ${req.method} ${req.url} failed: ${error?.message ?? error}`);
+        if (!res.headersSent) {
+          writeJSONRPCError(res, 500, JSONRPC_ERRORS.INTERNAL_ERROR, 'Internal error');
+        }
+        else {
+          res.end();
+        }
+      });
+    });
 
     httpServer.on('error', (error: any) => {
       log('ERROR', `HTTP server error: ${error.message}`);
@@ -897,16 +1485,10 @@ export function startHTTPServer(port: number = HTTP_PORT): Promise<void> {
 
 export function stopHTTPServer(): void {
   if (httpServer) {
-    // Close all SSE connections gracefully
-    for (const client of sseClients) {
-      try {
-        client.res.end();
-      }
-      catch {
-        // Ignore errors when closing connections
-      }
+    // Close all sessions and their SSE connections gracefully
+    for (const id of Array.from(sessions.keys())) {
+      closeSession(id);
     }
-    sseClients = [];
 
     httpServer.close();
     httpServer = null;
@@ -987,7 +1569,7 @@ export async function switchTransport(
       if (!currentServerState.isRunning || currentServerState.port !== port) {
         const available = await checkPortAvailable(port);
         if (!available) {
-          return { success: false, error: `端口 ${port} 已被占用` };
+          return { success: false, error: t('config.portInUse', { port }) };
         }
       }
 
@@ -1016,7 +1598,7 @@ export async function switchTransport(
       return { success: true };
     }
 
-    return { success: false, error: '不支持的传输类型' };
+    return { success: false, error: t('config.unsupportedTransport') };
   }
   catch (error: any) {
     return { success: false, error: error.message };
@@ -1024,6 +1606,13 @@ export async function switchTransport(
 }
 
 // ==================== Stdio Transport ====================
+/**
+ * Single output sink for stdio: one JSON-RPC message (or batch) per line
+ */
+function writeStdioMessage(message: unknown): void {
+  process.stdout.write(`${JSON.stringify(message)}\n`);
+}
+
 export function startStdioServer(): void {
   const rl = readline.createInterface({
     input: process.stdin,
@@ -1035,8 +1624,13 @@ export function startStdioServer(): void {
     if (!line.trim())
       return;
     try {
-      const request = JSON.parse(line) as MCPRequest;
-      await handleRequest(request);
+      const parsed = parseMessage(line);
+      const reply = 'error' in parsed
+        ? parsed.error
+        : await handleMessage(parsed.payload, { sessionId: STDIO_SESSION_ID, notify: writeStdioMessage });
+      if (reply) {
+        writeStdioMessage(reply);
+      }
     }
     catch (error: any) {
       log('ERROR', `Error processing line: ${error.message}`);
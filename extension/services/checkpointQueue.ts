@@ -0,0 +1,167 @@
+/**
+ * Checkpoint Queue Service
+ * Checkpoint calls waiting for an answer, oldest first
+ * The editor panel shows one of them at a time; the sidebar lists them all
+ */
+
+import type { InfiniteAskResult } from '../views/infiniteAskPanel';
+
+export interface PendingCheckpoint {
+  id: string;
+  summary: string;
+  reason: string;
+  /** Client and session that made the call */
+  source: string;
+  /** MCP session that made the call */
+  sessionId?: string;
+  createdAt: number;
+  /** Epoch ms when the timeout action is applied */
+  expiresAt: number;
+}
+
+export interface EnqueueCheckpointOptions {
+  summary?: string;
+  reason?: string;
+  source?: string;
+  sessionId?: string;
+  /** Removes the checkpoint, resolving it with shouldContinue: false */
+  signal?: AbortSignal;
+  expiresAt: number;
+  /** Builds the result applied when expiresAt passes without an answer */
+  onTimeout: () => InfiniteAskResult;
+  /** Called when `signal` aborts while the checkpoint is still pending */
+  onCancel?: () => void;
+  /**
+   * Puts text into the checkpoint's input when it is shown outside the editor panel, e.g. by a native picker
+   * @returns false when that input is not on screen
+   */
+  onFill?: (content: string) => boolean;
+}
+
+type QueueListener = (checkpoints: PendingCheckpoint[]) => void;
+
+interface QueueEntry {
+  checkpoint: PendingCheckpoint;
+  resolve: (result: InfiniteAskResult) => void;
+  cleanup: () => void;
+  fill?: (content: string) => boolean;
+}
+
+// Map iteration follows insertion order, which keeps the queue oldest first
+const entries = new Map<string, QueueEntry>();
+const listeners = new Set<QueueListener>();
+let checkpointCounter = 0;
+
+function notifyListeners(): void {
+  const checkpoints = getPendingCheckpoints();
+  listeners.forEach((listener) => {
+    try {
+      listener(checkpoints);
+    }
+    catch (error) {
+      console.error('[CheckpointQueue] Listener failed:', error);
+    }
+  });
+}
+
+export function getPendingCheckpoints(): PendingCheckpoint[] {
+  return Array.from(entries.values(), entry => entry.checkpoint);
+}
+
+export function getPendingCheckpoint(id: string): PendingCheckpoint | undefined {
+  return entries.get(id)?.checkpoint;
+}
+
+/**
+ * Subscribe to queue changes
+ * @returns Function that removes the listener
+ */
+export function onDidChangeCheckpointQueue(listener: QueueListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Add a checkpoint to the queue
+ * @returns The checkpoint id and a promise settled by whichever answer arrives first
+ */
+export function enqueueCheckpoint(options: EnqueueCheckpointOptions): { id: string; result: Promise<InfiniteAskResult> } {
+  const id = `checkpoint-${++checkpointCounter}-${Date.now()}`;
+  const checkpoint: PendingCheckpoint = {
+    id,
+    summary: options.summary ?? '',
+    reason: options.reason ?? '',
+    source: options.source ?? '',
+    sessionId: options.sessionId,
+    createdAt: Date.now(),
+    expiresAt: options.expiresAt,
+  };
+
+  const result = new Promise<InfiniteAskResult>((resolve) => {
+    const timer = setTimeout(() => {
+      if (entries.has(id)) {
+        resolveCheckpoint(id, options.onTimeout());
+      }
+    }, Math.max(0, options.expiresAt - Date.now()));
+    const onAbort = () => {
+      if (resolveCheckpoint(id, { shouldContinue: false })) {
+        options.onCancel?.();
+      }
+    };
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    entries.set(id, {
+      checkpoint,
+      resolve,
+      cleanup: () => {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
+      },
+      fill: options.onFill,
+    });
+  });
+
+  console.log(`[CheckpointQueue] Enqueued ${id}, pending: ${entries.size}`);
+  notifyListeners();
+  return { id, result };
+}
+
+/**
+ * Fill a pending checkpoint's input through the UI that shows it outside the editor panel
+ * @returns false when there is no such checkpoint or UI
+ */
+export function fillCheckpoint(id: string, content: string): boolean {
+  return entries.get(id)?.fill?.(content) ?? false;
+}
+
+/**
+ * Answer one checkpoint
+ * @returns false when it was already answered, timed out or cancelled
+ */
+export function resolveCheckpoint(id: string, result: InfiniteAskResult): boolean {
+  return resolveCheckpoints([id], result).length > 0;
+}
+
+/**
+ * Answer several checkpoints with the same result
+ * @returns The checkpoints that were still pending and are now answered
+ */
+export function resolveCheckpoints(ids: string[], result: InfiniteAskResult): PendingCheckpoint[] {
+  const resolved: PendingCheckpoint[] = [];
+  for (const id of ids) {
+    const entry = entries.get(id);
+    if (!entry) {
+      continue;
+    }
+    entries.delete(id);
+    entry.cleanup();
+    entry.resolve({ ...result });
+    resolved.push(entry.checkpoint);
+  }
+
+  if (resolved.length > 0) {
+    console.log(`[CheckpointQueue] Resolved ${resolved.length}, pending: ${entries.size}`);
+    notifyListeners();
+  }
+  return resolved;
+}
@@ -9,6 +9,7 @@ import * as path from 'node:path';
 
 import * as vscode from 'vscode';
 
+import { t } from '../../shared/i18n';
 import { getRandomizedToolNames } from '../views/helper';
 
 /**
@@ -63,13 +64,13 @@ export interface ServerState {
  */
 export function validateServerName(name: string): string | undefined {
   if (!name || name.trim().length === 0) {
-    return '服务器名称不能为空';
+    return t('config.serverNameEmpty');
   }
   if (name.length > 50) {
-    return '服务器名称不能超过50个字符';
+    return t('config.serverNameTooLong');
   }
   if (!/^[a-z][\w-]*$/i.test(name)) {
-    return '服务器名称只能包含字母、数字、下划线和连字符，且必须以字母开头';
+    return t('config.serverNameInvalid');
   }
   return undefined;
 }
@@ -80,13 +81,13 @@ export function validateServerName(name: string): string | undefined {
  */
 export function validateServerPort(port: number): string | undefined {
   if (!Number.isInteger(port)) {
-    return '端口必须是整数';
+    return t('config.portNotInteger');
   }
   if (port < 1 || port > 65535) {
-    return '端口必须在 1-65535 范围内';
+    return t('config.portOutOfRange');
   }
   if (port < 1024) {
-    return '建议使用 1024 以上的端口号，避免权限问题';
+    return t('config.portPrivileged');
   }
   return undefined;
 }
@@ -215,7 +216,7 @@ export function injectRules(context: vscode.ExtensionContext): void {
       // Only create if not exists to avoid overwriting user customizations
       if (!fs.existsSync(ruleFile)) {
         fs.writeFileSync(ruleFile, rulesContent, 'utf8');
-        vscode.window.showInformationMessage(`Injected .windsurfrules into ${folder.name}`);
+        vscode.window.showInformationMessage(t('host.rulesInjected', { folder: folder.name }));
       }
       else {
         // Check if file needs updating (contains old placeholders or old tool names)
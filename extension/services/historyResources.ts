@@ -0,0 +1,146 @@
+/**
+ * History Resources Service
+ * Exposes the workspace's conversations and checkpoint history as MCP resources
+ */
+
+import { t } from '../../shared/i18n';
+import { getSettings, getWorkspaceHistory } from '../views/helper';
+
+import { redactWorkspaceHistory } from './privacy';
+
+import type { MCPResource, MCPResourceContents, MCPResourceTemplate, ResourceProvider } from '../mcp';
+import type { ConversationState, HistoryItemState } from './persistedState';
+import type { ExtensionContext } from 'vscode';
+
+const URI_SCHEME = 'endless://';
+const RECENT_HISTORY_URI = `${URI_SCHEME}history/recent`;
+const CONVERSATIONS_URI = `${URI_SCHEME}conversations`;
+const CONVERSATION_URI_PREFIX = `${URI_SCHEME}conversation/`;
+
+// Number of checkpoint responses returned by endless://history/recent
+const RECENT_HISTORY_LIMIT = 50;
+
+const JSON_MIME_TYPE = 'application/json';
+
+function conversationUri(id: string): string {
+  return `${CONVERSATION_URI_PREFIX}${encodeURIComponent(id)}`;
+}
+
+function toISOString(timestamp: number): string {
+  return new Date(timestamp).toISOString();
+}
+
+function formatHistoryItem(item: HistoryItemState) {
+  return {
+    timestamp: toISOString(item.timestamp),
+    conversationId: item.conversationId,
+    conversationName: item.conversationName,
+    action: item.action,
+    summary: item.summary,
+    userInstruction: item.userInstruction ?? null,
+    ...(item.metadata && { metadata: item.metadata }),
+  };
+}
+
+function formatConversationSummary(conversation: ConversationState) {
+  return {
+    id: conversation.id,
+    name: conversation.name,
+    uri: conversationUri(conversation.id),
+    createdAt: toISOString(conversation.createdAt),
+    updatedAt: toISOString(conversation.updatedAt),
+    messageCount: conversation.messages.length,
+    isActive: conversation.isActive,
+  };
+}
+
+function jsonContents(uri: string, value: unknown): MCPResourceContents[] {
+  return [{ uri, mimeType: JSON_MIME_TYPE, text: JSON.stringify(value, null, 2) }];
+}
+
+/**
+ * Create the resource provider backed by workspace state
+ * State is read on every call so resources always reflect the latest checkpoints
+ */
+export function createHistoryResourceProvider(context: ExtensionContext): ResourceProvider {
+  return {
+    listResources(): MCPResource[] {
+      // Conversation names are listed to the AI too
+      const { conversations } = redactWorkspaceHistory(getSettings(context), getWorkspaceHistory(context));
+      return [
+        {
+          uri: RECENT_HISTORY_URI,
+          name: t('resources.recentName'),
+          description: t('resources.recentDescription', { count: RECENT_HISTORY_LIMIT }),
+          mimeType: JSON_MIME_TYPE,
+        },
+        {
+          uri: CONVERSATIONS_URI,
+          name: t('resources.conversationsName'),
+          description: t('resources.conversationsDescription'),
+          mimeType: JSON_MIME_TYPE,
+        },
+        ...conversations.map(conversation => ({
+          uri: conversationUri(conversation.id),
+          name: conversation.name,
+          description: t('resources.conversationDescription', { count: conversation.messages.length }),
+          mimeType: JSON_MIME_TYPE,
+        })),
+      ];
+    },
+
+    listResourceTemplates(): MCPResourceTemplate[] {
+      return [{
+        uriTemplate: `${CONVERSATION_URI_PREFIX}{id}`,
+        name: t('resources.conversationTemplateName'),
+        description: t('resources.conversationTemplateDescription'),
+        mimeType: JSON_MIME_TYPE,
+      }];
+    },
+
+    readResource(uri: string): MCPResourceContents[] | null {
+      // Text goes to the AI, so it passes through the same redaction as exports
+      const { conversations, history } = redactWorkspaceHistory(getSettings(context), getWorkspaceHistory(context));
+
+      if (uri === RECENT_HISTORY_URI) {
+        const recent = [...history]
+          .sort((a, b) => b.timestamp - a.timestamp)
+          .slice(0, RECENT_HISTORY_LIMIT)
+          .map(formatHistoryItem);
+        return jsonContents(uri, { items: recent });
+      }
+
+      if (uri === CONVERSATIONS_URI) {
+        return jsonContents(uri, { conversations: conversations.map(formatConversationSummary) });
+      }
+
+      if (uri.startsWith(CONVERSATION_URI_PREFIX)) {
+        let id: string;
+        try {
+          id = decodeURIComponent(uri.slice(CONVERSATION_URI_PREFIX.length));
+        }
+        catch {
+          return null;
+        }
+        const conversation = conversations.find(c => c.id === id);
+        if (!conversation) {
+          return null;
+        }
+        return jsonContents(uri, {
+          ...formatConversationSummary(conversation),
+          workspacePath: conversation.workspacePath,
+          messages: conversation.messages.map(message => ({
+            timestamp: toISOString(message.timestamp),
+            type: message.type,
+            summary: message.summary ?? null,
+            shouldContinue: message.shouldContinue,
+            userInstruction: message.userInstruction ?? null,
+            ...(message.metadata && { metadata: message.metadata }),
+          })),
+        });
+      }
+
+      return null;
+    },
+  };
+}
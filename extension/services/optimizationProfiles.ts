@@ -0,0 +1,126 @@
+/**
+ * Optimization Profiles Service
+ * Named system prompts that steer prompt optimization, edited in the Templates page
+ */
+
+import { getLanguage, localizeBuiltin, translate } from '../../shared/i18n';
+
+import type { Language } from '../../shared/i18n';
+import type { ExtensionContext } from 'vscode';
+
+// Profiles are shared by all workspaces, like the prompt library
+const PROFILES_KEY = 'windsurf-endless:optimization-profiles';
+
+export interface OptimizationProfile {
+  id: string;
+  name: string;
+  description: string;
+  /** Instructions given to the model; the prompt being optimized follows them */
+  systemPrompt: string;
+}
+
+export interface OptimizationProfilesState {
+  profiles: OptimizationProfile[];
+  /** Used when no profile is requested */
+  defaultProfileId: string;
+}
+
+// Catalog entries of the built-in profiles, by profile id
+const BUILTIN_PROFILE_KEYS = {
+  'general': 'general',
+  'concise': 'concise',
+  'acceptance-criteria': 'acceptanceCriteria',
+  'translate-en': 'translateEn',
+  'step-list': 'stepList',
+} as const;
+
+type BuiltinProfileId = keyof typeof BUILTIN_PROFILE_KEYS;
+
+function isBuiltinProfileId(id: string): id is BuiltinProfileId {
+  return Object.hasOwn(BUILTIN_PROFILE_KEYS, id);
+}
+
+function getBuiltinProfile(id: BuiltinProfileId, language: Language = getLanguage()): OptimizationProfile {
+  const key = BUILTIN_PROFILE_KEYS[id];
+  return {
+    id,
+    name: translate(language, `builtinProfiles.${key}.name`),
+    description: translate(language, `builtinProfiles.${key}.description`),
+    systemPrompt: translate(language, `builtinProfiles.${key}.systemPrompt`),
+  };
+}
+
+/**
+ * Built-in profiles in the current language
+ */
+export function getBuiltinProfiles(): OptimizationProfile[] {
+  return (Object.keys(BUILTIN_PROFILE_KEYS) as BuiltinProfileId[]).map(id => getBuiltinProfile(id));
+}
+
+// Built-in profiles follow the UI language until the user edits them
+function localizeProfile(profile: OptimizationProfile): OptimizationProfile {
+  const id = profile.id;
+  return isBuiltinProfileId(id) ? localizeBuiltin(profile, language => getBuiltinProfile(id, language)) : profile;
+}
+
+function getDefaultState(): OptimizationProfilesState {
+  return { profiles: getBuiltinProfiles(), defaultProfileId: 'general' };
+}
+
+export function getOptimizationProfiles(context: ExtensionContext): OptimizationProfilesState {
+  const stored = context.globalState.get<OptimizationProfilesState>(PROFILES_KEY);
+  if (!stored) {
+    return getDefaultState();
+  }
+  return { ...stored, profiles: stored.profiles.map(localizeProfile) };
+}
+
+/**
+ * Store profiles edited in the webview
+ * Entries without a name or system prompt are dropped; an empty list restores the built-in profiles
+ * @returns The state actually stored
+ */
+export function saveOptimizationProfiles(context: ExtensionContext, data: any): OptimizationProfilesState {
+  const seen = new Set<string>();
+  const profiles: OptimizationProfile[] = (Array.isArray(data?.profiles) ? data.profiles : [])
+    .filter((p: any) => typeof p?.id === 'string' && typeof p?.systemPrompt === 'string'
+      && String(p.name ?? '').trim() && p.systemPrompt.trim())
+    .filter((p: any) => {
+      if (seen.has(p.id)) {
+        return false;
+      }
+      seen.add(p.id);
+      return true;
+    })
+    .map((p: any) => ({
+      id: p.id,
+      name: String(p.name).trim(),
+      description: String(p.description ?? ''),
+      systemPrompt: p.systemPrompt,
+    }));
+
+  if (profiles.length === 0) {
+    context.globalState.update(PROFILES_KEY, undefined);
+    return getDefaultState();
+  }
+
+  const next: OptimizationProfilesState = {
+    profiles,
+    defaultProfileId: profiles.some(p => p.id === data?.defaultProfileId) ? data.defaultProfileId : profiles[0].id,
+  };
+  context.globalState.update(PROFILES_KEY, next);
+  return { ...next, profiles: profiles.map(localizeProfile) };
+}
+
+/**
+ * Find a profile by id or name (case-insensitive)
+ * @returns The default profile when `reference` is empty, undefined when nothing matches
+ */
+export function resolveOptimizationProfile(context: ExtensionContext, reference?: string): OptimizationProfile | undefined {
+  const { profiles, defaultProfileId } = getOptimizationProfiles(context);
+  const wanted = reference?.trim().toLowerCase();
+  if (!wanted) {
+    return profiles.find(p => p.id === defaultProfileId) ?? profiles[0];
+  }
+  return profiles.find(p => p.id.toLowerCase() === wanted) ?? profiles.find(p => p.name.toLowerCase() === wanted);
+}
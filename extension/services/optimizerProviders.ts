@@ -0,0 +1,299 @@
+/**
+ * Prompt Optimizer Providers
+ * Interchangeable backends behind optimizePrompt: the VS Code LM API, an
+ * OpenAI-compatible HTTP endpoint and an offline rule-based rewriter
+ */
+
+import * as vscode from 'vscode';
+
+import { t } from '../../shared/i18n';
+
+// Secret storage key for the OpenAI-compatible endpoint's API key
+export const OPTIMIZER_API_KEY_SECRET = 'windsurf-endless:optimizer-api-key';
+
+export type OptimizerProviderId = 'vscode-lm' | 'openai-compatible' | 'rule-based';
+
+export interface OptimizerConfig {
+  provider: OptimizerProviderId;
+  /** vscode-lm: model id from vscode.lm; empty picks Copilot first, then any model */
+  modelId: string;
+  /** openai-compatible: base URL including the version segment, e.g. http://localhost:11434/v1 */
+  endpoint: string;
+  /** openai-compatible: model name sent in the request body */
+  model: string;
+  /** openai-compatible: sent as a Bearer token when present */
+  apiKey?: string;
+}
+
+export interface OptimizerProvider {
+  readonly id: OptimizerProviderId;
+  /** Ids of the optimization profiles the provider can follow; every profile when omitted */
+  readonly profileIds?: readonly string[];
+  /**
+   * Rewrite a prompt
+   * @param systemPrompt What to do with the prompt, from the optimization profile; the rule-based provider ignores it
+   * @param onChunk Receives the output as it is generated; the resolved string is the whole output
+   * @throws Error with a user-facing message on failure or when `signal` aborts
+   */
+  optimize: (prompt: string, systemPrompt: string, signal: AbortSignal, onChunk?: (chunk: string) => void) => Promise<string>;
+}
+
+export interface LanguageModelInfo {
+  id: string;
+  name: string;
+  vendor: string;
+}
+
+/**
+ * Check if running in Windsurf environment
+ */
+export function isWindsurfEnvironment(): boolean {
+  const appName = vscode.env.appName?.toLowerCase() || '';
+  return appName.includes('windsurf') || appName.includes('codeium');
+}
+
+function throwIfAborted(signal: AbortSignal): void {
+  if (signal.aborted) {
+    throw new Error(typeof signal.reason === 'string' ? signal.reason : t('optimizer.cancelled'));
+  }
+}
+
+// ==================== VS Code LM API ====================
+/**
+ * Models offered by vscode.lm, for the model picker in Settings
+ */
+export async function listLanguageModels(): Promise<LanguageModelInfo[]> {
+  if (isWindsurfEnvironment()) {
+    return [];
+  }
+  const models = await vscode.lm.selectChatModels();
+  return models.map(model => ({ id: model.id, name: model.name, vendor: model.vendor }));
+}
+
+async function selectLanguageModel(modelId: string): Promise<vscode.LanguageModelChat | undefined> {
+  if (modelId) {
+    return (await vscode.lm.selectChatModels({ id: modelId }))[0];
+  }
+  const [copilot] = await vscode.lm.selectChatModels({ vendor: 'copilot' });
+  return copilot ?? (await vscode.lm.selectChatModels())[0];
+}
+
+function createLanguageModelProvider(config: OptimizerConfig): OptimizerProvider {
+  return {
+    id: 'vscode-lm',
+    async optimize(prompt, systemPrompt, signal, onChunk) {
+      // Windsurf doesn't support VSCode's LM API
+      if (isWindsurfEnvironment()) {
+        throw new Error(t('optimizer.lmUnsupportedInWindsurf'));
+      }
+
+      const model = await selectLanguageModel(config.modelId);
+      if (!model) {
+        throw new Error(config.modelId
+          ? t('optimizer.modelNotFound', { model: config.modelId })
+          : t('optimizer.noLanguageModel'));
+      }
+      throwIfAborted(signal);
+
+      const tokenSource = new vscode.CancellationTokenSource();
+      const onAbort = () => tokenSource.cancel();
+      signal.addEventListener('abort', onAbort, { once: true });
+      try {
+        // The LM API has no system role, so the instructions lead the user message
+        const messages = [vscode.LanguageModelChatMessage.User(`${systemPrompt}\n\n---\n\n${prompt}`)];
+        const response = await model.sendRequest(messages, {}, tokenSource.token);
+
+        let result = '';
+        for await (const chunk of response.text) {
+          result += chunk;
+          onChunk?.(chunk);
+        }
+        throwIfAborted(signal);
+        return result;
+      }
+      finally {
+        signal.removeEventListener('abort', onAbort);
+        tokenSource.dispose();
+      }
+    },
+  };
+}
+
+// ==================== OpenAI-compatible HTTP ====================
+/**
+ * Collect the content deltas of a streamed chat completion (server-sent events)
+ */
+async function readChatCompletionStream(body: ReadableStream<Uint8Array>, onChunk?: (chunk: string) => void): Promise<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let result = '';
+
+  const handleLine = (line: string) => {
+    if (!line.startsWith('data:')) {
+      return;
+    }
+    const data = line.slice('data:'.length).trim();
+    if (data === '[DONE]') {
+      return;
+    }
+    let event: any;
+    try {
+      event = JSON.parse(data);
+    }
+    catch {
+      // Skip events that are not JSON
+      return;
+    }
+    // Servers report failures after the stream started as an error event
+    if (event?.error) {
+      throw new Error(t('optimizer.streamError', { error: event.error.message || JSON.stringify(event.error) }));
+    }
+    const delta = event?.choices?.[0]?.delta?.content;
+    if (typeof delta === 'string' && delta) {
+      result += delta;
+      onChunk?.(delta);
+    }
+  };
+
+  for await (const bytes of body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(bytes, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.forEach(line => handleLine(line.trim()));
+  }
+  handleLine((buffer + decoder.decode()).trim());
+  return result;
+}
+
+function createOpenAICompatibleProvider(config: OptimizerConfig): OptimizerProvider {
+  return {
+    id: 'openai-compatible',
+    async optimize(prompt, systemPrompt, signal, onChunk) {
+      const endpoint = config.endpoint.trim().replace(/\/+$/, '');
+      if (!endpoint || !config.model.trim()) {
+        throw new Error(t('optimizer.endpointMissing'));
+      }
+
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (config.apiKey) {
+        headers.Authorization = `Bearer ${config.apiKey}`;
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(`${endpoint}/chat/completions`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            model: config.model.trim(),
+            messages: [
+              { role: 'system', content: systemPrompt },
+              { role: 'user', content: prompt },
+            ],
+            temperature: 0.3,
+            stream: !!onChunk,
+          }),
+          signal,
+        });
+      }
+      catch (error: any) {
+        throwIfAborted(signal);
+        throw new Error(t('optimizer.connectFailed', { endpoint, error: error.cause?.message || error.message }));
+      }
+
+      if (!response.ok) {
+        const body = await response.text().catch(() => '');
+        throw new Error(body
+          ? t('optimizer.httpErrorWithBody', { status: response.status, body: body.slice(0, 200) })
+          : t('optimizer.httpError', { status: response.status }));
+      }
+
+      // Servers that ignore `stream` answer with a plain JSON body
+      if (response.body && response.headers.get('content-type')?.includes('text/event-stream')) {
+        return readChatCompletionStream(response.body, onChunk);
+      }
+
+      const data: any = await response.json();
+      const content = data?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw new TypeError(t('optimizer.noContent'));
+      }
+      onChunk?.(content);
+      return content;
+    },
+  };
+}
+
+// ==================== Rule-based (offline) ====================
+// Lead-ins that add nothing to a prompt
+const FILLER_PREFIXES = [/^(?:请你|请|麻烦你?|能不能|可以)?帮(?:我|忙)?/, /^(?:can|could) you (?:please )?/i, /^please /i];
+
+const CJK_PATTERN = /\p{Script=Han}/u;
+
+interface RuleConstraint {
+  /** Skip the constraint when the prompt already covers it */
+  covered: RegExp;
+  zh: string;
+  en: string;
+}
+
+const RULE_CONSTRAINTS: RuleConstraint[] = [
+  { covered: /风格|约定|style|convention/i, zh: '保持现有代码风格与项目约定', en: 'Follow the existing code style and project conventions' },
+  { covered: /测试|test/i, zh: '修改后确认相关测试仍能通过', en: 'Make sure related tests still pass after the change' },
+  { covered: /说明|解释|explain|summar/i, zh: '完成后简要说明改动内容与原因', en: 'Briefly explain what changed and why when done' },
+  { covered: /不确定|疑问|unclear|ask/i, zh: '遇到不明确的地方先提出问题，不要自行假设', en: 'Ask before making assumptions about anything unclear' },
+];
+
+/**
+ * Tidy a prompt and spell out common expectations without calling a model
+ */
+export function optimizePromptWithRules(prompt: string): string {
+  const lines = prompt
+    .split('\n')
+    .map(line => FILLER_PREFIXES.reduce((text, prefix) => text.replace(prefix, ''), line.replace(/[ \t]+/g, ' ').trim()).trim())
+    .filter((line, index, all) => line.length > 0 && all.indexOf(line) === index);
+
+  let task = lines.join('\n') || prompt.trim();
+
+  const isChinese = CJK_PATTERN.test(task);
+  if (!/[。！？.!?:：]$/.test(task)) {
+    task += isChinese ? '。' : '.';
+  }
+
+  const constraints = RULE_CONSTRAINTS
+    .filter(constraint => !constraint.covered.test(task))
+    .map(constraint => `- ${isChinese ? constraint.zh : constraint.en}`);
+
+  if (constraints.length === 0) {
+    return task;
+  }
+  return isChinese
+    ? `任务：${task}\n\n要求：\n${constraints.join('\n')}`
+    : `Task: ${task}\n\nRequirements:\n${constraints.join('\n')}`;
+}
+
+function createRuleBasedProvider(): OptimizerProvider {
+  return {
+    id: 'rule-based',
+    // The rules are a general tidy-up; other profiles need a model
+    profileIds: ['general'],
+    async optimize(prompt, _systemPrompt, signal, onChunk) {
+      throwIfAborted(signal);
+      const result = optimizePromptWithRules(prompt);
+      onChunk?.(result);
+      return result;
+    },
+  };
+}
+
+export function createOptimizerProvider(config: OptimizerConfig): OptimizerProvider {
+  switch (config.provider) {
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider(config);
+    case 'rule-based':
+      return createRuleBasedProvider();
+    case 'vscode-lm':
+    default:
+      return createLanguageModelProvider(config);
+  }
+}
@@ -0,0 +1,405 @@
+/**
+ * Persisted State Schema
+ * Shape, version and migrations of the per-workspace state (settings overrides, conversations and history),
+ * with runtime validation for stored and imported data
+ * Settings are layered: defaults, then the global settings shared by every workspace, then this workspace's overrides
+ */
+
+import { LANGUAGES, t } from '../../shared/i18n';
+import { PRIVACY_LEVELS, REDACTION_DETECTORS } from '../../shared/privacy';
+
+import type { Language } from '../../shared/i18n';
+import type { ContentMetadataFields, PrivacyLevel, RedactionDetector } from '../../shared/privacy';
+import type { OptimizerProviderId } from './optimizerProviders';
+import type { ExtensionContext } from 'vscode';
+
+// Basic shared types (mirrors webview types but kept local to avoid cross-bundle imports)
+export type TransportType = 'http' | 'stdio' | 'auto';
+export type ConnectionMode = 'simple' | 'advanced';
+export type DialogTimeoutAction = 'end' | 'continue' | 'template';
+export type CheckpointMode = 'webview' | 'native';
+
+export interface SettingsState {
+  autoStart: boolean;
+  showNotifications: boolean;
+  language: Language;
+  mcpAutoConfig: boolean;
+  mcpServerPath: string;
+  mcpServerName: string;
+  mcpServerPort: number;
+  // Transport settings
+  transportType: TransportType;
+  connectionMode: ConnectionMode;
+  autoReconnect: boolean;
+  reconnectAttempts: number;
+  connectionTimeout: number;
+  fallbackToStdio: boolean;
+  fallbackPorts: number[];
+  // Dialog settings
+  checkpointMode: CheckpointMode;
+  dialogTimeout: number;
+  dialogTimeoutAction: DialogTimeoutAction;
+  dialogTimeoutInstruction: string;
+  dialogTimeoutTemplateId: string;
+  dialogPosition: 'center' | 'top-right' | 'bottom-right';
+  dialogTheme: 'system' | 'light' | 'dark';
+  // Prompt optimization
+  optimizerProvider: OptimizerProviderId;
+  optimizerModelId: string;
+  optimizerEndpoint: string;
+  optimizerModel: string;
+  /** Seconds before an optimization request is aborted, per provider */
+  optimizerTimeouts: Record<OptimizerProviderId, number>;
+  autoInjectRules: boolean;
+  customRulesPath: string;
+  saveHistory: boolean;
+  maxHistoryItems: number;
+  autoCleanHistory: boolean;
+  historyRetentionDays: number;
+  /** Keep expired sessions without their content when auto clean runs, so session statistics stay complete */
+  keepSessionStatistics: boolean;
+  /** Publish this workspace's history to the global library and browse other workspaces' history read-only */
+  syncAcrossWorkspaces: boolean;
+  // Privacy
+  privacyLevel: PrivacyLevel;
+  redactionDetectors: RedactionDetector[];
+  redactionPatterns: string[];
+}
+
+export type SettingsScope = 'global' | 'workspace';
+
+export const defaultSettings: SettingsState = {
+  autoStart: true,
+  showNotifications: true,
+  language: 'zh-CN',
+  mcpAutoConfig: true,
+  mcpServerPath: '',
+  mcpServerName: 'windsurf-endless',
+  mcpServerPort: 6000,
+  transportType: 'http',
+  connectionMode: 'simple',
+  autoReconnect: true,
+  reconnectAttempts: 5,
+  connectionTimeout: 10,
+  fallbackToStdio: false,
+  fallbackPorts: [6001, 6002, 16000],
+  checkpointMode: 'webview',
+  dialogTimeout: 24,
+  dialogTimeoutAction: 'end',
+  dialogTimeoutInstruction: '',
+  dialogTimeoutTemplateId: '',
+  dialogPosition: 'center',
+  dialogTheme: 'system',
+  optimizerProvider: 'vscode-lm',
+  optimizerModelId: '',
+  optimizerEndpoint: 'http://localhost:11434/v1',
+  optimizerModel: '',
+  optimizerTimeouts: { 'vscode-lm': 30, 'openai-compatible': 60, 'rule-based': 5 },
+  autoInjectRules: true,
+  customRulesPath: '',
+  saveHistory: true,
+  maxHistoryItems: 100,
+  autoCleanHistory: false,
+  historyRetentionDays: 30,
+  keepSessionStatistics: true,
+  syncAcrossWorkspaces: false,
+  privacyLevel: 'full',
+  redactionDetectors: ['apiKey', 'token', 'email'],
+  redactionPatterns: [],
+};
+
+export interface ConversationState {
+  id: string;
+  name: string;
+  workspacePath: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: Array<{ id: string; timestamp: number; type: 'ask' | 'response'; summary?: string; shouldContinue: boolean; userInstruction?: string; metadata?: ContentMetadataFields }>; // minimal shape for stats
+  isActive: boolean;
+}
+
+export interface HistoryItemState {
+  id: string;
+  conversationId: string;
+  conversationName: string;
+  workspacePath: string;
+  timestamp: number;
+  summary: string;
+  action: 'continue' | 'end';
+  userInstruction?: string;
+  // Absent for answers given by the user
+  resolution?: 'user' | 'timeout';
+  // Kept instead of the text under the 'metadata' privacy level
+  metadata?: ContentMetadataFields;
+}
+
+export interface PersistedState {
+  /** Layout version, see STATE_VERSION; absent in state written before versioning */
+  schemaVersion: number;
+  /** Effective settings; derived from the two layers below and never stored */
+  settings: SettingsState;
+  /** Settings shared by every workspace; stored in globalState, not with the workspace */
+  globalSettings: Partial<SettingsState>;
+  /** Settings this workspace sets differently from the global ones */
+  settingsOverrides: Partial<SettingsState>;
+  conversations: ConversationState[];
+  history: HistoryItemState[];
+  activeConversationId: string | null;
+  activeSessionId: string | null;
+  workspacePath: string;
+}
+
+/** Bump together with a new entry in MIGRATIONS */
+export const STATE_VERSION = 2;
+
+// Raw state found under a workspace key that could not be loaded, kept for inspection instead of being dropped
+const QUARANTINE_KEY = 'windsurf-endless:state-quarantine';
+// Entries kept per workspace; older ones are discarded
+const MAX_QUARANTINE_ENTRIES = 10;
+
+type RawState = Record<string, any>;
+
+/**
+ * Migrations by the version they upgrade from; each returns the state at the next version
+ */
+const MIGRATIONS: Record<number, (state: RawState) => RawState> = {
+  // Unversioned state has the version 1 layout; settings added since then are backfilled by validation
+  0: state => state,
+  // Settings became global; what a workspace had changed from the defaults stays as its overrides
+  1: ({ settings, ...state }) => ({
+    ...state,
+    settingsOverrides: isRecord(state.settingsOverrides) ? state.settingsOverrides : changedSettings(normalizeSettings(settings)),
+  }),
+};
+
+/**
+ * Stored or imported state that cannot be used, even after migration and validation
+ */
+export class StateSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StateSchemaError';
+  }
+}
+
+export interface ParsedState {
+  state: PersistedState;
+  /** Conversations and history items dropped because they failed validation */
+  dropped: unknown[];
+}
+
+export interface QuarantineEntry {
+  quarantinedAt: number;
+  reason: string;
+  data: unknown;
+}
+
+// Allowed values of the union-typed settings
+const SETTING_CHOICES: Partial<Record<keyof SettingsState, readonly unknown[]>> = {
+  language: LANGUAGES,
+  transportType: ['http', 'stdio', 'auto'],
+  connectionMode: ['simple', 'advanced'],
+  checkpointMode: ['webview', 'native'],
+  dialogTimeoutAction: ['end', 'continue', 'template'],
+  dialogPosition: ['center', 'top-right', 'bottom-right'],
+  dialogTheme: ['system', 'light', 'dark'],
+  optimizerProvider: Object.keys(defaultSettings.optimizerTimeouts),
+  privacyLevel: PRIVACY_LEVELS,
+  // For list settings, the allowed values of each item
+  redactionDetectors: REDACTION_DETECTORS,
+};
+
+// List settings holding strings; the other lists hold numbers
+const STRING_LIST_SETTINGS: readonly (keyof SettingsState)[] = ['redactionDetectors', 'redactionPatterns'];
+
+function isRecord(value: unknown): value is RawState {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isValidSetting(key: keyof SettingsState, value: unknown): boolean {
+  const fallback = defaultSettings[key];
+  const choices = SETTING_CHOICES[key];
+  if (Array.isArray(fallback)) {
+    const isItem = STRING_LIST_SETTINGS.includes(key) ? (item: unknown) => typeof item === 'string' : isFiniteNumber;
+    return Array.isArray(value) && value.every(item => (choices ? choices.includes(item) : isItem(item)));
+  }
+  if (choices) {
+    return choices.includes(value);
+  }
+  if (typeof fallback === 'number') {
+    return isFiniteNumber(value);
+  }
+  return typeof value === typeof fallback;
+}
+
+/**
+ * Keep the valid settings of a partial settings object, dropping everything else
+ */
+export function normalizeSettingsPatch(raw: unknown): Partial<SettingsState> {
+  const source = isRecord(raw) ? raw : {};
+  const patch: Partial<SettingsState> = {};
+  for (const key of Object.keys(defaultSettings) as (keyof SettingsState)[]) {
+    if (key !== 'optimizerTimeouts' && Object.hasOwn(source, key) && isValidSetting(key, source[key])) {
+      (patch as RawState)[key] = source[key];
+    }
+  }
+  if (isRecord(source.optimizerTimeouts)) {
+    const timeouts = source.optimizerTimeouts;
+    const valid = (Object.keys(defaultSettings.optimizerTimeouts) as OptimizerProviderId[])
+      .filter(provider => isFiniteNumber(timeouts[provider]) && timeouts[provider] > 0);
+    if (valid.length > 0) {
+      patch.optimizerTimeouts = {
+        ...defaultSettings.optimizerTimeouts,
+        ...Object.fromEntries(valid.map(provider => [provider, timeouts[provider]])),
+      };
+    }
+  }
+  return patch;
+}
+
+/**
+ * Keep valid settings and fill everything else from the defaults, so settings added in new releases are never undefined
+ */
+function normalizeSettings(raw: unknown): SettingsState {
+  return { ...defaultSettings, ...normalizeSettingsPatch(raw) };
+}
+
+/**
+ * Settings that differ from the defaults
+ */
+function changedSettings(settings: SettingsState): Partial<SettingsState> {
+  return Object.fromEntries((Object.keys(settings) as (keyof SettingsState)[])
+    .filter(key => JSON.stringify(settings[key]) !== JSON.stringify(defaultSettings[key]))
+    .map(key => [key, settings[key]]));
+}
+
+/**
+ * Effective settings: the defaults, then the global settings, then the workspace overrides
+ */
+export function resolveSettings(globalSettings: Partial<SettingsState>, overrides: Partial<SettingsState>): SettingsState {
+  return { ...defaultSettings, ...globalSettings, ...overrides };
+}
+
+function normalizeConversation(raw: unknown): ConversationState | undefined {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.name !== 'string') {
+    return undefined;
+  }
+  const createdAt = isFiniteNumber(raw.createdAt) ? raw.createdAt : 0;
+  return {
+    ...raw,
+    id: raw.id,
+    name: raw.name,
+    workspacePath: typeof raw.workspacePath === 'string' ? raw.workspacePath : '',
+    createdAt,
+    updatedAt: isFiniteNumber(raw.updatedAt) ? raw.updatedAt : createdAt,
+    messages: (Array.isArray(raw.messages) ? raw.messages : []).filter((m: unknown) =>
+      isRecord(m) && typeof m.id === 'string' && isFiniteNumber(m.timestamp) && (m.type === 'ask' || m.type === 'response')),
+    isActive: raw.isActive === true,
+  };
+}
+
+function normalizeHistoryItem(raw: unknown): HistoryItemState | undefined {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || !isFiniteNumber(raw.timestamp)
+    || (raw.action !== 'continue' && raw.action !== 'end')) {
+    return undefined;
+  }
+  return {
+    ...raw,
+    id: raw.id,
+    conversationId: typeof raw.conversationId === 'string' ? raw.conversationId : 'default',
+    conversationName: typeof raw.conversationName === 'string' ? raw.conversationName : '',
+    workspacePath: typeof raw.workspacePath === 'string' ? raw.workspacePath : '',
+    timestamp: raw.timestamp,
+    summary: typeof raw.summary === 'string' ? raw.summary : '',
+    action: raw.action,
+    userInstruction: typeof raw.userInstruction === 'string' ? raw.userInstruction : undefined,
+    resolution: raw.resolution === 'user' || raw.resolution === 'timeout' ? raw.resolution : undefined,
+  };
+}
+
+/**
+ * Run the migration chain from the stored version up to STATE_VERSION
+ */
+function migrate(raw: RawState): RawState {
+  let version = isFiniteNumber(raw.schemaVersion) ? raw.schemaVersion : 0;
+  if (version > STATE_VERSION) {
+    throw new StateSchemaError(t('host.stateNewerVersion', { version }));
+  }
+  let state = raw;
+  while (version < STATE_VERSION) {
+    try {
+      state = MIGRATIONS[version]({ ...state });
+    }
+    catch (error) {
+      throw new StateSchemaError(t('host.stateMigrationFailed', { version, error: String(error) }));
+    }
+    version++;
+  }
+  return state;
+}
+
+export function createInitialState(workspacePath: string, globalSettings: Partial<SettingsState> = {}): PersistedState {
+  return {
+    schemaVersion: STATE_VERSION,
+    settings: resolveSettings(globalSettings, {}),
+    globalSettings,
+    settingsOverrides: {},
+    conversations: [],
+    history: [],
+    activeConversationId: null,
+    activeSessionId: null,
+    workspacePath,
+  };
+}
+
+/**
+ * Migrate and validate stored or imported state
+ * Invalid settings fall back to their defaults and invalid conversations or history items are dropped
+ * `workspacePath` is used when the state has no workspace path of its own; `globalSettings` are layered under its overrides
+ * @throws StateSchemaError when the state is not an object or cannot be migrated
+ */
+export function parsePersistedState(raw: unknown, workspacePath: string, globalSettings: Partial<SettingsState> = {}): ParsedState {
+  if (!isRecord(raw)) {
+    throw new StateSchemaError(t('host.stateNotObject'));
+  }
+  const migrated = migrate(raw);
+  const dropped: unknown[] = [];
+  const keepValid = <T>(items: unknown, normalize: (item: unknown) => T | undefined): T[] =>
+    (Array.isArray(items) ? items : []).flatMap((item) => {
+      const valid = normalize(item);
+      if (!valid) {
+        dropped.push(item);
+        return [];
+      }
+      return [valid];
+    });
+
+  const conversations = keepValid(migrated.conversations, normalizeConversation);
+  const settingsOverrides = normalizeSettingsPatch(migrated.settingsOverrides);
+  const state: PersistedState = {
+    schemaVersion: STATE_VERSION,
+    settings: resolveSettings(globalSettings, settingsOverrides),
+    globalSettings,
+    settingsOverrides,
+    conversations,
+    history: keepValid(migrated.history, normalizeHistoryItem),
+    activeConversationId: typeof migrated.activeConversationId === 'string' ? migrated.activeConversationId : null,
+    activeSessionId: typeof migrated.activeSessionId === 'string' ? migrated.activeSessionId : null,
+    workspacePath: typeof migrated.workspacePath === 'string' && migrated.workspacePath ? migrated.workspacePath : workspacePath,
+  };
+  return { state, dropped };
+}
+
+/**
+ * Keep data that failed to load next to the state, so a bad write never silently destroys it
+ */
+export async function quarantineState(context: ExtensionContext, workspaceKey: string, reason: string, data: unknown): Promise<void> {
+  const stored = context.workspaceState.get<Record<string, QuarantineEntry[]>>(QUARANTINE_KEY) || {};
+  const entries = [{ quarantinedAt: Date.now(), reason, data }, ...(stored[workspaceKey] ?? [])].slice(0, MAX_QUARANTINE_ENTRIES);
+  await context.workspaceState.update(QUARANTINE_KEY, { ...stored, [workspaceKey]: entries });
+  console.warn(`[PersistedState] Quarantined state of ${workspaceKey}: ${reason}`);
+}
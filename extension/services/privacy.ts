@@ -0,0 +1,35 @@
+/**
+ * Privacy Service
+ * Redacts conversations and history on their way out of the extension host (data exports and MCP resources),
+ * which also covers text stored before redaction was enabled or a pattern was added
+ */
+
+import { createRedactor, protectContent } from '../../shared/privacy';
+
+import type { PrivacySettings } from '../../shared/privacy';
+import type { ConversationState, HistoryItemState } from './persistedState';
+
+interface WorkspaceHistory {
+  conversations: ConversationState[];
+  history: HistoryItemState[];
+}
+
+/**
+ * Copy of the conversations and history with every text field, conversation names included, passed through the redaction pipeline
+ * Other fields of `data`, e.g. settings in a full export, are kept as they are
+ */
+export function redactWorkspaceHistory<T extends WorkspaceHistory>(settings: PrivacySettings, data: T): T {
+  const redactor = createRedactor(settings);
+  return {
+    ...data,
+    conversations: data.conversations.map(conversation => ({
+      ...conversation,
+      name: redactor.redact(conversation.name),
+      messages: conversation.messages.map(message => protectContent(message, 'full', redactor)),
+    })),
+    history: data.history.map(item => ({
+      ...protectContent(item, 'full', redactor),
+      conversationName: redactor.redact(item.conversationName),
+    })),
+  };
+}
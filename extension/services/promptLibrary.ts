@@ -0,0 +1,164 @@
+/**
+ * Prompt Library Service
+ * Host-side view of the webview prompt templates, served to MCP clients as prompts
+ */
+
+import { CATALOGS, DEFAULT_LANGUAGE, localizeBuiltin, translate } from '../../shared/i18n';
+
+import { getGlobalStore } from './webviewStorage';
+
+import type { MCPPrompt, MCPPromptMessage, PromptProvider } from '../mcp';
+import type { ExtensionContext } from 'vscode';
+
+// Matches {{variable}} placeholders; names may contain any non-brace, non-space characters
+const VARIABLE_PATTERN = /\{\{\s*([^{}\s]+)\s*\}\}/g;
+
+/**
+ * The subset of a webview PromptTemplate the host needs
+ */
+export interface LibraryTemplate {
+  id: string;
+  name: string;
+  description: string;
+  content: string;
+  category: string;
+}
+
+export interface LibraryCategory {
+  id: string;
+  name: string;
+}
+
+interface PromptLibraryState {
+  templates: LibraryTemplate[];
+  categories: LibraryCategory[];
+}
+
+// Catalog entries of the webview's built-in prompts, by prompt id
+const BUILTIN_PROMPT_KEYS = {
+  'prompt-continue': 'continue',
+  'prompt-optimize': 'optimize',
+  'prompt-test': 'test',
+  'prompt-fix': 'fix',
+  'prompt-doc': 'doc',
+  'prompt-explain': 'explain',
+  'prompt-refactor': 'refactor',
+  'prompt-performance': 'performance',
+  'prompt-security': 'security',
+} as const;
+
+type BuiltinPromptId = keyof typeof BUILTIN_PROMPT_KEYS;
+
+type BuiltinCategoryId = keyof typeof CATALOGS[typeof DEFAULT_LANGUAGE]['promptCategories'];
+
+function isBuiltinPromptId(id: string): id is BuiltinPromptId {
+  return Object.hasOwn(BUILTIN_PROMPT_KEYS, id);
+}
+
+function isBuiltinCategoryId(id: string): id is BuiltinCategoryId {
+  return Object.hasOwn(CATALOGS[DEFAULT_LANGUAGE].promptCategories, id);
+}
+
+// Built-in templates and categories follow the UI language until the user edits them
+function localizeTemplate(template: LibraryTemplate): LibraryTemplate {
+  const id = template.id;
+  if (!isBuiltinPromptId(id)) {
+    return template;
+  }
+  const key = BUILTIN_PROMPT_KEYS[id];
+  return localizeBuiltin(template, language => ({
+    name: translate(language, `builtinPrompts.${key}.name`),
+    description: translate(language, `builtinPrompts.${key}.description`),
+    content: translate(language, `builtinPrompts.${key}.content`),
+  }));
+}
+
+function localizeCategory(category: LibraryCategory): LibraryCategory {
+  const id = category.id;
+  return isBuiltinCategoryId(id)
+    ? localizeBuiltin(category, language => ({ name: translate(language, `promptCategories.${id}`) }))
+    : category;
+}
+
+/**
+ * Variable names used in a template, in order of first appearance
+ */
+export function extractTemplateVariables(content: string): string[] {
+  const names = new Set<string>();
+  for (const match of content.matchAll(VARIABLE_PATTERN)) {
+    names.add(match[1]);
+  }
+  return [...names];
+}
+
+/**
+ * Replace {{variable}} placeholders; unknown variables are left untouched
+ */
+export function renderTemplate(content: string, values: Record<string, string>): string {
+  return content.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    Object.hasOwn(values, name) ? values[name] : placeholder);
+}
+
+/**
+ * Read the templates from the webview's prompts and promptCategories stores
+ * Only the fields the host needs are kept, so usage counters never register as library changes
+ * Unedited built-in templates and categories are returned in the current language
+ */
+export function getPromptLibrary(context: ExtensionContext): PromptLibraryState {
+  const prompts = getGlobalStore(context, 'prompts');
+  const categories = getGlobalStore(context, 'promptCategories');
+  return {
+    templates: (Array.isArray(prompts) ? prompts : [])
+      .filter(p => typeof p?.id === 'string' && typeof p?.content === 'string')
+      .map(p => ({
+        id: p.id,
+        name: String(p.name ?? p.id),
+        description: String(p.description ?? ''),
+        content: p.content,
+        category: String(p.category ?? 'custom'),
+      }))
+      .map(localizeTemplate),
+    categories: (Array.isArray(categories) ? categories : [])
+      .filter(c => typeof c?.id === 'string')
+      .map(c => localizeCategory({ id: c.id, name: String(c.name ?? c.id) })),
+  };
+}
+
+/**
+ * Create the MCP prompt provider backed by the webview's prompt stores
+ */
+export function createPromptLibraryProvider(context: ExtensionContext): PromptProvider {
+  const describe = (template: LibraryTemplate, categories: LibraryCategory[]) => {
+    const category = categories.find(c => c.id === template.category);
+    return category ? `[${category.name}] ${template.description}` : template.description;
+  };
+
+  return {
+    listPrompts(): MCPPrompt[] {
+      const { templates, categories } = getPromptLibrary(context);
+      return templates.map(template => ({
+        name: template.id,
+        title: template.name,
+        description: describe(template, categories),
+        arguments: extractTemplateVariables(template.content).map(name => ({
+          name,
+          required: true,
+        })),
+      }));
+    },
+
+    getPrompt(name: string, args: Record<string, string>) {
+      const { templates, categories } = getPromptLibrary(context);
+      const template = templates.find(t => t.id === name);
+      if (!template) {
+        return null;
+      }
+
+      const messages: MCPPromptMessage[] = [{
+        role: 'user',
+        content: { type: 'text', text: renderTemplate(template.content, args) },
+      }];
+      return { description: describe(template, categories), messages };
+    },
+  };
+}
@@ -1,124 +1,105 @@
 /**
  * Prompt Optimizer Service
- * Uses AI models to optimize user prompts for better results
+ * Uses the configured optimizer provider to improve user prompts
  */
 
-import * as vscode from 'vscode';
+import { t } from '../../shared/i18n';
+import { getSettings } from '../views/helper';
 
-/**
- * Check if running in Windsurf environment
- */
-export function isWindsurfEnvironment(): boolean {
-  const appName = vscode.env.appName?.toLowerCase() || '';
-  return appName.includes('windsurf') || appName.includes('codeium');
-}
-
-const OPTIMIZE_PROMPT_TEMPLATE = `你是一个提示词优化专家。请优化以下用户提示词，使其更加清晰、具体、有效。
+import { getOptimizationProfiles, resolveOptimizationProfile } from './optimizationProfiles';
+import { createOptimizerProvider, OPTIMIZER_API_KEY_SECRET } from './optimizerProviders';
 
-原始提示词：
-{prompt}
+import type { ExtensionContext } from 'vscode';
 
-优化要求：
-1. 保持原始意图不变
-2. 使表达更加清晰具体
-3. 添加必要的上下文和约束
-4. 使用更专业的措辞
-5. 保持简洁，不要过度冗长
-
-请直接输出优化后的提示词，不要包含任何解释或额外说明。`;
+export { isWindsurfEnvironment } from './optimizerProviders';
 
 export interface OptimizePromptResult {
   success: boolean;
   optimizedPrompt?: string;
   error?: string;
+  /** Set when the request was cancelled through `signal` */
+  cancelled?: boolean;
+  /** Instructions of the profile that was applied */
+  systemPrompt?: string;
+}
+
+export interface OptimizePromptOptions {
+  /** Optimization profile id or name; the default profile when omitted */
+  profile?: string;
+  signal?: AbortSignal;
+  /** Receives the optimized prompt piece by piece while it is generated */
+  onChunk?: (chunk: string) => void;
 }
 
 /**
- * Optimize a prompt using VSCode's language model API
- * Note: In Windsurf environment, this will return an error since Windsurf
- * doesn't support VSCode's LM API. The AI should optimize directly instead.
+ * Optimize a prompt with the provider selected in Settings, following an optimization profile
+ * The provider's timeout and `signal` both abort the request
  */
-export async function optimizePrompt(prompt: string): Promise<OptimizePromptResult> {
-  // Check if in Windsurf environment - VSCode LM API is not available
-  if (isWindsurfEnvironment()) {
-    return {
-      success: false,
-      error: 'Windsurf环境不支持本地优化，请使用AI优化功能',
-    };
+export async function optimizePrompt(
+  context: ExtensionContext,
+  prompt: string,
+  options: OptimizePromptOptions = {},
+): Promise<OptimizePromptResult> {
+  const { signal, onChunk } = options;
+  const profile = resolveOptimizationProfile(context, options.profile);
+  if (!profile) {
+    const available = getOptimizationProfiles(context).profiles.map(p => p.name).join(t('optimizer.listSeparator'));
+    return { success: false, error: t('optimizer.profileNotFound', { profile: options.profile ?? '', available }) };
   }
 
-  try {
-    // Try to use VSCode's built-in language model API (Copilot)
-    const models = await vscode.lm.selectChatModels({
-      vendor: 'copilot',
-    });
-
-    if (models.length > 0) {
-      const model = models[0];
-      const messages = [
-        vscode.LanguageModelChatMessage.User(
-          OPTIMIZE_PROMPT_TEMPLATE.replace('{prompt}', prompt),
-        ),
-      ];
-
-      const response = await model.sendRequest(messages, {}, new vscode.CancellationTokenSource().token);
+  const settings = getSettings(context);
+  const providerId = settings.optimizerProvider;
+  const timeoutSeconds = settings.optimizerTimeouts[providerId];
 
-      let result = '';
-      for await (const chunk of response.text) {
-        result += chunk;
-      }
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(t('optimizer.timeout', { seconds: timeoutSeconds })),
+    Math.max(1, timeoutSeconds) * 1000,
+  );
+  const onAbort = () => controller.abort(t('optimizer.cancelled'));
+  signal?.addEventListener('abort', onAbort, { once: true });
 
-      return {
-        success: true,
-        optimizedPrompt: result.trim(),
-      };
+  try {
+    if (signal?.aborted) {
+      return { success: false, cancelled: true, error: t('optimizer.cancelled') };
     }
 
-    // Fallback: Try other available models
-    const allModels = await vscode.lm.selectChatModels();
-    if (allModels.length > 0) {
-      const model = allModels[0];
-      const messages = [
-        vscode.LanguageModelChatMessage.User(
-          OPTIMIZE_PROMPT_TEMPLATE.replace('{prompt}', prompt),
-        ),
-      ];
-
-      const response = await model.sendRequest(messages, {}, new vscode.CancellationTokenSource().token);
-
-      let result = '';
-      for await (const chunk of response.text) {
-        result += chunk;
-      }
+    const provider = createOptimizerProvider({
+      provider: providerId,
+      modelId: settings.optimizerModelId,
+      endpoint: settings.optimizerEndpoint,
+      model: settings.optimizerModel,
+      apiKey: providerId === 'openai-compatible'
+        ? await context.secrets.get(OPTIMIZER_API_KEY_SECRET)
+        : undefined,
+    });
 
-      return {
-        success: true,
-        optimizedPrompt: result.trim(),
-      };
+    if (provider.profileIds && !provider.profileIds.includes(profile.id)) {
+      return { success: false, error: t('optimizer.profileUnsupported', { profile: profile.name }), systemPrompt: profile.systemPrompt };
     }
 
-    return {
-      success: false,
-      error: '没有可用的语言模型。请确保已安装 GitHub Copilot 或其他语言模型扩展。',
-    };
+    const result = await provider.optimize(prompt, profile.systemPrompt, controller.signal, onChunk);
+    const optimizedPrompt = result.trim();
+    if (!optimizedPrompt) {
+      return { success: false, error: t('optimizer.emptyResult'), systemPrompt: profile.systemPrompt };
+    }
+    return { success: true, optimizedPrompt, systemPrompt: profile.systemPrompt };
   }
   catch (error: any) {
-    console.error('Prompt optimization failed:', error);
+    if (signal?.aborted) {
+      return { success: false, cancelled: true, error: t('optimizer.cancelled') };
+    }
+    console.error(`[PromptOptimizer] ${providerId} failed:`, error);
     return {
       success: false,
-      error: error.message || '优化提示词时发生错误',
+      systemPrompt: profile.systemPrompt,
+      error: (controller.signal.aborted && typeof controller.signal.reason === 'string')
+        ? controller.signal.reason
+        : error.message || t('optimizer.error'),
     };
   }
-}
-
-/**
- * Optimize prompt using a custom MCP server (fallback option)
- */
-export async function optimizePromptWithMCP(_prompt: string): Promise<OptimizePromptResult> {
-  // This is a placeholder for MCP-based optimization
-  // The actual implementation would call an MCP server with AI capabilities
-  return {
-    success: false,
-    error: 'MCP优化功能暂未实现',
-  };
+  finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
 }
@@ -0,0 +1,87 @@
+/**
+ * Retention Service
+ * Prunes the current workspace's conversations, history and sessions at activation and once a day,
+ * following the history settings, and reports what was removed
+ */
+
+import { window } from 'vscode';
+
+import { t } from '../../shared/i18n';
+import { isEmptyReport, pruneSessions, pruneState, retentionPolicy } from '../../shared/retention';
+
+import { getWorkspaceKey, queueWrite, updateState } from './stateStore';
+import { getStoreSnapshot, saveStore } from './webviewStorage';
+
+import type { RetainedSession, RetainedStatistics, RetentionPolicy, RetentionReport } from '../../shared/retention';
+import type { StoreSnapshot } from '../../shared/storage';
+import type { Disposable, ExtensionContext } from 'vscode';
+
+const RETENTION_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Apply the retention rules once
+ * Conversations and history go through the state queue, so open panels receive the result as a patch;
+ * session stores are pruned on the same queue once the state change is done, where panels' writes to them run too
+ * @param context Extension context
+ * @param onStoresPruned Receives the session stores when they changed, to forward them to open panels
+ * @param now Time the retention rules are measured from
+ */
+export async function runRetention(
+  context: ExtensionContext,
+  onStoresPruned: (stores: StoreSnapshot) => void,
+  now: number = Date.now(),
+): Promise<RetentionReport> {
+  let policy: RetentionPolicy | undefined;
+  let stateReport: Pick<RetentionReport, 'history' | 'conversations' | 'messages'> = { history: 0, conversations: 0, messages: 0 };
+  let showNotifications = false;
+  const workspaceKey = getWorkspaceKey();
+
+  await updateState(context, (state) => {
+    policy = retentionPolicy(state.settings, now);
+    showNotifications = state.settings.showNotifications;
+    const pruned = pruneState(state, policy);
+    stateReport = pruned.report;
+    return pruned.state;
+  });
+
+  const sessionReport = await queueWrite(async () => {
+    const stores = getStoreSnapshot(context, workspaceKey);
+    const sessions = pruneSessions(
+      Array.isArray(stores.sessions) ? stores.sessions as RetainedSession[] : [],
+      stores.sessionStatistics as RetainedStatistics | undefined,
+      policy!,
+    );
+    if (sessions.report.sessions > 0 || sessions.report.strippedSessions > 0) {
+      const changed: StoreSnapshot = { sessions: sessions.sessions };
+      if (sessions.statistics !== stores.sessionStatistics) {
+        changed.sessionStatistics = sessions.statistics;
+      }
+      for (const name of Object.keys(changed) as (keyof StoreSnapshot)[]) {
+        await saveStore(context, workspaceKey, name, changed[name]);
+      }
+      onStoresPruned(changed);
+    }
+    return sessions.report;
+  });
+
+  const report: RetentionReport = { ...stateReport, ...sessionReport };
+  if (!isEmptyReport(report)) {
+    console.log('[Retention] Pruned:', report);
+    if (showNotifications) {
+      window.showInformationMessage(t('host.retentionPruned', { ...report }));
+    }
+  }
+  return report;
+}
+
+/**
+ * Run the retention job now and then every day until disposed
+ */
+export function scheduleRetention(context: ExtensionContext, onStoresPruned: (stores: StoreSnapshot) => void): Disposable {
+  const run = () => {
+    runRetention(context, onStoresPruned).catch(error => console.error('[Retention] Failed to prune:', error));
+  };
+  run();
+  const timer = setInterval(run, RETENTION_INTERVAL_MS);
+  return { dispose: () => clearInterval(timer) };
+}
@@ -0,0 +1,228 @@
+/**
+ * State Store Service
+ * Owns the persisted workspace state: every change runs through one serialized queue,
+ * bumps the revision and is published as a patch, so concurrent panels never overwrite each other
+ */
+
+import { window, workspace } from 'vscode';
+
+import { t } from '../../shared/i18n';
+import { applyStateCommand, diffState } from '../../shared/state';
+import { mergeStoreWrite } from '../../shared/storage';
+
+import {
+  createInitialState,
+  normalizeSettingsPatch,
+  parsePersistedState,
+  quarantineState,
+  resolveSettings,
+  StateSchemaError,
+} from './persistedState';
+import { getStoreSnapshot, saveStore } from './webviewStorage';
+import { updateWorkspaceLibrary } from './workspaceLibrary';
+
+import type { StateCommand, StatePatch } from '../../shared/state';
+import type { StoreName } from '../../shared/storage';
+import type { PersistedState, SettingsState } from './persistedState';
+import type { ExtensionContext } from 'vscode';
+
+const STORAGE_KEY = 'windsurf-endless:state';
+// Settings shared by every workspace
+const GLOBAL_SETTINGS_KEY = 'windsurf-endless:global-settings';
+
+type PatchListener = (patch: StatePatch) => void;
+
+// Counts the changes made since activation; webviews compare it to detect missed patches
+let revision = 0;
+// Tail of the queue; each change starts after the previous one has been written
+let tail: Promise<unknown> = Promise.resolve();
+const listeners = new Set<PatchListener>();
+
+export function getWorkspaceKey() {
+  return workspace.workspaceFolders?.map(f => f.uri.toString()).join('|') || 'global';
+}
+
+export function getWorkspacePath() {
+  return workspace.workspaceFolders?.[0]?.uri.fsPath ?? '';
+}
+
+function loadGlobalSettings(context: ExtensionContext): Partial<SettingsState> {
+  return normalizeSettingsPatch(context.globalState.get(GLOBAL_SETTINGS_KEY));
+}
+
+/**
+ * The part of the state stored with the workspace; effective and global settings are left out
+ */
+function toStoredState({ settings: _settings, globalSettings: _globalSettings, ...stored }: PersistedState) {
+  return stored;
+}
+
+/**
+ * Queue writing back state that was created or repaired while loading
+ * The write is skipped when the stored value changed after it was read, since that change is newer
+ * @param context Extension context
+ * @param key Workspace key the state is stored under
+ * @param read The stored value the state was loaded from
+ * @param state The state to store
+ * @param beforeWrite Runs first, e.g. to quarantine what is about to be replaced
+ */
+function queueWriteBack(
+  context: ExtensionContext,
+  key: string,
+  read: unknown,
+  state: PersistedState,
+  beforeWrite?: () => Promise<void> | void,
+): void {
+  enqueue(async () => {
+    const stored = context.workspaceState.get<Record<string, unknown>>(STORAGE_KEY) || {};
+    if (JSON.stringify(stored[key]) !== JSON.stringify(read)) {
+      return;
+    }
+    await beforeWrite?.();
+    await context.workspaceState.update(STORAGE_KEY, { ...stored, [key]: toStoredState(state) });
+  }).catch(error => console.error(`[StateStore] Failed to write back the state of ${key}:`, error));
+}
+
+/**
+ * Load the state of the current workspace, migrating and validating what is stored
+ * Unreadable state is quarantined and replaced by the initial state rather than failing the caller;
+ * repairs are written back through the queue
+ */
+export function loadState(context: ExtensionContext): PersistedState {
+  const key = getWorkspaceKey();
+  const globalSettings = loadGlobalSettings(context);
+  const stored = context.workspaceState.get<Record<string, unknown>>(STORAGE_KEY) || {};
+  const read = stored[key];
+  if (read === undefined) {
+    const initial = createInitialState(getWorkspacePath(), globalSettings);
+    queueWriteBack(context, key, read, initial);
+    return initial;
+  }
+
+  try {
+    const { state, dropped } = parsePersistedState(read, getWorkspacePath(), globalSettings);
+    // Write back migrations and backfilled defaults once, so later loads see the current layout
+    if (JSON.stringify(toStoredState(state)) !== JSON.stringify(read)) {
+      queueWriteBack(context, key, read, state, async () => {
+        if (dropped.length > 0) {
+          await quarantineState(context, key, t('host.stateEntriesDropped', { count: dropped.length }), dropped);
+        }
+      });
+    }
+    return state;
+  }
+  catch (error) {
+    const reason = error instanceof StateSchemaError ? error.message : String(error);
+    const initial = createInitialState(getWorkspacePath(), globalSettings);
+    queueWriteBack(context, key, read, initial, async () => {
+      await quarantineState(context, key, reason, read);
+      window.showWarningMessage(t('host.stateQuarantined', { reason }));
+    });
+    return initial;
+  }
+}
+
+/**
+ * Write the workspace part of the state and the global settings, and keep the workspace library current
+ */
+async function saveState(context: ExtensionContext, next: PersistedState): Promise<void> {
+  const key = getWorkspaceKey();
+  const stored = context.workspaceState.get<Record<string, unknown>>(STORAGE_KEY) || {};
+  await context.workspaceState.update(STORAGE_KEY, { ...stored, [key]: toStoredState(next) });
+  if (JSON.stringify(next.globalSettings) !== JSON.stringify(loadGlobalSettings(context))) {
+    await context.globalState.update(GLOBAL_SETTINGS_KEY, next.globalSettings);
+  }
+  await updateWorkspaceLibrary(context, key, next);
+}
+
+function enqueue<T>(task: () => T | Promise<T>): Promise<T> {
+  const result = tail.then(task);
+  tail = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * Run a write to storage other than the state after every change queued before it,
+ * so it never interleaves with a state change
+ */
+export function queueWrite<T>(write: () => T | Promise<T>): Promise<T> {
+  return enqueue(write);
+}
+
+/**
+ * Queue a panel's write of a webview store
+ * The write is merged with what other panels stored since `base`, the panel's copy it edited (see mergeStoreWrite)
+ * @returns The value that was stored
+ */
+export function queueStoreWrite(context: ExtensionContext, workspaceKey: string, name: StoreName, value: unknown, base: unknown): Promise<unknown> {
+  return enqueue(async () => {
+    const merged = mergeStoreWrite(name, getStoreSnapshot(context, workspaceKey)[name], base, value);
+    await saveStore(context, workspaceKey, name, merged);
+    return merged;
+  });
+}
+
+function notifyListeners(patch: StatePatch): void {
+  listeners.forEach((listener) => {
+    try {
+      listener(patch);
+    }
+    catch (error) {
+      console.error('[StateStore] Listener failed:', error);
+    }
+  });
+}
+
+/**
+ * Subscribe to the patches published after each change
+ * @returns Function that removes the listener
+ */
+export function onDidPatchState(listener: PatchListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Read the state once every queued change has been written
+ * The revision belongs to the state, so a webview can apply the patches that follow it
+ */
+export function readState<T>(context: ExtensionContext, read: (state: PersistedState, revision: number) => T): Promise<T> {
+  return enqueue(() => read(loadState(context), revision));
+}
+
+/**
+ * Queue a change to the state, persist the result and publish it as a patch
+ * A change that leaves the state as it was is neither written nor published
+ * @param context Extension context
+ * @param recipe Builds the next state from the current one; throwing rejects the change
+ * @param commandId Id of the webview command being applied, echoed in the patch
+ */
+export function updateState(
+  context: ExtensionContext,
+  recipe: (state: PersistedState) => PersistedState,
+  commandId?: string,
+): Promise<PersistedState> {
+  return enqueue(async () => {
+    const current = loadState(context);
+    const changed = recipe(current);
+    // Commands change the settings layers; the effective settings follow from them
+    const next = { ...changed, settings: resolveSettings(changed.globalSettings, changed.settingsOverrides) };
+    const ops = diffState(current, next);
+    if (ops.length === 0 && !commandId) {
+      return current;
+    }
+    await saveState(context, next);
+    const baseRevision = revision++;
+    notifyListeners({ baseRevision, revision, ops, commandId });
+    return next;
+  });
+}
+
+/**
+ * Queue a command sent by a webview
+ * Settings it saves are validated here; invalid ones are dropped
+ * @throws StateConflictError when the command no longer fits the state
+ */
+export function applyCommand(context: ExtensionContext, command: StateCommand, commandId?: string): Promise<PersistedState> {
+  return updateState(context, state => applyStateCommand(state, command, normalizeSettingsPatch), commandId);
+}
@@ -0,0 +1,80 @@
+/**
+ * Webview Storage Service
+ * Host-side persistence for the webview managers (sessions, prompts, auto-submit and audio settings),
+ * so every panel sees the same data and nothing is lost when the webview origin changes
+ */
+
+import { isStoreName, STORE_NAMES, STORE_SCOPES } from '../../shared/storage';
+
+import type { StoreName, StoreSnapshot } from '../../shared/storage';
+import type { ExtensionContext } from 'vscode';
+
+const GLOBAL_STORES_KEY = 'windsurf-endless:webview-stores';
+// Keyed by workspace like the persisted conversations and history
+const WORKSPACE_STORES_KEY = 'windsurf-endless:webview-workspace-stores';
+
+function getGlobalStores(context: ExtensionContext): StoreSnapshot {
+  return context.globalState.get<StoreSnapshot>(GLOBAL_STORES_KEY) ?? {};
+}
+
+function getWorkspaceStores(context: ExtensionContext): Record<string, StoreSnapshot> {
+  return context.workspaceState.get<Record<string, StoreSnapshot>>(WORKSPACE_STORES_KEY) ?? {};
+}
+
+/**
+ * Values of every store visible from the given workspace
+ */
+export function getStoreSnapshot(context: ExtensionContext, workspaceKey: string): StoreSnapshot {
+  const globalStores = getGlobalStores(context);
+  const workspaceStores = getWorkspaceStores(context)[workspaceKey] ?? {};
+  const snapshot: StoreSnapshot = {};
+  for (const name of STORE_NAMES) {
+    const source = STORE_SCOPES[name] === 'global' ? globalStores : workspaceStores;
+    if (Object.hasOwn(source, name)) {
+      snapshot[name] = source[name];
+    }
+  }
+  return snapshot;
+}
+
+/**
+ * Value of a global store, which is the same from every workspace
+ */
+export function getGlobalStore(context: ExtensionContext, name: StoreName): unknown {
+  return getGlobalStores(context)[name];
+}
+
+/**
+ * Write a store into globalState or workspaceState depending on its scope
+ * Run it on the state queue (queueWrite) so it does not interleave with another write
+ */
+export function saveStore(context: ExtensionContext, workspaceKey: string, name: StoreName, value: unknown): Thenable<void> {
+  if (STORE_SCOPES[name] === 'global') {
+    return context.globalState.update(GLOBAL_STORES_KEY, { ...getGlobalStores(context), [name]: value });
+  }
+  const stored = getWorkspaceStores(context);
+  return context.workspaceState.update(WORKSPACE_STORES_KEY, {
+    ...stored,
+    [workspaceKey]: { ...stored[workspaceKey], [name]: value },
+  });
+}
+
+/**
+ * Import values a webview still keeps in localStorage
+ * Stores that already have a value on the host win, so the migration only ever fills gaps
+ * @returns The stores that were imported
+ */
+export async function migrateStores(context: ExtensionContext, workspaceKey: string, entries: unknown): Promise<StoreSnapshot> {
+  const current = getStoreSnapshot(context, workspaceKey);
+  const imported: StoreSnapshot = {};
+  if (!entries || typeof entries !== 'object') {
+    return imported;
+  }
+  for (const [name, value] of Object.entries(entries)) {
+    if (isStoreName(name) && value !== undefined && !Object.hasOwn(current, name)) {
+      await saveStore(context, workspaceKey, name, value);
+      imported[name] = value;
+    }
+  }
+  return imported;
+}
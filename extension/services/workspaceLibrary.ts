@@ -0,0 +1,66 @@
+/**
+ * Workspace Library Service
+ * Copies of the history of workspaces that enabled `syncAcrossWorkspaces`, kept in globalState
+ * so other workspaces can browse them read-only; the workspace itself stays the only writer of its history
+ */
+
+import type { HistoryItemState, PersistedState } from './persistedState';
+import type { ExtensionContext } from 'vscode';
+
+const LIBRARY_KEY = 'windsurf-endless:workspace-library';
+
+export interface SharedWorkspaceHistory {
+  workspaceKey: string;
+  workspacePath: string;
+  updatedAt: number;
+  history: HistoryItemState[];
+}
+
+/** A shared workspace without its history, for listing */
+export type SharedWorkspaceSummary = Omit<SharedWorkspaceHistory, 'history'> & { historyCount: number };
+
+function getLibrary(context: ExtensionContext): Record<string, SharedWorkspaceHistory> {
+  return context.globalState.get<Record<string, SharedWorkspaceHistory>>(LIBRARY_KEY) ?? {};
+}
+
+/**
+ * Publish or withdraw the history of a workspace, following its `syncAcrossWorkspaces` setting
+ */
+export function updateWorkspaceLibrary(context: ExtensionContext, workspaceKey: string, state: PersistedState): Thenable<void> | undefined {
+  const library = getLibrary(context);
+  if (!state.settings.syncAcrossWorkspaces) {
+    if (!Object.hasOwn(library, workspaceKey)) {
+      return undefined;
+    }
+    const { [workspaceKey]: _withdrawn, ...rest } = library;
+    return context.globalState.update(LIBRARY_KEY, rest);
+  }
+  const published = library[workspaceKey];
+  if (published && published.workspacePath === state.workspacePath
+    && JSON.stringify(published.history) === JSON.stringify(state.history)) {
+    return undefined;
+  }
+  return context.globalState.update(LIBRARY_KEY, {
+    ...library,
+    [workspaceKey]: {
+      workspaceKey,
+      workspacePath: state.workspacePath,
+      updatedAt: Date.now(),
+      history: state.history,
+    },
+  });
+}
+
+/**
+ * Workspaces other than the given one that share their history, most recently updated first
+ */
+export function listSharedWorkspaces(context: ExtensionContext, exceptWorkspaceKey: string): SharedWorkspaceSummary[] {
+  return Object.values(getLibrary(context))
+    .filter(entry => entry.workspaceKey !== exceptWorkspaceKey)
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .map(({ history, ...entry }) => ({ ...entry, historyCount: history.length }));
+}
+
+export function getSharedWorkspaceHistory(context: ExtensionContext, workspaceKey: string): SharedWorkspaceHistory | undefined {
+  return getLibrary(context)[workspaceKey];
+}
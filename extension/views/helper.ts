@@ -2,18 +2,36 @@ import * as fs from 'node:fs';
 import * as http from 'node:http';
 
 import getWebviewHtml from 'virtual:vscode';
-import { commands, window, workspace } from 'vscode';
+import { commands, Uri, window, workspace } from 'vscode';
 
+import { getLanguage, setLanguage, t } from '../../shared/i18n';
+import { applyStateCommand, isStateCommandType, saveSettingsCommands, StateConflictError } from '../../shared/state';
+import { isStoreName } from '../../shared/storage';
 import {
   checkPortAvailable,
   findAvailablePort,
   getServerState,
+  notifyPromptListChanged,
   restartHTTPServer,
   switchTransport,
 } from '../mcp';
+import { getPendingCheckpoints, resolveCheckpoints } from '../services/checkpointQueue';
 import { configureMCP, validateServerName, validateServerPort } from '../services/config';
-
+import { getOptimizationProfiles, saveOptimizationProfiles } from '../services/optimizationProfiles';
+import { listLanguageModels, OPTIMIZER_API_KEY_SECRET } from '../services/optimizerProviders';
+import { normalizeSettingsPatch, parsePersistedState } from '../services/persistedState';
+import { redactWorkspaceHistory } from '../services/privacy';
+import { getPromptLibrary } from '../services/promptLibrary';
+import { applyCommand, getWorkspaceKey, getWorkspacePath, loadState, queueStoreWrite, queueWrite, readState, updateState } from '../services/stateStore';
+import { getStoreSnapshot, migrateStores } from '../services/webviewStorage';
+import { getSharedWorkspaceHistory, listSharedWorkspaces } from '../services/workspaceLibrary';
+
+import type { StateCommand, StateCommandType, StatePatch } from '../../shared/state';
+import type { StoreName, StoreSnapshot } from '../../shared/storage';
 import type { TransportType as MCPTransportType } from '../mcp';
+import type { PendingCheckpoint } from '../services/checkpointQueue';
+import type { OptimizationProfilesState } from '../services/optimizationProfiles';
+import type { ConversationState, HistoryItemState, PersistedState, SettingsState } from '../services/persistedState';
 import type { Disposable, ExtensionContext, Webview, WebviewView, WebviewViewProvider } from 'vscode';
 
 // ==================== Random Tool Name Generator ====================
@@ -179,96 +197,6 @@ export function resetRandomizedToolNames(): void {
   randomizedToolNames = null;
 }
 
-// Basic shared types (mirrors webview types but kept local to avoid cross-bundle imports)
-type TransportType = 'http' | 'stdio' | 'auto';
-type ConnectionMode = 'simple' | 'advanced';
-
-interface SettingsState {
-  autoStart: boolean;
-  showNotifications: boolean;
-  language: 'zh-CN' | 'en-US';
-  mcpAutoConfig: boolean;
-  mcpServerPath: string;
-  mcpServerName: string;
-  mcpServerPort: number;
-  // Transport settings
-  transportType: TransportType;
-  connectionMode: ConnectionMode;
-  autoReconnect: boolean;
-  reconnectAttempts: number;
-  connectionTimeout: number;
-  fallbackToStdio: boolean;
-  fallbackPorts: number[];
-  // Dialog settings
-  dialogTimeout: number;
-  dialogPosition: 'center' | 'top-right' | 'bottom-right';
-  dialogTheme: 'system' | 'light' | 'dark';
-  autoInjectRules: boolean;
-  customRulesPath: string;
-  saveHistory: boolean;
-  maxHistoryItems: number;
-  autoCleanHistory: boolean;
-  historyRetentionDays: number;
-}
-
-const defaultSettings: SettingsState = {
-  autoStart: true,
-  showNotifications: true,
-  language: 'zh-CN',
-  mcpAutoConfig: true,
-  mcpServerPath: '',
-  mcpServerName: 'windsurf-endless',
-  mcpServerPort: 6000,
-  transportType: 'http',
-  connectionMode: 'simple',
-  autoReconnect: true,
-  reconnectAttempts: 5,
-  connectionTimeout: 10,
-  fallbackToStdio: false,
-  fallbackPorts: [6001, 6002, 16000],
-  dialogTimeout: 24,
-  dialogPosition: 'center',
-  dialogTheme: 'system',
-  autoInjectRules: true,
-  customRulesPath: '',
-  saveHistory: true,
-  maxHistoryItems: 100,
-  autoCleanHistory: false,
-  historyRetentionDays: 30,
-};
-
-interface ConversationState {
-  id: string;
-  name: string;
-  workspacePath: string;
-  createdAt: number;
-  updatedAt: number;
-  messages: Array<{ id: string; timestamp: number; type: 'ask' | 'response'; summary?: string; shouldContinue: boolean; userInstruction?: string }>; // minimal shape for stats
-  isActive: boolean;
-}
-
-interface HistoryItemState {
-  id: string;
-  conversationId: string;
-  conversationName: string;
-  workspacePath: string;
-  timestamp: number;
-  summary: string;
-  action: 'continue' | 'end';
-  userInstruction?: string;
-}
-
-interface PersistedState {
-  settings: SettingsState;
-  conversations: ConversationState[];
-  history: HistoryItemState[];
-  activeConversationId: string | null;
-  activeSessionId: string | null;
-  workspacePath: string;
-}
-
-const STORAGE_KEY = 'windsurf-endless:state';
-
 // Track webviews by panelId for targeted message delivery
 interface WebviewInfo {
   webview: Webview;
@@ -282,36 +210,21 @@ function generatePanelId(): string {
   return `panel-${Date.now()}-${++panelIdCounter}-${Math.random().toString(36).slice(2, 7)}`;
 }
 
-function getWorkspaceKey() {
-  return workspace.workspaceFolders?.map(f => f.uri.toString()).join('|') || 'global';
-}
-
-function getWorkspacePath() {
-  return workspace.workspaceFolders?.[0]?.uri.fsPath ?? '';
-}
-
-function loadState(context: ExtensionContext): PersistedState {
-  const key = getWorkspaceKey();
-  const stored = context.workspaceState.get<Record<string, PersistedState>>(STORAGE_KEY) || {};
-  if (stored[key]) {
-    return stored[key];
-  }
-  const initial: PersistedState = {
-    settings: defaultSettings,
-    conversations: [],
-    history: [],
-    activeConversationId: null,
-    activeSessionId: null,
-    workspacePath: getWorkspacePath(),
-  };
-  context.workspaceState.update(STORAGE_KEY, { ...stored, [key]: initial });
-  return initial;
+/**
+ * Get settings persisted for the current workspace
+ * @param context Extension context
+ */
+export function getSettings(context: ExtensionContext): SettingsState {
+  return loadState(context).settings;
 }
 
-function saveState(context: ExtensionContext, next: PersistedState) {
-  const key = getWorkspaceKey();
-  const stored = context.workspaceState.get<Record<string, PersistedState>>(STORAGE_KEY) || {};
-  context.workspaceState.update(STORAGE_KEY, { ...stored, [key]: next });
+/**
+ * Get conversations and history persisted for the current workspace
+ * @param context Extension context
+ */
+export function getWorkspaceHistory(context: ExtensionContext): { conversations: ConversationState[]; history: HistoryItemState[] } {
+  const state = loadState(context);
+  return { conversations: state.conversations, history: state.history };
 }
 
 /**
@@ -331,61 +244,332 @@ export function getMCPSettings(context: ExtensionContext): { serverName: string;
 }
 
 /**
- * Send state to specific webview or broadcast to all
- * @param state The state to send
- * @param targetPanelId If provided, only send to this specific panel
+ * Record a checkpoint answer made outside the webview (a dialog timeout or the native checkpoint)
+ * The item is attached to the active conversation and broadcast to every webview
+ */
+export function recordHistoryItem(
+  context: ExtensionContext,
+  item: Pick<HistoryItemState, 'summary' | 'action' | 'userInstruction' | 'resolution'>,
+): Promise<PersistedState> {
+  const timestamp = Date.now();
+  return updateState(context, (currentState) => {
+    const conversation = currentState.conversations.find(c => c.id === currentState.activeConversationId);
+    const historyItem: HistoryItemState = {
+      ...item,
+      id: `hist-${timestamp}-${Math.random().toString(36).slice(2, 11)}`,
+      conversationId: conversation?.id ?? 'default',
+      conversationName: conversation?.name ?? t('common.defaultConversation'),
+      workspacePath: conversation?.workspacePath || currentState.workspacePath || getWorkspacePath(),
+      timestamp,
+    };
+    return applyStateCommand(currentState, { type: 'add_history_item', data: historyItem });
+  });
+}
+
+/**
+ * Send the full state to one webview, with the revision its later patches build on
+ */
+function sendStateSnapshot(context: ExtensionContext, webview: Webview, panelId: string): Promise<void> {
+  return readState(context, (state, revision) => {
+    webview.postMessage({ type: 'state_sync', data: state, revision, panelId });
+  });
+}
+
+/**
+ * Push a state patch to every webview, including the one whose command produced it
+ */
+export function broadcastStatePatch(patch: StatePatch) {
+  connectedWebviews.forEach((info) => {
+    try {
+      info.webview.postMessage({ type: 'state_patch', data: patch });
+    }
+    catch (error) {
+      console.error(`Failed to send state patch to webview ${info.panelId}:`, error);
+    }
+  });
+}
+
+/**
+ * Apply a state command sent by a webview
+ * A conflicting command is rejected back to its webview, which drops its optimistic copy
+ */
+async function handleStateCommand(context: ExtensionContext, webview: Webview, message: { type: StateCommandType; data?: any; commandId?: string }): Promise<void> {
+  try {
+    const previousLanguage = getLanguage();
+    const next = await applyCommand(context, { type: message.type, data: message.data } as StateCommand, message.commandId);
+    // Notifications and tool results follow the UI language, as do unmodified built-in profiles and prompts
+    if (message.type === 'save_settings' && next.settings.language !== previousLanguage) {
+      setLanguage(next.settings.language);
+      broadcastOptimizationProfiles(getOptimizationProfiles(context));
+      notifyPromptListChanged();
+    }
+  }
+  catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    webview.postMessage({ type: 'state_command_rejected', data: { commandId: message.commandId, reason } });
+    if (error instanceof StateConflictError) {
+      window.showWarningMessage(t('stateSync.commandRejected', { reason }));
+    }
+    else {
+      console.error(`[WebviewHelper] State command ${message.type} failed:`, error);
+    }
+  }
+}
+
+/**
+ * Push the optimization profiles to every webview, so open dialogs pick up edits
  */
-function broadcastState(state: PersistedState, targetPanelId?: string) {
+function broadcastOptimizationProfiles(state: OptimizationProfilesState) {
   connectedWebviews.forEach((info) => {
-    // If targetPanelId is specified, only send to that panel
-    if (targetPanelId && info.panelId !== targetPanelId) {
+    try {
+      info.webview.postMessage({ type: 'optimization_profiles', data: state });
+    }
+    catch (error) {
+      console.error(`Failed to send optimization profiles to webview ${info.panelId}:`, error);
+    }
+  });
+}
+
+/**
+ * Push changed webview stores to every webview except the one that made the change
+ */
+export function broadcastStoreUpdate(stores: StoreSnapshot, sourcePanelId?: string) {
+  connectedWebviews.forEach((info) => {
+    if (info.panelId === sourcePanelId) {
       return;
     }
     try {
-      info.webview.postMessage({ type: 'state_sync', data: state, panelId: info.panelId });
+      info.webview.postMessage({ type: 'storage_update', data: stores });
+    }
+    catch (error) {
+      console.error(`Failed to send storage update to webview ${info.panelId}:`, error);
+    }
+  });
+}
+
+/**
+ * Push the pending checkpoint queue to every webview
+ */
+export function broadcastCheckpointQueue(checkpoints: PendingCheckpoint[]) {
+  connectedWebviews.forEach((info) => {
+    try {
+      info.webview.postMessage({ type: 'checkpoint_queue_update', data: checkpoints });
     }
     catch (error) {
-      console.error(`Failed to send state to webview ${info.panelId}:`, error);
+      console.error(`Failed to send checkpoint queue to webview ${info.panelId}:`, error);
     }
   });
 }
 
-async function handleExportData(webview: Webview): Promise<void> {
+// Stores the MCP prompt library is built from
+const PROMPT_LIBRARY_STORES: readonly StoreName[] = ['prompts', 'promptCategories'];
+
+/**
+ * Run a write to the stores in `names` and tell MCP clients when it changed the prompts they can list
+ */
+async function notifyOnPromptLibraryChange<T>(context: ExtensionContext, names: string[], write: () => Promise<T>): Promise<T> {
+  if (!PROMPT_LIBRARY_STORES.some(name => names.includes(name))) {
+    return await write();
+  }
+  const before = JSON.stringify(getPromptLibrary(context));
+  const result = await write();
+  if (JSON.stringify(getPromptLibrary(context)) !== before) {
+    notifyPromptListChanged();
+  }
+  return result;
+}
+
+/**
+ * Store a value a webview wrote, merged with what other panels wrote since its copy, and forward it
+ * The writer gets the stored value back too when it differs from what it wrote
+ */
+async function handleStorageSet(context: ExtensionContext, panelId: string, data: { name: StoreName; value: unknown; base?: unknown }): Promise<void> {
+  try {
+    const stored = await notifyOnPromptLibraryChange(context, [data.name], () =>
+      queueStoreWrite(context, getWorkspaceKey(), data.name, data.value, data.base));
+    broadcastStoreUpdate({ [data.name]: stored }, stored === data.value ? panelId : undefined);
+  }
+  catch (error) {
+    console.error(`[WebviewHelper] Failed to save store ${data.name}:`, error);
+  }
+}
+
+/**
+ * One-time import of what a webview kept in localStorage before stores moved to the host
+ */
+async function handleStorageMigrate(context: ExtensionContext, data: unknown): Promise<void> {
+  try {
+    const imported = await notifyOnPromptLibraryChange(context, Object.keys(data ?? {}), () =>
+      queueWrite(() => migrateStores(context, getWorkspaceKey(), data)));
+    if (Object.keys(imported).length > 0) {
+      broadcastStoreUpdate(imported);
+    }
+  }
+  catch (error) {
+    console.error('[WebviewHelper] Failed to migrate stores:', error);
+  }
+}
+
+/**
+ * Answer queued checkpoints from the sidebar and record each answer in history
+ */
+export async function handleAnswerCheckpoints(context: ExtensionContext, ids: string[], shouldContinue: boolean, instruction?: string): Promise<void> {
+  const userInstruction = shouldContinue ? instruction?.trim() || undefined : undefined;
+  const answered = resolveCheckpoints(ids, { shouldContinue, userInstruction, respondedAt: Date.now() });
+  try {
+    await Promise.all(answered.map(checkpoint => recordHistoryItem(context, {
+      summary: checkpoint.summary || checkpoint.reason || t('common.taskCompleted'),
+      action: shouldContinue ? 'continue' : 'end',
+      userInstruction,
+    })));
+  }
+  catch (error) {
+    console.error('[WebviewHelper] Failed to record answered checkpoints in history:', error);
+    window.showErrorMessage(t('host.checkpointHistoryFailed', { error: String(error) }));
+  }
+}
+
+// How long an export waits for the panel to send its data
+const EXPORT_RESPONSE_TIMEOUT = 30 * 1000;
+
+/**
+ * Ask the panel for its data and save it to a JSON file, redacted like every other export
+ * The response listener is removed once the data arrives, after EXPORT_RESPONSE_TIMEOUT, or when the panel is disposed
+ */
+async function handleExportData(context: ExtensionContext, webview: Webview, disposables: Disposable[]): Promise<void> {
   const uri = await window.showSaveDialog({
     defaultUri: workspace.workspaceFolders?.[0]?.uri,
     filters: { 'JSON Files': ['json'] },
-    saveLabel: '导出数据',
+    saveLabel: t('host.exportLabel'),
   });
+  if (!uri) {
+    return;
+  }
 
-  if (uri) {
-    webview.postMessage({ type: 'request_export_data' });
-    const listener = webview.onDidReceiveMessage((msg) => {
-      if (msg.type === 'export_data_response') {
-        const data = JSON.stringify(msg.data, null, 2);
-        fs.writeFileSync(uri.fsPath, data, 'utf8');
-        window.showInformationMessage(`数据已导出到: ${uri.fsPath}`);
-        listener.dispose();
+  const timer = setTimeout(() => {
+    stopWaiting();
+    window.showErrorMessage(t('host.exportFailed', { error: t('host.exportNoResponse') }));
+  }, EXPORT_RESPONSE_TIMEOUT);
+  const listener = webview.onDidReceiveMessage((msg) => {
+    if (msg.type !== 'export_data_response') {
+      return;
+    }
+    try {
+      if (!Array.isArray(msg.data?.conversations) || !Array.isArray(msg.data?.history)) {
+        throw new TypeError(t('host.exportIncomplete'));
       }
-    });
+      const data = JSON.stringify(redactWorkspaceHistory(getSettings(context), msg.data), null, 2);
+      fs.writeFileSync(uri.fsPath, data, 'utf8');
+      window.showInformationMessage(t('host.exported', { path: uri.fsPath }));
+    }
+    catch (error) {
+      window.showErrorMessage(t('host.exportFailed', { error: String(error) }));
+    }
+    finally {
+      stopWaiting();
+    }
+  });
+  const registration: Disposable = { dispose: stopWaiting };
+  disposables.push(registration);
+
+  function stopWaiting() {
+    clearTimeout(timer);
+    listener.dispose();
+    const index = disposables.indexOf(registration);
+    if (index !== -1) {
+      disposables.splice(index, 1);
+    }
+  }
+
+  webview.postMessage({ type: 'request_export_data' });
+}
+
+/**
+ * Save the history shown on the History page to a JSON file, redacted like every other export
+ */
+async function handleExportHistory(context: ExtensionContext, data: { history: HistoryItemState[] }): Promise<void> {
+  if (!Array.isArray(data?.history)) {
+    return;
+  }
+  const folder = workspace.workspaceFolders?.[0]?.uri;
+  const fileName = `history-${new Date().toISOString().slice(0, 10)}.json`;
+  const uri = await window.showSaveDialog({
+    defaultUri: folder ? Uri.joinPath(folder, fileName) : undefined,
+    filters: { 'JSON Files': ['json'] },
+    saveLabel: t('host.exportLabel'),
+  });
+
+  if (uri) {
+    try {
+      const { history } = redactWorkspaceHistory(getSettings(context), { conversations: [], history: data.history });
+      await fs.promises.writeFile(uri.fsPath, JSON.stringify({ history }, null, 2), 'utf8');
+      window.showInformationMessage(t('host.exported', { path: uri.fsPath }));
+    }
+    catch (error) {
+      window.showErrorMessage(t('host.exportFailed', { error: String(error) }));
+    }
   }
 }
 
-async function handleImportData(webview: Webview): Promise<void> {
+const SESSION_EXPORT_FILTERS: Record<string, Record<string, string[]>> = {
+  json: { 'JSON Files': ['json'] },
+  csv: { 'CSV Files': ['csv'] },
+  markdown: { 'Markdown Files': ['md'] },
+};
+
+/**
+ * Save a session export built by the webview to a file the user picks
+ */
+async function handleExportSessions(data: { format: string; content: string }): Promise<void> {
+  const filters = SESSION_EXPORT_FILTERS[data?.format];
+  if (!filters || typeof data.content !== 'string') {
+    return;
+  }
+  const folder = workspace.workspaceFolders?.[0]?.uri;
+  const fileName = `sessions-${new Date().toISOString().slice(0, 10)}.${Object.values(filters)[0][0]}`;
+  const uri = await window.showSaveDialog({
+    defaultUri: folder ? Uri.joinPath(folder, fileName) : undefined,
+    filters,
+    saveLabel: t('host.exportLabel'),
+  });
+
+  if (uri) {
+    try {
+      await fs.promises.writeFile(uri.fsPath, data.content, 'utf8');
+      window.showInformationMessage(t('host.exported', { path: uri.fsPath }));
+    }
+    catch (error) {
+      window.showErrorMessage(t('host.exportFailed', { error: String(error) }));
+    }
+  }
+}
+
+/**
+ * Import an exported state file into the current workspace
+ * The file goes through the same migrations and validation as stored state before it replaces anything
+ */
+async function handleImportData(context: ExtensionContext): Promise<void> {
   const uris = await window.showOpenDialog({
     canSelectMany: false,
     filters: { 'JSON Files': ['json'] },
-    openLabel: '导入数据',
+    openLabel: t('host.importLabel'),
   });
 
   if (uris && uris[0]) {
     try {
       const content = fs.readFileSync(uris[0].fsPath, 'utf8');
-      const data = JSON.parse(content);
-      webview.postMessage({ type: 'import_data_response', data });
-      window.showInformationMessage('数据导入成功！');
+      let dropped: unknown[] = [];
+      await updateState(context, (currentState) => {
+        const parsed = parsePersistedState(JSON.parse(content), currentState.workspacePath, currentState.globalSettings);
+        dropped = parsed.dropped;
+        return { ...parsed.state, workspacePath: currentState.workspacePath };
+      });
+      window.showInformationMessage(dropped.length > 0
+        ? t('host.importedWithSkipped', { count: dropped.length })
+        : t('host.imported'));
     }
     catch (error) {
-      window.showErrorMessage(`导入失败: ${error}`);
+      window.showErrorMessage(t('host.importFailed', { error: String(error) }));
     }
   }
 }
@@ -403,12 +587,12 @@ async function handleSaveMcpConfig(
   const portError = validateServerPort(data.serverPort);
 
   if (nameError) {
-    window.showErrorMessage(`服务器名称无效: ${nameError}`);
+    window.showErrorMessage(t('host.invalidServerName', { error: nameError }));
     return;
   }
 
   if (portError) {
-    window.showWarningMessage(`端口提示: ${portError}`);
+    window.showWarningMessage(t('host.portWarning', { error: portError }));
     // Don't return for port warning, only for hard errors
     if (data.serverPort < 1 || data.serverPort > 65535) {
       return;
@@ -416,31 +600,24 @@ async function handleSaveMcpConfig(
   }
 
   // Show confirmation dialog
+  const saveAndRestart = t('host.saveAndRestart');
   const choice = await window.showWarningMessage(
-    `确认修改 MCP 配置？\n\n服务器名称: ${data.serverName}\n端口: ${data.serverPort}\n\n修改后需要重启 Windsurf 才能生效。`,
+    t('host.confirmMcpConfig', { name: data.serverName, port: data.serverPort }),
     { modal: true },
-    '保存并重启',
-    '仅保存',
-    '取消',
+    saveAndRestart,
+    t('host.saveOnly'),
   );
 
-  if (choice === '取消' || !choice) {
+  if (!choice) {
     return;
   }
 
   try {
-    // Update settings in state
-    const currentState = loadState(context);
-    const updatedSettings: SettingsState = {
-      ...currentState.settings,
+    // Update settings in the layer that defines them; the patch reaches every webview
+    await updateState(context, state => saveSettingsCommands(state, {
       mcpServerName: data.serverName,
       mcpServerPort: data.serverPort,
-    };
-    const nextState: PersistedState = {
-      ...currentState,
-      settings: updatedSettings,
-    };
-    saveState(context, nextState);
+    }).reduce((next, command) => applyStateCommand(next, command, normalizeSettingsPatch), state));
 
     // Update MCP configuration files
     configureMCP(context, {
@@ -448,38 +625,32 @@ async function handleSaveMcpConfig(
       serverPort: data.serverPort,
     });
 
-    // Broadcast updated state to all webviews
-    broadcastState(nextState);
-
     // Notify webview of success
     webview.postMessage({
       type: 'mcp_config_saved',
       data: { success: true, serverName: data.serverName, serverPort: data.serverPort },
     });
 
-    if (choice === '保存并重启') {
-      window.showInformationMessage('MCP 配置已保存，正在重启 Windsurf...');
+    if (choice === saveAndRestart) {
+      window.showInformationMessage(t('host.mcpConfigSavedRestarting'));
       // Reload the window to apply changes
       setTimeout(() => {
         commands.executeCommand('workbench.action.reloadWindow');
       }, 500);
     }
     else {
-      window.showInformationMessage(
-        'MCP 配置已保存。请手动重启 Windsurf 以应用更改。',
-        '立即重启',
-      ).then((selection) => {
-        if (selection === '立即重启') {
+      window.showInformationMessage(t('host.mcpConfigSaved'), t('host.restartNow')).then((selection) => {
+        if (selection) {
           commands.executeCommand('workbench.action.reloadWindow');
         }
       });
     }
   }
   catch (error: any) {
-    window.showErrorMessage(`保存 MCP 配置失败: ${error.message || error}`);
+    window.showErrorMessage(t('host.saveMcpConfigFailed', { error: error.message || error }));
     webview.postMessage({
       type: 'mcp_config_saved',
-      data: { success: false, error: error.message || '未知错误' },
+      data: { success: false, error: error.message || t('common.unknownError') },
     });
   }
 }
@@ -490,7 +661,7 @@ async function handleSaveMcpConfig(
 async function handleTestMcpConnection(data: { serverName: string; serverPort: number }): Promise<void> {
   const { serverPort } = data;
 
-  window.showInformationMessage(`正在测试连接 127.0.0.1:${serverPort}...`);
+  window.showInformationMessage(t('host.testingConnection', { port: serverPort }));
 
   try {
     // Make a simple HTTP request to check if server is running
@@ -505,26 +676,26 @@ async function handleTestMcpConnection(data: { serverName: string; serverPort: n
         },
         (res) => {
           if (res.statusCode === 200) {
-            resolve({ success: true, message: 'MCP 服务器连接正常' });
+            resolve({ success: true, message: t('host.connectionOk') });
           }
           else {
-            resolve({ success: true, message: `服务器响应状态码: ${res.statusCode}` });
+            resolve({ success: true, message: t('host.connectionStatus', { status: res.statusCode ?? '' }) });
           }
         },
       );
 
       req.on('error', (err: any) => {
         if (err.code === 'ECONNREFUSED') {
-          resolve({ success: false, message: 'MCP 服务器未运行或端口不可达' });
+          resolve({ success: false, message: t('host.connectionRefused') });
         }
         else {
-          resolve({ success: false, message: `连接失败: ${err.message}` });
+          resolve({ success: false, message: t('host.connectionFailed', { error: err.message }) });
         }
       });
 
       req.on('timeout', () => {
         req.destroy();
-        resolve({ success: false, message: '连接超时' });
+        resolve({ success: false, message: t('host.connectionTimeout') });
       });
 
       req.end();
@@ -538,7 +709,7 @@ async function handleTestMcpConnection(data: { serverName: string; serverPort: n
     }
   }
   catch (error: any) {
-    window.showErrorMessage(`测试连接失败: ${error.message || error}`);
+    window.showErrorMessage(t('host.testConnectionFailed', { error: error.message || error }));
   }
 }
 
@@ -550,19 +721,19 @@ async function handleSwitchTransport(
   webview: Webview,
 ): Promise<void> {
   try {
-    window.showInformationMessage(`正在切换到 ${data.transport.toUpperCase()} 传输模式...`);
+    window.showInformationMessage(t('host.switchingTransport', { transport: data.transport.toUpperCase() }));
 
     const result = await switchTransport(data.transport, data.port);
 
     if (result.success) {
-      window.showInformationMessage(`✅ 已成功切换到 ${data.transport.toUpperCase()} 模式`);
+      window.showInformationMessage(`✅ ${t('host.transportSwitched', { transport: data.transport.toUpperCase() })}`);
       webview.postMessage({
         type: 'switch_transport_result',
         data: { success: true, transport: data.transport },
       });
     }
     else {
-      window.showErrorMessage(`切换传输模式失败: ${result.error}`);
+      window.showErrorMessage(t('host.switchTransportFailed', { error: result.error ?? '' }));
       webview.postMessage({
         type: 'switch_transport_result',
         data: { success: false, error: result.error },
@@ -576,7 +747,7 @@ async function handleSwitchTransport(
     });
   }
   catch (error: any) {
-    window.showErrorMessage(`切换传输模式失败: ${error.message || error}`);
+    window.showErrorMessage(t('host.switchTransportFailed', { error: error.message || error }));
     webview.postMessage({
       type: 'switch_transport_result',
       data: { success: false, error: error.message },
@@ -593,11 +764,11 @@ async function handleRestartServer(
 ): Promise<void> {
   try {
     const port = data.port || getServerState().port;
-    window.showInformationMessage(`正在重启 MCP 服务器 (端口: ${port})...`);
+    window.showInformationMessage(t('host.restartingServer', { port }));
 
     await restartHTTPServer(port);
 
-    window.showInformationMessage(`✅ MCP 服务器已重启 (端口: ${port})`);
+    window.showInformationMessage(`✅ ${t('host.serverRestarted', { port })}`);
     webview.postMessage({
       type: 'restart_server_result',
       data: { success: true, port },
@@ -610,7 +781,7 @@ async function handleRestartServer(
     });
   }
   catch (error: any) {
-    window.showErrorMessage(`重启服务器失败: ${error.message || error}`);
+    window.showErrorMessage(t('host.restartServerFailed', { error: error.message || error }));
     webview.postMessage({
       type: 'restart_server_result',
       data: { success: false, error: error.message },
@@ -640,6 +811,41 @@ async function handleCheckPort(
   }
 }
 
+/**
+ * Send the models and API key state the optimizer settings need
+ */
+async function handleGetOptimizerState(context: ExtensionContext, webview: Webview): Promise<void> {
+  const [models, apiKey] = await Promise.all([
+    listLanguageModels().catch((error) => {
+      console.error('[WebviewHelper] Failed to list language models:', error);
+      return [];
+    }),
+    context.secrets.get(OPTIMIZER_API_KEY_SECRET),
+  ]);
+  webview.postMessage({
+    type: 'optimizer_state',
+    data: { models, hasApiKey: !!apiKey },
+  });
+}
+
+/**
+ * Store the optimizer API key in secret storage; an empty key removes it
+ */
+async function handleSaveOptimizerApiKey(
+  context: ExtensionContext,
+  data: { apiKey?: string },
+  webview: Webview,
+): Promise<void> {
+  const apiKey = data?.apiKey?.trim();
+  if (apiKey) {
+    await context.secrets.store(OPTIMIZER_API_KEY_SECRET, apiKey);
+  }
+  else {
+    await context.secrets.delete(OPTIMIZER_API_KEY_SECRET);
+  }
+  await handleGetOptimizerState(context, webview);
+}
+
 /**
  * Handle finding available port from candidates
  */
@@ -691,127 +897,31 @@ export class WebviewHelper {
     disposables.push({ dispose: disposeWebview });
 
     webview.onDidReceiveMessage(
-      (message: any) => {
+      async (message: any) => {
         const type = message.type;
         const data = message.data;
         const messagePanelId = message.panelId || data?.panelId;
         console.log(`[WebviewHelper] Message received: ${type} from panel: ${messagePanelId || panelId}`);
 
+        if (isStateCommandType(type)) {
+          handleStateCommand(context, webview, message);
+          return;
+        }
+
         switch (type) {
-          case 'webview_ready': {
-            const currentState = loadState(context);
-            // Send state_sync with panelId so webview knows its identity
-            if (data?.workspacePath && data.workspacePath !== currentState.workspacePath) {
-              const updated = { ...currentState, workspacePath: data.workspacePath };
-              saveState(context, updated);
-              webview.postMessage({ type: 'state_sync', data: updated, panelId });
-              break;
+          case 'webview_ready':
+            webview.postMessage({ type: 'checkpoint_queue_update', data: getPendingCheckpoints() });
+            webview.postMessage({ type: 'storage_sync', data: getStoreSnapshot(context, getWorkspaceKey()) });
+            if (data?.workspacePath) {
+              updateState(context, state => (state.workspacePath === data.workspacePath ? state : { ...state, workspacePath: data.workspacePath }));
             }
-            webview.postMessage({ type: 'state_sync', data: currentState, panelId });
-            break;
-          }
-          case 'save_settings': {
-            const currentState = loadState(context);
-            const next: PersistedState = {
-              ...currentState,
-              settings: { ...currentState.settings, ...data },
-            };
-            saveState(context, next);
-            // Settings are shared, broadcast to all
-            broadcastState(next);
-            break;
-          }
-          case 'create_conversation': {
-            const currentState = loadState(context);
-            const next: PersistedState = {
-              ...currentState,
-              conversations: [...currentState.conversations.filter(c => c.id !== data.id), data],
-              activeConversationId: data.id,
-            };
-            saveState(context, next);
-            // Send updated state only to the originating panel
-            broadcastState(next, panelId);
-            break;
-          }
-          case 'update_conversation': {
-            const currentState = loadState(context);
-            const next: PersistedState = {
-              ...currentState,
-              conversations: currentState.conversations.map(c => (c.id === data.id ? { ...c, ...data.updates, updatedAt: Date.now() } : c)),
-            };
-            saveState(context, next);
-            // Send updated state only to the originating panel
-            broadcastState(next, panelId);
-            break;
-          }
-          case 'delete_conversation': {
-            const currentState = loadState(context);
-            const conversations = currentState.conversations.filter(c => c.id !== data.id);
-            const history = currentState.history.filter(h => h.conversationId !== data.id);
-            const next: PersistedState = {
-              ...currentState,
-              conversations,
-              history,
-              activeConversationId: currentState.activeConversationId === data.id ? null : currentState.activeConversationId,
-            };
-            saveState(context, next);
-            // Send updated state only to the originating panel
-            broadcastState(next, panelId);
-            break;
-          }
-          case 'switch_conversation': {
-            const currentState = loadState(context);
-            const next = { ...currentState, activeConversationId: data.id };
-            saveState(context, next);
-            // Send updated state only to the originating panel
-            broadcastState(next, panelId);
-            break;
-          }
-          case 'add_history_item': {
-            const currentState = loadState(context);
-            const historyItem: HistoryItemState = data;
-            const trimmedHistory = [historyItem, ...currentState.history].slice(0, currentState.settings.maxHistoryItems);
-            const conversations = currentState.conversations.map((c) => {
-              if (c.id !== historyItem.conversationId)
-                return c;
-
-              const message: ConversationState['messages'][number] = {
-                id: `msg-${historyItem.id}`,
-                timestamp: historyItem.timestamp,
-                type: 'response',
-                summary: historyItem.summary,
-                shouldContinue: historyItem.action === 'continue',
-                userInstruction: historyItem.userInstruction,
-              };
-
-              return {
-                ...c,
-                updatedAt: historyItem.timestamp,
-                messages: [...c.messages, message],
-              };
-            });
-            const next: PersistedState = { ...currentState, history: trimmedHistory, conversations };
-            saveState(context, next);
-            // Send updated state only to the originating panel
-            broadcastState(next, panelId);
-            break;
-          }
-          case 'clear_history': {
-            const currentState = loadState(context);
-            const next = { ...currentState, history: [] };
-            saveState(context, next);
-            // Send updated state only to the originating panel
-            broadcastState(next, panelId);
+            // Send state_sync with panelId so webview knows its identity
+            sendStateSnapshot(context, webview, panelId);
             break;
-          }
-          case 'delete_history_item': {
-            const currentState = loadState(context);
-            const next = { ...currentState, history: currentState.history.filter(h => h.id !== data.id) };
-            saveState(context, next);
-            // Send updated state only to the originating panel
-            broadcastState(next, panelId);
+          case 'request_state_sync':
+            // The webview missed a patch and needs a fresh snapshot
+            sendStateSnapshot(context, webview, panelId);
             break;
-          }
           case 'hello':
             window.showInformationMessage(data);
             break;
@@ -824,11 +934,28 @@ export class WebviewHelper {
           case 'infinite_ask_response':
             console.log('Windsurf Endless response:', data);
             break;
+          case 'answer_checkpoints':
+            await handleAnswerCheckpoints(
+              context,
+              Array.isArray(data?.ids) ? data.ids : [],
+              data?.shouldContinue === true,
+              typeof data?.userInstruction === 'string' ? data.userInstruction : undefined,
+            );
+            break;
+          case 'dismiss_all_checkpoints':
+            await handleAnswerCheckpoints(context, getPendingCheckpoints().map(c => c.id), false);
+            break;
           case 'export_data':
-            handleExportData(webview);
+            handleExportData(context, webview, disposables);
+            break;
+          case 'export_history':
+            handleExportHistory(context, data);
+            break;
+          case 'export_sessions':
+            handleExportSessions(data);
             break;
           case 'import_data':
-            handleImportData(webview);
+            handleImportData(context);
             break;
           case 'save_mcp_config':
             handleSaveMcpConfig(context, data, webview);
@@ -855,6 +982,33 @@ export class WebviewHelper {
           case 'find_available_port':
             handleFindAvailablePort(data, webview);
             break;
+          case 'get_optimizer_state':
+            handleGetOptimizerState(context, webview);
+            break;
+          case 'save_optimizer_api_key':
+            handleSaveOptimizerApiKey(context, data, webview);
+            break;
+          case 'get_optimization_profiles':
+            webview.postMessage({ type: 'optimization_profiles', data: getOptimizationProfiles(context) });
+            break;
+          case 'save_optimization_profiles':
+            broadcastOptimizationProfiles(saveOptimizationProfiles(context, data));
+            break;
+          case 'storage_set':
+            if (isStoreName(data?.name)) {
+              handleStorageSet(context, panelId, data);
+            }
+            break;
+          case 'get_shared_workspaces':
+            webview.postMessage({ type: 'shared_workspaces', data: listSharedWorkspaces(context, getWorkspaceKey()) });
+            break;
+          case 'get_shared_workspace_history':
+            // Read-only copy published by another workspace; it stays the only writer of its history
+            webview.postMessage({ type: 'shared_workspace_history', data: getSharedWorkspaceHistory(context, data?.workspaceKey) ?? null });
+            break;
+          case 'storage_migrate':
+            handleStorageMigrate(context, data);
+            break;
         }
       },
       undefined,
@@ -872,6 +1026,8 @@ export class SidebarPanelProvider implements WebviewViewProvider {
 
   private _view?: WebviewView;
   private _disposables: Disposable[] = [];
+  // Set when search is requested before the webview has loaded
+  private _focusSearchWhenReady = false;
 
   constructor(private readonly _context: ExtensionContext) {}
 
@@ -896,6 +1052,13 @@ export class SidebarPanelProvider implements WebviewViewProvider {
     // Setup message handlers
     WebviewHelper.setupWebviewHooks(webviewView.webview, this._disposables, this._context, sidebarPanelId);
 
+    webviewView.webview.onDidReceiveMessage((message) => {
+      if (message?.type === 'webview_ready' && this._focusSearchWhenReady) {
+        this._focusSearchWhenReady = false;
+        webviewView.webview.postMessage({ type: 'focus_search' });
+      }
+    }, undefined, this._disposables);
+
     webviewView.onDidDispose(() => {
       connectedWebviews.delete(sidebarPanelId);
       while (this._disposables.length) {
@@ -922,4 +1085,16 @@ export class SidebarPanelProvider implements WebviewViewProvider {
       this._view.show?.(true);
     }
   }
+
+  /**
+   * Focus the global search box, once the webview has loaded if it has not yet
+   */
+  public focusSearch(): void {
+    if (this._view) {
+      this._view.webview.postMessage({ type: 'focus_search' });
+    }
+    else {
+      this._focusSearchWhenReady = true;
+    }
+  }
 }
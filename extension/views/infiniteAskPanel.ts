@@ -1,93 +1,169 @@
 /**
  * Windsurf Endless Panel
  * Webview panel for displaying the Windsurf Endless dialog
- * Supports multiple concurrent panels
+ * A single panel shows one pending checkpoint at a time; the rest wait in the
+ * checkpoint queue, which the sidebar lists
  */
 
-import { ViewColumn, window, workspace } from 'vscode';
-
-import { isWindsurfEnvironment, optimizePrompt } from '../services/promptOptimizer';
-
-import { WebviewHelper } from './helper';
-
+import { commands, env, ViewColumn, window, workspace } from 'vscode';
+
+import { onDidChangeLanguage, t } from '../../shared/i18n';
+import {
+  enqueueCheckpoint,
+  fillCheckpoint,
+  getPendingCheckpoint,
+  getPendingCheckpoints,
+  onDidChangeCheckpointQueue,
+  resolveCheckpoint,
+} from '../services/checkpointQueue';
+import { getPromptLibrary } from '../services/promptLibrary';
+import { optimizePrompt } from '../services/promptOptimizer';
+
+import { getSettings, recordHistoryItem, WebviewHelper } from './helper';
+
+import type { FillInputRequest, FillInputResult } from '../mcp/server';
+import type { PendingCheckpoint } from '../services/checkpointQueue';
+import type { SettingsState } from '../services/persistedState';
 import type { Disposable, ExtensionContext, WebviewPanel } from 'vscode';
 
 export interface InfiniteAskResult {
   shouldContinue: boolean;
   userInstruction?: string;
-  images?: Array<{ id: string; dataUrl: string; name: string }>;
+  images?: Array<{ id: string; dataUrl: string; name: string; mimeType?: string; size?: number }>;
+  selectedTemplateId?: string;
+  respondedAt?: number;
+  // 'timeout' when the dialog expired and the configured default action was applied
+  resolution?: 'user' | 'timeout';
 }
 
-interface PanelInfo {
-  panel: InfiniteAskPanel;
-  resolvePromise: ((result: InfiniteAskResult) => void) | null;
-}
+// Editor commands that place a panel opened beside the active group in its upper or lower half
+const POSITION_MOVE_COMMANDS: Partial<Record<SettingsState['dialogPosition'], string>> = {
+  'top-right': 'workbench.action.moveEditorToAboveGroup',
+  'bottom-right': 'workbench.action.moveEditorToBelowGroup',
+};
 
 export class InfiniteAskPanel {
-  // Support multiple panels with unique IDs
-  private static panels: Map<string, PanelInfo> = new Map();
+  private static _current: InfiniteAskPanel | undefined;
   private static panelCounter = 0;
 
   private readonly _panel: WebviewPanel;
   private readonly _panelId: string;
+  private readonly _context: ExtensionContext;
+  private readonly _ready: Promise<void>;
   private _disposables: Disposable[] = [];
-  private _resolvePromise: ((result: InfiniteAskResult) => void) | null = null;
+  private _disposed = false;
+  // Queue entry currently shown in the dialog
+  private _checkpointId: string | null = null;
+  // In-flight local optimization, aborted by the dialog's cancel button or on dispose
+  private _optimizeController: AbortController | null = null;
 
   /**
-   * Get the most recently created panel (for backward compatibility)
+   * Get the open panel, if any
    */
   public static get currentPanel(): InfiniteAskPanel | undefined {
-    if (InfiniteAskPanel.panels.size === 0) {
-      return undefined;
-    }
-    const lastEntry = Array.from(InfiniteAskPanel.panels.values()).pop();
-    return lastEntry?.panel;
+    return InfiniteAskPanel._current;
   }
 
   /**
    * Get all active panel IDs
    */
   public static getActivePanelIds(): string[] {
-    return Array.from(InfiniteAskPanel.panels.keys());
+    return InfiniteAskPanel._current ? [InfiniteAskPanel._current._panelId] : [];
   }
 
   /**
    * Get panel by ID
    */
   public static getPanelById(id: string): InfiniteAskPanel | undefined {
-    return InfiniteAskPanel.panels.get(id)?.panel;
+    return InfiniteAskPanel._current?._panelId === id ? InfiniteAskPanel._current : undefined;
   }
 
   /**
-   * Fill content into a specific panel's custom instruction input box
-   * If panelId is not provided, fills the most recent panel
+   * Fill content into the custom instruction input of the checkpoint created by `sessionId`
+   * Never falls back to another session's dialog
+   * @returns filled: false without an error when there is no checkpoint to target, so the caller can use the clipboard;
+   *          an error when the target is ambiguous or not on screen
    */
-  public static async fillInput(content: string, panelId?: string): Promise<boolean> {
-    let targetPanel: InfiniteAskPanel | undefined;
+  public static async fillInput(content: string, sessionId?: string): Promise<{ filled: boolean; error?: string }> {
+    // Without a session, or a checkpoint of that session, there is no dialog to target
+    if (!sessionId) {
+      return { filled: false };
+    }
 
-    if (panelId) {
-      targetPanel = InfiniteAskPanel.getPanelById(panelId);
+    const candidates = getPendingCheckpoints().filter(c => c.sessionId === sessionId);
+    if (candidates.length === 0) {
+      console.log(`[InfiniteAskPanel] No pending checkpoint for session ${sessionId}, leaving input to the clipboard`);
+      return { filled: false };
     }
-    else {
-      targetPanel = InfiniteAskPanel.currentPanel;
+    if (candidates.length > 1) {
+      return { filled: false, error: t('host.fillAmbiguous', { count: candidates.length }) };
+    }
+
+    const targetId = candidates[0].id;
+    // Native checkpoints take the content in their own picker
+    if (fillCheckpoint(targetId, content)) {
+      return { filled: true };
     }
+    if (InfiniteAskPanel._current?._checkpointId !== targetId) {
+      return { filled: false, error: t('host.fillQueued') };
+    }
+
+    console.log('[InfiniteAskPanel] Sending fill_input message with content length:', content.length);
+    await new Promise(resolve => setTimeout(resolve, 100));
+    // The checkpoint may have been answered in the meantime
+    const targetPanel = InfiniteAskPanel._current;
+    if (targetPanel?._checkpointId !== targetId) {
+      return { filled: false, error: t('host.fillHandled') };
+    }
+    targetPanel._panel.webview.postMessage({
+      type: 'fill_input',
+      data: { content },
+    });
+    return { filled: true };
+  }
+
+  /**
+   * Fill input handler for the MCP server
+   * Fills the calling session's checkpoint dialog, or copies the content to the clipboard
+   * for the main Cascade input when that session has no checkpoint waiting
+   */
+  public static async fillInputOrCopy(request: FillInputRequest): Promise<FillInputResult> {
+    try {
+      const fill = await InfiniteAskPanel.fillInput(request.content, request.sessionId);
+      if (fill.error) {
+        return { success: false, error: fill.error };
+      }
+
+      if (fill.filled) {
+        // Content was sent to the dialog's input box
+        window.showInformationMessage(t('host.filledDialog'));
+        return { success: true };
+      }
+
+      await env.clipboard.writeText(request.content);
 
-    if (targetPanel) {
-      console.log('[InfiniteAskPanel] Sending fill_input message with content length:', content.length);
-      await new Promise(resolve => setTimeout(resolve, 100));
-      targetPanel._panel.webview.postMessage({
-        type: 'fill_input',
-        data: { content },
+      // Show notification with the content for manual paste
+      const viewContent = t('host.viewContent');
+      window.showInformationMessage(t('host.copiedToClipboard'), viewContent).then((selection) => {
+        if (selection === viewContent) {
+          window.showInformationMessage(request.content.substring(0, 200) + (request.content.length > 200 ? '...' : ''));
+        }
       });
-      return true;
+
+      return { success: true };
+    }
+    catch (error: any) {
+      return {
+        success: false,
+        error: error.message || t('host.fillInputError'),
+      };
     }
-    console.log('[InfiniteAskPanel] No target panel found, cannot fill input');
-    return false;
   }
 
   private constructor(panel: WebviewPanel, context: ExtensionContext, panelId: string) {
     this._panel = panel;
     this._panelId = panelId;
+    this._context = context;
 
     this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
     this._panel.webview.html = WebviewHelper.setupHtml(this._panel.webview, context);
@@ -95,6 +171,15 @@ export class InfiniteAskPanel {
     // Pass panelId to setupWebviewHooks for proper window isolation
     WebviewHelper.setupWebviewHooks(this._panel.webview, this._disposables, context, panelId);
     this._setupMessageHandler();
+
+    // Give the webview a moment to load before the first request
+    this._ready = new Promise(resolve => setTimeout(resolve, 500));
+
+    // Checkpoints also get answered from the sidebar, time out or get cancelled
+    const unsubscribe = onDidChangeCheckpointQueue(() => this._syncWithQueue());
+    this._disposables.push({ dispose: unsubscribe });
+    // Retitle the panel when the language changes
+    this._disposables.push({ dispose: onDidChangeLanguage(() => this._syncWithQueue()) });
   }
 
   private _setupMessageHandler() {
@@ -105,66 +190,65 @@ export class InfiniteAskPanel {
             shouldContinue: message.data?.shouldContinue ?? false,
             userInstruction: message.data?.userInstruction,
             images: message.data?.images,
+            selectedTemplateId: message.data?.selectedTemplateId,
+            respondedAt: Date.now(),
           };
 
-          if (this._resolvePromise) {
-            this._resolvePromise(result);
-            this._resolvePromise = null;
+          // The queue listener then shows the next checkpoint or closes the panel
+          if (this._checkpointId) {
+            resolveCheckpoint(this._checkpointId, result);
           }
-
-          // Close the panel after receiving response
-          this.dispose();
         }
         else if (message.type === 'optimize_prompt') {
-          // 本地优化（使用VSCode LM API）
+          // 本地优化（使用设置中选择的优化服务）
           const prompt = message.data?.prompt;
           if (prompt) {
-            // Check if in Windsurf - VSCode LM API not available
-            if (isWindsurfEnvironment()) {
-              this._panel.webview.postMessage({
-                type: 'prompt_optimize_error',
-                data: { error: 'Windsurf环境不支持本地优化，请使用"AI优化并填入"功能' },
-              });
-              window.showWarningMessage('Windsurf环境不支持本地优化，请使用"AI优化并填入"功能');
+            this._optimizeController?.abort();
+            const controller = new AbortController();
+            this._optimizeController = controller;
+
+            const result = await optimizePrompt(this._context, prompt, {
+              profile: message.data?.profileId,
+              signal: controller.signal,
+              // Stream the output so the dialog can show it while the model is still writing
+              onChunk: (chunk) => {
+                if (!controller.signal.aborted && !this._disposed) {
+                  this._panel.webview.postMessage({ type: 'prompt_optimize_chunk', data: { chunk } });
+                }
+              },
+            });
+            if (this._optimizeController === controller) {
+              this._optimizeController = null;
+            }
+            if (result.cancelled || this._disposed) {
               return;
             }
 
-            try {
-              const result = await optimizePrompt(prompt);
-              if (result.success && result.optimizedPrompt) {
-                this._panel.webview.postMessage({
-                  type: 'prompt_optimized',
-                  data: { optimizedPrompt: result.optimizedPrompt },
-                });
-              }
-              else {
-                this._panel.webview.postMessage({
-                  type: 'prompt_optimize_error',
-                  data: { error: result.error || '优化失败' },
-                });
-                window.showWarningMessage(result.error || '优化提示词失败');
-              }
+            if (result.success && result.optimizedPrompt) {
+              this._panel.webview.postMessage({
+                type: 'prompt_optimized',
+                data: { optimizedPrompt: result.optimizedPrompt },
+              });
             }
-            catch (error: any) {
+            else {
               this._panel.webview.postMessage({
                 type: 'prompt_optimize_error',
-                data: { error: error.message },
+                data: { error: result.error || t('host.optimizeFailed') },
               });
-              window.showErrorMessage(`优化提示词失败: ${error.message}`);
+              window.showWarningMessage(result.error || t('optimizer.error'));
             }
           }
         }
+        else if (message.type === 'cancel_optimize_prompt') {
+          this._optimizeController?.abort();
+          this._optimizeController = null;
+        }
         else if (message.type === 'optimize_prompt_with_ai') {
           // AI优化流程：让AI通过MCP工具来优化提示词并填入输入框
           const prompt = message.data?.prompt;
           if (prompt) {
             // 构建让AI优化提示词的指令
-            const optimizeInstruction = `请帮我优化以下提示词，使其更加清晰、具体、有效。优化完成后，请调用 input_bridge 工具将优化后的提示词填入输入框。
-
-需要优化的原始提示词：
-${prompt}
-
-请直接优化并填入，不需要解释。`;
+            const optimizeInstruction = t('host.optimizeWithAiInstruction', { prompt });
 
             // 关闭对话框并返回特殊指令
             const result: InfiniteAskResult = {
@@ -172,16 +256,12 @@ ${prompt}
               userInstruction: optimizeInstruction,
             };
 
-            if (this._resolvePromise) {
-              this._resolvePromise(result);
-              this._resolvePromise = null;
+            if (this._checkpointId) {
+              resolveCheckpoint(this._checkpointId, result);
             }
 
             // 显示提示
-            window.showInformationMessage('已发送优化请求给AI，优化后的提示词将自动填入输入框');
-
-            // 关闭面板
-            this.dispose();
+            window.showInformationMessage(t('host.optimizeRequestSent'));
           }
         }
       },
@@ -192,25 +272,67 @@ ${prompt}
 
   /**
    * Show the Windsurf Endless dialog and wait for user response
-   * Creates a new panel for each call, allowing multiple concurrent dialogs
+   * The checkpoint joins the queue; it is shown right away when no panel is open,
+   * otherwise after the checkpoints ahead of it, or it can be answered from the sidebar
+   * The panel opens in the active group, or beside it above or below that group's editors, according to `dialogPosition`
+   * Resolves with shouldContinue: false when `signal` is aborted
    */
   public static async show(
     context: ExtensionContext,
-    data: { reason?: string; summary?: string },
+    options: { reason?: string; summary?: string; source?: string; sessionId?: string; signal?: AbortSignal },
   ): Promise<InfiniteAskResult> {
-    // Generate unique panel ID
-    const panelId = `infinite-ask-${++InfiniteAskPanel.panelCounter}-${Date.now()}`;
-    const panelCount = InfiniteAskPanel.panels.size + 1;
+    if (options.signal?.aborted) {
+      return { shouldContinue: false };
+    }
 
-    // Create title with counter if multiple panels
-    const title = panelCount > 1
-      ? `Windsurf Endless #${panelCount} - 确认继续`
-      : 'Windsurf Endless - 确认继续';
+    const settings = getSettings(context);
+    const { result } = enqueueCheckpoint({
+      ...options,
+      expiresAt: Date.now() + Math.max(1, settings.dialogTimeout) * 60 * 60 * 1000,
+      // Apply the configured default action once dialogTimeout elapses
+      onTimeout: () => {
+        const timeoutResult = InfiniteAskPanel.buildTimeoutResult(context, settings);
+        console.log(`[InfiniteAskPanel] Checkpoint timed out, action: ${settings.dialogTimeoutAction}`);
+        recordHistoryItem(context, {
+          summary: options.summary || options.reason || t('common.taskCompleted'),
+          action: timeoutResult.shouldContinue ? 'continue' : 'end',
+          userInstruction: timeoutResult.userInstruction,
+          resolution: 'timeout',
+        }).catch((error) => {
+          console.error('[InfiniteAskPanel] Failed to record timed out checkpoint in history:', error);
+        });
+        return timeoutResult;
+      },
+      onCancel: () => {
+        console.log('[InfiniteAskPanel] Checkpoint cancelled by client');
+        window.showInformationMessage(t('host.checkpointCancelled'));
+      },
+    });
+
+    if (InfiniteAskPanel._current) {
+      const waiting = getPendingCheckpoints().length;
+      window.showInformationMessage(t('host.checkpointsWaiting', { count: waiting }), t('host.viewQueue')).then((choice) => {
+        if (choice) {
+          commands.executeCommand('windsurf-endless.sidebarView.focus');
+        }
+      });
+    }
+    else {
+      await InfiniteAskPanel._open(context, settings);
+    }
+
+    return result;
+  }
 
+  /**
+   * Open the panel and show the oldest pending checkpoint
+   */
+  private static async _open(context: ExtensionContext, settings: SettingsState): Promise<void> {
+    const panelId = `infinite-ask-${++InfiniteAskPanel.panelCounter}-${Date.now()}`;
     const panel = window.createWebviewPanel(
       'infiniteAsk',
-      title,
-      ViewColumn.Beside, // Use Beside to avoid replacing existing panels
+      t('common.dialogTitle'),
+      settings.dialogPosition === 'center' ? ViewColumn.Active : ViewColumn.Beside,
       {
         enableScripts: true,
         retainContextWhenHidden: true,
@@ -218,69 +340,110 @@ ${prompt}
     );
 
     const infiniteAskPanel = new InfiniteAskPanel(panel, context, panelId);
+    InfiniteAskPanel._current = infiniteAskPanel;
+    console.log(`[InfiniteAskPanel] Created panel: ${panelId}`);
 
-    // Register in panels map
-    InfiniteAskPanel.panels.set(panelId, {
-      panel: infiniteAskPanel,
-      resolvePromise: null,
-    });
+    // The new panel is the active editor, so this splits the group beside upwards or downwards
+    const moveCommand = POSITION_MOVE_COMMANDS[settings.dialogPosition];
+    if (moveCommand) {
+      await commands.executeCommand(moveCommand);
+    }
+
+    infiniteAskPanel._syncWithQueue();
+  }
+
+  /**
+   * Keep showing the current checkpoint while it is pending, otherwise move on to
+   * the oldest pending one, or close the panel when the queue is empty
+   */
+  private _syncWithQueue() {
+    if (this._disposed) {
+      return;
+    }
+
+    const pending = getPendingCheckpoints();
+    const waiting = pending.length - 1;
+    const title = t('common.dialogTitle');
+    this._panel.title = waiting > 0 ? `${title} (+${waiting})` : title;
 
-    console.log(`[InfiniteAskPanel] Created new panel: ${panelId}, total panels: ${InfiniteAskPanel.panels.size}`);
+    if (this._checkpointId && getPendingCheckpoint(this._checkpointId)) {
+      return;
+    }
+
+    if (pending.length === 0) {
+      this._checkpointId = null;
+      this.dispose();
+      return;
+    }
+    this._present(pending[0]);
+  }
 
-    // Wait a bit for webview to load, then send the request
-    await new Promise(resolve => setTimeout(resolve, 500));
+  private async _present(checkpoint: PendingCheckpoint) {
+    this._checkpointId = checkpoint.id;
+    // An optimization started for the previous checkpoint must not fill this one
+    this._optimizeController?.abort();
+    this._optimizeController = null;
+    await this._ready;
+    // Superseded or disposed while the webview was loading
+    if (this._checkpointId !== checkpoint.id) {
+      return;
+    }
 
-    // Send request to webview
-    panel.webview.postMessage({
+    this._panel.webview.postMessage({
       type: 'infinite_ask_request',
       data: {
-        ...data,
+        reason: checkpoint.reason,
+        summary: checkpoint.summary,
         workspacePath: workspace.workspaceFolders?.[0]?.uri.fsPath ?? '',
-        panelId, // Include panelId for tracking
+        panelId: this._panelId, // Include panelId for tracking
+        expiresAt: checkpoint.expiresAt,
+        timeoutAction: getSettings(this._context).dialogTimeoutAction,
       },
     });
+  }
+
+  /**
+   * Result used when nobody answers before dialogTimeout
+   * A missing template falls back to the preset instruction
+   */
+  public static buildTimeoutResult(context: ExtensionContext, settings: SettingsState): InfiniteAskResult {
+    const base = { respondedAt: Date.now(), resolution: 'timeout' as const };
 
-    // Return a promise that resolves when user responds
-    return new Promise<InfiniteAskResult>((resolve) => {
-      infiniteAskPanel._resolvePromise = resolve;
+    if (settings.dialogTimeoutAction === 'end') {
+      return { ...base, shouldContinue: false };
+    }
 
-      // Update panels map
-      const panelInfo = InfiniteAskPanel.panels.get(panelId);
-      if (panelInfo) {
-        panelInfo.resolvePromise = resolve;
+    if (settings.dialogTimeoutAction === 'template') {
+      const template = getPromptLibrary(context).templates.find(t => t.id === settings.dialogTimeoutTemplateId);
+      if (template) {
+        return { ...base, shouldContinue: true, userInstruction: template.content, selectedTemplateId: template.id };
       }
+      console.warn(`[InfiniteAskPanel] Timeout template not found: ${settings.dialogTimeoutTemplateId}`);
+    }
 
-      // Set a long timeout (24 hours)
-      const timeout = setTimeout(() => {
-        if (infiniteAskPanel._resolvePromise) {
-          resolve({ shouldContinue: false });
-          infiniteAskPanel.dispose();
-        }
-      }, 24 * 60 * 60 * 1000);
-
-      // Clear timeout when resolved
-      const originalResolve = infiniteAskPanel._resolvePromise;
-      infiniteAskPanel._resolvePromise = (result) => {
-        clearTimeout(timeout);
-        originalResolve(result);
-      };
-    });
+    return {
+      ...base,
+      shouldContinue: true,
+      userInstruction: settings.dialogTimeoutInstruction.trim() || undefined,
+    };
   }
 
   /**
    * Dispose the panel
+   * Closing the panel ends the checkpoint it was showing; queued ones stay in the sidebar
    */
   public dispose() {
-    // Remove from panels map
-    InfiniteAskPanel.panels.delete(this._panelId);
-    console.log(`[InfiniteAskPanel] Disposed panel: ${this._panelId}, remaining panels: ${InfiniteAskPanel.panels.size}`);
-
-    // If there's a pending promise, resolve with shouldContinue: false
-    if (this._resolvePromise) {
-      this._resolvePromise({ shouldContinue: false });
-      this._resolvePromise = null;
+    if (this._disposed) {
+      return;
+    }
+    this._disposed = true;
+    if (InfiniteAskPanel._current === this) {
+      InfiniteAskPanel._current = undefined;
     }
+    console.log(`[InfiniteAskPanel] Disposed panel: ${this._panelId}`);
 
+    this._optimizeController?.abort();
+    this._optimizeController = null;
     this._panel.dispose();
 
     while (this._disposables.length) {
@@ -289,5 +452,10 @@ ${prompt}
         disposable.dispose();
       }
     }
+
+    if (this._checkpointId) {
+      resolveCheckpoint(this._checkpointId, { shouldContinue: false });
+      this._checkpointId = null;
+    }
   }
 }
@@ -0,0 +1,235 @@
+/**
+ * Native Checkpoint
+ * Lightweight checkpoint built on QuickPick/InputBox instead of the webview dialog
+ */
+
+import { CancellationTokenSource, QuickPickItemKind, window } from 'vscode';
+
+import { t } from '../../shared/i18n';
+import {
+  enqueueCheckpoint,
+  getPendingCheckpoint,
+  onDidChangeCheckpointQueue,
+  resolveCheckpoint,
+} from '../services/checkpointQueue';
+import { getPromptLibrary } from '../services/promptLibrary';
+
+import { getSettings, recordHistoryItem } from './helper';
+import { InfiniteAskPanel } from './infiniteAskPanel';
+
+import type { InfiniteAskResult } from './infiniteAskPanel';
+import type { CancellationToken, Disposable, ExtensionContext, QuickPickItem } from 'vscode';
+
+// Showing a QuickPick hides any other, so concurrent checkpoints take turns
+let lastTurn: Promise<void> = Promise.resolve();
+
+interface CheckpointItem extends QuickPickItem {
+  action?: 'continue' | 'instruction' | 'input' | 'template' | 'end';
+  instruction?: string;
+  templateId?: string;
+}
+
+function firstLine(text: string): string {
+  return text.trim().split('\n')[0] ?? '';
+}
+
+/**
+ * Show the action picker; typing free text offers it as an instruction
+ * `bindFill` receives a function that types into the picker while it is on screen, then undefined once it closes
+ * @returns The accepted item, or undefined when the picker was dismissed or cancelled
+ */
+function pickAction(
+  items: CheckpointItem[],
+  placeholder: string,
+  token: CancellationToken,
+  bindFill: (fill: ((content: string) => void) | undefined) => void,
+): Promise<CheckpointItem | undefined> {
+  return new Promise((resolve) => {
+    const quickPick = window.createQuickPick<CheckpointItem>();
+    quickPick.title = t('common.dialogTitle');
+    quickPick.placeholder = placeholder;
+    quickPick.ignoreFocusOut = true;
+    quickPick.matchOnDescription = true;
+    quickPick.items = items;
+
+    const offerInstruction = (value: string) => {
+      const instruction = value.trim();
+      quickPick.items = instruction
+        ? [{ label: `$(send) ${instruction}`, description: t('nativeCheckpoint.sendInstruction'), alwaysShow: true, action: 'instruction', instruction }, ...items]
+        : items;
+    };
+
+    const disposables: Disposable[] = [];
+    let settled = false;
+    const finish = (item: CheckpointItem | undefined) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      bindFill(undefined);
+      disposables.forEach(disposable => disposable.dispose());
+      quickPick.dispose();
+      resolve(item);
+    };
+
+    disposables.push(
+      quickPick.onDidChangeValue(offerInstruction),
+      quickPick.onDidAccept(() => finish(quickPick.selectedItems[0])),
+      quickPick.onDidHide(() => finish(undefined)),
+      token.onCancellationRequested(() => finish(undefined)),
+    );
+
+    bindFill((content) => {
+      quickPick.value = content;
+      offerInstruction(content);
+    });
+    quickPick.show();
+  });
+}
+
+function buildItems(context: ExtensionContext): CheckpointItem[] {
+  const { templates, categories } = getPromptLibrary(context);
+  const items: CheckpointItem[] = [
+    { label: `$(play) ${t('nativeCheckpoint.continue')}`, description: t('nativeCheckpoint.continueDescription'), action: 'continue' },
+    { label: `$(edit) ${t('nativeCheckpoint.input')}`, description: t('nativeCheckpoint.inputDescription'), action: 'input' },
+  ];
+
+  if (templates.length > 0) {
+    items.push({ label: t('nativeCheckpoint.templates'), kind: QuickPickItemKind.Separator });
+    items.push(...templates.map(template => ({
+      label: template.name,
+      description: categories.find(c => c.id === template.category)?.name,
+      detail: firstLine(template.content),
+      action: 'template' as const,
+      instruction: template.content,
+      templateId: template.id,
+    })));
+  }
+
+  items.push(
+    { label: '', kind: QuickPickItemKind.Separator },
+    { label: `$(debug-stop) ${t('nativeCheckpoint.end')}`, description: t('nativeCheckpoint.endDescription'), action: 'end' },
+  );
+  return items;
+}
+
+/**
+ * Ask the user to continue using native VS Code UI
+ * The checkpoint joins the shared queue, so the sidebar can answer it and input_bridge
+ * can fill it; timeouts and cancellation are handled by the queue like for the webview dialog
+ */
+export async function showNativeCheckpoint(
+  context: ExtensionContext,
+  options: { reason?: string; summary?: string; source?: string; sessionId?: string; signal?: AbortSignal },
+): Promise<InfiniteAskResult> {
+  if (options.signal?.aborted) {
+    return { shouldContinue: false };
+  }
+
+  const { reason = '', summary = '' } = options;
+  const settings = getSettings(context);
+  const historySummary = summary || reason || t('common.taskCompleted');
+  const tokenSource = new CancellationTokenSource();
+  // Set while the picker is on screen
+  let fillPicker: ((content: string) => void) | undefined;
+
+  const { id, result } = enqueueCheckpoint({
+    ...options,
+    expiresAt: Date.now() + Math.max(1, settings.dialogTimeout) * 60 * 60 * 1000,
+    // Apply the configured default action once dialogTimeout elapses
+    onTimeout: () => {
+      const timeoutResult = InfiniteAskPanel.buildTimeoutResult(context, settings);
+      console.log(`[NativeCheckpoint] Timed out, action: ${settings.dialogTimeoutAction}`);
+      recordHistoryItem(context, {
+        summary: historySummary,
+        action: timeoutResult.shouldContinue ? 'continue' : 'end',
+        userInstruction: timeoutResult.userInstruction,
+        resolution: 'timeout',
+      }).catch((error) => {
+        console.error('[NativeCheckpoint] Failed to record timed out checkpoint in history:', error);
+      });
+      return timeoutResult;
+    },
+    onCancel: () => {
+      console.log('[NativeCheckpoint] Request cancelled by client');
+      window.showInformationMessage(t('host.checkpointCancelled'));
+    },
+    onFill: (content) => {
+      fillPicker?.(content);
+      return fillPicker !== undefined;
+    },
+  });
+
+  // Close the picker once the checkpoint is answered from the sidebar, times out or is cancelled
+  const unsubscribe = onDidChangeCheckpointQueue(() => {
+    if (!getPendingCheckpoint(id)) {
+      tokenSource.cancel();
+    }
+  });
+
+  let endTurn!: () => void;
+  const turn = new Promise<void>(resolve => endTurn = resolve);
+  const previousTurn = lastTurn;
+  lastTurn = previousTurn.then(() => turn);
+
+  try {
+    await Promise.race([
+      previousTurn,
+      new Promise(resolve => tokenSource.token.onCancellationRequested(resolve)),
+    ]);
+
+    const items = buildItems(context);
+    const placeholder = firstLine(summary || reason) || t('nativeCheckpoint.placeholder');
+    let answer: InfiniteAskResult | undefined;
+
+    while (!answer && !tokenSource.token.isCancellationRequested) {
+      const item = await pickAction(items, placeholder, tokenSource.token, fill => fillPicker = fill);
+      if (tokenSource.token.isCancellationRequested) {
+        break;
+      }
+
+      if (item?.action === 'input') {
+        const instruction = await window.showInputBox({
+          title: t('common.dialogTitle'),
+          prompt: firstLine(summary || reason) || undefined,
+          placeHolder: t('nativeCheckpoint.inputPlaceholder'),
+          ignoreFocusOut: true,
+        }, tokenSource.token);
+        // Escape goes back to the picker instead of ending the conversation
+        if (instruction?.trim()) {
+          answer = { shouldContinue: true, userInstruction: instruction.trim() };
+        }
+        continue;
+      }
+
+      if (item?.action === 'continue') {
+        answer = { shouldContinue: true };
+      }
+      else if (item?.action === 'instruction' || item?.action === 'template') {
+        answer = { shouldContinue: true, userInstruction: item.instruction, selectedTemplateId: item.templateId };
+      }
+      else {
+        // Dismissing the picker ends the conversation, like Escape in the webview dialog
+        answer = { shouldContinue: false };
+      }
+    }
+
+    // Another answer may have won the race while the input box was open
+    if (answer && resolveCheckpoint(id, { ...answer, respondedAt: Date.now() })) {
+      recordHistoryItem(context, {
+        summary: historySummary,
+        action: answer.shouldContinue ? 'continue' : 'end',
+        userInstruction: answer.userInstruction,
+      }).catch((error) => {
+        console.error('[NativeCheckpoint] Failed to record checkpoint in history:', error);
+      });
+    }
+  }
+  finally {
+    endTurn();
+    unsubscribe();
+    tokenSource.dispose();
+  }
+
+  return result;
+}
@@ -0,0 +1,109 @@
+/**
+ * Message catalog shared by the extension host and the webview
+ * Each side keeps its own current language; switching notifies subscribers without a reload
+ */
+
+import { enUS } from './locales/en-US';
+import { zhCN } from './locales/zh-CN';
+
+import type { Messages } from './locales/zh-CN';
+
+export type Language = 'zh-CN' | 'en-US';
+
+export const DEFAULT_LANGUAGE: Language = 'zh-CN';
+
+export const CATALOGS: Record<Language, Messages> = {
+  'zh-CN': zhCN,
+  'en-US': enUS,
+};
+
+type Leaves<T, Prefix extends string = ''> = {
+  [K in keyof T & string]: T[K] extends string ? `${Prefix}${K}` : Leaves<T[K], `${Prefix}${K}.`>
+}[keyof T & string];
+
+/** Dotted path of a message, e.g. "common.cancel" */
+export type MessageKey = Leaves<Messages>;
+
+/** Values for `{name}` placeholders in a message */
+export type MessageParams = Record<string, string | number>;
+
+export type { Messages };
+
+export const LANGUAGES = Object.keys(CATALOGS) as Language[];
+
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === 'string' && Object.hasOwn(CATALOGS, value);
+}
+
+function lookup(messages: Messages, key: string): string | undefined {
+  let node: any = messages;
+  for (const part of key.split('.')) {
+    node = node?.[part];
+  }
+  return typeof node === 'string' ? node : undefined;
+}
+
+/**
+ * Look up a message in the given language, falling back to the default language and then the key itself
+ */
+export function translate(language: Language, key: MessageKey, params?: MessageParams): string {
+  const message = lookup(CATALOGS[language] ?? CATALOGS[DEFAULT_LANGUAGE], key)
+    ?? lookup(CATALOGS[DEFAULT_LANGUAGE], key)
+    ?? key;
+  if (!params) {
+    return message;
+  }
+  return message.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+let currentLanguage: Language = DEFAULT_LANGUAGE;
+const listeners = new Set<(language: Language) => void>();
+
+export function getLanguage(): Language {
+  return currentLanguage;
+}
+
+/**
+ * Switch the current language; unknown values fall back to the default language
+ */
+export function setLanguage(language: unknown): void {
+  const next = isLanguage(language) ? language : DEFAULT_LANGUAGE;
+  if (next === currentLanguage) {
+    return;
+  }
+  currentLanguage = next;
+  listeners.forEach(listener => listener(next));
+}
+
+/**
+ * Subscribe to language changes
+ * @returns A function that removes the listener
+ */
+export function onDidChangeLanguage(listener: (language: Language) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Translate in the current language
+ */
+export function t(key: MessageKey, params?: MessageParams): string {
+  return translate(currentLanguage, key, params);
+}
+
+/**
+ * Give an unedited built-in item (template, profile, ...) the text of `language`
+ * The item counts as unedited while its fields match the built-in text of some language,
+ * which `getText` returns for a given language
+ */
+export function localizeBuiltin<T extends object, K extends keyof T>(
+  item: T,
+  getText: (language: Language) => Pick<T, K>,
+  language: Language = currentLanguage,
+): T {
+  const unedited = LANGUAGES.some((candidate) => {
+    const text = getText(candidate);
+    return (Object.keys(text) as K[]).every(field => item[field] === text[field]);
+  });
+  return unedited ? { ...item, ...getText(language) } : item;
+}
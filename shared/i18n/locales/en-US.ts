@@ -0,0 +1,965 @@
+/**
+ * English messages
+ */
+
+import type { Messages } from './zh-CN';
+
+export const enUS: Messages = {
+  common: {
+    cancel: 'Cancel',
+    confirm: 'OK',
+    save: 'Save',
+    create: 'Create',
+    new: 'New',
+    delete: 'Delete',
+    edit: 'Edit',
+    close: 'Close',
+    reset: 'Reset',
+    restore: 'Restore',
+    copy: 'Copy',
+    import: 'Import',
+    export: 'Export',
+    search: 'Search',
+    unknownError: 'Unknown error',
+    taskCompleted: 'Task completed',
+    defaultConversation: 'Default conversation',
+    dialogTitle: 'Windsurf Endless - Confirm to Continue',
+    copySuffix: '(copy)',
+    continue: 'Continue',
+    end: 'End',
+    noContent: 'No content',
+    noData: 'No data',
+    unknownWorkspace: 'Unknown workspace',
+  },
+
+  host: {
+    exportLabel: 'Export Data',
+    exported: 'Data exported to: {path}',
+    exportFailed: 'Export failed: {error}',
+    exportIncomplete: 'the panel sent no conversations or history',
+    exportNoResponse: 'the panel did not send its data in time',
+    retentionPruned: 'Cleaned up old data: {history} history records, {conversations} conversations, {messages} messages, {sessions} sessions removed; {strippedSessions} sessions kept as statistics only',
+    importLabel: 'Import Data',
+    imported: 'Data imported successfully!',
+    importFailed: 'Import failed: {error}',
+    importedWithSkipped: 'Data imported; {count} invalid entries were skipped',
+    stateQuarantined: 'Stored workspace data was corrupt and has been quarantined and reset: {reason}',
+    stateNotObject: 'the data is not an object',
+    stateNewerVersion: 'the data was written by a newer version of the extension (version {version})',
+    stateMigrationFailed: 'migrating from version {version} failed: {error}',
+    stateEntriesDropped: '{count} invalid conversation or history entries',
+    invalidServerName: 'Invalid server name: {error}',
+    portWarning: 'Port notice: {error}',
+    confirmMcpConfig: 'Change the MCP configuration?\n\nServer name: {name}\nPort: {port}\n\nWindsurf must be restarted for the change to take effect.',
+    saveAndRestart: 'Save and Restart',
+    saveOnly: 'Save Only',
+    mcpConfigSavedRestarting: 'MCP configuration saved, restarting Windsurf...',
+    mcpConfigSaved: 'MCP configuration saved. Restart Windsurf manually to apply the changes.',
+    restartNow: 'Restart Now',
+    saveMcpConfigFailed: 'Failed to save the MCP configuration: {error}',
+    testingConnection: 'Testing connection to 127.0.0.1:{port}...',
+    connectionOk: 'The MCP server is reachable',
+    connectionStatus: 'Server responded with status code {status}',
+    connectionRefused: 'The MCP server is not running or the port is unreachable',
+    connectionFailed: 'Connection failed: {error}',
+    connectionTimeout: 'Connection timed out',
+    testConnectionFailed: 'Connection test failed: {error}',
+    switchingTransport: 'Switching to {transport} transport...',
+    transportSwitched: 'Switched to {transport} transport',
+    switchTransportFailed: 'Failed to switch transport: {error}',
+    restartingServer: 'Restarting the MCP server (port {port})...',
+    serverRestarted: 'MCP server restarted (port {port})',
+    restartServerFailed: 'Failed to restart the server: {error}',
+    serverStartFailed: 'Could not start the MCP server (port {port}): {error}',
+    configUpdated: 'Windsurf Endless: Configuration updated successfully!',
+    configRemoved: 'Windsurf Endless: MCP configuration removed.',
+    rulesInjected: 'Injected .windsurfrules into {folder}',
+    testSummary: 'Test dialog',
+    testReason: 'This is a test message to check that Windsurf Endless works.',
+    userContinued: 'The user chose to continue',
+    userContinuedWithInstruction: 'The user chose to continue, instruction: {instruction}',
+    userEnded: 'The user chose to end the conversation',
+    confirmReload: 'Reload the window? This restarts all extensions.',
+    openMcpSettings: 'Configure the MCP server in the "Settings" tab of the sidebar.',
+    filledDialog: 'The optimized prompt was filled into the dialog input',
+    copiedToClipboard: 'The optimized prompt was copied to the clipboard. Press Ctrl+V to paste it into the input box.',
+    viewContent: 'View Content',
+    fillInputError: 'An error occurred while filling the input box',
+    fillAmbiguous: '{count} checkpoints of this session are waiting for confirmation; cannot tell which one to fill',
+    fillQueued: 'The target checkpoint is still queued and not shown in the dialog yet',
+    fillHandled: 'The target checkpoint has already been answered',
+    optimizeFailed: 'Optimization failed',
+    optimizeRequestSent: 'Optimization request sent to the AI; the optimized prompt will be filled into the input box',
+    optimizeWithAiInstruction: 'Please optimize the following prompt to make it clearer, more specific and more effective. When done, call the input_bridge tool to fill the optimized prompt into the input box.\n\nOriginal prompt:\n{prompt}\n\nOptimize and fill it in directly without explanation.',
+    checkpointCancelled: 'The AI cancelled this confirmation request',
+    checkpointsWaiting: '{count} checkpoint(s) waiting for confirmation; you can answer them from the sidebar queue',
+    checkpointHistoryFailed: 'The checkpoints were answered but could not be saved to history: {error}',
+    viewQueue: 'View Queue',
+  },
+
+  config: {
+    serverNameEmpty: 'Server name cannot be empty',
+    serverNameTooLong: 'Server name cannot exceed 50 characters',
+    serverNameInvalid: 'Server name may only contain letters, digits, underscores and hyphens, and must start with a letter',
+    portNotInteger: 'Port must be an integer',
+    portOutOfRange: 'Port must be between 1 and 65535',
+    portPrivileged: 'A port above 1024 is recommended to avoid permission issues',
+    portInUse: 'Port {port} is already in use',
+    unsupportedTransport: 'Unsupported transport type',
+  },
+
+  optimizer: {
+    error: 'An error occurred while optimizing the prompt',
+    cancelled: 'Optimization cancelled',
+    timeout: 'Optimization timed out ({seconds} s); the timeout can be changed in Settings',
+    profileNotFound: 'Optimization profile "{profile}" not found. Available profiles: {available}',
+    listSeparator: ', ',
+    emptyResult: 'The optimizer returned empty content',
+    lmUnsupportedInWindsurf: 'VS Code language models are not available in Windsurf. Switch the optimizer in Settings, or use "Optimize with AI".',
+    modelNotFound: 'Language model {model} not found; select another one in Settings',
+    noLanguageModel: 'No language model is available. Make sure GitHub Copilot or another language model extension is installed.',
+    endpointMissing: 'Enter the OpenAI-compatible endpoint and model name in Settings first',
+    connectFailed: 'Could not connect to {endpoint}: {error}',
+    httpError: 'The optimizer returned HTTP {status}',
+    httpErrorWithBody: 'The optimizer returned HTTP {status}: {body}',
+    noContent: 'The optimizer response has no content',
+    streamError: 'The optimizer reported an error: {error}',
+    profileUnsupported: 'The offline rule-based optimizer cannot follow the "{profile}" profile; use the "General" profile or switch the optimizer in Settings',
+  },
+
+  checkpoint: {
+    result: 'Result: should_continue={value}',
+    instruction: 'User instruction: {instruction}',
+    template: 'Template: {id}',
+    images: 'The user attached {count} image(s)',
+    skipped: '({count} image(s) ignored: unsupported format or over the size limit)',
+    timeout: '(The dialog timed out; the configured default action was applied)',
+    cancelled: 'Request cancelled',
+    waiting: 'Waiting for the user to respond...',
+  },
+
+  popup: {
+    reasonWithSummary: '{summary}\n\nReason: {reason}',
+    reasonLabel: 'Why the AI wants to end the conversation:',
+    instructionLabel: 'New instruction (optional):',
+    continue: 'Continue',
+    end: 'End Conversation',
+  },
+
+  nativeCheckpoint: {
+    sendInstruction: 'Send this instruction',
+    continue: 'Continue',
+    continueDescription: 'Continue the current task',
+    input: 'Enter instruction...',
+    inputDescription: 'Continue with a custom instruction',
+    templates: 'Prompt Templates',
+    end: 'End Conversation',
+    endDescription: 'End the current conversation',
+    placeholder: 'The AI finished the current task. Continue the conversation?',
+    inputPlaceholder: 'Instruction to continue with (Esc to go back)',
+  },
+
+  tool: {
+    missingPrompt: 'Error: provide the prompt to optimize (prompt parameter)',
+    optimized: 'Optimization succeeded!\n\nOptimized prompt:\n{prompt}\n\nNext: call the {tool} tool to fill this prompt into the input box.',
+    optimizedMayFill: 'Optimization succeeded!\n\nOptimized prompt:\n{prompt}\n\nTip: you can call the {tool} tool to fill this prompt into the input box.',
+    optimizeFailed: 'Optimization failed: {error}',
+    optimizeYourself: 'Optimize the following prompt yourself, then call this tool again with the result in the optimized_prompt parameter, and call {tool} to fill it into the input box.\n\nOriginal prompt:\n{prompt}\n\nRequirements:\n{requirements}',
+    defaultRequirements: '1. Keep the original intent\n2. Make it clearer and more specific\n3. Add necessary context and constraints\n4. Use precise wording\n5. Keep it concise',
+    optimizerUnavailable: 'Error: the prompt optimizer is not configured. Make sure the extension is loaded.',
+    missingContent: 'Error: provide the content to fill (content parameter)',
+    filled: 'Success! The content was filled into the custom instruction input of the dialog.',
+    fillFailed: 'Fill failed: {error}',
+    fillUnavailable: 'Error: the input fill service is not configured. Make sure the extension is loaded.',
+  },
+
+  resources: {
+    recentName: 'Recent checkpoints',
+    recentDescription: 'The latest {count} checkpoint responses in this workspace (newest first), including user instructions',
+    conversationsName: 'Conversations',
+    conversationsDescription: 'All conversations recorded in this workspace',
+    conversationDescription: 'Conversation with {count} checkpoint message(s)',
+    conversationTemplateName: 'Conversation details',
+    conversationTemplateDescription: 'Every checkpoint summary and user instruction of one conversation',
+  },
+
+  stateSync: {
+    conversationMissing: 'Conversation {id} no longer exists',
+    historyItemExists: 'History item {id} already exists',
+    historyItemMissing: 'History item {id} no longer exists',
+    commandRejected: 'This change conflicted with an edit from another panel and was reverted to the latest data: {reason}',
+  },
+
+  builtinProfiles: {
+    general: {
+      name: 'General',
+      description: 'Make the prompt clearer, more specific and more effective',
+      systemPrompt: 'You are a prompt optimization expert. Improve the user\'s prompt so it is clearer, more specific and more effective.\n\nRequirements:\n1. Keep the original intent\n2. Make it clearer and more specific\n3. Add necessary context and constraints\n4. Use precise wording\n5. Keep it concise without padding\n\nOutput only the result without any explanation.',
+    },
+    concise: {
+      name: 'Concise',
+      description: 'Remove redundancy, keep the key points',
+      systemPrompt: 'Rewrite the user\'s prompt to be more concise: drop pleasantries, repetition and irrelevant content, keep every key requirement and constraint, and do not change the meaning.\n\nOutput only the result without any explanation.',
+    },
+    acceptanceCriteria: {
+      name: 'Add Acceptance Criteria',
+      description: 'Add verifiable completion criteria to the task',
+      systemPrompt: 'Keep the meaning of the user\'s prompt and add an "Acceptance criteria" section listing 3-6 verifiable completion conditions (behavior, edge cases, tests, code style, etc.). Do not invent requirements unrelated to the task.\n\nOutput only the result without any explanation.',
+    },
+    translateEn: {
+      name: 'Translate to English',
+      description: 'Translate the prompt into natural English',
+      systemPrompt: 'Translate the user\'s prompt into clear, natural English. Keep code, identifiers, file paths and technical terms unchanged, and preserve every requirement.\n\nOutput only the translated prompt without any explanation.',
+    },
+    stepList: {
+      name: 'Step List',
+      description: 'Break the task into ordered steps',
+      systemPrompt: 'Rewrite the user\'s prompt as an ordered list of steps: one step per line, each starting with a verb, in execution order, keeping every constraint and detail.\n\nOutput only the result without any explanation.',
+    },
+  },
+
+  builtinPrompts: {
+    continue: {
+      name: 'Continue',
+      description: 'Continue the current task',
+      content: 'Continue',
+    },
+    optimize: {
+      name: 'Optimize Code',
+      description: 'Optimize the current code while keeping its style',
+      content: 'Please keep optimizing this code and keep the code style consistent.',
+    },
+    test: {
+      name: 'Add Tests',
+      description: 'Add complete unit tests for the code',
+      content: 'Please add complete unit tests for the code you just wrote.',
+    },
+    fix: {
+      name: 'Fix Issues',
+      description: 'Keep fixing the issues found',
+      content: 'Please keep fixing the issues you just found.',
+    },
+    doc: {
+      name: 'Add Docs',
+      description: 'Add detailed doc comments to the code',
+      content: 'Please add detailed doc comments to the code.',
+    },
+    explain: {
+      name: 'Explain Code',
+      description: 'Explain the logic and implementation in detail',
+      content: 'Please explain the logic and implementation of this code in detail.',
+    },
+    refactor: {
+      name: 'Refactor Code',
+      description: 'Refactor for readability and maintainability',
+      content: 'Please refactor this code to improve readability and maintainability without changing its behavior.',
+    },
+    performance: {
+      name: 'Improve Performance',
+      description: 'Optimize code performance',
+      content: 'Please improve the performance of this code and explain the optimizations.',
+    },
+    security: {
+      name: 'Security Review',
+      description: 'Check the code for security vulnerabilities',
+      content: 'Please check this code for security vulnerabilities and suggest fixes.',
+    },
+  },
+
+  builtinShortcuts: {
+    continue: {
+      name: 'Continue',
+      description: 'Continue the current task',
+      content: 'Continue',
+    },
+    optimize: {
+      name: 'Optimize Code',
+      description: 'Optimize the current code',
+      content: 'Please keep optimizing this code and keep the code style consistent.',
+    },
+    test: {
+      name: 'Add Tests',
+      description: 'Add unit tests for the code',
+      content: 'Please add complete unit tests for the code you just wrote.',
+    },
+    fix: {
+      name: 'Fix Issues',
+      description: 'Keep fixing issues',
+      content: 'Please keep fixing the issues you just found.',
+    },
+    doc: {
+      name: 'Add Docs',
+      description: 'Add code documentation',
+      content: 'Please add detailed doc comments to the code.',
+    },
+    explain: {
+      name: 'Explain Code',
+      description: 'Explain the code logic',
+      content: 'Please explain the logic and implementation of this code in detail.',
+    },
+  },
+
+  builtinTemplates: {
+    optimize: {
+      name: 'Keep Optimizing',
+      description: 'Let the AI keep optimizing the current code',
+      content: 'Please keep optimizing this code, keep the code style consistent and add necessary comments.',
+      category: 'Code',
+    },
+    test: {
+      name: 'Add Tests',
+      description: 'Add unit tests for the current feature',
+      content: 'Please add complete unit tests for the feature you just implemented, covering normal and edge cases.',
+      category: 'Testing',
+    },
+    fix: {
+      name: 'Fix Bugs',
+      description: 'Keep fixing the issues found',
+      content: 'Please keep fixing the issues you just found without breaking other features.',
+      category: 'Fixes',
+    },
+    doc: {
+      name: 'Add Docs',
+      description: 'Add doc comments to the code',
+      content: 'Please add detailed doc comments to the code you just wrote, describing functions, parameters and return values.',
+      category: 'Docs',
+    },
+  },
+
+  promptCategories: {
+    quick: 'Quick',
+    code: 'Code',
+    test: 'Testing',
+    doc: 'Docs',
+    custom: 'Custom',
+  },
+
+  connection: {
+    connected: 'Connected',
+    connectedLatency: 'Connected ({latency}ms)',
+    reconnecting: 'Reconnecting... ({attempt}/{max})',
+    connecting: 'Connecting...',
+    disconnected: 'Disconnected',
+    error: 'Error: {error}',
+    unknown: 'Unknown status',
+  },
+
+  image: {
+    unsupported: 'Unsupported image format: {type}',
+    tooLarge: 'Image too large ({size} MB); the maximum is {max} MB',
+  },
+
+  app: {
+    subtitle: 'Windsurf Endless - Endless Conversations',
+    tabs: {
+      home: 'Home',
+      queue: 'Queue',
+      conversations: 'Chats',
+      shortcuts: 'Shortcuts',
+      history: 'History',
+      templates: 'Templates',
+      stats: 'Stats',
+      settings: 'Settings',
+    },
+    currentConversation: 'Current conversation: ',
+    messageCount: '{count} messages',
+    mcpStatus: 'MCP Service Status',
+    mcpStatusDescription: 'Check the connection to the Windsurf Endless MCP service',
+    connected: 'Connected',
+    connectedDescription: 'The MCP service is running',
+    disconnected: 'Disconnected',
+    disconnectedDescription: 'Check the MCP configuration',
+    checking: 'Checking',
+    checkingDescription: 'Checking the service status...',
+    reconfigure: 'Reconfigure',
+    quickStats: 'Quick Stats',
+    quickStatsDescription: 'Overview of conversations and history',
+    activeConversations: 'Active conversations',
+    totalMessages: 'Total messages',
+    testDialog: 'Test Dialog',
+    features: 'Features',
+    featureConversations: 'Multiple Conversations',
+    featureConversationsDescription: 'Create several independent conversation contexts',
+    featureHistory: 'History',
+    featureHistoryDescription: 'Keep the full history of every interaction',
+    featureEndless: 'Endless Refills',
+    featureEndlessDescription: 'Ask whether to continue whenever a task finishes',
+    featureSettings: 'Flexible Settings',
+    featureSettingsDescription: 'Plenty of options to customize',
+  },
+
+  settings: {
+    providers: {
+      'vscode-lm': 'VS Code language model',
+      'openai-compatible': 'OpenAI-compatible API',
+      'rule-based': 'Offline rule-based',
+    },
+    units: {
+      times: '{count} times',
+      seconds: '{count} s',
+      hours: '{count} h',
+      entries: '{count} entries',
+      days: '{count} days',
+    },
+    general: {
+      title: 'General',
+      description: 'Configure the basic behavior of the extension',
+      autoStart: 'Auto start',
+      autoStartHint: 'Configure MCP when a workspace opens',
+      notifications: 'Show notifications',
+      notificationsHint: 'Show a notification when configuration finishes',
+      language: 'Language',
+      languageHint: 'Choose the display language',
+    },
+    mcp: {
+      title: 'MCP server',
+      description: 'Configure the MCP server transport, name and port',
+      serverStatus: 'Server status',
+      running: 'Running',
+      stopped: 'Stopped',
+      autoConfigure: 'Auto configure MCP',
+      autoConfigureHint: 'Configure the MCP server on startup',
+      transport: 'Transport',
+      transportPlaceholder: 'Select a transport',
+      recommended: 'Recommended',
+      fallback: 'Fallback',
+      auto: 'Auto',
+      smartSwitch: 'Smart switch',
+      httpHint: 'HTTP/SSE performs better and supports multiple clients',
+      stdioHint: 'Stdio is more compatible and suits restricted environments',
+      autoHint: 'Auto mode switches to Stdio when HTTP fails',
+      portPresets: 'Port presets',
+      serverName: 'Server name',
+      serverNameHint: 'Server identifier in the MCP config file',
+      serverPort: 'Server port',
+      checkPort: 'Check port availability',
+      portAvailable: '✓ Port available',
+      portInUse: '✗ Port in use',
+      serverPortHint: 'Port the MCP HTTP server listens on (1-65535)',
+      advanced: 'Advanced options',
+      autoReconnect: 'Auto reconnect',
+      autoReconnectHint: 'Try to reconnect when the connection drops',
+      reconnectAttempts: 'Reconnect attempts',
+      connectionTimeout: 'Connection timeout',
+      fallbackToStdio: 'Fall back to Stdio',
+      fallbackToStdioHint: 'Switch automatically when HTTP fails',
+      fallbackPorts: 'Fallback ports',
+      currentFallbackPorts: 'Current fallback ports: {ports}',
+      currentConfig: 'Current config:',
+      restartRequired: 'Settings changed. Save and restart Windsurf to apply them',
+      testConnection: 'Test connection',
+      restartServer: 'Restart server',
+      saveConfig: 'Save MCP config',
+    },
+    portPresets: {
+      default: {
+        name: 'Default',
+        description: 'Recommended port',
+      },
+      backup1: {
+        name: 'Backup 1',
+        description: 'Backup port',
+      },
+      backup2: {
+        name: 'Backup 2',
+        description: 'Backup port',
+      },
+      high: {
+        name: 'High',
+        description: 'Avoids conflicts',
+      },
+      custom: {
+        name: 'Custom',
+        description: 'Enter manually',
+      },
+    },
+    dialog: {
+      title: 'Dialog',
+      description: 'Configure the Windsurf Endless dialog',
+      mode: 'Confirmation style',
+      modeHint: 'Applies to this workspace only',
+      modeWebview: 'Dialog',
+      modeNative: 'Native quick pick',
+      timeout: 'Timeout',
+      timeoutHint: 'How long the dialog waits for a response',
+      timeoutAction: 'On timeout',
+      timeoutActionHint: 'What to do when nobody responds',
+      actionEnd: 'End the conversation',
+      actionContinue: 'Continue with an instruction',
+      actionTemplate: 'Continue with a template',
+      timeoutInstruction: 'Preset instruction',
+      timeoutInstructionPlaceholder: 'Leave empty to continue without an instruction',
+      timeoutTemplate: 'Template on timeout',
+      templatePlaceholder: 'Select a template',
+      position: 'Dialog position',
+      positionHint: 'Where the dialog appears',
+      center: 'Center',
+      topRight: 'Top right',
+      bottomRight: 'Bottom right',
+      theme: 'Theme',
+      themeHint: 'Color theme of the dialog',
+      themeSystem: 'System',
+      themeLight: 'Light',
+      themeDark: 'Dark',
+    },
+    optimizer: {
+      title: 'Prompt optimization',
+      description: 'Configure the service behind "Local optimize" in the dialog',
+      provider: 'Optimizer',
+      providerHint: 'Rule-based optimization needs no model and works in Windsurf',
+      model: 'Model',
+      modelHint: 'Copilot is preferred when selecting automatically',
+      autoModel: 'Automatic',
+      endpoint: 'Endpoint',
+      endpointHint: 'Works with Ollama, llama.cpp and other services exposing /chat/completions',
+      modelName: 'Model name',
+      modelNamePlaceholder: 'e.g. qwen2.5:7b',
+      apiKeySaved: 'Saved',
+      apiKeyUnset: 'Not set',
+      apiKeyReplace: 'Enter a new key to replace it; save empty to clear',
+      apiKeyOptional: 'Local services usually need none',
+      apiKeyHint: 'Stored in VS Code secret storage, never in settings',
+      timeout: 'Timeout',
+      timeoutHint: 'Applies to the selected optimizer; the request is cancelled on timeout',
+    },
+    rules: {
+      title: 'Rules',
+      description: 'Configure AI rules file injection',
+      autoInject: 'Auto inject rules',
+      autoInjectHint: 'Create the .windsurfrules file automatically',
+      customPath: 'Custom rules path',
+      customPathPlaceholder: 'Leave empty for the default rules',
+      customPathHint: 'Path to a custom rules file (optional)',
+    },
+    history: {
+      title: 'History',
+      description: 'Configure how conversation history is stored',
+      enabled: 'Save history',
+      enabledHint: 'Record every Windsurf Endless interaction',
+      maxEntries: 'Maximum entries',
+      autoClean: 'Auto clean history',
+      autoCleanHint: 'Delete expired history automatically',
+      retentionDays: 'Retention days',
+      keepStatistics: 'Keep session statistics',
+      keepStatisticsHint: 'When cleaning expired sessions, remove only their messages and notes and keep their statistics',
+      syncAcrossWorkspaces: 'Share across workspaces',
+      syncAcrossWorkspacesHint: 'Publish this workspace\'s history to the global library and browse other workspaces\' history read-only',
+    },
+    privacy: {
+      title: 'Privacy',
+      description: 'What is recorded of checkpoint text, and which secrets are redacted from history, sessions, exports and MCP resources',
+      level: 'Privacy level',
+      levelHint: 'Applies to new history records and new sessions',
+      levels: {
+        full: 'Full text',
+        metadata: 'Metadata only',
+        statistics: 'Statistics only',
+      },
+      levelHints: {
+        full: 'Text is kept with detected secrets redacted',
+        metadata: 'Only the length, a hash and what kind of content was detected are kept',
+        statistics: 'Only counts and continue/end decisions are kept',
+      },
+      detectors: 'Redact',
+      detectorNames: {
+        apiKey: 'API keys and passwords',
+        token: 'Tokens (JWT, Bearer)',
+        email: 'Email addresses',
+        filePath: 'Absolute file paths',
+      },
+      patterns: 'Custom patterns',
+      patternsHint: 'One regular expression of up to {max} characters per line; every match is replaced with [redacted:custom]. Groups that repeat and contain their own quantifier or alternative, such as (a+)+ or (a|b)*, are rejected because they can freeze the editor',
+      patternsPlaceholder: 'e.g. ACME-\\d{6}',
+      invalidPatterns: 'Invalid, overlong or nested-repeat patterns are skipped: {patterns}',
+    },
+    scope: {
+      title: 'Settings scope',
+      description: 'Settings apply to every workspace; a workspace can override some of them',
+      saveTo: 'Save changes to',
+      global: 'All workspaces',
+      workspace: 'This workspace',
+      overrides: '{count} setting(s) are overridden in this workspace',
+      noOverrides: 'This workspace uses the global settings',
+      copyToGlobal: 'Copy to global',
+      resetWorkspace: 'Reset workspace overrides',
+      resetGlobal: 'Reset global settings',
+    },
+    resetDefaults: 'Reset to defaults',
+    save: 'Save settings',
+  },
+
+  prompts: {
+    selectTitle: 'Select a prompt',
+    title: 'Prompt library',
+    count: '{count} prompts',
+    searchPlaceholder: 'Search prompts...',
+    all: 'All',
+    empty: 'No prompts yet',
+    createFirst: 'Create the first one',
+    builtin: 'Built-in',
+    usageCount: 'Used {count} times',
+    use: 'Use',
+    confirmReset: 'Reset all prompts to defaults? This deletes every custom prompt.',
+    editTitle: 'Edit prompt',
+    newTitle: 'New prompt',
+    editDescription: 'Change the prompt content and settings',
+    newDescription: 'Create a new prompt template',
+    name: 'Name',
+    namePlaceholder: 'e.g. Optimize code',
+    description: 'Description',
+    descriptionPlaceholder: 'Briefly describe what the prompt is for',
+    content: 'Prompt content',
+    contentPlaceholder: 'Enter the prompt to send to the AI...',
+    category: 'Category',
+    hotkey: 'Hotkey',
+    color: 'Color',
+    icon: 'Icon',
+    autoSubmit: 'Auto submit',
+    autoSubmitHint: 'Start a submit countdown after selection',
+    autoSubmitDelay: 'Countdown (seconds)',
+    icons: {
+      'play': 'Play',
+      'sparkles': 'Sparkles',
+      'flask': 'Flask',
+      'wrench': 'Wrench',
+      'file-text': 'Document',
+      'message-circle': 'Message',
+      'code': 'Code',
+      'zap': 'Lightning',
+      'shield': 'Shield',
+      'star': 'Star',
+    },
+    colors: {
+      green: 'Green',
+      blue: 'Blue',
+      purple: 'Purple',
+      orange: 'Orange',
+      cyan: 'Cyan',
+      pink: 'Pink',
+      red: 'Red',
+      yellow: 'Yellow',
+      indigo: 'Indigo',
+    },
+  },
+
+  shortcuts: {
+    title: 'Shortcuts',
+    subtitle: 'Manage custom shortcuts and trigger them with number keys',
+    new: 'New shortcut',
+    count: '{count}',
+    editTitle: 'Edit shortcut',
+    dialogDescription: 'Create shortcuts for quick use in the Windsurf Endless dialog',
+    namePlaceholder: 'e.g. Keep optimizing',
+    hotkeyPlaceholder: '1-9 or a letter',
+    descriptionPlaceholder: 'Short description',
+    content: 'Instruction',
+    contentPlaceholder: 'Enter the instruction to send to the AI...',
+    confirmDelete: 'Delete this shortcut?',
+    confirmDeleteDescription: 'This cannot be undone. The shortcut will be permanently deleted.',
+  },
+
+  templates: {
+    title: 'Templates',
+    subtitle: 'Preset instructions to continue conversations quickly',
+    new: 'New template',
+    editTitle: 'Edit template',
+    defaultCategory: 'General',
+    categoryCount: '{category} ({count})',
+    useThis: 'Use this template',
+    dialogDescription: 'Create reusable instruction templates for continuing conversations',
+    name: 'Template name',
+    namePlaceholder: 'e.g. Keep optimizing',
+    categoryPlaceholder: 'e.g. Code, Testing, Docs',
+    descriptionPlaceholder: 'Briefly describe what this template is for',
+    contentPlaceholder: 'Enter the instruction to send to the AI...',
+    confirmDelete: 'Delete this template?',
+    confirmDeleteDescription: 'This cannot be undone. The template will be permanently deleted.',
+  },
+
+  askDialog: {
+    timeoutEnd: 'The conversation ends automatically on timeout',
+    timeoutContinue: 'Continues with the preset instruction on timeout',
+    timeoutTemplate: 'Continues with the preset template on timeout',
+    maxImages: 'You can attach at most {max} images',
+    muteSound: 'Mute sound',
+    unmuteSound: 'Enable sound',
+    hotkeys: 'Hotkeys',
+    waiting: 'Waiting',
+    description: 'The AI finished its task. Choose whether to continue the conversation',
+    tabConversation: 'Conversation',
+    tabPrompts: 'Prompts',
+    tabHistory: 'History',
+    summaryLabel: 'What the AI did:',
+    reasonLabel: 'Why the AI wants to stop:',
+    statusLabel: 'AI status:',
+    statusWaiting: 'The AI finished the current stage and is waiting for your confirmation.',
+    missingSummaryHint: 'Tip: if you expected a detailed task summary, the MCP tool call may not have provided the summary parameter.',
+    shortcutsLabel: 'Shortcuts:',
+    manage: 'Manage',
+    customInstruction: 'Custom instruction:',
+    cancelOptimize: 'Cancel',
+    localOptimize: 'Local optimize',
+    optimizingClickToCancel: 'Optimizing, click to cancel',
+    optimizeWithDefault: 'Optimize with the default profile "{profile}"',
+    chooseProfile: 'Choose a profile',
+    defaultMark: ' (default)',
+    aiOptimize: 'AI optimize',
+    aiOptimizeHint: 'Let the AI optimize and fill it in',
+    instructionPlaceholder: 'Enter a custom instruction... (Ctrl+Enter to send, images can be pasted)',
+    removeImage: 'Remove image',
+    imageCount: '{count} images',
+    continue: 'Continue',
+    end: 'End conversation',
+    submitted: 'Submitted',
+    submittedHint: 'Your choice has been sent to the AI',
+  },
+
+  time: {
+    justNow: 'Just now',
+    minutesAgo: '{count} min ago',
+    hoursAgo: '{count} h ago',
+    daysAgo: '{count} days ago',
+    today: 'Today {time}',
+    yesterday: 'Yesterday {time}',
+    hoursMinutes: '{hours}h {minutes}m',
+    minutes: '{count}m',
+    seconds: '{count}s',
+    hours: '{count}h',
+    days: '{count}d',
+  },
+
+  sessions: {
+    status: {
+      active: 'Active',
+      paused: 'Paused',
+      completed: 'Completed',
+      expired: 'Expired',
+    },
+    title: 'Session history',
+    summary: '{sessions} sessions, {messages} messages',
+    searchPlaceholder: 'Search sessions...',
+    empty: 'No sessions yet',
+    messageCount: '{count} messages',
+    viewDetails: 'View details',
+    continueCount: 'Continue:',
+    endCount: 'End:',
+    viewAll: 'View all {count} messages',
+    viewList: 'List',
+    viewTree: 'Branches',
+    fork: 'Fork',
+    forkHint: 'Branch off before this message to answer the checkpoint with a different instruction',
+    branchedAt: 'Forked at: {message}',
+    compare: 'Compare',
+    uncompare: 'Remove from comparison',
+    compareHint: 'Pick another session to compare',
+    compareTitle: 'Branch comparison',
+    sharedMessages: 'Both branches share {count} messages; below is what followed',
+    noDivergence: 'No messages after the fork',
+    exportFormat: 'Export format',
+    exportJson: 'JSON',
+    exportCsv: 'CSV spreadsheet',
+    exportMarkdown: 'Markdown transcript',
+    exportMessages: 'Include messages',
+    exportStatistics: 'Include statistics',
+    exportFiltered: 'Only filtered sessions',
+    exportRange: 'Date range',
+    exportRangeAll: 'All time',
+    exportRangeDay: 'Last 24 hours',
+    exportRangeWeek: 'Last 7 days',
+    exportRangeMonth: 'Last 30 days',
+  },
+
+  sessionExport: {
+    title: 'Session export',
+    exportedAt: 'Exported {time}, {count} sessions',
+    range: 'Date range: {start} to {end}',
+    statistics: 'Statistics',
+    metric: 'Metric',
+    value: 'Value',
+    sessions: 'Sessions',
+    messages: 'Messages',
+    averageDuration: 'Average duration',
+    session: 'Session:',
+    status: 'Status:',
+    branchOf: 'Branched from:',
+    duration: 'Duration:',
+    decisions: 'Decisions: continued {continues} times, ended {ends} times',
+    tags: 'Tags:',
+    transcript: 'Transcript',
+    noMessages: 'No messages',
+    contentNotRecorded: 'Message content was not recorded at this session\'s privacy level',
+    checkpoint: 'AI checkpoint',
+    reason: 'Reason:',
+    decision: 'Decision: {decision}',
+    images: '{count} image(s) attached',
+    contentMetadata: '{field}: {length} characters, hash {hash}',
+    contentDetected: 'detected: {tags}',
+    fields: {
+      summary: 'Summary',
+      reason: 'Reason',
+      userInstruction: 'Instruction',
+    },
+  },
+
+  profiles: {
+    title: 'Optimization profiles',
+    subtitleBefore: 'Instructions used by prompt optimization, selectable in the dialog and through the',
+    subtitleAfter: 'parameter',
+    restoreBuiltin: 'Restore built-ins',
+    new: 'New profile',
+    default: 'Default',
+    setDefault: 'Set as default',
+    editTitle: 'Edit profile',
+    newTitle: 'New profile',
+    dialogDescription: 'The profile instruction is sent first, followed by the prompt to optimize',
+    name: 'Profile name',
+    namePlaceholder: 'e.g. Concise',
+    descriptionPlaceholder: 'Briefly describe what this profile does',
+    systemPrompt: 'Profile instruction',
+    systemPromptPlaceholder: 'Tell the model how to rewrite the prompt, e.g. Rewrite the user\'s prompt to be more concise...',
+    systemPromptHint: 'Rule-based optimization ignores the profile instruction',
+    confirmDelete: 'Delete this profile?',
+    confirmDeleteDescription: 'This cannot be undone. If you delete the default profile, the first profile becomes the default.',
+    confirmRestore: 'Restore built-in profiles?',
+    confirmRestoreDescription: 'Custom profiles and edits will be cleared and the 5 built-in profiles restored.',
+  },
+
+  stats: {
+    title: 'Statistics',
+    subtitle: 'Usage and trends',
+    totalConversations: 'Conversations',
+    totalConversationsHint: 'independent conversations',
+    totalMessages: 'Messages',
+    totalMessagesHint: 'interaction records',
+    history: 'History',
+    historyHint: 'Windsurf Endless prompts',
+    continueRate: 'Continue rate',
+    continueRateHint: 'chose to continue',
+    continueConversation: 'Continue',
+    endConversation: 'End',
+    activityTrend: '7-day activity',
+    activityTrendDescription: 'Windsurf Endless usage over the last 7 days',
+    actionDistribution: 'Actions',
+    actionDistributionDescription: 'Ratio of continue to end',
+    conversationActivity: 'Conversation activity',
+    conversationActivityDescription: 'Messages per conversation (top 5)',
+    messages: 'Messages',
+    noConversationData: 'No conversation data',
+  },
+
+  conversations: {
+    title: 'Conversations',
+    subtitle: 'Manage independent conversation contexts',
+    new: 'New conversation',
+    createTitle: 'Create a conversation',
+    createDescription: 'Create a new independent context to keep different tasks apart.',
+    name: 'Conversation name',
+    namePlaceholder: 'e.g. Refactoring, bug fixes...',
+    empty: 'No conversations yet',
+    createFirst: 'Create the first conversation',
+    current: 'Current',
+    active: 'Active',
+    messageCount: '{count} messages',
+    rename: 'Rename',
+    confirmDelete: 'Delete this conversation?',
+    confirmDeleteDescription: 'This deletes the conversation and all of its messages. It cannot be undone.',
+    deleteAction: 'Delete',
+  },
+
+  history: {
+    title: 'History',
+    count: '{count} records',
+    clear: 'Clear',
+    confirmClear: 'Clear all history?',
+    confirmClearDescription: 'This deletes all {count} history records. It cannot be undone.',
+    clearAction: 'Clear',
+    searchPlaceholder: 'Search history...',
+    noMatches: 'No matching records',
+    empty: 'No history yet',
+    timeout: 'Timed out',
+    userInstruction: 'Instruction: ',
+    workspace: 'Workspace',
+    currentWorkspace: 'This workspace',
+    sharedWorkspace: '{path} ({count})',
+    readOnly: 'Read-only: history of another workspace',
+    contentNotStored: 'Text not stored ({length} characters, hash {hash})',
+  },
+
+  queue: {
+    title: 'Pending queue',
+    count: '{count} checkpoints waiting for confirmation',
+    endAll: 'End all',
+    confirmEndAll: 'End all checkpoints?',
+    confirmEndAllDescription: 'All {count} waiting checkpoints will be answered with "End conversation".',
+    instructionPlaceholder: 'Instruction to send when continuing (optional), applies to the selected or single checkpoint',
+    selectAll: 'Select all',
+    deselectAll: 'Deselect all',
+    continueSelected: 'Continue selected',
+    endSelected: 'End selected',
+    empty: 'No checkpoints waiting',
+    selectCheckpoint: 'Select checkpoint',
+  },
+
+  connectionStatus: {
+    transport: 'Transport:',
+    portSuffix: ' (port: {port})',
+    server: 'MCP server',
+    transportType: 'Transport',
+    port: 'Port',
+    uptime: 'Uptime',
+    clients: 'Clients',
+    clientCount: '{count} connections',
+    latency: 'Latency',
+    quality: 'Quality',
+    lastPing: 'Last check: {time}',
+    refresh: 'Refresh',
+    restart: 'Restart server',
+  },
+
+  review: {
+    confirmEdit: 'Confirm edit',
+    undo: 'Undo choice',
+    accept: 'Accept this change',
+    reject: 'Reject this change',
+    edit: 'Edit this change',
+    streaming: 'Optimizing...',
+    result: 'Optimized',
+    changes: '{count} changes',
+    pending: ', {count} pending',
+    acceptAll: 'Accept all',
+    rejectAll: 'Reject all',
+    discard: 'Discard',
+    apply: 'Apply',
+  },
+
+  autoSubmit: {
+    title: 'Auto submit',
+    start: 'Start a {seconds}s countdown',
+    disabled: 'Auto submit is disabled',
+    triggeredByPrompt: 'Triggered by prompt',
+    paused: 'Paused',
+    pause: 'Pause',
+  },
+
+  search: {
+    placeholder: 'Search history, sessions and conversations...',
+    hint: 'Filters: action:end, tag:name, workspace:path, type:session, before:2024-01-31, after:2024-01-01',
+    noResults: 'No results',
+    resultCount: '{count} results',
+    clear: 'Clear search',
+    kinds: {
+      history: 'History',
+      session: 'Session',
+      conversation: 'Conversation',
+    },
+  },
+  quickActions: {
+    reconfigure: 'Reconfigure',
+    conversations: 'Conversations',
+    history: 'History',
+    templates: 'Templates',
+    export: 'Export data',
+    import: 'Import data',
+    settings: 'Settings',
+  },
+};
@@ -0,0 +1,966 @@
+/**
+ * Simplified Chinese messages
+ * This catalog defines the message keys; other languages must provide every key
+ */
+
+export const zhCN = {
+  common: {
+    cancel: '取消',
+    confirm: '确定',
+    save: '保存',
+    create: '创建',
+    new: '新建',
+    delete: '删除',
+    edit: '编辑',
+    close: '关闭',
+    reset: '重置',
+    restore: '恢复',
+    copy: '复制',
+    import: '导入',
+    export: '导出',
+    search: '搜索',
+    unknownError: '未知错误',
+    taskCompleted: '任务已完成',
+    defaultConversation: '默认对话',
+    dialogTitle: 'Windsurf Endless - 确认继续',
+    copySuffix: '(副本)',
+    continue: '继续',
+    end: '结束',
+    noContent: '无内容',
+    noData: '暂无数据',
+    unknownWorkspace: '未知工作区',
+  },
+
+  host: {
+    exportLabel: '导出数据',
+    exported: '数据已导出到: {path}',
+    exportFailed: '导出失败: {error}',
+    exportIncomplete: '面板没有发送对话或历史记录',
+    exportNoResponse: '面板未及时发送数据',
+    retentionPruned: '已清理过期数据：{history} 条历史记录、{conversations} 个对话、{messages} 条消息、{sessions} 个会话；{strippedSessions} 个会话仅保留统计',
+    importLabel: '导入数据',
+    imported: '数据导入成功！',
+    importFailed: '导入失败: {error}',
+    importedWithSkipped: '数据已导入，跳过了 {count} 条无效记录',
+    stateQuarantined: '已保存的工作区数据已损坏，已隔离并重置: {reason}',
+    stateNotObject: '数据不是对象',
+    stateNewerVersion: '数据由更新版本的扩展写入（版本 {version}）',
+    stateMigrationFailed: '从版本 {version} 迁移失败: {error}',
+    stateEntriesDropped: '{count} 条无效的对话或历史记录',
+    invalidServerName: '服务器名称无效: {error}',
+    portWarning: '端口提示: {error}',
+    confirmMcpConfig: '确认修改 MCP 配置？\n\n服务器名称: {name}\n端口: {port}\n\n修改后需要重启 Windsurf 才能生效。',
+    saveAndRestart: '保存并重启',
+    saveOnly: '仅保存',
+    mcpConfigSavedRestarting: 'MCP 配置已保存，正在重启 Windsurf...',
+    mcpConfigSaved: 'MCP 配置已保存。请手动重启 Windsurf 以应用更改。',
+    restartNow: '立即重启',
+    saveMcpConfigFailed: '保存 MCP 配置失败: {error}',
+    testingConnection: '正在测试连接 127.0.0.1:{port}...',
+    connectionOk: 'MCP 服务器连接正常',
+    connectionStatus: '服务器响应状态码: {status}',
+    connectionRefused: 'MCP 服务器未运行或端口不可达',
+    connectionFailed: '连接失败: {error}',
+    connectionTimeout: '连接超时',
+    testConnectionFailed: '测试连接失败: {error}',
+    switchingTransport: '正在切换到 {transport} 传输模式...',
+    transportSwitched: '已成功切换到 {transport} 模式',
+    switchTransportFailed: '切换传输模式失败: {error}',
+    restartingServer: '正在重启 MCP 服务器 (端口: {port})...',
+    serverRestarted: 'MCP 服务器已重启 (端口: {port})',
+    restartServerFailed: '重启服务器失败: {error}',
+    serverStartFailed: '无法启动 MCP 服务器 (端口 {port}): {error}',
+    configUpdated: 'Windsurf Endless: 配置已更新！',
+    configRemoved: 'Windsurf Endless: 已移除 MCP 配置。',
+    rulesInjected: '已向 {folder} 注入 .windsurfrules',
+    testSummary: '测试对话框',
+    testReason: '这是一个测试消息，用于验证 Windsurf Endless 功能是否正常工作。',
+    userContinued: '用户选择继续',
+    userContinuedWithInstruction: '用户选择继续，指令: {instruction}',
+    userEnded: '用户选择结束对话',
+    confirmReload: '确定要重新加载窗口吗？这将重启所有扩展。',
+    openMcpSettings: '请在侧边栏的"设置"标签页中配置 MCP 服务器。',
+    filledDialog: '优化后的提示词已填入对话框输入框',
+    copiedToClipboard: '优化后的提示词已复制到剪贴板，请按 Ctrl+V 粘贴到输入框。',
+    viewContent: '查看内容',
+    fillInputError: '填入输入框时发生错误',
+    fillAmbiguous: '当前会话有 {count} 个检查点等待确认，无法确定要填入哪一个',
+    fillQueued: '目标检查点仍在队列中，尚未显示在对话框中',
+    fillHandled: '目标检查点已被处理',
+    optimizeFailed: '优化失败',
+    optimizeRequestSent: '已发送优化请求给AI，优化后的提示词将自动填入输入框',
+    optimizeWithAiInstruction: '请帮我优化以下提示词，使其更加清晰、具体、有效。优化完成后，请调用 input_bridge 工具将优化后的提示词填入输入框。\n\n需要优化的原始提示词：\n{prompt}\n\n请直接优化并填入，不需要解释。',
+    checkpointCancelled: 'AI 已取消本次确认请求',
+    checkpointsWaiting: '有 {count} 个检查点等待确认，可在侧边栏队列中处理',
+    checkpointHistoryFailed: '检查点已处理，但未能保存到历史记录: {error}',
+    viewQueue: '查看队列',
+  },
+
+  config: {
+    serverNameEmpty: '服务器名称不能为空',
+    serverNameTooLong: '服务器名称不能超过50个字符',
+    serverNameInvalid: '服务器名称只能包含字母、数字、下划线和连字符，且必须以字母开头',
+    portNotInteger: '端口必须是整数',
+    portOutOfRange: '端口必须在 1-65535 范围内',
+    portPrivileged: '建议使用 1024 以上的端口号，避免权限问题',
+    portInUse: '端口 {port} 已被占用',
+    unsupportedTransport: '不支持的传输类型',
+  },
+
+  optimizer: {
+    error: '优化提示词时发生错误',
+    cancelled: '优化已取消',
+    timeout: '优化超时（{seconds} 秒），可在设置中调整超时时间',
+    profileNotFound: '未找到优化方案 "{profile}"，可用方案：{available}',
+    listSeparator: '、',
+    emptyResult: '优化服务返回了空内容',
+    lmUnsupportedInWindsurf: 'Windsurf环境不支持 VS Code 语言模型，请在设置中切换优化服务，或使用"AI优化并填入"功能',
+    modelNotFound: '未找到语言模型 {model}，请在设置中重新选择',
+    noLanguageModel: '没有可用的语言模型。请确保已安装 GitHub Copilot 或其他语言模型扩展。',
+    endpointMissing: '请先在设置中填写 OpenAI 兼容接口的地址和模型名称',
+    connectFailed: '无法连接到 {endpoint}: {error}',
+    httpError: '优化服务返回 HTTP {status}',
+    httpErrorWithBody: '优化服务返回 HTTP {status}: {body}',
+    noContent: '优化服务的响应中没有内容',
+    streamError: '优化服务报告错误: {error}',
+    profileUnsupported: '离线规则优化无法遵循优化方案 "{profile}"，请改用"通用优化"方案，或在设置中切换优化服务',
+  },
+
+  checkpoint: {
+    result: '结果: should_continue={value}',
+    instruction: '用户指令: {instruction}',
+    template: '使用模板: {id}',
+    images: '用户附带了 {count} 张图片',
+    skipped: '({count} 张图片因格式不支持或超出大小限制被忽略)',
+    timeout: '(对话框等待超时，已自动执行预设操作)',
+    cancelled: '请求已取消',
+    waiting: '等待用户响应...',
+  },
+
+  popup: {
+    reasonWithSummary: '{summary}\n\n原因：{reason}',
+    reasonLabel: 'AI想要结束对话的原因：',
+    instructionLabel: '输入新指令（可选）：',
+    continue: '继续执行',
+    end: '结束对话',
+  },
+
+  nativeCheckpoint: {
+    sendInstruction: '发送此指令',
+    continue: '继续',
+    continueDescription: '继续当前任务',
+    input: '输入指令...',
+    inputDescription: '输入自定义指令后继续',
+    templates: '提示词模板',
+    end: '结束对话',
+    endDescription: '结束当前对话',
+    placeholder: 'AI 已完成当前任务，请选择是否继续对话',
+    inputPlaceholder: '输入继续执行的指令（Esc 返回）',
+  },
+
+  tool: {
+    missingPrompt: '错误: 请提供需要优化的提示词 (prompt 参数)',
+    optimized: '优化成功！\n\n优化后的提示词：\n{prompt}\n\n提示：请调用 {tool} 工具将此提示词填入输入框。',
+    optimizedMayFill: '优化成功！\n\n优化后的提示词：\n{prompt}\n\n提示：你可以调用 {tool} 工具将此提示词填入输入框。',
+    optimizeFailed: '优化失败: {error}',
+    optimizeYourself: '请你直接优化以下提示词，优化后调用此工具时在 optimized_prompt 参数中提供优化结果，然后调用 {tool} 填入输入框。\n\n需要优化的原始提示词：\n{prompt}\n\n优化要求：\n{requirements}',
+    defaultRequirements: '1. 保持原始意图不变\n2. 使表达更加清晰具体\n3. 添加必要的上下文和约束\n4. 使用更专业的措辞\n5. 保持简洁',
+    optimizerUnavailable: '错误: 提示词优化服务未配置。请确保扩展已正确加载。',
+    missingContent: '错误: 请提供要填入的内容 (content 参数)',
+    filled: '成功！内容已填入对话框的自定义指令输入框。',
+    fillFailed: '填入失败: {error}',
+    fillUnavailable: '错误: 填入输入框服务未配置。请确保扩展已正确加载。',
+  },
+
+  resources: {
+    recentName: '最近的检查点记录',
+    recentDescription: '当前工作区最近 {count} 条检查点响应（最新在前），包含用户给出的指令',
+    conversationsName: '对话列表',
+    conversationsDescription: '当前工作区记录的所有对话',
+    conversationDescription: '包含 {count} 条检查点消息的对话',
+    conversationTemplateName: '对话详情',
+    conversationTemplateDescription: '单个对话的全部检查点摘要与用户指令',
+  },
+
+  stateSync: {
+    conversationMissing: '对话 {id} 已不存在',
+    historyItemExists: '历史记录 {id} 已存在',
+    historyItemMissing: '历史记录 {id} 已不存在',
+    commandRejected: '另一个面板的修改与此更改冲突，已恢复为最新数据：{reason}',
+  },
+
+  builtinProfiles: {
+    general: {
+      name: '通用优化',
+      description: '使提示词更加清晰、具体、有效',
+      systemPrompt: '你是一个提示词优化专家。请优化用户给出的提示词，使其更加清晰、具体、有效。\n\n优化要求：\n1. 保持原始意图不变\n2. 使表达更加清晰具体\n3. 添加必要的上下文和约束\n4. 使用更专业的措辞\n5. 保持简洁，不要过度冗长\n\n请直接输出结果，不要包含任何解释或额外说明。',
+    },
+    concise: {
+      name: '精简表达',
+      description: '去掉冗余，保留关键信息',
+      systemPrompt: '请把用户给出的提示词改写得更简洁：删除客套话、重复和无关内容，保留所有关键要求与约束，不要改变原意。\n\n请直接输出结果，不要包含任何解释或额外说明。',
+    },
+    acceptanceCriteria: {
+      name: '补充验收标准',
+      description: '为任务补充可检验的完成标准',
+      systemPrompt: '请在保留用户提示词原意的基础上，补充一节“验收标准”，用列表列出 3-6 条可检验的完成条件（功能、边界情况、测试、代码风格等）。不要编造与原任务无关的需求。\n\n请直接输出结果，不要包含任何解释或额外说明。',
+    },
+    translateEn: {
+      name: '翻译为英文',
+      description: '将提示词翻译为地道的英文',
+      systemPrompt: 'Translate the user\'s prompt into clear, natural English. Keep code, identifiers, file paths and technical terms unchanged, and preserve every requirement.\n\nOutput only the translated prompt without any explanation.',
+    },
+    stepList: {
+      name: '转为步骤列表',
+      description: '把任务拆成有序的执行步骤',
+      systemPrompt: '请把用户给出的提示词改写为有序的步骤列表：每步一行、以动词开头，按执行顺序排列，保留原有的约束和细节。\n\n请直接输出结果，不要包含任何解释或额外说明。',
+    },
+  },
+
+  builtinPrompts: {
+    continue: {
+      name: '继续',
+      description: '继续当前任务',
+      content: '继续',
+    },
+    optimize: {
+      name: '优化代码',
+      description: '优化当前代码，保持代码风格一致',
+      content: '请继续优化这段代码，保持代码风格一致。',
+    },
+    test: {
+      name: '添加测试',
+      description: '为代码添加完整的单元测试',
+      content: '请为刚才的代码添加完整的单元测试。',
+    },
+    fix: {
+      name: '修复问题',
+      description: '继续修复发现的问题',
+      content: '请继续修复刚才发现的问题。',
+    },
+    doc: {
+      name: '添加文档',
+      description: '为代码添加详细的文档注释',
+      content: '请为代码添加详细的文档注释。',
+    },
+    explain: {
+      name: '解释代码',
+      description: '详细解释代码的逻辑和实现原理',
+      content: '请详细解释这段代码的逻辑和实现原理。',
+    },
+    refactor: {
+      name: '重构代码',
+      description: '重构代码以提高可读性和可维护性',
+      content: '请重构这段代码，提高可读性和可维护性，但不要改变功能。',
+    },
+    performance: {
+      name: '性能优化',
+      description: '优化代码性能',
+      content: '请优化这段代码的性能，并解释优化点。',
+    },
+    security: {
+      name: '安全检查',
+      description: '检查代码的安全漏洞',
+      content: '请检查这段代码是否存在安全漏洞，并提供修复建议。',
+    },
+  },
+
+  builtinShortcuts: {
+    continue: {
+      name: '继续',
+      description: '继续当前任务',
+      content: '继续',
+    },
+    optimize: {
+      name: '优化代码',
+      description: '优化当前代码',
+      content: '请继续优化这段代码，保持代码风格一致。',
+    },
+    test: {
+      name: '添加测试',
+      description: '为代码添加单元测试',
+      content: '请为刚才的代码添加完整的单元测试。',
+    },
+    fix: {
+      name: '修复问题',
+      description: '继续修复问题',
+      content: '请继续修复刚才发现的问题。',
+    },
+    doc: {
+      name: '添加文档',
+      description: '添加代码文档',
+      content: '请为代码添加详细的文档注释。',
+    },
+    explain: {
+      name: '解释代码',
+      description: '解释代码逻辑',
+      content: '请详细解释这段代码的逻辑和实现原理。',
+    },
+  },
+
+  builtinTemplates: {
+    optimize: {
+      name: '继续优化',
+      description: '让AI继续优化当前代码',
+      content: '请继续优化这段代码，注意保持代码风格一致，添加必要的注释。',
+      category: '代码',
+    },
+    test: {
+      name: '添加测试',
+      description: '为当前功能添加单元测试',
+      content: '请为刚才实现的功能添加完整的单元测试，覆盖正常情况和边界情况。',
+      category: '测试',
+    },
+    fix: {
+      name: '修复Bug',
+      description: '继续修复发现的问题',
+      content: '请继续修复刚才发现的问题，确保不影响其他功能。',
+      category: '修复',
+    },
+    doc: {
+      name: '添加文档',
+      description: '为代码添加文档注释',
+      content: '请为刚才的代码添加详细的文档注释，包括函数说明、参数说明和返回值说明。',
+      category: '文档',
+    },
+  },
+
+  promptCategories: {
+    quick: '快捷指令',
+    code: '代码相关',
+    test: '测试相关',
+    doc: '文档相关',
+    custom: '自定义',
+  },
+
+  connection: {
+    connected: '已连接',
+    connectedLatency: '已连接 ({latency}ms)',
+    reconnecting: '重连中... ({attempt}/{max})',
+    connecting: '连接中...',
+    disconnected: '未连接',
+    error: '错误: {error}',
+    unknown: '未知状态',
+  },
+
+  image: {
+    unsupported: '不支持的图片格式: {type}',
+    tooLarge: '图片过大 ({size} MB)，最大支持 {max} MB',
+  },
+
+  app: {
+    subtitle: 'Windsurf Endless - 无限对话扩展',
+    tabs: {
+      home: '首页',
+      queue: '队列',
+      conversations: '对话',
+      shortcuts: '快捷',
+      history: '历史',
+      templates: '模板',
+      stats: '统计',
+      settings: '设置',
+    },
+    currentConversation: '当前对话：',
+    messageCount: '{count} 条消息',
+    mcpStatus: 'MCP 服务状态',
+    mcpStatusDescription: '检查 Windsurf Endless MCP 服务连接状态',
+    connected: '已连接',
+    connectedDescription: 'MCP 服务运行正常',
+    disconnected: '未连接',
+    disconnectedDescription: '请检查 MCP 配置',
+    checking: '检测中',
+    checkingDescription: '正在检查服务状态...',
+    reconfigure: '重新配置',
+    quickStats: '快速统计',
+    quickStatsDescription: '对话和历史记录概览',
+    activeConversations: '活跃对话',
+    totalMessages: '总消息数',
+    testDialog: '测试对话框',
+    features: '功能特性',
+    featureConversations: '多对话管理',
+    featureConversationsDescription: '支持创建多个独立对话上下文',
+    featureHistory: '历史记录',
+    featureHistoryDescription: '完整保存所有交互历史',
+    featureEndless: '无限续杯',
+    featureEndlessDescription: '任务完成时自动询问是否继续',
+    featureSettings: '灵活配置',
+    featureSettingsDescription: '丰富的自定义设置选项',
+  },
+
+  settings: {
+    providers: {
+      'vscode-lm': 'VS Code 语言模型',
+      'openai-compatible': 'OpenAI 兼容接口',
+      'rule-based': '离线规则优化',
+    },
+    units: {
+      times: '{count} 次',
+      seconds: '{count} 秒',
+      hours: '{count} 小时',
+      entries: '{count} 条',
+      days: '{count} 天',
+    },
+    general: {
+      title: '常规设置',
+      description: '配置插件的基本行为',
+      autoStart: '自动启动',
+      autoStartHint: '打开工作区时自动配置 MCP',
+      notifications: '显示通知',
+      notificationsHint: '配置完成时显示通知消息',
+      language: '语言',
+      languageHint: '选择界面显示语言',
+    },
+    mcp: {
+      title: 'MCP 服务器设置',
+      description: '配置 MCP 服务器的连接方式、名称和端口',
+      serverStatus: '服务器状态',
+      running: '运行中',
+      stopped: '已停止',
+      autoConfigure: '自动配置 MCP',
+      autoConfigureHint: '启动时自动配置 MCP 服务器',
+      transport: '连接方式',
+      transportPlaceholder: '选择连接方式',
+      recommended: '推荐',
+      fallback: '备用',
+      auto: '自动',
+      smartSwitch: '智能切换',
+      httpHint: 'HTTP/SSE 模式性能更好，支持多客户端连接',
+      stdioHint: 'Stdio 模式兼容性更好，适用于特殊环境',
+      autoHint: '自动模式会在 HTTP 失败时切换到 Stdio',
+      portPresets: '端口预设',
+      serverName: '服务器名称',
+      serverNameHint: 'MCP 配置文件中的服务器标识名称',
+      serverPort: '服务器端口',
+      checkPort: '检查端口可用性',
+      portAvailable: '✓ 端口可用',
+      portInUse: '✗ 端口已被占用',
+      serverPortHint: 'MCP HTTP 服务器监听的端口号 (1-65535)',
+      advanced: '高级选项',
+      autoReconnect: '自动重连',
+      autoReconnectHint: '连接断开时自动尝试重连',
+      reconnectAttempts: '重连尝试次数',
+      connectionTimeout: '连接超时',
+      fallbackToStdio: '自动回退到 Stdio',
+      fallbackToStdioHint: 'HTTP 连接失败时自动切换',
+      fallbackPorts: '备用端口',
+      currentFallbackPorts: '当前备用端口: {ports}',
+      currentConfig: '当前配置:',
+      restartRequired: '设置已修改，需要保存并重启 Windsurf 才能生效',
+      testConnection: '测试连接',
+      restartServer: '重启服务器',
+      saveConfig: '保存 MCP 配置',
+    },
+    portPresets: {
+      default: {
+        name: '默认',
+        description: '推荐端口',
+      },
+      backup1: {
+        name: '备用 1',
+        description: '备用端口',
+      },
+      backup2: {
+        name: '备用 2',
+        description: '备用端口',
+      },
+      high: {
+        name: '高位',
+        description: '避免冲突',
+      },
+      custom: {
+        name: '自定义',
+        description: '手动输入',
+      },
+    },
+    dialog: {
+      title: '对话框设置',
+      description: '配置 Windsurf Endless 对话框的行为',
+      mode: '确认方式',
+      modeHint: '仅对当前工作区生效',
+      modeWebview: '对话框',
+      modeNative: '原生快速选择',
+      timeout: '超时时间',
+      timeoutHint: '对话框等待用户响应的最长时间',
+      timeoutAction: '超时后操作',
+      timeoutActionHint: '无人响应时自动执行的操作',
+      actionEnd: '结束对话',
+      actionContinue: '继续并发送指令',
+      actionTemplate: '继续并使用模板',
+      timeoutInstruction: '预设指令',
+      timeoutInstructionPlaceholder: '留空则仅继续，不附带指令',
+      timeoutTemplate: '超时使用的模板',
+      templatePlaceholder: '选择模板',
+      position: '对话框位置',
+      positionHint: '对话框显示的位置',
+      center: '居中',
+      topRight: '右上角',
+      bottomRight: '右下角',
+      theme: '主题',
+      themeHint: '对话框的颜色主题',
+      themeSystem: '跟随系统',
+      themeLight: '浅色',
+      themeDark: '深色',
+    },
+    optimizer: {
+      title: '提示词优化',
+      description: '配置对话框中“本地优化”使用的服务',
+      provider: '优化服务',
+      providerHint: '离线规则优化无需模型，也可在 Windsurf 中使用',
+      model: '模型',
+      modelHint: '自动选择时优先使用 Copilot',
+      autoModel: '自动选择',
+      endpoint: '接口地址',
+      endpointHint: '兼容 Ollama、llama.cpp 等提供 /chat/completions 的服务',
+      modelName: '模型名称',
+      modelNamePlaceholder: '例如 qwen2.5:7b',
+      apiKeySaved: '已保存',
+      apiKeyUnset: '未设置',
+      apiKeyReplace: '输入新的 Key 以替换，留空保存则清除',
+      apiKeyOptional: '本地服务通常无需填写',
+      apiKeyHint: '保存在 VS Code 的安全存储中，不会写入设置',
+      timeout: '超时时间',
+      timeoutHint: '仅对当前选择的优化服务生效，超时后自动取消',
+    },
+    rules: {
+      title: '规则设置',
+      description: '配置 AI 规则文件的注入',
+      autoInject: '自动注入规则',
+      autoInjectHint: '自动创建 .windsurfrules 文件',
+      customPath: '自定义规则路径',
+      customPathPlaceholder: '留空使用默认规则',
+      customPathHint: '指定自定义规则文件的路径（可选）',
+    },
+    history: {
+      title: '历史记录设置',
+      description: '配置对话历史的存储和管理',
+      enabled: '保存历史记录',
+      enabledHint: '记录所有 Windsurf Endless 交互',
+      maxEntries: '最大记录数',
+      autoClean: '自动清理历史',
+      autoCleanHint: '自动删除过期的历史记录',
+      retentionDays: '保留天数',
+      keepStatistics: '保留会话统计',
+      keepStatisticsHint: '清理过期会话时只删除消息和备注，保留其统计数据',
+      syncAcrossWorkspaces: '跨工作区共享',
+      syncAcrossWorkspacesHint: '将此工作区的历史记录发布到全局库，并以只读方式浏览其他工作区的历史',
+    },
+    privacy: {
+      title: '隐私',
+      description: '检查点文本的记录方式，以及从历史记录、会话、导出和 MCP 资源中脱敏的敏感信息',
+      level: '隐私级别',
+      levelHint: '对新的历史记录和新会话生效',
+      levels: {
+        full: '完整文本',
+        metadata: '仅元数据',
+        statistics: '仅统计',
+      },
+      levelHints: {
+        full: '保留文本，检测到的敏感信息会被脱敏',
+        metadata: '只保留长度、哈希值和检测到的内容类型',
+        statistics: '只保留次数和继续/结束决定',
+      },
+      detectors: '脱敏',
+      detectorNames: {
+        apiKey: 'API 密钥和密码',
+        token: '令牌（JWT、Bearer）',
+        email: '邮箱地址',
+        filePath: '绝对文件路径',
+      },
+      patterns: '自定义规则',
+      patternsHint: '每行一个正则表达式（最多 {max} 个字符），匹配的内容会替换为 [redacted:custom]。重复的分组内不能再含量词或多选分支（如 (a+)+、(a|b)*），这类规则可能卡住编辑器，会被拒绝',
+      patternsPlaceholder: '例如 ACME-\\d{6}',
+      invalidPatterns: '以下无效、过长或嵌套重复的规则会被跳过：{patterns}',
+    },
+    scope: {
+      title: '设置作用域',
+      description: '设置对所有工作区生效，工作区可以覆盖其中的部分设置',
+      saveTo: '更改保存到',
+      global: '所有工作区',
+      workspace: '当前工作区',
+      overrides: '当前工作区覆盖了 {count} 项设置',
+      noOverrides: '当前工作区使用全局设置',
+      copyToGlobal: '复制到全局',
+      resetWorkspace: '重置工作区覆盖',
+      resetGlobal: '重置全局设置',
+    },
+    resetDefaults: '重置为默认',
+    save: '保存设置',
+  },
+
+  prompts: {
+    selectTitle: '选择提示词',
+    title: '提示词管理',
+    count: '共 {count} 个提示词',
+    searchPlaceholder: '搜索提示词...',
+    all: '全部',
+    empty: '暂无提示词',
+    createFirst: '创建第一个',
+    builtin: '内置',
+    usageCount: '使用 {count} 次',
+    use: '使用',
+    confirmReset: '确定要重置所有提示词为默认值吗？这将删除所有自定义提示词。',
+    editTitle: '编辑提示词',
+    newTitle: '新建提示词',
+    editDescription: '修改提示词的内容和设置',
+    newDescription: '创建一个新的提示词模板',
+    name: '名称',
+    namePlaceholder: '例如：优化代码',
+    description: '描述',
+    descriptionPlaceholder: '简短描述提示词的用途',
+    content: '提示词内容',
+    contentPlaceholder: '输入发送给 AI 的提示词内容...',
+    category: '分类',
+    hotkey: '快捷键',
+    color: '颜色',
+    icon: '图标',
+    autoSubmit: '自动提交',
+    autoSubmitHint: '选择后自动倒计时提交',
+    autoSubmitDelay: '倒计时 (秒)',
+    icons: {
+      'play': '播放',
+      'sparkles': '星光',
+      'flask': '实验',
+      'wrench': '工具',
+      'file-text': '文档',
+      'message-circle': '消息',
+      'code': '代码',
+      'zap': '闪电',
+      'shield': '安全',
+      'star': '星标',
+    },
+    colors: {
+      green: '绿色',
+      blue: '蓝色',
+      purple: '紫色',
+      orange: '橙色',
+      cyan: '青色',
+      pink: '粉色',
+      red: '红色',
+      yellow: '黄色',
+      indigo: '靛蓝',
+    },
+  },
+
+  shortcuts: {
+    title: '快捷指令',
+    subtitle: '管理自定义快捷指令，按数字键快速使用',
+    new: '新建快捷指令',
+    count: '{count} 个',
+    editTitle: '编辑快捷指令',
+    dialogDescription: '创建快捷指令，在 Windsurf Endless 对话框中快速使用',
+    namePlaceholder: '例如：继续优化',
+    hotkeyPlaceholder: '1-9 或字母',
+    descriptionPlaceholder: '简短描述',
+    content: '指令内容',
+    contentPlaceholder: '输入发送给AI的指令...',
+    confirmDelete: '确认删除？',
+    confirmDeleteDescription: '此操作无法撤销，快捷指令将被永久删除。',
+  },
+
+  templates: {
+    title: '指令模板',
+    subtitle: '预设常用指令，快速继续对话',
+    new: '新建模板',
+    editTitle: '编辑模板',
+    defaultCategory: '通用',
+    categoryCount: '{category} ({count})',
+    useThis: '使用此模板',
+    dialogDescription: '创建常用的指令模板，在继续对话时快速使用',
+    name: '模板名称',
+    namePlaceholder: '例如：继续优化',
+    categoryPlaceholder: '例如：代码、测试、文档',
+    descriptionPlaceholder: '简短描述这个模板的用途',
+    contentPlaceholder: '输入要发送给AI的指令内容...',
+    confirmDelete: '确认删除模板？',
+    confirmDeleteDescription: '此操作无法撤销，模板将被永久删除。',
+  },
+
+  askDialog: {
+    timeoutEnd: '超时后将自动结束对话',
+    timeoutContinue: '超时后将自动继续并发送预设指令',
+    timeoutTemplate: '超时后将自动继续并使用预设模板',
+    maxImages: '最多只能附加 {max} 张图片',
+    muteSound: '关闭提示音',
+    unmuteSound: '开启提示音',
+    hotkeys: '快捷键',
+    waiting: '等待确认',
+    description: 'AI 已完成当前任务，请选择是否继续对话',
+    tabConversation: '对话',
+    tabPrompts: '提示词',
+    tabHistory: '历史',
+    summaryLabel: 'AI 完成的任务：',
+    reasonLabel: 'AI 想要结束的原因：',
+    statusLabel: 'AI 状态：',
+    statusWaiting: 'AI 已完成当前任务阶段，正在等待您的确认。',
+    missingSummaryHint: '提示：如果您看到此消息但期望看到详细的任务摘要，可能是 MCP 工具调用时未提供 summary 参数。',
+    shortcutsLabel: '快捷指令：',
+    manage: '管理',
+    customInstruction: '自定义指令：',
+    cancelOptimize: '取消优化',
+    localOptimize: '本地优化',
+    optimizingClickToCancel: '优化中，点击取消',
+    optimizeWithDefault: '使用默认方案“{profile}”优化',
+    chooseProfile: '选择优化方案',
+    defaultMark: '（默认）',
+    aiOptimize: 'AI优化',
+    aiOptimizeHint: '让AI优化并填入',
+    instructionPlaceholder: '输入自定义指令... (Ctrl+Enter 发送，支持粘贴图片)',
+    removeImage: '移除图片',
+    imageCount: '{count} 张图片',
+    continue: '继续执行',
+    end: '结束对话',
+    submitted: '已提交',
+    submittedHint: '您的选择已发送给 AI',
+  },
+
+  time: {
+    justNow: '刚刚',
+    minutesAgo: '{count} 分钟前',
+    hoursAgo: '{count} 小时前',
+    daysAgo: '{count} 天前',
+    today: '今天 {time}',
+    yesterday: '昨天 {time}',
+    hoursMinutes: '{hours}小时 {minutes}分钟',
+    minutes: '{count}分钟',
+    seconds: '{count}秒',
+    hours: '{count}小时',
+    days: '{count}天',
+  },
+
+  sessions: {
+    status: {
+      active: '进行中',
+      paused: '已暂停',
+      completed: '已完成',
+      expired: '已过期',
+    },
+    title: '会话历史',
+    summary: '共 {sessions} 个会话，{messages} 条消息',
+    searchPlaceholder: '搜索会话...',
+    empty: '暂无会话记录',
+    messageCount: '{count} 消息',
+    viewDetails: '查看详情',
+    continueCount: '继续:',
+    endCount: '结束:',
+    viewAll: '查看全部 {count} 条消息',
+    viewList: '列表',
+    viewTree: '分支',
+    fork: '分支',
+    forkHint: '从此消息之前创建分支，以不同的指令重新回答这个检查点',
+    branchedAt: '分支自: {message}',
+    compare: '对比',
+    uncompare: '取消对比',
+    compareHint: '再选择一个会话进行对比',
+    compareTitle: '分支对比',
+    sharedMessages: '两个分支共有 {count} 条消息，以下为分叉后的内容',
+    noDivergence: '分叉后没有消息',
+    exportFormat: '导出格式',
+    exportJson: 'JSON',
+    exportCsv: 'CSV 表格',
+    exportMarkdown: 'Markdown 对话记录',
+    exportMessages: '包含消息',
+    exportStatistics: '包含统计',
+    exportFiltered: '仅导出筛选结果',
+    exportRange: '时间范围',
+    exportRangeAll: '全部',
+    exportRangeDay: '最近 24 小时',
+    exportRangeWeek: '最近 7 天',
+    exportRangeMonth: '最近 30 天',
+  },
+
+  sessionExport: {
+    title: '会话导出',
+    exportedAt: '导出于 {time}，共 {count} 个会话',
+    range: '时间范围：{start} 至 {end}',
+    statistics: '统计',
+    metric: '指标',
+    value: '数值',
+    sessions: '会话',
+    messages: '消息',
+    averageDuration: '平均时长',
+    session: '会话:',
+    status: '状态:',
+    branchOf: '分支自:',
+    duration: '时长:',
+    decisions: '决定: 继续 {continues} 次，结束 {ends} 次',
+    tags: '标签:',
+    transcript: '对话记录',
+    noMessages: '没有消息',
+    contentNotRecorded: '按隐私级别，此会话未记录消息内容',
+    checkpoint: 'AI 检查点',
+    reason: '原因:',
+    decision: '决定: {decision}',
+    images: '附带 {count} 张图片',
+    contentMetadata: '{field}：{length} 个字符，哈希 {hash}',
+    contentDetected: '检测到：{tags}',
+    fields: {
+      summary: '摘要',
+      reason: '原因',
+      userInstruction: '指令',
+    },
+  },
+
+  profiles: {
+    title: '优化方案',
+    subtitleBefore: '提示词优化使用的指令，可在对话框和',
+    subtitleAfter: '参数中选择',
+    restoreBuiltin: '恢复内置',
+    new: '新建方案',
+    default: '默认',
+    setDefault: '设为默认',
+    editTitle: '编辑优化方案',
+    newTitle: '新建优化方案',
+    dialogDescription: '优化时先发送方案指令，再附上要优化的提示词',
+    name: '方案名称',
+    namePlaceholder: '例如：精简表达',
+    descriptionPlaceholder: '简短描述这个方案的效果',
+    systemPrompt: '方案指令',
+    systemPromptPlaceholder: '告诉模型如何改写提示词，例如：请把用户给出的提示词改写得更简洁...',
+    systemPromptHint: '离线规则优化不使用方案指令',
+    confirmDelete: '确认删除优化方案？',
+    confirmDeleteDescription: '此操作无法撤销。删除默认方案后，第一个方案将成为默认方案。',
+    confirmRestore: '恢复内置优化方案？',
+    confirmRestoreDescription: '自定义的方案和修改将被清除，恢复为内置的 5 个方案。',
+  },
+
+  stats: {
+    title: '数据统计',
+    subtitle: '查看使用情况和趋势分析',
+    totalConversations: '总对话数',
+    totalConversationsHint: '个独立对话',
+    totalMessages: '总消息数',
+    totalMessagesHint: '条交互记录',
+    history: '历史记录',
+    historyHint: '次 Windsurf Endless',
+    continueRate: '继续率',
+    continueRateHint: '选择继续对话',
+    continueConversation: '继续对话',
+    endConversation: '结束对话',
+    activityTrend: '7天活动趋势',
+    activityTrendDescription: '最近7天的 Windsurf Endless 使用情况',
+    actionDistribution: '操作分布',
+    actionDistributionDescription: '继续与结束的比例',
+    conversationActivity: '对话活跃度',
+    conversationActivityDescription: '各对话的消息数量（前5个）',
+    messages: '消息数',
+    noConversationData: '暂无对话数据',
+  },
+
+  conversations: {
+    title: '对话管理',
+    subtitle: '管理多个独立的对话上下文',
+    new: '新建对话',
+    createTitle: '创建新对话',
+    createDescription: '创建一个新的独立对话上下文，用于隔离不同的任务。',
+    name: '对话名称',
+    namePlaceholder: '例如：项目重构、Bug 修复...',
+    empty: '暂无对话',
+    createFirst: '创建第一个对话',
+    current: '当前',
+    active: '活跃',
+    messageCount: '{count} 条消息',
+    rename: '重命名',
+    confirmDelete: '确认删除对话？',
+    confirmDeleteDescription: '此操作将删除该对话及其所有消息记录，且无法恢复。',
+    deleteAction: '确认删除',
+  },
+
+  history: {
+    title: '对话历史',
+    count: '共 {count} 条记录',
+    clear: '清空',
+    confirmClear: '确认清空历史记录？',
+    confirmClearDescription: '此操作将删除所有 {count} 条历史记录，且无法恢复。',
+    clearAction: '确认清空',
+    searchPlaceholder: '搜索历史记录...',
+    noMatches: '没有找到匹配的记录',
+    empty: '暂无历史记录',
+    timeout: '超时',
+    userInstruction: '用户指令：',
+    workspace: '工作区',
+    currentWorkspace: '当前工作区',
+    sharedWorkspace: '{path}（{count}）',
+    readOnly: '只读：其他工作区的历史记录',
+    contentNotStored: '未保存文本（{length} 个字符，哈希 {hash}）',
+  },
+
+  queue: {
+    title: '待确认队列',
+    count: '共 {count} 个检查点等待确认',
+    endAll: '全部结束',
+    confirmEndAll: '确认结束全部检查点？',
+    confirmEndAllDescription: '将以“结束对话”回复全部 {count} 个等待中的检查点。',
+    instructionPlaceholder: '继续时附带的指令（可选），对所选或单个检查点生效',
+    selectAll: '全选',
+    deselectAll: '取消全选',
+    continueSelected: '继续所选',
+    endSelected: '结束所选',
+    empty: '暂无等待确认的检查点',
+    selectCheckpoint: '选择检查点',
+  },
+
+  connectionStatus: {
+    transport: '传输:',
+    portSuffix: ' (端口: {port})',
+    server: 'MCP 服务器',
+    transportType: '传输方式',
+    port: '端口',
+    uptime: '运行时间',
+    clients: '客户端',
+    clientCount: '{count} 个连接',
+    latency: '延迟',
+    quality: '连接质量',
+    lastPing: '上次检测: {time}',
+    refresh: '刷新状态',
+    restart: '重启服务',
+  },
+
+  review: {
+    confirmEdit: '确认修改',
+    undo: '撤销选择',
+    accept: '接受此处修改',
+    reject: '拒绝此处修改',
+    edit: '编辑此处修改',
+    streaming: '正在优化...',
+    result: '优化结果',
+    changes: '{count} 处修改',
+    pending: '，{count} 处待定',
+    acceptAll: '全部接受',
+    rejectAll: '全部拒绝',
+    discard: '放弃',
+    apply: '应用',
+  },
+
+  autoSubmit: {
+    title: '自动提交',
+    start: '启动 {seconds} 秒倒计时',
+    disabled: '自动提交已禁用',
+    triggeredByPrompt: '提示词触发',
+    paused: '已暂停',
+    pause: '暂停',
+  },
+
+  search: {
+    placeholder: '搜索历史记录、会话和对话...',
+    hint: '筛选：action:end、tag:标签、workspace:路径、type:session、before:2024-01-31、after:2024-01-01',
+    noResults: '没有结果',
+    resultCount: '{count} 条结果',
+    clear: '清除搜索',
+    kinds: {
+      history: '历史',
+      session: '会话',
+      conversation: '对话',
+    },
+  },
+  quickActions: {
+    reconfigure: '重新配置',
+    conversations: '对话管理',
+    history: '历史记录',
+    templates: '指令模板',
+    export: '导出数据',
+    import: '导入数据',
+    settings: '设置',
+  },
+};
+
+export type Messages = typeof zhCN;
@@ -0,0 +1,270 @@
+/**
+ * Privacy levels and secret redaction
+ * Used by the webview when it records sessions and history, and by the extension host for exports and MCP resources,
+ * so text leaves both sides through the same detectors
+ */
+
+/**
+ * What is kept of checkpoint text:
+ * 'full' keeps it with secrets redacted, 'metadata' keeps only its length, hash and detected kinds of content,
+ * 'statistics' keeps nothing but counts and decisions
+ */
+export type PrivacyLevel = 'full' | 'metadata' | 'statistics';
+
+export const PRIVACY_LEVELS: readonly PrivacyLevel[] = ['full', 'metadata', 'statistics'];
+
+export type RedactionDetector = 'apiKey' | 'token' | 'email' | 'filePath';
+
+export const REDACTION_DETECTORS: readonly RedactionDetector[] = ['apiKey', 'token', 'email', 'filePath'];
+
+export interface PrivacySettings {
+  privacyLevel: PrivacyLevel;
+  /** Built-in detectors that are switched on */
+  redactionDetectors: RedactionDetector[];
+  /** User-defined regular expressions; every match is redacted */
+  redactionPatterns: string[];
+}
+
+/** Fields of checkpoint records that hold user or AI text */
+export type PrivateField = 'summary' | 'reason' | 'userInstruction';
+
+const PRIVATE_FIELDS: readonly PrivateField[] = ['summary', 'reason', 'userInstruction'];
+
+/** What the 'metadata' level keeps of a text */
+export interface ContentMetadata {
+  length: number;
+  /** Hash of the redacted text, to recognise repeated content without storing it */
+  hash: string;
+  /** Detectors, or 'custom' for user patterns, that found something in the text */
+  tags: string[];
+}
+
+export type ContentMetadataFields = Partial<Record<PrivateField, ContentMetadata>>;
+
+export interface Redactor {
+  redact: (text: string) => string;
+  /** Detectors that match the text, in detector order */
+  detect: (text: string) => string[];
+}
+
+const CUSTOM_TAG = 'custom';
+
+/** Longest user pattern accepted; longer ones are skipped like invalid ones */
+export const MAX_REDACTION_PATTERN_LENGTH = 200;
+
+// User patterns are run line by line, and only over lines up to this length; longer lines are redacted
+// entirely rather than left unchecked. This limits how much text a slow pattern sees, but does not make it
+// safe: patterns that backtrack exponentially are rejected by hasNestedQuantifier instead
+const MAX_REDACTION_LINE_LENGTH = 10_000;
+
+// A quantifier at the start of the text, with an optional lazy `?`
+const QUANTIFIER = /^(?:([*+?])|\{(\d+)(,(\d*))?\})\??/;
+
+// Values assigned to a key whose name marks them as secret, e.g. `api_key = "..."` or `"password": "..."`
+function assignedTo(names: string, minLength: number): RegExp {
+  return new RegExp(`(?<=\\b(?:${names})["']?\\s*[:=]\\s*["']?)[^\\s"',;]{${minLength},}`, 'gi');
+}
+
+const DETECTOR_PATTERNS: Record<RedactionDetector, RegExp[]> = {
+  apiKey: [
+    // OpenAI and Anthropic, AWS, Google, GitHub, Slack and GitLab key formats
+    /\b(?:sk-[\w-]{20,}|AKIA[0-9A-Z]{16}|AIza[\w-]{35}|gh[opsur]_\w{36,}|github_pat_\w{22,}|xox[abposr]-[\w-]{10,}|glpat-[\w-]{20,})/g,
+    assignedTo('api[_-]?key|apikey|secret|client[_-]?secret|access[_-]?key|password|passwd|pwd', 6),
+  ],
+  token: [
+    // JSON Web Tokens
+    /\beyJ[\w-]{5,}\.eyJ[\w-]{5,}\.[\w-]{5,}/g,
+    /(?<=\bBearer\s+)[\w.~+/-]{16,}=*/gi,
+    assignedTo('token|access[_-]?token|refresh[_-]?token|auth[_-]?token', 8),
+  ],
+  email: [/\b[\w.+-]+@[a-z\d-]+(?:\.[a-z\d-]+)*\.[a-z]{2,}\b/gi],
+  filePath: [
+    // Absolute paths only, so relative paths such as src/index.ts stay readable; URLs are not paths
+    /(?<![\w:/.~-])(?:~|\/[\w.@-]+)(?:\/[\w.@-]+)+/g,
+    /\b[a-z]:\\(?:[^\\\s"'<>|,;]+\\)*[^\\\s"'<>|,;]*/gi,
+  ],
+};
+
+function redactionMark(tag: string): string {
+  return `[redacted:${tag}]`;
+}
+
+/**
+ * Whether `source` compiles as a regular expression
+ */
+export function isValidPattern(source: string): boolean {
+  try {
+    // eslint-disable-next-line no-new
+    new RegExp(source);
+    return true;
+  }
+  catch {
+    return false;
+  }
+}
+
+function readQuantifier(source: string, index: number): { length: number; repeats: boolean; variable: boolean } | undefined {
+  const match = QUANTIFIER.exec(source.slice(index));
+  if (!match) {
+    return undefined;
+  }
+  const [text, symbol, min, comma, max] = match;
+  const upper = symbol
+    ? (symbol === '?' ? 1 : Infinity)
+    : (!comma ? Number(min) : max === '' ? Infinity : Number(max));
+  return { length: text.length, repeats: upper > 1, variable: Boolean(symbol) || upper !== Number(min) };
+}
+
+/**
+ * Whether a valid pattern repeats a group that can match the same text in several ways,
+ * such as `(a+)+`, `(\w+\s?)*` or `(a|ab){2,}`
+ * Such patterns backtrack exponentially on text that almost matches
+ */
+export function hasNestedQuantifier(source: string): boolean {
+  // Per open group, whether its content has a variable quantifier or an alternation
+  const ambiguous: boolean[] = [false];
+  let index = 0;
+  while (index < source.length) {
+    const char = source[index];
+    if (char === '\\') {
+      index += 2;
+    }
+    else if (char === '[') {
+      // Character classes are single characters; `]` right after `[` or `[^` closes them in JavaScript
+      index += source[index + 1] === '^' ? 2 : 1;
+      while (index < source.length && source[index] !== ']') {
+        index += source[index] === '\\' ? 2 : 1;
+      }
+      index++;
+    }
+    else if (char === '(') {
+      ambiguous.push(false);
+      // Skip the `?` of `(?:`, `(?=` and named groups, which is not a quantifier
+      index += source[index + 1] === '?' ? 2 : 1;
+    }
+    else if (char === ')' && ambiguous.length > 1) {
+      const group = ambiguous.pop()!;
+      const quantifier = readQuantifier(source, index + 1);
+      if (group && quantifier?.repeats) {
+        return true;
+      }
+      ambiguous[ambiguous.length - 1] ||= group || Boolean(quantifier?.variable);
+      index += 1 + (quantifier?.length ?? 0);
+    }
+    else if (char === '|') {
+      ambiguous[ambiguous.length - 1] = true;
+      index++;
+    }
+    else {
+      const quantifier = readQuantifier(source, index);
+      ambiguous[ambiguous.length - 1] ||= Boolean(quantifier?.variable);
+      index += quantifier?.length ?? 1;
+    }
+  }
+  return false;
+}
+
+function isUsablePattern(source: string): boolean {
+  return source.length <= MAX_REDACTION_PATTERN_LENGTH && isValidPattern(source) && !hasNestedQuantifier(source);
+}
+
+/**
+ * User patterns that are skipped: not valid regular expressions, longer than MAX_REDACTION_PATTERN_LENGTH,
+ * or repeating a group with its own quantifier or alternation (see hasNestedQuantifier)
+ */
+export function invalidRedactionPatterns(patterns: string[]): string[] {
+  return patterns.filter(pattern => !isUsablePattern(pattern));
+}
+
+// Apply a user pattern to each line; see MAX_REDACTION_LINE_LENGTH
+function replaceByLine(text: string, pattern: RegExp, replace: (match: string) => string): string {
+  return text.split('\n')
+    .map(line => line.length > MAX_REDACTION_LINE_LENGTH ? replace(line) : line.replace(pattern, replace))
+    .join('\n');
+}
+
+function matchesByLine(text: string, pattern: RegExp): boolean {
+  return text.split('\n').some(line => line.length > MAX_REDACTION_LINE_LENGTH
+    || [...line.matchAll(pattern)].some(([match]) => match !== ''));
+}
+
+/**
+ * Build the redaction pipeline: the enabled built-in detectors, then the user patterns
+ * Invalid, overlong, nested-quantifier or empty user patterns are skipped, so one bad entry does not turn redaction off
+ */
+export function createRedactor(settings: Partial<Pick<PrivacySettings, 'redactionDetectors' | 'redactionPatterns'>>): Redactor {
+  const steps: { tag: string; pattern: RegExp; byLine: boolean }[] = REDACTION_DETECTORS
+    .filter(detector => settings.redactionDetectors?.includes(detector))
+    .flatMap(detector => DETECTOR_PATTERNS[detector].map(pattern => ({ tag: detector, pattern, byLine: false })));
+
+  for (const source of settings.redactionPatterns ?? []) {
+    if (source && isUsablePattern(source)) {
+      steps.push({ tag: CUSTOM_TAG, pattern: new RegExp(source, 'g'), byLine: true });
+    }
+  }
+
+  return {
+    redact: text => steps.reduce((result, { tag, pattern, byLine }) => {
+      // Patterns that match the empty string would insert marks between every character
+      const replace = (match: string) => (match ? redactionMark(tag) : match);
+      return byLine ? replaceByLine(result, pattern, replace) : result.replace(pattern, replace);
+    }, text),
+    detect: text => [...new Set(steps
+      .filter(({ pattern, byLine }) => byLine
+        ? matchesByLine(text, pattern)
+        : [...text.matchAll(pattern)].some(([match]) => match !== ''))
+      .map(({ tag }) => tag))],
+  };
+}
+
+/**
+ * 32-bit FNV-1a hash as 8 hex digits; for recognising equal texts, not for security
+ */
+export function contentHash(text: string): string {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+export function describeContent(text: string, redactor: Redactor): ContentMetadata {
+  return {
+    length: text.length,
+    hash: contentHash(redactor.redact(text)),
+    tags: redactor.detect(text),
+  };
+}
+
+/**
+ * Apply a privacy level to the text fields of a record
+ * Under 'full' the text is redacted, under 'metadata' it is replaced by a `metadata` entry per field,
+ * and under 'statistics' it is removed
+ */
+export function protectContent<T extends Partial<Record<PrivateField, string>> & { metadata?: ContentMetadataFields }>(
+  record: T,
+  level: PrivacyLevel,
+  redactor: Redactor,
+): T {
+  const result: T = { ...record };
+  const metadata: ContentMetadataFields = {};
+  for (const field of PRIVATE_FIELDS) {
+    const text = record[field];
+    if (typeof text !== 'string') {
+      continue;
+    }
+    if (level === 'full') {
+      (result as Partial<Record<PrivateField, string>>)[field] = redactor.redact(text);
+      continue;
+    }
+    delete result[field];
+    if (level === 'metadata') {
+      metadata[field] = describeContent(text, redactor);
+    }
+  }
+  if (Object.keys(metadata).length > 0) {
+    result.metadata = { ...record.metadata, ...metadata };
+  }
+  return result;
+}
@@ -0,0 +1,161 @@
+/**
+ * Retention rules for conversations, history and sessions
+ * The extension host applies them at activation and once a day; kept free of VS Code so both sides can test them
+ */
+
+import type { SyncedState } from '../state';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RetentionSettings {
+  autoCleanHistory: boolean;
+  historyRetentionDays: number;
+  maxHistoryItems: number;
+  keepSessionStatistics: boolean;
+}
+
+export interface RetentionPolicy {
+  /** Data last touched before this time is pruned; absent while auto clean is off */
+  cutoff?: number;
+  maxHistoryItems: number;
+  /** Keep expired sessions, without their content, so the session statistics stay complete */
+  keepStatistics: boolean;
+}
+
+export interface RetentionReport {
+  history: number;
+  conversations: number;
+  messages: number;
+  sessions: number;
+  /** Sessions kept for their statistics whose messages and notes were removed */
+  strippedSessions: number;
+}
+
+/** The part of a stored session the retention rules read */
+export interface RetainedSession {
+  status: 'active' | 'paused' | 'completed' | 'expired';
+  updatedAt: number;
+  completedAt?: number;
+  messageCount: number;
+  continueCount: number;
+  endCount: number;
+  totalDuration: number;
+  messages: unknown[];
+  notes?: string;
+}
+
+export interface RetainedStatistics {
+  totalSessions: number;
+  activeSessions: number;
+  completedSessions: number;
+  totalMessages: number;
+  totalContinues: number;
+  totalEnds: number;
+  averageSessionDuration: number;
+  averageMessagesPerSession: number;
+}
+
+export function retentionPolicy(settings: RetentionSettings, now: number): RetentionPolicy {
+  return {
+    cutoff: settings.autoCleanHistory && settings.historyRetentionDays > 0
+      ? now - settings.historyRetentionDays * DAY_MS
+      : undefined,
+    maxHistoryItems: settings.maxHistoryItems,
+    keepStatistics: settings.keepSessionStatistics,
+  };
+}
+
+export function isEmptyReport(report: RetentionReport): boolean {
+  return Object.values(report).every(count => count === 0);
+}
+
+/**
+ * Prune history, conversations and conversation messages
+ * History is also capped at maxHistoryItems, newest first; the active conversation is never removed
+ */
+export function pruneState<S extends SyncedState>(state: S, policy: RetentionPolicy): { state: S; report: Pick<RetentionReport, 'history' | 'conversations' | 'messages'> } {
+  const { cutoff } = policy;
+  const history = state.history
+    .filter(item => cutoff === undefined || item.timestamp >= cutoff)
+    .slice(0, Math.max(0, policy.maxHistoryItems));
+
+  let messages = 0;
+  const conversations = state.conversations
+    .filter(c => cutoff === undefined || c.updatedAt >= cutoff || c.id === state.activeConversationId)
+    .map((c) => {
+      const kept = cutoff === undefined ? c.messages : c.messages.filter(m => m.timestamp >= cutoff);
+      messages += c.messages.length - kept.length;
+      return kept.length === c.messages.length ? c : { ...c, messages: kept };
+    });
+
+  const report = {
+    history: state.history.length - history.length,
+    conversations: state.conversations.length - conversations.length,
+    messages,
+  };
+  if (report.history === 0 && report.conversations === 0 && messages === 0) {
+    return { state, report };
+  }
+  return { state: { ...state, history, conversations }, report };
+}
+
+/**
+ * Prune finished sessions last active before the cutoff
+ * With keepStatistics they stay without their content; otherwise they are removed and taken out of the statistics,
+ * the same way deleting a session in the webview does
+ */
+export function pruneSessions<T extends RetainedSession>(
+  sessions: T[],
+  statistics: RetainedStatistics | undefined,
+  policy: RetentionPolicy,
+): { sessions: T[]; statistics: RetainedStatistics | undefined; report: Pick<RetentionReport, 'sessions' | 'strippedSessions'> } {
+  const { cutoff } = policy;
+  const report = { sessions: 0, strippedSessions: 0 };
+  if (cutoff === undefined) {
+    return { sessions, statistics, report };
+  }
+
+  const isExpired = (session: T) => (session.status === 'completed' || session.status === 'expired')
+    && (session.completedAt ?? session.updatedAt) < cutoff;
+
+  if (policy.keepStatistics) {
+    const kept = sessions.map((session) => {
+      if (!isExpired(session) || (session.messages.length === 0 && session.notes === undefined)) {
+        return session;
+      }
+      report.strippedSessions++;
+      return { ...session, messages: [], notes: undefined };
+    });
+    return { sessions: report.strippedSessions > 0 ? kept : sessions, statistics, report };
+  }
+
+  const removed = sessions.filter(isExpired);
+  if (removed.length === 0) {
+    return { sessions, statistics, report };
+  }
+  report.sessions = removed.length;
+  const remaining = sessions.filter(session => !isExpired(session));
+  if (!statistics) {
+    return { sessions: remaining, statistics, report };
+  }
+
+  const next = { ...statistics };
+  removed.forEach((session) => {
+    if (session.status === 'completed') {
+      next.completedSessions--;
+    }
+    next.totalSessions--;
+    next.totalMessages -= session.messageCount;
+    next.totalContinues -= session.continueCount;
+    next.totalEnds -= session.endCount;
+  });
+  // Averages over the completed sessions left, or the initial 0 when none are
+  const completed = remaining.filter(session => session.status === 'completed');
+  next.averageSessionDuration = completed.length > 0
+    ? completed.reduce((sum, s) => sum + s.totalDuration, 0) / completed.length
+    : 0;
+  next.averageMessagesPerSession = completed.length > 0
+    ? completed.reduce((sum, s) => sum + s.messageCount, 0) / completed.length
+    : 0;
+  return { sessions: remaining, statistics: next, report };
+}
@@ -0,0 +1,341 @@
+/**
+ * State commands and patches shared by the extension host and the webview
+ * The host applies commands one at a time and answers each with a versioned patch;
+ * webviews apply the same commands optimistically and rebase what is still pending onto every patch
+ */
+
+import { t } from '../i18n';
+import { createRedactor, protectContent } from '../privacy';
+
+import type { ContentMetadataFields, PrivacySettings } from '../privacy';
+
+export interface SyncedMessage {
+  id: string;
+  timestamp: number;
+  type: 'ask' | 'response';
+  summary?: string;
+  shouldContinue: boolean;
+  userInstruction?: string;
+  metadata?: ContentMetadataFields;
+}
+
+export interface SyncedConversation {
+  id: string;
+  updatedAt: number;
+  messages: SyncedMessage[];
+}
+
+export interface SyncedHistoryItem {
+  id: string;
+  conversationId: string;
+  timestamp: number;
+  summary: string;
+  action: 'continue' | 'end';
+  userInstruction?: string;
+  /** Length, hash and detected content of the text, kept instead of it under the 'metadata' privacy level */
+  metadata?: ContentMetadataFields;
+}
+
+export type SettingsScope = 'global' | 'workspace';
+
+/** Fields of the persisted state that commands change; the host and webview state shapes both extend it */
+export interface SyncedState {
+  /** Effective settings, resolved by each side from its defaults and the two layers below; commands never write it */
+  settings: { maxHistoryItems: number } & Partial<PrivacySettings>;
+  /** Settings shared by every workspace */
+  globalSettings: Record<string, unknown>;
+  /** Settings this workspace sets differently from the global ones */
+  settingsOverrides: Record<string, unknown>;
+  conversations: SyncedConversation[];
+  history: SyncedHistoryItem[];
+  activeConversationId: string | null;
+}
+
+export type StateCommand
+  = | { type: 'save_settings'; data: { values: Record<string, unknown>; scope: SettingsScope } }
+    | { type: 'reset_settings'; data: { scope: SettingsScope } }
+    | { type: 'copy_settings_to_global' }
+    | { type: 'create_conversation'; data: SyncedConversation }
+    | { type: 'update_conversation'; data: { id: string; updates: Record<string, unknown>; updatedAt: number } }
+    | { type: 'delete_conversation'; data: { id: string } }
+    | { type: 'switch_conversation'; data: { id: string } }
+    | { type: 'add_history_item'; data: SyncedHistoryItem }
+    | { type: 'clear_history' }
+    | { type: 'delete_history_item'; data: { id: string } };
+
+export type StateCommandType = StateCommand['type'];
+
+export const STATE_COMMAND_TYPES: readonly StateCommandType[] = [
+  'save_settings',
+  'reset_settings',
+  'copy_settings_to_global',
+  'create_conversation',
+  'update_conversation',
+  'delete_conversation',
+  'switch_conversation',
+  'add_history_item',
+  'clear_history',
+  'delete_history_item',
+];
+
+export function isStateCommandType(value: unknown): value is StateCommandType {
+  return STATE_COMMAND_TYPES.includes(value as StateCommandType);
+}
+
+export type StatePatchOp
+  = | { op: 'set'; key: string; value: unknown }
+    | { op: 'merge'; key: string; value: Record<string, unknown> }
+    | { op: 'upsert'; key: string; index: number; item: { id: string } }
+    | { op: 'remove'; key: string; id: string };
+
+export interface StatePatch {
+  /** Revision the operations apply to */
+  baseRevision: number;
+  revision: number;
+  ops: StatePatchOp[];
+  /** Command that produced the patch, so the webview that sent it can drop its optimistic copy */
+  commandId?: string;
+}
+
+/**
+ * A command that no longer fits the state, e.g. it updates a conversation another panel deleted
+ */
+export class StateConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StateConflictError';
+  }
+}
+
+/**
+ * Add a history item and mirror it as a response message on its conversation
+ * The item's text is stored as the privacy settings allow, so the host and the webview persist the same redacted copy
+ */
+function appendHistoryItem<S extends SyncedState>(state: S, added: SyncedHistoryItem): S {
+  const protectedItem = protectContent(added, state.settings.privacyLevel ?? 'full', createRedactor(state.settings));
+  const item: SyncedHistoryItem = { ...protectedItem, summary: protectedItem.summary ?? '' };
+  const history = [item, ...state.history].slice(0, state.settings.maxHistoryItems);
+  const conversations = state.conversations.map((c) => {
+    if (c.id !== item.conversationId)
+      return c;
+
+    const message: SyncedMessage = {
+      id: `msg-${item.id}`,
+      timestamp: item.timestamp,
+      type: 'response',
+      summary: item.summary,
+      shouldContinue: item.action === 'continue',
+      userInstruction: item.userInstruction,
+      ...(item.metadata && { metadata: item.metadata }),
+    };
+
+    return {
+      ...c,
+      updatedAt: item.timestamp,
+      messages: [...c.messages, message],
+    };
+  });
+  return { ...state, history, conversations };
+}
+
+function requireConversation(state: SyncedState, id: string): void {
+  if (!state.conversations.some(c => c.id === id)) {
+    throw new StateConflictError(t('stateSync.conversationMissing', { id }));
+  }
+}
+
+/**
+ * Keep the valid entries of a settings patch, dropping the rest
+ * The settings schema lives with each side, so the shared commands take it as a parameter
+ */
+export type SettingsNormalizer = (values: Record<string, unknown>) => object;
+
+/**
+ * Apply a command to the state without mutating it
+ * @param state The state to start from
+ * @param command The command to apply
+ * @param normalizeSettings Validates save_settings patches; the host passes its schema, webviews keep patches as sent
+ * @throws StateConflictError when the command targets a conversation or history item that is gone, or adds one twice
+ */
+export function applyStateCommand<S extends SyncedState>(state: S, command: StateCommand, normalizeSettings: SettingsNormalizer = values => values): S {
+  switch (command.type) {
+    case 'save_settings': {
+      const values = normalizeSettings(command.data.values);
+      return command.data.scope === 'global'
+        ? { ...state, globalSettings: { ...state.globalSettings, ...values } }
+        : { ...state, settingsOverrides: { ...state.settingsOverrides, ...values } };
+    }
+    case 'reset_settings':
+      // Resetting the workspace falls back to the global settings; resetting the global ones falls back to the defaults
+      return command.data.scope === 'global'
+        ? { ...state, globalSettings: {} }
+        : { ...state, settingsOverrides: {} };
+    case 'copy_settings_to_global':
+      return {
+        ...state,
+        globalSettings: { ...state.globalSettings, ...state.settingsOverrides },
+        settingsOverrides: {},
+      };
+    case 'create_conversation':
+      return {
+        ...state,
+        conversations: [...state.conversations.filter(c => c.id !== command.data.id), command.data],
+        activeConversationId: command.data.id,
+      };
+    case 'update_conversation': {
+      const { id, updates, updatedAt } = command.data;
+      requireConversation(state, id);
+      return {
+        ...state,
+        conversations: state.conversations.map(c => (c.id === id ? { ...c, ...updates, id, updatedAt } : c)),
+      };
+    }
+    case 'delete_conversation': {
+      const { id } = command.data;
+      requireConversation(state, id);
+      return {
+        ...state,
+        conversations: state.conversations.filter(c => c.id !== id),
+        history: state.history.filter(h => h.conversationId !== id),
+        activeConversationId: state.activeConversationId === id ? null : state.activeConversationId,
+      };
+    }
+    case 'switch_conversation':
+      requireConversation(state, command.data.id);
+      return { ...state, activeConversationId: command.data.id };
+    case 'add_history_item':
+      if (state.history.some(h => h.id === command.data.id)) {
+        throw new StateConflictError(t('stateSync.historyItemExists', { id: command.data.id }));
+      }
+      return appendHistoryItem(state, command.data);
+    case 'clear_history':
+      return { ...state, history: [] };
+    case 'delete_history_item':
+      if (!state.history.some(h => h.id === command.data.id)) {
+        throw new StateConflictError(t('stateSync.historyItemMissing', { id: command.data.id }));
+      }
+      return { ...state, history: state.history.filter(h => h.id !== command.data.id) };
+  }
+}
+
+/**
+ * Commands that save settings in the layer defining them: overridden settings stay in the workspace, the others go global
+ */
+export function saveSettingsCommands(state: SyncedState, values: Record<string, unknown>): StateCommand[] {
+  const overridden = Object.keys(values).filter(key => Object.hasOwn(state.settingsOverrides, key));
+  const shared = Object.keys(values).filter(key => !Object.hasOwn(state.settingsOverrides, key));
+  const pick = (keys: string[]) => Object.fromEntries(keys.map(key => [key, values[key]]));
+  const commands: StateCommand[] = [];
+  if (shared.length > 0) {
+    commands.push({ type: 'save_settings', data: { values: pick(shared), scope: 'global' } });
+  }
+  if (overridden.length > 0) {
+    commands.push({ type: 'save_settings', data: { values: pick(overridden), scope: 'workspace' } });
+  }
+  return commands;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEntityList(value: unknown): value is { id: string }[] {
+  return Array.isArray(value) && value.every(item => isPlainObject(item) && typeof item.id === 'string');
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Per-item operations for a list of entities
+ * Falls back to replacing the list when the unchanged items were reordered, since index-based upserts cannot express that
+ */
+function diffEntityList(key: string, prev: { id: string }[], next: { id: string }[]): StatePatchOp[] {
+  const prevById = new Map(prev.map(item => [item.id, item]));
+  const nextIds = new Set(next.map(item => item.id));
+  const unchangedIds = new Set(next.filter(item => isEqual(prevById.get(item.id), item)).map(item => item.id));
+
+  const unchangedInPrev = prev.filter(item => unchangedIds.has(item.id)).map(item => item.id);
+  const unchangedInNext = next.filter(item => unchangedIds.has(item.id)).map(item => item.id);
+  if (!isEqual(unchangedInPrev, unchangedInNext)) {
+    return [{ op: 'set', key, value: next }];
+  }
+
+  const ops: StatePatchOp[] = prev
+    .filter(item => !nextIds.has(item.id))
+    .map(item => ({ op: 'remove', key, id: item.id }));
+  next.forEach((item, index) => {
+    if (!unchangedIds.has(item.id)) {
+      ops.push({ op: 'upsert', key, index, item });
+    }
+  });
+  return ops;
+}
+
+/**
+ * Operations that turn `prev` into `next`
+ * Lists of entities change per item, objects per field and everything else by value
+ */
+export function diffState(prev: object, next: object): StatePatchOp[] {
+  const before = prev as Record<string, unknown>;
+  const after = next as Record<string, unknown>;
+  const ops: StatePatchOp[] = [];
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const a = before[key];
+    const b = after[key];
+    if (isEqual(a, b)) {
+      continue;
+    }
+    if (isEntityList(a) && isEntityList(b)) {
+      ops.push(...diffEntityList(key, a, b));
+    }
+    else if (isPlainObject(a) && isPlainObject(b) && Object.keys(a).every(field => Object.hasOwn(b, field))) {
+      const changed = Object.keys(b).filter(field => !isEqual(a[field], b[field]));
+      ops.push({ op: 'merge', key, value: Object.fromEntries(changed.map(field => [field, b[field]])) });
+    }
+    else {
+      ops.push({ op: 'set', key, value: b });
+    }
+  }
+  return ops;
+}
+
+/**
+ * Apply patch operations without mutating the state
+ * Removed and upserted items leave their lists first, then upserts are inserted in ascending index order
+ */
+export function applyStatePatch<S extends object>(state: S, ops: StatePatchOp[]): S {
+  const next = { ...state } as Record<string, unknown>;
+  const lists = new Map<string, { dropped: Set<string>; upserts: { index: number; item: { id: string } }[] }>();
+
+  for (const op of ops) {
+    if (op.op === 'set') {
+      next[op.key] = op.value;
+    }
+    else if (op.op === 'merge') {
+      next[op.key] = { ...(next[op.key] as object), ...op.value };
+    }
+    else {
+      const list = lists.get(op.key) ?? { dropped: new Set(), upserts: [] };
+      lists.set(op.key, list);
+      if (op.op === 'remove') {
+        list.dropped.add(op.id);
+      }
+      else {
+        list.dropped.add(op.item.id);
+        list.upserts.push({ index: op.index, item: op.item });
+      }
+    }
+  }
+
+  lists.forEach(({ dropped, upserts }, key) => {
+    const items = (Array.isArray(next[key]) ? next[key] as { id: string }[] : []).filter(item => !dropped.has(item.id));
+    upserts
+      .sort((a, b) => a.index - b.index)
+      .forEach(({ index, item }) => items.splice(index, 0, item));
+    next[key] = items;
+  });
+
+  return next as S;
+}
@@ -0,0 +1,91 @@
+/**
+ * Stores the webview keeps in extension state, shared by the extension host and the webview
+ * Global stores live in `globalState`; workspace stores in `workspaceState`, keyed by workspace
+ */
+
+export type StoreScope = 'global' | 'workspace';
+
+export const STORE_SCOPES = {
+  prompts: 'global',
+  promptCategories: 'global',
+  autoSubmitSettings: 'global',
+  audioSettings: 'global',
+  shortcuts: 'global',
+  templates: 'global',
+  sessions: 'workspace',
+  sessionStatistics: 'workspace',
+} as const satisfies Record<string, StoreScope>;
+
+export type StoreName = keyof typeof STORE_SCOPES;
+
+export const STORE_NAMES = Object.keys(STORE_SCOPES) as StoreName[];
+
+/** Values of the stores that have been written; missing stores fall back to the manager defaults */
+export type StoreSnapshot = Partial<Record<StoreName, unknown>>;
+
+export function isStoreName(value: unknown): value is StoreName {
+  return typeof value === 'string' && Object.hasOwn(STORE_SCOPES, value);
+}
+
+// Statistics computed from the sessions rather than counted; the writer's values are kept
+const DERIVED_STATISTICS = ['averageSessionDuration', 'averageMessagesPerSession'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function itemsWithId(value: unknown): { id: string }[] {
+  return Array.isArray(value) ? value.filter(item => isRecord(item) && typeof item.id === 'string') : [];
+}
+
+/**
+ * Apply what a writer changed in a list, relative to its `base` copy, to the stored list
+ * Items it added or edited replace or join the stored ones; items it removed are removed; the rest stay as stored
+ */
+function mergeById(stored: unknown, base: unknown, value: unknown[]): unknown[] {
+  const before = new Map(itemsWithId(base).map(item => [item.id, JSON.stringify(item)]));
+  const written = new Map(itemsWithId(value).map(item => [item.id, item]));
+  const removed = new Set([...before.keys()].filter(id => !written.has(id)));
+  const changed = new Map([...written].filter(([id, item]) => before.get(id) !== JSON.stringify(item)));
+
+  const merged: unknown[] = itemsWithId(stored)
+    .filter(item => !removed.has(item.id))
+    .map((item) => {
+      const update = changed.get(item.id);
+      changed.delete(item.id);
+      return update ?? item;
+    });
+  return [...merged, ...changed.values()];
+}
+
+/**
+ * Add what a writer changed in numeric counters, relative to its `base` copy, to the stored counters
+ */
+function mergeCounters(stored: unknown, base: unknown, value: Record<string, unknown>): Record<string, unknown> {
+  if (!isRecord(stored)) {
+    return value;
+  }
+  const merged: Record<string, unknown> = { ...stored };
+  for (const [key, count] of Object.entries(value)) {
+    const from = isRecord(base) ? base[key] : 0;
+    merged[key] = typeof count === 'number' && typeof stored[key] === 'number' && typeof from === 'number' && !DERIVED_STATISTICS.includes(key)
+      ? stored[key] + count - from
+      : count;
+  }
+  return merged;
+}
+
+/**
+ * Combine a panel's write of a store with what other panels stored since the copy it edited (`base`)
+ * Sessions are merged by id and session statistics by the counts the panel changed, so panels writing at the
+ * same time keep each other's changes; the other stores are replaced by the last write
+ */
+export function mergeStoreWrite(name: StoreName, stored: unknown, base: unknown, value: unknown): unknown {
+  if (name === 'sessions' && Array.isArray(value)) {
+    return mergeById(stored, base, value);
+  }
+  if (name === 'sessionStatistics' && isRecord(value)) {
+    return mergeCounters(stored, base, value);
+  }
+  return value;
+}
@@ -9,7 +9,7 @@ export default defineConfig({
     globals: true,
     environment: 'jsdom',
     setupFiles: ['./webview/__tests__/setup.ts'],
-    include: ['webview/**/*.{test,spec}.{ts,tsx}'],
+    include: ['webview/**/*.{test,spec}.{ts,tsx}', 'extension/**/*.{test,spec}.ts'],
     exclude: ['node_modules', 'dist'],
     coverage: {
       provider: 'v8',
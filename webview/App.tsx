@@ -4,6 +4,7 @@ import {
   FileText,
   History,
   Infinity as InfinityIcon,
+  ListChecks,
   MessageSquare,
   RefreshCw,
   Settings,
@@ -19,7 +20,9 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Separator } from '@/components/ui/separator';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
+import { CheckpointQueuePage } from './components/CheckpointQueuePage';
 import { ConversationsPage } from './components/ConversationsPage';
+import { GlobalSearch } from './components/GlobalSearch';
 import { HistoryPage } from './components/HistoryPage';
 import { InfiniteAskPage } from './components/InfiniteAskDialog';
 import { QuickActions } from './components/QuickActions';
@@ -27,15 +30,19 @@ import { SettingsPage } from './components/SettingsPage';
 import { ShortcutsPage } from './components/ShortcutsPage';
 import { StatsPage } from './components/StatsPage';
 import { TemplatesPage } from './components/TemplatesPage';
-import { AppProvider, useConversations } from './store';
+import { AppProvider, useConversations, useI18n } from './store';
 import { vscode } from './utils/vscode';
 import './index.css';
 
+import type { InfiniteAskRequestData } from './components/InfiniteAskDialog';
+import type { PendingCheckpoint } from './types';
+
 type ViewMode = 'dashboard' | 'infinite_ask';
 
 function Dashboard() {
   const [mcpStatus, setMcpStatus] = useState<'connected' | 'disconnected' | 'unknown'>('unknown');
   const { conversations, activeConversation } = useConversations();
+  const { t } = useI18n();
 
   useEffect(() => {
     const handleMessage = (event: MessageEvent) => {
@@ -66,13 +73,11 @@ function Dashboard() {
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-2">
                 <MessageSquare className="size-4 text-primary" />
-                <span className="text-sm font-medium">当前对话：</span>
+                <span className="text-sm font-medium">{t('app.currentConversation')}</span>
                 <span className="text-sm">{activeConversation.name}</span>
               </div>
               <Badge variant="outline">
-                {activeConversation.messages.length}
-                {' '}
-                条消息
+                {t('app.messageCount', { count: activeConversation.messages.length })}
               </Badge>
             </div>
           </CardContent>
@@ -85,9 +90,9 @@ function Dashboard() {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Sparkles className="size-5" />
-              MCP 服务状态
+              {t('app.mcpStatus')}
             </CardTitle>
-            <CardDescription>检查 Windsurf Endless MCP 服务连接状态</CardDescription>
+            <CardDescription>{t('app.mcpStatusDescription')}</CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="flex items-center gap-3 rounded-lg bg-muted p-4">
@@ -96,8 +101,8 @@ function Dashboard() {
                     <>
                       <CheckCircle className="size-6 text-green-500" />
                       <div>
-                        <p className="font-medium text-green-600">已连接</p>
-                        <p className="text-sm text-muted-foreground">MCP 服务运行正常</p>
+                        <p className="font-medium text-green-600">{t('app.connected')}</p>
+                        <p className="text-sm text-muted-foreground">{t('app.connectedDescription')}</p>
                       </div>
                     </>
                   )
@@ -106,8 +111,8 @@ function Dashboard() {
                       <>
                         <XCircle className="size-6 text-red-500" />
                         <div>
-                          <p className="font-medium text-red-600">未连接</p>
-                          <p className="text-sm text-muted-foreground">请检查 MCP 配置</p>
+                          <p className="font-medium text-red-600">{t('app.disconnected')}</p>
+                          <p className="text-sm text-muted-foreground">{t('app.disconnectedDescription')}</p>
                         </div>
                       </>
                     )
@@ -115,8 +120,8 @@ function Dashboard() {
                       <>
                         <RefreshCw className="size-6 text-yellow-500 animate-spin" />
                         <div>
-                          <p className="font-medium text-yellow-600">检测中</p>
-                          <p className="text-sm text-muted-foreground">正在检查服务状态...</p>
+                          <p className="font-medium text-yellow-600">{t('app.checking')}</p>
+                          <p className="text-sm text-muted-foreground">{t('app.checkingDescription')}</p>
                         </div>
                       </>
                     )}
@@ -125,7 +130,7 @@ function Dashboard() {
           <CardFooter>
             <Button onClick={handleConfigure} className="w-full gap-2">
               <Settings className="size-4" />
-              重新配置
+              {t('app.reconfigure')}
             </Button>
           </CardFooter>
         </Card>
@@ -135,28 +140,28 @@ function Dashboard() {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <InfinityIcon className="size-5" />
-              快速统计
+              {t('app.quickStats')}
             </CardTitle>
-            <CardDescription>对话和历史记录概览</CardDescription>
+            <CardDescription>{t('app.quickStatsDescription')}</CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="grid grid-cols-2 gap-4">
               <div className="rounded-lg bg-muted p-4 text-center">
                 <p className="text-2xl font-bold">{conversations.length}</p>
-                <p className="text-xs text-muted-foreground">活跃对话</p>
+                <p className="text-xs text-muted-foreground">{t('app.activeConversations')}</p>
               </div>
               <div className="rounded-lg bg-muted p-4 text-center">
                 <p className="text-2xl font-bold">
                   {conversations.reduce((acc, c) => acc + c.messages.length, 0)}
                 </p>
-                <p className="text-xs text-muted-foreground">总消息数</p>
+                <p className="text-xs text-muted-foreground">{t('app.totalMessages')}</p>
               </div>
             </div>
           </CardContent>
           <CardFooter>
             <Button onClick={handleTestDialog} variant="secondary" className="w-full gap-2">
               <Sparkles className="size-4" />
-              测试对话框
+              {t('app.testDialog')}
             </Button>
           </CardFooter>
         </Card>
@@ -165,36 +170,36 @@ function Dashboard() {
       {/* Features List */}
       <Card>
         <CardHeader>
-          <CardTitle>功能特性</CardTitle>
+          <CardTitle>{t('app.features')}</CardTitle>
         </CardHeader>
         <CardContent>
           <div className="grid gap-3 md:grid-cols-2">
             <div className="flex items-start gap-3 rounded-lg border p-3">
               <MessageSquare className="size-5 text-primary mt-0.5" />
               <div>
-                <p className="font-medium">多对话管理</p>
-                <p className="text-sm text-muted-foreground">支持创建多个独立对话上下文</p>
+                <p className="font-medium">{t('app.featureConversations')}</p>
+                <p className="text-sm text-muted-foreground">{t('app.featureConversationsDescription')}</p>
               </div>
             </div>
             <div className="flex items-start gap-3 rounded-lg border p-3">
               <History className="size-5 text-primary mt-0.5" />
               <div>
-                <p className="font-medium">历史记录</p>
-                <p className="text-sm text-muted-foreground">完整保存所有交互历史</p>
+                <p className="font-medium">{t('app.featureHistory')}</p>
+                <p className="text-sm text-muted-foreground">{t('app.featureHistoryDescription')}</p>
               </div>
             </div>
             <div className="flex items-start gap-3 rounded-lg border p-3">
               <Sparkles className="size-5 text-primary mt-0.5" />
               <div>
-                <p className="font-medium">无限续杯</p>
-                <p className="text-sm text-muted-foreground">任务完成时自动询问是否继续</p>
+                <p className="font-medium">{t('app.featureEndless')}</p>
+                <p className="text-sm text-muted-foreground">{t('app.featureEndlessDescription')}</p>
               </div>
             </div>
             <div className="flex items-start gap-3 rounded-lg border p-3">
               <Settings className="size-5 text-primary mt-0.5" />
               <div>
-                <p className="font-medium">灵活配置</p>
-                <p className="text-sm text-muted-foreground">丰富的自定义设置选项</p>
+                <p className="font-medium">{t('app.featureSettings')}</p>
+                <p className="text-sm text-muted-foreground">{t('app.featureSettingsDescription')}</p>
               </div>
             </div>
           </div>
@@ -207,7 +212,9 @@ function Dashboard() {
 function AppContent() {
   const [viewMode, setViewMode] = useState<ViewMode>('dashboard');
   const [activeTab, setActiveTab] = useState('home');
-  const [infiniteAskData, setInfiniteAskData] = useState<{ reason?: string; summary?: string; workspacePath?: string; panelId?: string } | null>(null);
+  const [infiniteAskData, setInfiniteAskData] = useState<InfiniteAskRequestData | null>(null);
+  const [checkpointQueue, setCheckpointQueue] = useState<PendingCheckpoint[]>([]);
+  const { t } = useI18n();
 
   useEffect(() => {
     const handleMessage = (event: MessageEvent) => {
@@ -222,9 +229,14 @@ function AppContent() {
           summary: data.summary || data.message || data.content || data.text || '',
           workspacePath: data.workspacePath || '',
           panelId: data.panelId || '',
+          expiresAt: data.expiresAt,
+          timeoutAction: data.timeoutAction,
         });
         setViewMode('infinite_ask');
       }
+      else if (message.type === 'checkpoint_queue_update') {
+        setCheckpointQueue(Array.isArray(message.data) ? message.data : []);
+      }
     };
 
     window.addEventListener('message', handleMessage);
@@ -243,43 +255,53 @@ function AppContent() {
         <InfinityIcon className="size-8 text-primary" />
         <div>
           <h1 className="text-2xl font-bold">Windsurf Endless</h1>
-          <p className="text-sm text-muted-foreground">Windsurf Endless - 无限对话扩展</p>
+          <p className="text-sm text-muted-foreground">{t('app.subtitle')}</p>
         </div>
         <Badge className="ml-auto" variant="outline">v1.0.0</Badge>
       </div>
 
       <Separator />
 
+      {/* Search across history, sessions and conversations */}
+      <GlobalSearch onNavigate={setActiveTab} />
+
       {/* Main Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="flex-1">
-        <TabsList className="grid w-full grid-cols-7">
+        <TabsList className="grid w-full grid-cols-8">
           <TabsTrigger value="home" className="gap-1 text-xs px-1">
             <Sparkles className="size-3" />
-            首页
+            {t('app.tabs.home')}
+          </TabsTrigger>
+          <TabsTrigger value="queue" className="gap-1 text-xs px-1">
+            <ListChecks className="size-3" />
+            {t('app.tabs.queue')}
+            {checkpointQueue.length > 0 && (
+              <Badge className="h-4 min-w-4 px-1 text-[10px]">{checkpointQueue.length}</Badge>
+            )}
           </TabsTrigger>
           <TabsTrigger value="conversations" className="gap-1 text-xs px-1">
             <MessageSquare className="size-3" />
-            对话
+            {t('app.tabs.conversations')}
           </TabsTrigger>
           <TabsTrigger value="shortcuts" className="gap-1 text-xs px-1">
             <Zap className="size-3" />
-            快捷
+            {t('app.tabs.shortcuts')}
           </TabsTrigger>
           <TabsTrigger value="history" className="gap-1 text-xs px-1">
             <History className="size-3" />
-            历史
+            {t('app.tabs.history')}
           </TabsTrigger>
           <TabsTrigger value="templates" className="gap-1 text-xs px-1">
             <FileText className="size-3" />
-            模板
+            {t('app.tabs.templates')}
           </TabsTrigger>
           <TabsTrigger value="stats" className="gap-1 text-xs px-1">
             <BarChart3 className="size-3" />
-            统计
+            {t('app.tabs.stats')}
           </TabsTrigger>
           <TabsTrigger value="settings" className="gap-1 text-xs px-1">
             <Settings className="size-3" />
-            设置
+            {t('app.tabs.settings')}
           </TabsTrigger>
         </TabsList>
 
@@ -287,6 +309,10 @@ function AppContent() {
           <Dashboard />
         </TabsContent>
 
+        <TabsContent value="queue" className="mt-4">
+          <CheckpointQueuePage checkpoints={checkpointQueue} />
+        </TabsContent>
+
         <TabsContent value="conversations" className="mt-4">
           <ConversationsPage />
         </TabsContent>
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+
+import { CATALOGS, localizeBuiltin, translate } from '../../shared/i18n';
+
+import type { Language } from '../../shared/i18n';
+
+function flatten(node: object, prefix = ''): Record<string, string> {
+  return Object.entries(node).reduce<Record<string, string>>((acc, [key, value]) => {
+    if (typeof value === 'string') {
+      acc[`${prefix}${key}`] = value;
+    }
+    else {
+      Object.assign(acc, flatten(value, `${prefix}${key}.`));
+    }
+    return acc;
+  }, {});
+}
+
+function placeholders(message: string): string[] {
+  return [...message.matchAll(/\{(\w+)\}/g)].map(match => match[1]).sort();
+}
+
+describe('i18n', () => {
+  it('defines the same keys and placeholders in every language', () => {
+    const reference = flatten(CATALOGS['zh-CN']);
+    for (const messages of Object.values(CATALOGS)) {
+      const flat = flatten(messages);
+      expect(Object.keys(flat).sort()).toEqual(Object.keys(reference).sort());
+      for (const [key, message] of Object.entries(flat)) {
+        expect(placeholders(message), key).toEqual(placeholders(reference[key]));
+      }
+    }
+  });
+
+  it('fills placeholders and keeps unknown ones', () => {
+    expect(translate('en-US', 'app.messageCount', { count: 3 })).toBe('3 messages');
+    expect(translate('zh-CN', 'app.messageCount')).toBe('{count} 条消息');
+  });
+
+  it('falls back to the default language for unknown languages', () => {
+    expect(translate('fr-FR' as Language, 'common.cancel')).toBe('取消');
+  });
+
+  it('localizes built-in items only while they are unedited', () => {
+    const getText = (language: Language) => ({ name: translate(language, 'builtinShortcuts.continue.name') });
+    const builtin = { id: 'sc-continue', name: translate('zh-CN', 'builtinShortcuts.continue.name') };
+    expect(localizeBuiltin(builtin, getText, 'en-US').name).toBe(translate('en-US', 'builtinShortcuts.continue.name'));
+    const edited = { ...builtin, name: 'Keep going' };
+    expect(localizeBuiltin(edited, getText, 'en-US')).toBe(edited);
+  });
+});
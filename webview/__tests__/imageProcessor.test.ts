@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { t } from '../../shared/i18n';
+import { getDataUrlByteSize, MAX_IMAGE_BYTES, MAX_IMAGE_DIMENSION, processPastedImage, TARGET_IMAGE_BYTES } from '../lib/imageProcessor';
+
+// jsdom decodes no images, so pasted images report the size set here
+let imageSize = { width: 100, height: 100 };
+
+class FakeImage {
+  width = 0;
+  height = 0;
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  private _src = '';
+
+  get src(): string {
+    return this._src;
+  }
+
+  set src(value: string) {
+    this._src = value;
+    ({ width: this.width, height: this.height } = imageSize);
+    queueMicrotask(() => this.onload?.());
+  }
+}
+
+function dataUrlOfSize(mimeType: string, bytes: number): string {
+  return `data:${mimeType};base64,${'A'.repeat(Math.ceil(bytes / 3) * 4)}`;
+}
+
+function imageFile(name: string, type: string, bytes: number): File {
+  return new File([new Uint8Array(bytes)], name, { type });
+}
+
+describe('imageProcessor', () => {
+  let drawn: Array<{ width: number; height: number }>;
+
+  beforeEach(() => {
+    imageSize = { width: 100, height: 100 };
+    drawn = [];
+    vi.stubGlobal('Image', FakeImage);
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(() => ({
+      drawImage: (_image: unknown, _x: number, _y: number, width: number, height: number) => drawn.push({ width, height }),
+    }) as any);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('measures the decoded size of a data URL', () => {
+    expect(getDataUrlByteSize('data:image/png;base64,AAAA')).toBe(3);
+    expect(getDataUrlByteSize('data:image/png;base64,AAA=')).toBe(2);
+    expect(getDataUrlByteSize('data:image/png;base64,AA==')).toBe(1);
+  });
+
+  it('keeps small images as they are', async () => {
+    const image = await processPastedImage(imageFile('small.png', 'image/png', 300));
+
+    expect(image).toMatchObject({ name: 'small.png', mimeType: 'image/png', size: 300 });
+    expect(image.dataUrl).toMatch(/^data:image\/png;base64,/);
+    expect(drawn).toEqual([]);
+  });
+
+  it('rejects types that are not supported images', async () => {
+    await expect(processPastedImage(imageFile('notes.txt', 'text/plain', 10))).rejects.toThrow(t('image.unsupported', { type: 'text/plain' }));
+    await expect(processPastedImage(imageFile('icon.svg', 'image/svg+xml', 10))).rejects.toThrow(t('image.unsupported', { type: 'image/svg+xml' }));
+  });
+
+  it('downscales images wider than MAX_IMAGE_DIMENSION', async () => {
+    imageSize = { width: MAX_IMAGE_DIMENSION * 2, height: 1000 };
+    vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockReturnValue(dataUrlOfSize('image/png', 999));
+
+    const image = await processPastedImage(imageFile('wide.png', 'image/png', 300));
+
+    expect(drawn).toEqual([{ width: MAX_IMAGE_DIMENSION, height: 500 }]);
+    expect(image).toMatchObject({ mimeType: 'image/png', size: 999 });
+  });
+
+  it('re-encodes as JPEG and shrinks further until the image fits the target size', async () => {
+    imageSize = { width: 1000, height: 1000 };
+    vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockImplementation((type?: string) => (
+      type === 'image/jpeg' && drawn.length >= 4
+        ? dataUrlOfSize('image/jpeg', 999)
+        : dataUrlOfSize(type ?? 'image/png', TARGET_IMAGE_BYTES * 2)
+    ));
+
+    const image = await processPastedImage(imageFile('photo.png', 'image/png', TARGET_IMAGE_BYTES + 1));
+
+    expect(drawn.map(size => size.width)).toEqual([1000, 750, 563, 422]);
+    expect(image).toMatchObject({ mimeType: 'image/jpeg', size: 999 });
+  });
+
+  it('rejects images that stay over MAX_IMAGE_BYTES', async () => {
+    // Animated GIFs are never re-encoded, so an oversize one cannot be made to fit
+    const file = imageFile('anim.gif', 'image/gif', MAX_IMAGE_BYTES + 1024);
+
+    await expect(processPastedImage(file)).rejects.toThrow(t('image.tooLarge', { size: '5.0', max: 5 }));
+    expect(drawn).toEqual([]);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+
+import { pruneSessions, pruneState, retentionPolicy } from '../../shared/retention';
+
+import type { RetainedSession, RetainedStatistics } from '../../shared/retention';
+import type { SyncedState } from '../../shared/state';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = 100 * DAY;
+
+const settings = { autoCleanHistory: true, historyRetentionDays: 30, maxHistoryItems: 100, keepSessionStatistics: false };
+
+function session(status: RetainedSession['status'], daysAgo: number, messageCount = 2): RetainedSession {
+  return {
+    status,
+    updatedAt: NOW - daysAgo * DAY,
+    messageCount,
+    continueCount: messageCount - 1,
+    endCount: 1,
+    totalDuration: 60_000,
+    messages: Array.from({ length: messageCount }, (_, i) => ({ id: `m${i}` })),
+    notes: 'notes',
+  };
+}
+
+const statistics: RetainedStatistics = {
+  totalSessions: 3,
+  activeSessions: 1,
+  completedSessions: 2,
+  totalMessages: 6,
+  totalContinues: 3,
+  totalEnds: 3,
+  averageSessionDuration: 60_000,
+  averageMessagesPerSession: 2,
+};
+
+describe('retention', () => {
+  it('drops old history and conversations but keeps the active one', () => {
+    const old = NOW - 40 * DAY;
+    const state: SyncedState = {
+      settings: { maxHistoryItems: 100 },
+      globalSettings: {},
+      settingsOverrides: {},
+      history: [
+        { id: 'h2', conversationId: 'a', timestamp: NOW, summary: '', action: 'continue' },
+        { id: 'h1', conversationId: 'a', timestamp: old, summary: '', action: 'end' },
+      ],
+      conversations: [
+        { id: 'a', updatedAt: NOW, messages: [{ id: 'm1', timestamp: old, type: 'response', shouldContinue: true }, { id: 'm2', timestamp: NOW, type: 'response', shouldContinue: true }] },
+        { id: 'b', updatedAt: old, messages: [] },
+        { id: 'c', updatedAt: old, messages: [] },
+      ],
+      activeConversationId: 'c',
+    };
+
+    const { state: pruned, report } = pruneState(state, retentionPolicy(settings, NOW));
+    expect(pruned.history.map(h => h.id)).toEqual(['h2']);
+    expect(pruned.conversations.map(c => c.id)).toEqual(['a', 'c']);
+    expect(pruned.conversations[0].messages.map(m => m.id)).toEqual(['m2']);
+    expect(report).toEqual({ history: 1, conversations: 1, messages: 1 });
+  });
+
+  it('caps history at maxHistoryItems even when auto clean is off', () => {
+    const state: SyncedState = {
+      settings: { maxHistoryItems: 1 },
+      globalSettings: {},
+      settingsOverrides: {},
+      history: [
+        { id: 'h2', conversationId: 'a', timestamp: 2, summary: '', action: 'continue' },
+        { id: 'h1', conversationId: 'a', timestamp: 1, summary: '', action: 'end' },
+      ],
+      conversations: [{ id: 'a', updatedAt: 1, messages: [] }],
+      activeConversationId: null,
+    };
+    const policy = retentionPolicy({ ...settings, autoCleanHistory: false, maxHistoryItems: 1 }, NOW);
+    const { state: pruned, report } = pruneState(state, policy);
+    expect(pruned.history.map(h => h.id)).toEqual(['h2']);
+    expect(report.conversations).toBe(0);
+  });
+
+  it('removes expired sessions from the statistics', () => {
+    const sessions = [session('completed', 40), session('completed', 1), session('active', 40)];
+    const result = pruneSessions(sessions, statistics, retentionPolicy(settings, NOW));
+    expect(result.sessions).toEqual([sessions[1], sessions[2]]);
+    expect(result.report).toEqual({ sessions: 1, strippedSessions: 0 });
+    expect(result.statistics).toMatchObject({ totalSessions: 2, completedSessions: 1, totalMessages: 4, totalEnds: 2 });
+  });
+
+  it('resets the averages when no completed session is left', () => {
+    const sessions = [session('completed', 40), session('active', 1)];
+    const result = pruneSessions(sessions, { ...statistics, totalSessions: 2, completedSessions: 1 }, retentionPolicy(settings, NOW));
+    expect(result.sessions).toEqual([sessions[1]]);
+    expect(result.statistics).toMatchObject({ totalSessions: 1, completedSessions: 0, averageSessionDuration: 0, averageMessagesPerSession: 0 });
+  });
+
+  it('keeps expired sessions without content when statistics are kept', () => {
+    const sessions = [session('completed', 40), session('completed', 1)];
+    const result = pruneSessions(sessions, statistics, retentionPolicy({ ...settings, keepSessionStatistics: true }, NOW));
+    expect(result.sessions[0]).toMatchObject({ messages: [], notes: undefined, messageCount: 2 });
+    expect(result.sessions[1]).toBe(sessions[1]);
+    expect(result.statistics).toBe(statistics);
+    expect(result.report).toEqual({ sessions: 0, strippedSessions: 1 });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+
+import { highlight, indexTerms, parseQuery, queryTerms, SearchIndex, snippet } from '../lib/searchIndex';
+
+import type { SearchDocument } from '../lib/searchIndex';
+
+function doc(ref: string, title: string, body = '', overrides: Partial<SearchDocument> = {}): SearchDocument {
+  return {
+    id: `history:${ref}`,
+    kind: 'history',
+    ref,
+    title,
+    body,
+    timestamp: 0,
+    workspace: '/work/app',
+    tags: [],
+    actions: ['continue'],
+    ...overrides,
+  };
+}
+
+describe('search index', () => {
+  it('tokenizes CJK text into characters and pairs', () => {
+    expect(indexTerms('修复 Login 页面')).toEqual(['修', '复', '修复', 'login', '页', '面', '页面']);
+    expect(queryTerms('登录页面')).toEqual(['登录', '录页', '页面']);
+    expect(queryTerms('页')).toEqual(['页']);
+  });
+
+  it('matches CJK phrases without spaces', () => {
+    const index = SearchIndex.from([doc('a', '修复登录页面的样式问题'), doc('b', '登录接口返回错误')]);
+    expect(index.search('登录页面').map(r => r.document.ref)).toEqual(['a']);
+    expect(index.search('登录').map(r => r.document.ref).sort()).toEqual(['a', 'b']);
+  });
+
+  it('ranks title matches first and matches word prefixes', () => {
+    const index = SearchIndex.from([
+      doc('body', 'Update tests', 'refactoring the parser'),
+      doc('title', 'Refactor parser', 'small change', { timestamp: -1 }),
+      doc('other', 'Unrelated'),
+    ]);
+    expect(index.search('refactor parser').map(r => r.document.ref)).toEqual(['title', 'body']);
+    expect(index.search('refac').map(r => r.document.ref)).toEqual(['title', 'body']);
+    index.remove('history:title');
+    expect(index.search('refactor').map(r => r.document.ref)).toEqual(['body']);
+  });
+
+  it('applies field filters', () => {
+    const day = (date: string) => new Date(`${date}T12:00:00`).getTime();
+    const index = SearchIndex.from([
+      doc('a', 'deploy', '', { actions: ['end'], timestamp: day('2024-01-10') }),
+      doc('b', 'deploy', '', { timestamp: day('2024-02-10'), workspace: '/work/site' }),
+      doc('c', 'deploy', '', { kind: 'session', id: 'session:c', tags: ['Release'], timestamp: day('2024-03-10') }),
+    ]);
+    const refs = (query: string) => index.search(query).map(r => r.document.ref);
+    expect(refs('deploy action:end')).toEqual(['a']);
+    expect(refs('before:2024-02-01')).toEqual(['a']);
+    expect(refs('deploy after:2024-02-01 before:2024-03-01')).toEqual(['b']);
+    expect(refs('workspace:site')).toEqual(['b']);
+    expect(refs('tag:release type:session')).toEqual(['c']);
+    expect(parseQuery('workspace:"my app" note:x fix')).toEqual({
+      words: ['note:x', 'fix'],
+      filters: { tags: [], workspace: 'my app' },
+    });
+  });
+
+  it('highlights matches and cuts snippets around them', () => {
+    expect(highlight('Fix the Parser', ['parser'])).toEqual([
+      { text: 'Fix the ', match: false },
+      { text: 'Parser', match: true },
+    ]);
+    expect(highlight('修复登录页面', ['登录页面']).filter(s => s.match).map(s => s.text)).toEqual(['登录页面']);
+    const text = `${'a '.repeat(100)}needle${' b'.repeat(100)}`;
+    const cut = snippet(text, ['needle'], 20);
+    expect(cut.startsWith('…')).toBe(true);
+    expect(cut).toContain('needle');
+    expect(cut.length).toBeLessThan(50);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildSessionTree, compareBranches } from '../lib/sessionBranches';
+import { SessionManager } from '../lib/sessionManager';
+
+describe('session branches', () => {
+  function recordAnswers(manager: SessionManager, sessionId: string, instructions: string[]) {
+    instructions.forEach(userInstruction => manager.addMessage({
+      type: 'response',
+      summary: `checkpoint before ${userInstruction}`,
+      userInstruction,
+      shouldContinue: true,
+      hasImages: false,
+    }, sessionId));
+  }
+
+  it('forks before the chosen message and becomes the current session', () => {
+    const manager = new SessionManager();
+    const root = manager.createSession('ws', '/work/project');
+    recordAnswers(manager, root.id, ['add tests', 'refactor']);
+    const [first, second] = manager.getSession(root.id)!.messages;
+
+    const branch = manager.forkSession(root.id, second.id)!;
+    expect(branch.parentSessionId).toBe(root.id);
+    expect(branch.branchFromMessageId).toBe(second.id);
+    expect(branch.messages.map(m => m.id)).toEqual([first.id]);
+    expect(manager.getCurrentSession()?.id).toBe(branch.id);
+    expect(manager.forkSession(root.id, 'missing')).toBeNull();
+  });
+
+  it('arranges forks as a tree and re-parents them when their parent is deleted', () => {
+    const manager = new SessionManager();
+    const root = manager.createSession('ws', '/work/project');
+    recordAnswers(manager, root.id, ['one', 'two']);
+    const branch = manager.forkSession(root.id, manager.getSession(root.id)!.messages[1].id)!;
+    recordAnswers(manager, branch.id, ['three']);
+    const nested = manager.forkSession(branch.id, manager.getSession(branch.id)!.messages[1].id)!;
+
+    const [tree] = buildSessionTree(manager.getAllSessions());
+    expect(tree.session.id).toBe(root.id);
+    expect(tree.children[0].session.id).toBe(branch.id);
+    expect(tree.children[0].children[0].session.id).toBe(nested.id);
+
+    manager.deleteSession(branch.id);
+    expect(manager.getSession(nested.id)?.parentSessionId).toBe(root.id);
+  });
+
+  it('compares two branches from the point they diverge', () => {
+    const manager = new SessionManager();
+    const root = manager.createSession('ws', '/work/project');
+    recordAnswers(manager, root.id, ['one', 'two']);
+    const branch = manager.forkSession(root.id, manager.getSession(root.id)!.messages[1].id)!;
+    recordAnswers(manager, branch.id, ['other']);
+
+    const comparison = compareBranches(manager.getSession(root.id)!, manager.getSession(branch.id)!);
+    expect(comparison.common.map(m => m.userInstruction)).toEqual(['one']);
+    expect(comparison.left.map(m => m.userInstruction)).toEqual(['two']);
+    expect(comparison.right.map(m => m.userInstruction)).toEqual(['other']);
+  });
+});
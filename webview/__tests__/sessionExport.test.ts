@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+
+import { formatSessionExport, selectSessionsForExport } from '../lib/sessionExport';
+
+import type { EnhancedSession, SessionExportOptions, SessionMessage } from '../types/session';
+
+function message(id: string, timestamp: number, overrides: Partial<SessionMessage> = {}): SessionMessage {
+  return { id, timestamp, type: 'ask', shouldContinue: true, hasImages: false, ...overrides };
+}
+
+function session(id: string, createdAt: number, messages: SessionMessage[] = []): EnhancedSession {
+  return {
+    id,
+    workspaceId: 'ws',
+    workspacePath: '/work/project',
+    createdAt,
+    updatedAt: messages.at(-1)?.timestamp ?? createdAt,
+    status: 'completed',
+    isolationKey: `ws-${id}`,
+    messageCount: messages.length,
+    continueCount: messages.filter(m => m.shouldContinue).length,
+    endCount: messages.filter(m => !m.shouldContinue).length,
+    totalDuration: 90_000,
+    privacyLevel: 'full',
+    messages,
+    tags: [],
+  };
+}
+
+const options: SessionExportOptions = { format: 'json', includeMessages: true, includeStatistics: true };
+
+describe('session export', () => {
+  it('keeps only the selected sessions and the messages inside the date range', () => {
+    const sessions = [
+      session('a', 1000, [message('a1', 1000), message('a2', 5000)]),
+      session('b', 2000, [message('b1', 2000)]),
+      session('c', 9000, [message('c1', 9000)]),
+    ];
+    const selected = selectSessionsForExport(sessions, { ...options, sessionIds: ['a', 'c'], dateRange: { start: 4000, end: 8000 } });
+    expect(selected.map(s => s.id)).toEqual(['a']);
+    expect(selected[0].messages.map(m => m.id)).toEqual(['a2']);
+  });
+
+  it('leaves messages and statistics out of JSON when asked', () => {
+    const json = JSON.parse(formatSessionExport([session('a', 1000, [message('a1', 1000)])], {
+      ...options,
+      includeMessages: false,
+      includeStatistics: false,
+    }, 'en-US'));
+    expect(json.statistics).toBeUndefined();
+    expect(json.sessions[0].messages).toBeUndefined();
+  });
+
+  it('writes one quoted CSV row per message followed by the statistics', () => {
+    const csv = formatSessionExport([
+      session('a', 1000, [message('a1', 1000, { summary: 'Fixed "login", added tests\nDone' }), message('a2', 2000, { type: 'response', userInstruction: '=SUM(A1)' })]),
+    ], { ...options, format: 'csv' }, 'en-US');
+    const rows = csv.split('\r\n');
+
+    expect(rows[0]).toMatch(/^sessionId,.*,messageId,timestamp,type,decision,summary,reason,userInstruction,imageCount$/);
+    expect(csv).toContain('"Fixed ""login"", added tests\nDone"');
+    expect(csv).toContain(',\'=SUM(A1),');
+    expect(rows).toContain('metric,value');
+    expect(rows).toContain('totalMessages,2');
+  });
+
+  it('reads as a transcript with timestamps and decisions', () => {
+    const markdown = formatSessionExport([
+      session('a', 1000, [
+        message('a1', 1000, { summary: 'Refactored the parser', reason: 'Task done' }),
+        message('a2', 2000, { type: 'response', shouldContinue: false }),
+      ]),
+    ], { ...options, format: 'markdown' }, 'en-US');
+
+    expect(markdown).toContain('## project');
+    expect(markdown).toContain('### Transcript');
+    expect(markdown).toMatch(/\*\*\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}\*\* · AI checkpoint\n\n> Refactored the parser\n\nReason: Task done/);
+    expect(markdown).toMatch(/\*\*[\d\-: ]+\*\* · Decision: End/);
+    expect(markdown).toContain('| Sessions | 1 |');
+  });
+});
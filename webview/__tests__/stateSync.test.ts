@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { applyStateCommand, applyStatePatch, diffState, saveSettingsCommands, StateConflictError } from '../../shared/state';
+import { StateSync } from '../lib/stateSync';
+
+import { mockVsCodeApi } from './setup';
+
+import type { StatePatch, SyncedConversation, SyncedState } from '../../shared/state';
+
+function conversation(id: string, updatedAt = 1): SyncedConversation {
+  return { id, updatedAt, messages: [] };
+}
+
+function createState(overrides: Partial<SyncedState> = {}): SyncedState {
+  return {
+    settings: { maxHistoryItems: 100 },
+    globalSettings: {},
+    settingsOverrides: {},
+    conversations: [],
+    history: [],
+    activeConversationId: null,
+    ...overrides,
+  };
+}
+
+describe('state patches', () => {
+  it('rebuilds the next state from per-item operations', () => {
+    const prev = createState({ conversations: [conversation('a'), conversation('b'), conversation('c')] });
+    const next = createState({
+      conversations: [conversation('x'), conversation('a'), conversation('c', 2), conversation('y')],
+      activeConversationId: 'x',
+    });
+    const ops = diffState(prev, next);
+
+    expect(ops).toContainEqual({ op: 'remove', key: 'conversations', id: 'b' });
+    expect(ops.some(op => op.op === 'upsert' && op.item.id === 'a')).toBe(false);
+    expect(applyStatePatch(prev, ops)).toEqual(next);
+  });
+
+  it('merges changed settings fields only', () => {
+    const prev = createState();
+    const next = createState({ settings: { maxHistoryItems: 10 } });
+    expect(diffState(prev, next)).toEqual([{ op: 'merge', key: 'settings', value: { maxHistoryItems: 10 } }]);
+  });
+
+  it('replaces a list whose unchanged items were reordered', () => {
+    const prev = createState({ conversations: [conversation('a'), conversation('b')] });
+    const next = createState({ conversations: [conversation('b'), conversation('a')] });
+    expect(diffState(prev, next)).toEqual([{ op: 'set', key: 'conversations', value: next.conversations }]);
+  });
+
+  it('rejects commands on conversations that are gone', () => {
+    expect(() => applyStateCommand(createState(), { type: 'update_conversation', data: { id: 'a', updates: {}, updatedAt: 2 } }))
+      .toThrow(StateConflictError);
+  });
+});
+
+describe('settings scopes', () => {
+  it('saves overridden keys to the workspace and the rest globally', () => {
+    const state = createState({ settingsOverrides: { maxHistoryItems: 10 } });
+    expect(saveSettingsCommands(state, { maxHistoryItems: 20, autoStart: false })).toEqual([
+      { type: 'save_settings', data: { values: { autoStart: false }, scope: 'global' } },
+      { type: 'save_settings', data: { values: { maxHistoryItems: 20 }, scope: 'workspace' } },
+    ]);
+  });
+
+  it('copies workspace overrides to global', () => {
+    const state = createState({ globalSettings: { autoStart: false }, settingsOverrides: { maxHistoryItems: 10 } });
+    const next = applyStateCommand(state, { type: 'copy_settings_to_global' });
+    expect(next.globalSettings).toEqual({ autoStart: false, maxHistoryItems: 10 });
+    expect(next.settingsOverrides).toEqual({});
+    expect(applyStateCommand(next, { type: 'reset_settings', data: { scope: 'global' } }).globalSettings).toEqual({});
+  });
+});
+
+describe('stateSync', () => {
+  beforeEach(() => {
+    mockVsCodeApi.postMessage.mockClear();
+  });
+
+  function hostPatch(prev: SyncedState, next: SyncedState, baseRevision: number, commandId?: string): StatePatch {
+    return { baseRevision, revision: baseRevision + 1, ops: diffState(prev, next), commandId };
+  }
+
+  it('keeps pending edits on top of patches from other panels', () => {
+    const confirmed = createState({ conversations: [conversation('a'), conversation('b')] });
+    const sync = new StateSync(createState());
+    sync.reset(confirmed, 0);
+
+    sync.issue({ type: 'update_conversation', data: { id: 'a', updates: { name: 'renamed' }, updatedAt: 5 } });
+    const { commandId } = mockVsCodeApi.postMessage.mock.calls[0][0];
+
+    // Another panel deletes b before the host answers our rename
+    const afterDelete = applyStateCommand(confirmed, { type: 'delete_conversation', data: { id: 'b' } });
+    let view = sync.applyPatch(hostPatch(confirmed, afterDelete, 0));
+    expect(view.conversations).toEqual([{ ...conversation('a', 5), name: 'renamed' }]);
+
+    const afterRename = applyStateCommand(afterDelete, { type: 'update_conversation', data: { id: 'a', updates: { name: 'renamed' }, updatedAt: 5 } });
+    view = sync.applyPatch(hostPatch(afterDelete, afterRename, 1, commandId));
+    expect(view).toEqual(afterRename);
+    expect(sync.getRevision()).toBe(2);
+  });
+
+  it('reverts a rejected edit', () => {
+    const confirmed = createState({ conversations: [conversation('a')] });
+    const sync = new StateSync(createState());
+    sync.reset(confirmed, 3);
+
+    expect(sync.issue({ type: 'delete_conversation', data: { id: 'a' } }).conversations).toEqual([]);
+    const { commandId } = mockVsCodeApi.postMessage.mock.calls[0][0];
+    expect(sync.reject(commandId)).toEqual(confirmed);
+  });
+
+  it('requests a snapshot after missing a patch', () => {
+    const sync = new StateSync(createState());
+    sync.reset(createState(), 0);
+    sync.applyPatch({ baseRevision: 2, revision: 3, ops: [] });
+    expect(mockVsCodeApi.postMessage).toHaveBeenCalledWith({ type: 'request_state_sync' });
+  });
+});
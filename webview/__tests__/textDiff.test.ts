@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+
+import { applyDiff, diffText } from '../lib/textDiff';
+
+describe('textDiff', () => {
+  it('returns one equal segment for identical text', () => {
+    expect(diffText('fix the bug', 'fix the bug')).toEqual([{ type: 'equal', text: 'fix the bug' }]);
+  });
+
+  it('groups adjacent word changes into one hunk', () => {
+    const segments = diffText('please fix bug now', 'carefully refactor code now');
+    expect(segments).toEqual([
+      { type: 'change', id: 0, removed: 'please fix bug', added: 'carefully refactor code' },
+      { type: 'equal', text: ' now' },
+    ]);
+  });
+
+  it('diffs Chinese text character by character', () => {
+    const segments = diffText('重构登录模块', '重构用户登录模块');
+    expect(segments).toEqual([
+      { type: 'equal', text: '重构' },
+      { type: 'change', id: 0, removed: '', added: '用户' },
+      { type: 'equal', text: '登录模块' },
+    ]);
+  });
+
+  it('takes the optimized text for unresolved hunks', () => {
+    const segments = diffText('add tests', 'add unit tests. Keep the style');
+    expect(applyDiff(segments)).toBe('add unit tests. Keep the style');
+  });
+
+  it('applies accepted, rejected and edited hunks', () => {
+    const original = 'fix login. run tests';
+    const segments = diffText(original, 'fix the login flow. run all tests');
+    const hunks = segments.filter(segment => segment.type === 'change');
+    expect(hunks.map(hunk => hunk.added)).toEqual(['the ', ' flow', 'all ']);
+
+    const rejectAll = Object.fromEntries(hunks.map(hunk => [hunk.id, hunk.removed]));
+    expect(applyDiff(segments, rejectAll)).toBe(original);
+    expect(applyDiff(segments, { [hunks[0].id]: '', [hunks[2].id]: 'the unit ' })).toBe('fix login flow. run the unit tests');
+  });
+});
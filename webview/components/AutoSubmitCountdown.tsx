@@ -24,6 +24,7 @@ import {
 
 import { audioManager } from '../lib/audioManager';
 import { autoSubmitManager } from '../lib/autoSubmitManager';
+import { useI18n } from '../store';
 
 import type { AutoSubmitState } from '../types/session';
 
@@ -42,6 +43,7 @@ export function AutoSubmitCountdown({
   showControls = true,
   compact = false,
 }: AutoSubmitCountdownProps) {
+  const { t } = useI18n();
   const [state, setState] = useState<AutoSubmitState>(autoSubmitManager.getState());
   const settings = autoSubmitManager.getSettings();
 
@@ -108,13 +110,13 @@ export function AutoSubmitCountdown({
               className="gap-1"
             >
               <Timer className="size-4" />
-              {!compact && '自动提交'}
+              {!compact && t('autoSubmit.title')}
             </Button>
           </TooltipTrigger>
           <TooltipContent>
             {settings.enabled
-              ? `启动 ${defaultTimeout || settings.defaultTimeout} 秒倒计时`
-              : '自动提交已禁用'}
+              ? t('autoSubmit.start', { seconds: defaultTimeout || settings.defaultTimeout })
+              : t('autoSubmit.disabled')}
           </TooltipContent>
         </Tooltip>
       </TooltipProvider>
@@ -167,10 +169,10 @@ export function AutoSubmitCountdown({
         <div className="flex items-center gap-2">
           <Timer className={`size-4 ${state.isPaused ? 'text-muted-foreground' : 'text-primary animate-pulse'}`} />
           <span className="text-sm font-medium">
-            自动提交
+            {t('autoSubmit.title')}
             {state.triggeredBy === 'prompt' && (
               <Badge variant="secondary" className="ml-2 text-xs">
-                提示词触发
+                {t('autoSubmit.triggeredByPrompt')}
               </Badge>
             )}
           </span>
@@ -179,7 +181,7 @@ export function AutoSubmitCountdown({
           <span className="font-mono text-lg font-bold">{timeText}</span>
           {state.isPaused && (
             <Badge variant="outline" className="text-xs">
-              已暂停
+              {t('autoSubmit.paused')}
             </Badge>
           )}
         </div>
@@ -204,7 +206,7 @@ export function AutoSubmitCountdown({
                     <Plus className="size-3" />
                   </Button>
                 </TooltipTrigger>
-                <TooltipContent>+30秒</TooltipContent>
+                <TooltipContent>{`+${t('time.seconds', { count: 30 })}`}</TooltipContent>
               </Tooltip>
             </TooltipProvider>
             <TooltipProvider delayDuration={0}>
@@ -216,10 +218,10 @@ export function AutoSubmitCountdown({
                     onClick={() => handleAddTime(60)}
                     className="h-8 px-2 text-xs"
                   >
-                    +1分钟
+                    {`+${t('time.minutes', { count: 1 })}`}
                   </Button>
                 </TooltipTrigger>
-                <TooltipContent>+1分钟</TooltipContent>
+                <TooltipContent>{`+${t('time.minutes', { count: 1 })}`}</TooltipContent>
               </Tooltip>
             </TooltipProvider>
           </div>
@@ -234,7 +236,7 @@ export function AutoSubmitCountdown({
                     className="gap-1"
                   >
                     <Play className="size-3" />
-                    继续
+                    {t('common.continue')}
                   </Button>
                 )
               : (
@@ -245,7 +247,7 @@ export function AutoSubmitCountdown({
                     className="gap-1"
                   >
                     <Pause className="size-3" />
-                    暂停
+                    {t('autoSubmit.pause')}
                   </Button>
                 )}
             <Button
@@ -255,7 +257,7 @@ export function AutoSubmitCountdown({
               className="gap-1"
             >
               <X className="size-3" />
-              取消
+              {t('common.cancel')}
             </Button>
           </div>
         </div>
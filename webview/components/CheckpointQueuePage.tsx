@@ -0,0 +1,233 @@
+/**
+ * Checkpoint Queue Page Component
+ * Pending checkpoint calls, answerable in any order or in batches
+ */
+
+import {
+  AlertTriangle,
+  Clock,
+  Inbox,
+  ListChecks,
+  Play,
+  Plug,
+  Square,
+  XCircle,
+} from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Textarea } from '@/components/ui/textarea';
+
+import { translate } from '../../shared/i18n';
+import { useI18n } from '../store';
+import { vscode } from '../utils/vscode';
+
+import type { Language } from '../../shared/i18n';
+import type { PendingCheckpoint } from '../types';
+
+function formatAge(timestamp: number, now: number, language: Language): string {
+  const diffMins = Math.floor((now - timestamp) / 60000);
+  if (diffMins < 1)
+    return translate(language, 'time.justNow');
+  if (diffMins < 60)
+    return translate(language, 'time.minutesAgo', { count: diffMins });
+  return translate(language, 'time.hoursAgo', { count: Math.floor(diffMins / 60) });
+}
+
+interface CheckpointQueuePageProps {
+  checkpoints: PendingCheckpoint[];
+}
+
+export function CheckpointQueuePage({ checkpoints }: CheckpointQueuePageProps) {
+  const { language, t } = useI18n();
+  const [instruction, setInstruction] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [now, setNow] = useState(() => Date.now());
+
+  // Refresh the ages
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Drop selections for checkpoints answered elsewhere
+  const selected = useMemo(
+    () => checkpoints.filter(c => selectedIds.has(c.id)).map(c => c.id),
+    [checkpoints, selectedIds],
+  );
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      }
+      else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(selected.length === checkpoints.length ? new Set() : new Set(checkpoints.map(c => c.id)));
+  };
+
+  const answer = (ids: string[], shouldContinue: boolean) => {
+    if (ids.length === 0) {
+      return;
+    }
+    vscode.postMessage({
+      type: 'answer_checkpoints',
+      data: { ids, shouldContinue, userInstruction: shouldContinue ? instruction.trim() : undefined },
+    });
+    setSelectedIds(new Set());
+    if (shouldContinue) {
+      setInstruction('');
+    }
+  };
+
+  const dismissAll = () => {
+    vscode.postMessage({ type: 'dismiss_all_checkpoints' });
+    setSelectedIds(new Set());
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <ListChecks className="size-5" />
+            {t('queue.title')}
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            {t('queue.count', { count: checkpoints.length })}
+          </p>
+        </div>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="destructive" size="sm" className="gap-1" disabled={checkpoints.length === 0}>
+              <XCircle className="size-4" />
+              {t('queue.endAll')}
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle className="flex items-center gap-2">
+                <AlertTriangle className="size-5 text-destructive" />
+                {t('queue.confirmEndAll')}
+              </AlertDialogTitle>
+              <AlertDialogDescription>
+                {t('queue.confirmEndAllDescription', { count: checkpoints.length })}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+              <AlertDialogAction onClick={dismissAll}>{t('queue.endAll')}</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+
+      {/* Shared instruction */}
+      <div className="space-y-2">
+        <Textarea
+          value={instruction}
+          onChange={e => setInstruction(e.target.value)}
+          placeholder={t('queue.instructionPlaceholder')}
+          className="min-h-[72px] resize-none"
+        />
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={toggleAll} disabled={checkpoints.length === 0}>
+            {selected.length === checkpoints.length && checkpoints.length > 0 ? t('queue.deselectAll') : t('queue.selectAll')}
+          </Button>
+          <div className="ml-auto flex gap-2">
+            <Button size="sm" className="gap-1" disabled={selected.length === 0} onClick={() => answer(selected, true)}>
+              <Play className="size-4" />
+              {t('queue.continueSelected')}
+              {selected.length > 0 && ` (${selected.length})`}
+            </Button>
+            <Button variant="secondary" size="sm" className="gap-1" disabled={selected.length === 0} onClick={() => answer(selected, false)}>
+              <Square className="size-4" />
+              {t('queue.endSelected')}
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* Queue */}
+      <ScrollArea className="h-[500px]">
+        {checkpoints.length === 0
+          ? (
+              <Card className="border-dashed">
+                <CardContent className="flex flex-col items-center justify-center py-12">
+                  <Inbox className="size-12 text-muted-foreground/50 mb-4" />
+                  <p className="text-muted-foreground">{t('queue.empty')}</p>
+                </CardContent>
+              </Card>
+            )
+          : (
+              <div className="space-y-2">
+                {checkpoints.map(checkpoint => (
+                  <Card key={checkpoint.id} className={selectedIds.has(checkpoint.id) ? 'border-primary' : undefined}>
+                    <CardContent className="p-4">
+                      <div className="flex items-start gap-3">
+                        <input
+                          type="checkbox"
+                          className="mt-1 size-4 accent-primary"
+                          checked={selectedIds.has(checkpoint.id)}
+                          onChange={() => toggleSelected(checkpoint.id)}
+                          aria-label={t('queue.selectCheckpoint')}
+                        />
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2 mb-1 text-xs text-muted-foreground">
+                            {checkpoint.source && (
+                              <Badge variant="outline" className="gap-1 text-xs">
+                                <Plug className="size-3" />
+                                {checkpoint.source}
+                              </Badge>
+                            )}
+                            <span className="flex items-center gap-1">
+                              <Clock className="size-3" />
+                              {formatAge(checkpoint.createdAt, now, language)}
+                            </span>
+                          </div>
+                          <p className="text-sm font-medium line-clamp-3 whitespace-pre-wrap">
+                            {checkpoint.summary || checkpoint.reason || t('common.taskCompleted')}
+                          </p>
+                        </div>
+                        <div className="flex flex-col gap-1">
+                          <Button size="sm" className="gap-1" onClick={() => answer([checkpoint.id], true)}>
+                            <Play className="size-3" />
+                            {t('common.continue')}
+                          </Button>
+                          <Button variant="ghost" size="sm" className="gap-1" onClick={() => answer([checkpoint.id], false)}>
+                            <Square className="size-3" />
+                            {t('common.end')}
+                          </Button>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+      </ScrollArea>
+    </div>
+  );
+}
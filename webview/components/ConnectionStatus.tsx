@@ -32,9 +32,12 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 
+import { translate } from '../../shared/i18n';
 import { connectionMonitor } from '../lib/connectionMonitor';
+import { useI18n } from '../store';
 import { vscode } from '../utils/vscode';
 
+import type { Language } from '../../shared/i18n';
 import type { ConnectionState, ConnectionStatus as ConnectionStatusType, ServerState, TransportType } from '../types/session';
 
 interface ConnectionStatusProps {
@@ -62,17 +65,18 @@ const transportIcons: Record<TransportType, React.ReactNode> = {
   auto: <Zap className="size-3" />,
 };
 
-function formatUptime(seconds: number): string {
+function formatUptime(seconds: number, language: Language): string {
   if (seconds < 60)
-    return `${seconds}秒`;
+    return translate(language, 'time.seconds', { count: seconds });
   if (seconds < 3600)
-    return `${Math.floor(seconds / 60)}分钟`;
+    return translate(language, 'time.minutes', { count: Math.floor(seconds / 60) });
   if (seconds < 86400)
-    return `${Math.floor(seconds / 3600)}小时`;
-  return `${Math.floor(seconds / 86400)}天`;
+    return translate(language, 'time.hours', { count: Math.floor(seconds / 3600) });
+  return translate(language, 'time.days', { count: Math.floor(seconds / 86400) });
 }
 
 export function ConnectionStatus({ compact = false, showDetails = true }: ConnectionStatusProps) {
+  const { language, t } = useI18n();
   const [state, setState] = useState<ConnectionState>(connectionMonitor.getState());
   const [serverState, setServerState] = useState<ServerState | null>(null);
 
@@ -147,12 +151,12 @@ export function ConnectionStatus({ compact = false, showDetails = true }: Connec
           </TooltipTrigger>
           <TooltipContent>
             <div className="space-y-1">
-              <p>{connectionMonitor.getStatusText()}</p>
+              <p>{connectionMonitor.getStatusText(language)}</p>
               <p className="text-xs opacity-70">
-                传输:
+                {t('connectionStatus.transport')}
                 {' '}
                 {currentTransport.toUpperCase()}
-                {serverState?.port && currentTransport !== 'stdio' && ` (端口: ${serverState.port})`}
+                {serverState?.port && currentTransport !== 'stdio' && t('connectionStatus.portSuffix', { port: serverState.port })}
               </p>
             </div>
           </TooltipContent>
@@ -168,7 +172,7 @@ export function ConnectionStatus({ compact = false, showDetails = true }: Connec
         <Button variant="ghost" size="sm" className="gap-2 h-8 px-2">
           {statusIcons[state.status]}
           <span className="text-xs">
-            {state.status === 'connected' ? `${state.latency}ms` : connectionMonitor.getStatusText()}
+            {state.status === 'connected' ? `${state.latency}ms` : connectionMonitor.getStatusText(language)}
           </span>
           {/* Transport indicator */}
           <Badge variant="outline" className="gap-1 h-5 px-1.5 text-xs">
@@ -197,14 +201,14 @@ export function ConnectionStatus({ compact = false, showDetails = true }: Connec
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-2">
                 <Server className="size-4" />
-                <span className="font-medium text-sm">MCP 服务器</span>
+                <span className="font-medium text-sm">{t('connectionStatus.server')}</span>
               </div>
               <Badge
                 variant={state.status === 'connected' ? 'default' : 'secondary'}
                 className="gap-1"
               >
                 <span className={`size-1.5 rounded-full ${statusColors[state.status]}`} />
-                {connectionMonitor.getStatusText()}
+                {connectionMonitor.getStatusText(language)}
               </Badge>
             </div>
 
@@ -213,7 +217,7 @@ export function ConnectionStatus({ compact = false, showDetails = true }: Connec
               <>
                 <div className="grid grid-cols-2 gap-2 text-xs">
                   <div className="bg-muted rounded p-2">
-                    <div className="text-muted-foreground">传输方式</div>
+                    <div className="text-muted-foreground">{t('connectionStatus.transportType')}</div>
                     <div className="font-medium flex items-center gap-1">
                       {transportIcons[serverState.transport]}
                       {serverState.transport.toUpperCase()}
@@ -221,7 +225,7 @@ export function ConnectionStatus({ compact = false, showDetails = true }: Connec
                   </div>
                   {serverState.transport !== 'stdio' && (
                     <div className="bg-muted rounded p-2">
-                      <div className="text-muted-foreground">端口</div>
+                      <div className="text-muted-foreground">{t('connectionStatus.port')}</div>
                       <div className="font-mono font-medium">{serverState.port}</div>
                     </div>
                   )}
@@ -229,15 +233,13 @@ export function ConnectionStatus({ compact = false, showDetails = true }: Connec
 
                 <div className="grid grid-cols-2 gap-2 text-xs">
                   <div className="bg-muted rounded p-2">
-                    <div className="text-muted-foreground">运行时间</div>
-                    <div className="font-medium">{formatUptime(serverState.uptime)}</div>
+                    <div className="text-muted-foreground">{t('connectionStatus.uptime')}</div>
+                    <div className="font-medium">{formatUptime(serverState.uptime, language)}</div>
                   </div>
                   <div className="bg-muted rounded p-2">
-                    <div className="text-muted-foreground">客户端</div>
+                    <div className="text-muted-foreground">{t('connectionStatus.clients')}</div>
                     <div className="font-medium">
-                      {serverState.clientCount}
-                      {' '}
-                      个连接
+                      {t('connectionStatus.clientCount', { count: serverState.clientCount })}
                     </div>
                   </div>
                 </div>
@@ -250,14 +252,14 @@ export function ConnectionStatus({ compact = false, showDetails = true }: Connec
               <>
                 <div className="grid grid-cols-2 gap-2 text-xs">
                   <div className="bg-muted rounded p-2">
-                    <div className="text-muted-foreground">延迟</div>
+                    <div className="text-muted-foreground">{t('connectionStatus.latency')}</div>
                     <div className="font-mono font-medium">
                       {state.latency}
                       ms
                     </div>
                   </div>
                   <div className="bg-muted rounded p-2">
-                    <div className="text-muted-foreground">连接质量</div>
+                    <div className="text-muted-foreground">{t('connectionStatus.quality')}</div>
                     <div className="font-medium">
                       {state.qualityScore}
                       %
@@ -274,9 +276,7 @@ export function ConnectionStatus({ compact = false, showDetails = true }: Connec
                 </div>
 
                 <div className="text-xs text-muted-foreground">
-                  上次检测:
-                  {' '}
-                  {new Date(state.lastPing).toLocaleTimeString('zh-CN')}
+                  {t('connectionStatus.lastPing', { time: new Date(state.lastPing).toLocaleTimeString(language) })}
                 </div>
               </>
             )}
@@ -295,7 +295,7 @@ export function ConnectionStatus({ compact = false, showDetails = true }: Connec
                 onClick={handleReconnect}
               >
                 <RefreshCw className="size-3" />
-                刷新状态
+                {t('connectionStatus.refresh')}
               </Button>
               {serverState?.transport !== 'stdio' && (
                 <Button
@@ -305,7 +305,7 @@ export function ConnectionStatus({ compact = false, showDetails = true }: Connec
                   onClick={handleRestartServer}
                 >
                   <Server className="size-3" />
-                  重启服务
+                  {t('connectionStatus.restart')}
                 </Button>
               )}
             </div>
@@ -50,11 +50,13 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { ScrollArea } from '@/components/ui/scroll-area';
 
-import { useConversations } from '../store';
+import { useConversations, useI18n } from '../store';
 
-function formatDate(timestamp: number): string {
+import type { Language } from '../../shared/i18n';
+
+function formatDate(timestamp: number, language: Language): string {
   const date = new Date(timestamp);
-  return date.toLocaleDateString('zh-CN', {
+  return date.toLocaleDateString(language, {
     month: 'short',
     day: 'numeric',
     hour: '2-digit',
@@ -71,6 +73,7 @@ export function ConversationsPage() {
     switchConversation,
     updateConversation,
   } = useConversations();
+  const { language, t } = useI18n();
 
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [newConversationName, setNewConversationName] = useState('');
@@ -95,7 +98,7 @@ export function ConversationsPage() {
   };
 
   const handleDuplicate = (conv: typeof conversations[0]) => {
-    createConversation(`${conv.name} (副本)`, conv.workspacePath);
+    createConversation(`${conv.name} ${t('common.copySuffix')}`, conv.workspacePath);
   };
 
   return (
@@ -105,44 +108,44 @@ export function ConversationsPage() {
         <div>
           <h2 className="text-lg font-semibold flex items-center gap-2">
             <MessageSquare className="size-5" />
-            对话管理
+            {t('conversations.title')}
           </h2>
           <p className="text-sm text-muted-foreground">
-            管理多个独立的对话上下文
+            {t('conversations.subtitle')}
           </p>
         </div>
         <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
           <DialogTrigger asChild>
             <Button size="sm" className="gap-1">
               <Plus className="size-4" />
-              新建对话
+              {t('conversations.new')}
             </Button>
           </DialogTrigger>
           <DialogContent>
             <DialogHeader>
-              <DialogTitle>创建新对话</DialogTitle>
+              <DialogTitle>{t('conversations.createTitle')}</DialogTitle>
               <DialogDescription>
-                创建一个新的独立对话上下文，用于隔离不同的任务。
+                {t('conversations.createDescription')}
               </DialogDescription>
             </DialogHeader>
             <div className="space-y-4 py-4">
               <div className="space-y-2">
-                <Label htmlFor="name">对话名称</Label>
+                <Label htmlFor="name">{t('conversations.name')}</Label>
                 <Input
                   id="name"
                   value={newConversationName}
                   onChange={e => setNewConversationName(e.target.value)}
-                  placeholder="例如：项目重构、Bug 修复..."
+                  placeholder={t('conversations.namePlaceholder')}
                   onKeyDown={e => e.key === 'Enter' && handleCreate()}
                 />
               </div>
             </div>
             <DialogFooter>
               <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
-                取消
+                {t('common.cancel')}
               </Button>
               <Button onClick={handleCreate} disabled={!newConversationName.trim()}>
-                创建
+                {t('common.create')}
               </Button>
             </DialogFooter>
           </DialogContent>
@@ -156,10 +159,10 @@ export function ConversationsPage() {
               <Card className="border-dashed">
                 <CardContent className="flex flex-col items-center justify-center py-12">
                   <MessageSquare className="size-12 text-muted-foreground/50 mb-4" />
-                  <p className="text-muted-foreground mb-4">暂无对话</p>
+                  <p className="text-muted-foreground mb-4">{t('conversations.empty')}</p>
                   <Button onClick={() => setIsCreateDialogOpen(true)} className="gap-2">
                     <Plus className="size-4" />
-                    创建第一个对话
+                    {t('conversations.createFirst')}
                   </Button>
                 </CardContent>
               </Card>
@@ -205,18 +208,18 @@ export function ConversationsPage() {
                             {conv.id === activeConversationId && (
                               <Badge variant="default" className="gap-1">
                                 <Check className="size-3" />
-                                当前
+                                {t('conversations.current')}
                               </Badge>
                             )}
                             {conv.isActive && conv.id !== activeConversationId && (
-                              <Badge variant="secondary">活跃</Badge>
+                              <Badge variant="secondary">{t('conversations.active')}</Badge>
                             )}
                           </div>
 
                           <div className="flex items-center gap-4 text-xs text-muted-foreground">
                             <span className="flex items-center gap-1">
                               <Clock className="size-3" />
-                              {formatDate(conv.updatedAt)}
+                              {formatDate(conv.updatedAt, language)}
                             </span>
                             {conv.workspacePath && (
                               <span className="flex items-center gap-1 truncate">
@@ -225,9 +228,7 @@ export function ConversationsPage() {
                               </span>
                             )}
                             <span>
-                              {conv.messages.length}
-                              {' '}
-                              条消息
+                              {t('conversations.messageCount', { count: conv.messages.length })}
                             </span>
                           </div>
                         </div>
@@ -252,7 +253,7 @@ export function ConversationsPage() {
                               }}
                             >
                               <Edit2 className="size-4 mr-2" />
-                              重命名
+                              {t('conversations.rename')}
                             </DropdownMenuItem>
                             <DropdownMenuItem
                               onClick={(e) => {
@@ -261,7 +262,7 @@ export function ConversationsPage() {
                               }}
                             >
                               <Copy className="size-4 mr-2" />
-                              复制
+                              {t('common.copy')}
                             </DropdownMenuItem>
                             <DropdownMenuSeparator />
                             <DropdownMenuItem
@@ -272,7 +273,7 @@ export function ConversationsPage() {
                               }}
                             >
                               <Trash2 className="size-4 mr-2" />
-                              删除
+                              {t('common.delete')}
                             </DropdownMenuItem>
                           </DropdownMenuContent>
                         </DropdownMenu>
@@ -290,14 +291,14 @@ export function ConversationsPage() {
           <AlertDialogHeader>
             <AlertDialogTitle className="flex items-center gap-2">
               <AlertTriangle className="size-5 text-destructive" />
-              确认删除对话？
+              {t('conversations.confirmDelete')}
             </AlertDialogTitle>
             <AlertDialogDescription>
-              此操作将删除该对话及其所有消息记录，且无法恢复。
+              {t('conversations.confirmDeleteDescription')}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel>取消</AlertDialogCancel>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
             <AlertDialogAction
               onClick={() => {
                 if (deleteConfirmId) {
@@ -306,7 +307,7 @@ export function ConversationsPage() {
                 }
               }}
             >
-              确认删除
+              {t('conversations.deleteAction')}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
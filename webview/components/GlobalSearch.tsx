@@ -0,0 +1,156 @@
+/**
+ * Global Search Component
+ * Search box in the sidebar header over history, sessions and conversations
+ */
+
+import { Clock, Search, X } from 'lucide-react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+
+import { conversationDocument, highlight, historyDocument, parseQuery, SearchIndex, sessionDocument, snippet } from '../lib/searchIndex';
+import { sessionManager } from '../lib/sessionManager';
+import { useConversations, useHistory, useI18n } from '../store';
+
+import type { SearchResult } from '../lib/searchIndex';
+import type { EnhancedSession } from '../types/session';
+
+const MAX_RESULTS = 30;
+
+interface HighlightedTextProps {
+  text: string;
+  words: string[];
+}
+
+export function HighlightedText({ text, words }: HighlightedTextProps) {
+  return (
+    <>
+      {highlight(text, words).map((segment, i) => segment.match
+        ? <mark key={i} className="rounded-sm bg-primary/20 px-0.5 text-foreground">{segment.text}</mark>
+        : <span key={i}>{segment.text}</span>)}
+    </>
+  );
+}
+
+interface GlobalSearchProps {
+  onNavigate: (tab: string) => void;
+}
+
+export function GlobalSearch({ onNavigate }: GlobalSearchProps) {
+  const { history } = useHistory();
+  const { conversations, switchConversation } = useConversations();
+  const { language, t } = useI18n();
+  const [sessions, setSessions] = useState<EnhancedSession[]>([]);
+  const [query, setQuery] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setSessions(sessionManager.getAllSessions());
+    return sessionManager.subscribe(setSessions);
+  }, []);
+
+  // The "Search" command focuses the sidebar and asks for the search box
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'focus_search') {
+        inputRef.current?.focus();
+        inputRef.current?.select();
+      }
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  const index = useMemo(() => SearchIndex.from([
+    ...history.map(historyDocument),
+    ...sessions.map(sessionDocument),
+    ...conversations.map(conversationDocument),
+  ]), [history, sessions, conversations]);
+
+  const parsed = useMemo(() => parseQuery(query), [query]);
+  const results = useMemo(() => (query.trim() ? index.search(parsed, MAX_RESULTS) : []), [index, parsed, query]);
+
+  const openResult = ({ document }: SearchResult) => {
+    if (document.kind === 'conversation') {
+      switchConversation(document.ref);
+      onNavigate('conversations');
+    }
+    else if (document.kind === 'history') {
+      onNavigate('history');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 size-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          ref={inputRef}
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') {
+              setQuery('');
+            }
+          }}
+          placeholder={t('search.placeholder')}
+          className="px-9"
+        />
+        {query && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="absolute right-1 top-1/2 size-7 -translate-y-1/2"
+            title={t('search.clear')}
+            onClick={() => setQuery('')}
+          >
+            <X className="size-4" />
+          </Button>
+        )}
+      </div>
+
+      {query.trim() && (
+        <div className="rounded-md border">
+          <div className="flex items-center justify-between px-3 py-2 text-xs text-muted-foreground">
+            <span>{results.length > 0 ? t('search.resultCount', { count: results.length }) : t('search.noResults')}</span>
+          </div>
+          {results.length === 0
+            ? <p className="px-3 pb-3 text-xs text-muted-foreground">{t('search.hint')}</p>
+            : (
+                <ScrollArea className="max-h-[360px]">
+                  <div className="divide-y">
+                    {results.map(result => (
+                      <button
+                        key={result.document.id}
+                        type="button"
+                        className="block w-full px-3 py-2 text-left hover:bg-muted/50"
+                        onClick={() => openResult(result)}
+                      >
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline" className="text-[10px]">{t(`search.kinds.${result.document.kind}`)}</Badge>
+                          <span className="min-w-0 flex-1 truncate text-sm font-medium">
+                            <HighlightedText text={result.document.title} words={parsed.words} />
+                          </span>
+                          <span className="flex shrink-0 items-center gap-1 text-xs text-muted-foreground">
+                            <Clock className="size-3" />
+                            {new Date(result.document.timestamp).toLocaleDateString(language)}
+                          </span>
+                        </div>
+                        {result.document.body && (
+                          <p className="mt-1 line-clamp-2 text-xs text-muted-foreground">
+                            <HighlightedText text={snippet(result.document.body, parsed.words)} words={parsed.words} />
+                          </p>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                </ScrollArea>
+              )}
+        </div>
+      )}
+    </div>
+  );
+}
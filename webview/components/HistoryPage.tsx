@@ -14,7 +14,7 @@ import {
   Square,
   Trash2,
 } from 'lucide-react';
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 
 import {
   AlertDialog,
@@ -38,11 +38,27 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 
-import { useHistory } from '../store';
+import { translate } from '../../shared/i18n';
+import { historyDocument, parseQuery, SearchIndex } from '../lib/searchIndex';
+import { useHistory, useI18n, useSettings } from '../store';
 import { vscode } from '../utils/vscode';
 
-function formatDate(timestamp: number): string {
+import { HighlightedText } from './GlobalSearch';
+
+import type { Language } from '../../shared/i18n';
+import type { HistoryItem, SharedWorkspaceSummary } from '../types';
+
+const CURRENT_WORKSPACE = 'current';
+
+function formatDate(timestamp: number, language: Language): string {
   const date = new Date(timestamp);
   const now = new Date();
   const diffMs = now.getTime() - date.getTime();
@@ -51,15 +67,15 @@ function formatDate(timestamp: number): string {
   const diffDays = Math.floor(diffMs / 86400000);
 
   if (diffMins < 1)
-    return '刚刚';
+    return translate(language, 'time.justNow');
   if (diffMins < 60)
-    return `${diffMins} 分钟前`;
+    return translate(language, 'time.minutesAgo', { count: diffMins });
   if (diffHours < 24)
-    return `${diffHours} 小时前`;
+    return translate(language, 'time.hoursAgo', { count: diffHours });
   if (diffDays < 7)
-    return `${diffDays} 天前`;
+    return translate(language, 'time.daysAgo', { count: diffDays });
 
-  return date.toLocaleDateString('zh-CN', {
+  return date.toLocaleDateString(language, {
     year: 'numeric',
     month: 'short',
     day: 'numeric',
@@ -69,15 +85,56 @@ function formatDate(timestamp: number): string {
 }
 
 export function HistoryPage() {
-  const { history, clearHistory, deleteHistoryItem } = useHistory();
+  const { history: ownHistory, clearHistory, deleteHistoryItem } = useHistory();
+  const { settings } = useSettings();
+  const { language, t } = useI18n();
   const [searchQuery, setSearchQuery] = useState('');
+  const [workspaceKey, setWorkspaceKey] = useState(CURRENT_WORKSPACE);
+  const [sharedWorkspaces, setSharedWorkspaces] = useState<SharedWorkspaceSummary[]>([]);
+  const [sharedHistory, setSharedHistory] = useState<HistoryItem[]>([]);
 
-  const filteredHistory = history.filter(
-    item =>
-      item.summary.toLowerCase().includes(searchQuery.toLowerCase())
-      || item.conversationName.toLowerCase().includes(searchQuery.toLowerCase())
-      || (item.userInstruction?.toLowerCase().includes(searchQuery.toLowerCase()) ?? false),
-  );
+  // Other workspaces' history is only offered while this workspace takes part in sharing
+  const sharing = settings.syncAcrossWorkspaces;
+  const readOnly = sharing && workspaceKey !== CURRENT_WORKSPACE;
+  const history = readOnly ? sharedHistory : ownHistory;
+
+  useEffect(() => {
+    if (!sharing) {
+      setWorkspaceKey(CURRENT_WORKSPACE);
+      return;
+    }
+    const handleMessage = (event: MessageEvent) => {
+      const message = event.data;
+      if (message?.type === 'shared_workspaces') {
+        setSharedWorkspaces(message.data ?? []);
+      }
+      else if (message?.type === 'shared_workspace_history') {
+        setSharedHistory(message.data?.history ?? []);
+      }
+    };
+    window.addEventListener('message', handleMessage);
+    vscode.postMessage({ type: 'get_shared_workspaces' });
+    return () => window.removeEventListener('message', handleMessage);
+  }, [sharing]);
+
+  const handleWorkspaceChange = (key: string) => {
+    setWorkspaceKey(key);
+    setSharedHistory([]);
+    if (key !== CURRENT_WORKSPACE) {
+      vscode.postMessage({ type: 'get_shared_workspace_history', data: { workspaceKey: key } });
+    }
+  };
+
+  // Indexed search with the same filters as the global search box (action:, before:, after:)
+  const searchIndex = useMemo(() => SearchIndex.from(history.map(historyDocument)), [history]);
+  const parsedQuery = useMemo(() => parseQuery(searchQuery), [searchQuery]);
+  const filteredHistory = useMemo(() => {
+    if (!searchQuery.trim()) {
+      return history;
+    }
+    const byId = new Map(history.map(item => [item.id, item]));
+    return searchIndex.search(parsedQuery).map(result => byId.get(result.document.ref)!);
+  }, [history, searchIndex, parsedQuery, searchQuery]);
 
   const handleExport = () => {
     vscode.postMessage({ type: 'export_history', data: { history } });
@@ -90,58 +147,68 @@ export function HistoryPage() {
         <div>
           <h2 className="text-lg font-semibold flex items-center gap-2">
             <History className="size-5" />
-            对话历史
+            {t('history.title')}
           </h2>
-          <p className="text-sm text-muted-foreground">
-            共
-            {' '}
-            {history.length}
-            {' '}
-            条记录
+          <p className="text-sm text-muted-foreground flex items-center gap-2">
+            {t('history.count', { count: history.length })}
+            {readOnly && <Badge variant="outline" className="text-xs">{t('history.readOnly')}</Badge>}
           </p>
         </div>
         <div className="flex gap-2">
           <Button variant="outline" size="sm" onClick={handleExport} className="gap-1">
             <Download className="size-4" />
-            导出
+            {t('common.export')}
           </Button>
           <AlertDialog>
             <AlertDialogTrigger asChild>
-              <Button variant="destructive" size="sm" className="gap-1" disabled={history.length === 0}>
+              <Button variant="destructive" size="sm" className="gap-1" disabled={readOnly || history.length === 0}>
                 <Trash2 className="size-4" />
-                清空
+                {t('history.clear')}
               </Button>
             </AlertDialogTrigger>
             <AlertDialogContent>
               <AlertDialogHeader>
                 <AlertDialogTitle className="flex items-center gap-2">
                   <AlertTriangle className="size-5 text-destructive" />
-                  确认清空历史记录？
+                  {t('history.confirmClear')}
                 </AlertDialogTitle>
                 <AlertDialogDescription>
-                  此操作将删除所有
-                  {' '}
-                  {history.length}
-                  {' '}
-                  条历史记录，且无法恢复。
+                  {t('history.confirmClearDescription', { count: history.length })}
                 </AlertDialogDescription>
               </AlertDialogHeader>
               <AlertDialogFooter>
-                <AlertDialogCancel>取消</AlertDialogCancel>
-                <AlertDialogAction onClick={clearHistory}>确认清空</AlertDialogAction>
+                <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+                <AlertDialogAction onClick={clearHistory}>{t('history.clearAction')}</AlertDialogAction>
               </AlertDialogFooter>
             </AlertDialogContent>
           </AlertDialog>
         </div>
       </div>
 
+      {/* Workspace */}
+      {sharing && sharedWorkspaces.length > 0 && (
+        <Select value={workspaceKey} onValueChange={handleWorkspaceChange}>
+          <SelectTrigger aria-label={t('history.workspace')}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={CURRENT_WORKSPACE}>{t('history.currentWorkspace')}</SelectItem>
+            {sharedWorkspaces.map(workspace => (
+              <SelectItem key={workspace.workspaceKey} value={workspace.workspaceKey}>
+                {t('history.sharedWorkspace', { path: workspace.workspacePath || workspace.workspaceKey, count: workspace.historyCount })}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
       {/* Search */}
       <div className="relative">
         <Search className="absolute left-3 top-1/2 size-4 -translate-y-1/2 text-muted-foreground" />
         <Input
           value={searchQuery}
           onChange={e => setSearchQuery(e.target.value)}
-          placeholder="搜索历史记录..."
+          placeholder={t('history.searchPlaceholder')}
           className="pl-9"
         />
       </div>
@@ -154,7 +221,7 @@ export function HistoryPage() {
                 <CardContent className="flex flex-col items-center justify-center py-12">
                   <History className="size-12 text-muted-foreground/50 mb-4" />
                   <p className="text-muted-foreground">
-                    {searchQuery ? '没有找到匹配的记录' : '暂无历史记录'}
+                    {searchQuery ? t('history.noMatches') : t('history.empty')}
                   </p>
                 </CardContent>
               </Card>
@@ -175,23 +242,36 @@ export function HistoryPage() {
                                 ? (
                                     <>
                                       <Play className="size-3" />
-                                      继续
+                                      {t('common.continue')}
                                     </>
                                   )
                                 : (
                                     <>
                                       <Square className="size-3" />
-                                      结束
+                                      {t('common.end')}
                                     </>
                                   )}
                             </Badge>
+                            {item.resolution === 'timeout' && (
+                              <Badge variant="outline" className="text-xs">{t('history.timeout')}</Badge>
+                            )}
                             <span className="text-xs text-muted-foreground flex items-center gap-1">
                               <Clock className="size-3" />
-                              {formatDate(item.timestamp)}
+                              {formatDate(item.timestamp, language)}
                             </span>
                           </div>
 
-                          <p className="font-medium truncate">{item.summary}</p>
+                          {item.metadata?.summary && !item.summary
+                            ? (
+                                <p className="text-sm italic text-muted-foreground">
+                                  {t('history.contentNotStored', { length: item.metadata.summary.length, hash: item.metadata.summary.hash })}
+                                </p>
+                              )
+                            : (
+                                <p className="font-medium truncate">
+                                  <HighlightedText text={item.summary} words={parsedQuery.words} />
+                                </p>
+                              )}
 
                           <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
                             <FolderOpen className="size-3" />
@@ -200,32 +280,34 @@ export function HistoryPage() {
 
                           {item.userInstruction && (
                             <div className="mt-2 p-2 rounded bg-muted text-sm">
-                              <span className="text-muted-foreground">用户指令：</span>
+                              <span className="text-muted-foreground">{t('history.userInstruction')}</span>
                               {item.userInstruction}
                             </div>
                           )}
                         </div>
 
-                        <DropdownMenu>
-                          <DropdownMenuTrigger asChild>
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              className="opacity-0 group-hover:opacity-100 transition-opacity"
-                            >
-                              <MoreVertical className="size-4" />
-                            </Button>
-                          </DropdownMenuTrigger>
-                          <DropdownMenuContent align="end">
-                            <DropdownMenuItem
-                              className="text-destructive"
-                              onClick={() => deleteHistoryItem(item.id)}
-                            >
-                              <Trash2 className="size-4 mr-2" />
-                              删除
-                            </DropdownMenuItem>
-                          </DropdownMenuContent>
-                        </DropdownMenu>
+                        {!readOnly && (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="opacity-0 group-hover:opacity-100 transition-opacity"
+                              >
+                                <MoreVertical className="size-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem
+                                className="text-destructive"
+                                onClick={() => deleteHistoryItem(item.id)}
+                              >
+                                <Trash2 className="size-4 mr-2" />
+                                {t('common.delete')}
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        )}
                       </div>
                     </CardContent>
                   </Card>
@@ -1,10 +1,11 @@
 // Windsurf Endless Dialog Component
-import { AlertCircle, ChevronRight, Code, FileText, FlaskConical, History, Image as ImageIcon, Keyboard, Loader2, MessageCircle, MessageSquare, Play, Shield, Sparkles, Square, Star, Volume2, VolumeX, Wand2, Wrench, X, Zap } from 'lucide-react';
+import { AlertCircle, ChevronDown, ChevronRight, Clock, Code, FileText, FlaskConical, History, Image as ImageIcon, Keyboard, Loader2, MessageCircle, MessageSquare, Play, Shield, Sparkles, Square, Star, Volume2, VolumeX, Wand2, Wrench, X, Zap } from 'lucide-react';
 import { useCallback, useEffect, useRef, useState } from 'react';
 
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { Separator } from '@/components/ui/separator';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Textarea } from '@/components/ui/textarea';
@@ -12,17 +13,22 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/comp
 
 import { audioManager } from '../lib/audioManager';
 import { autoSubmitManager } from '../lib/autoSubmitManager';
+import { MAX_PASTED_IMAGES, processPastedImage } from '../lib/imageProcessor';
 import { promptManager } from '../lib/promptManager';
 import { sessionManager } from '../lib/sessionManager';
-import { useConversations, useHistory } from '../store';
+import { useConversations, useHistory, useI18n, useOptimizationProfiles, useSettings } from '../store';
 import { vscode } from '../utils/vscode';
 
 import { AutoSubmitCountdown } from './AutoSubmitCountdown';
 import { ConnectionStatus } from './ConnectionStatus';
 import { MarkdownRenderer } from './MarkdownRenderer';
+import { OptimizeReviewPanel } from './OptimizeReviewPanel';
 import { PromptManagerPanel } from './PromptManagerPanel';
 import { SessionHistoryPanel } from './SessionHistoryPanel';
 
+import type { MessageKey } from '../../shared/i18n';
+import type { PastedImage } from '../lib/imageProcessor';
+import type { DialogTimeoutAction } from '../types';
 import type { PromptTemplate } from '../types/session';
 
 const iconMap: Record<string, React.ComponentType<{ className?: string }>> = {
@@ -50,11 +56,32 @@ const colorMap: Record<string, string> = {
   indigo: 'bg-indigo-500/20 text-indigo-600 border-indigo-500/30 hover:bg-indigo-500/30',
 };
 
-interface InfiniteAskDialogProps {
+// Payload of an infinite_ask_request message
+export interface InfiniteAskRequestData {
   reason?: string;
   summary?: string;
   workspacePath?: string;
   panelId?: string;
+  // Epoch ms when the host applies timeoutAction
+  expiresAt?: number;
+  timeoutAction?: DialogTimeoutAction;
+}
+
+const timeoutActionLabels: Record<DialogTimeoutAction, MessageKey> = {
+  end: 'askDialog.timeoutEnd',
+  continue: 'askDialog.timeoutContinue',
+  template: 'askDialog.timeoutTemplate',
+};
+
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds].map(n => String(n).padStart(2, '0')).join(':');
+}
+
+interface InfiniteAskDialogProps extends InfiniteAskRequestData {
   onContinue?: (instruction?: string) => void;
   onEnd?: () => void;
 }
@@ -64,16 +91,27 @@ export function InfiniteAskDialog({
   summary = '',
   workspacePath = '',
   panelId: _panelId, // Reserved for future multi-window tracking
+  expiresAt,
+  timeoutAction = 'end',
   onContinue,
   onEnd,
 }: InfiniteAskDialogProps) {
   const { activeConversation, createConversation, switchConversation, updateConversation } = useConversations();
   const { addHistoryItem } = useHistory();
+  const { settings } = useSettings();
+  const { t } = useI18n();
+  const { profiles, defaultProfileId } = useOptimizationProfiles();
+  const defaultProfileName = profiles.find(p => p.id === defaultProfileId)?.name ?? t('builtinProfiles.general.name');
   const [instruction, setInstruction] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isOptimizing, setIsOptimizing] = useState(false);
+  // Local optimization being streamed in or reviewed against the original instruction
+  const [optimizeReview, setOptimizeReview] = useState<{ original: string; optimized: string; isStreaming: boolean } | null>(null);
   const [prompts, setPrompts] = useState<PromptTemplate[]>([]);
-  const [pastedImages, setPastedImages] = useState<{ id: string; dataUrl: string; name: string }[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(null);
+  const [pastedImages, setPastedImages] = useState<PastedImage[]>([]);
+  const [imageError, setImageError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
   const [audioEnabled, setAudioEnabled] = useState(audioManager.getSettings().enabled);
   const [activeTab, setActiveTab] = useState('main');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -85,7 +123,7 @@ export function InfiniteAskDialog({
       sessionManager.createSession(workspacePath, workspacePath);
     }
     if (!activeConversation) {
-      const created = createConversation('默认对话', workspacePath);
+      const created = createConversation(t('common.defaultConversation'), workspacePath);
       switchConversation(created.id);
     }
     else if (!activeConversation.workspacePath && workspacePath) {
@@ -103,21 +141,24 @@ export function InfiniteAskDialog({
     for (const item of items) {
       if (item.type.startsWith('image/')) {
         e.preventDefault();
+        if (pastedImages.length >= MAX_PASTED_IMAGES) {
+          setImageError(t('askDialog.maxImages', { max: MAX_PASTED_IMAGES }));
+          return;
+        }
         const file = item.getAsFile();
         if (file) {
-          const reader = new FileReader();
-          reader.onload = (event) => {
-            const dataUrl = event.target?.result as string;
-            setPastedImages(prev => [...prev, { id: `img-${Date.now()}`, dataUrl, name: file.name || 'image.png' }]);
-          };
-          reader.readAsDataURL(file);
+          setImageError(null);
+          processPastedImage(file)
+            .then(image => setPastedImages(prev => (prev.length >= MAX_PASTED_IMAGES ? prev : [...prev, image])))
+            .catch((error: Error) => setImageError(error.message));
         }
       }
     }
-  }, []);
+  }, [pastedImages.length]);
 
   const removeImage = useCallback((id: string) => {
     setPastedImages(prev => prev.filter(img => img.id !== id));
+    setImageError(null);
   }, []);
 
   const handleContinue = useCallback((customInstruction?: string) => {
@@ -125,7 +166,7 @@ export function InfiniteAskDialog({
     autoSubmitManager.cancel();
     const finalInstruction = customInstruction ?? instruction.trim();
     // Record session with both summary and reason
-    const displaySummary = summary || reason || '任务已完成';
+    const displaySummary = summary || reason || t('common.taskCompleted');
     sessionManager.addMessage({
       type: 'response',
       summary: displaySummary,
@@ -137,7 +178,7 @@ export function InfiniteAskDialog({
     const targetConversation = activeConversation;
     addHistoryItem({
       conversationId: targetConversation?.id ?? 'default',
-      conversationName: targetConversation?.name ?? '默认对话',
+      conversationName: targetConversation?.name ?? t('common.defaultConversation'),
       workspacePath: targetConversation?.workspacePath || workspacePath || '',
       summary: displaySummary,
       action: 'continue',
@@ -149,10 +190,11 @@ export function InfiniteAskDialog({
         shouldContinue: true,
         userInstruction: finalInstruction || undefined,
         images: pastedImages.length > 0 ? pastedImages : undefined,
+        selectedTemplateId: selectedTemplateId ?? undefined,
       },
     });
     onContinue?.(finalInstruction || undefined);
-  }, [instruction, onContinue, pastedImages, reason, summary, addHistoryItem, activeConversation, workspacePath]);
+  }, [instruction, onContinue, pastedImages, selectedTemplateId, reason, summary, addHistoryItem, activeConversation, workspacePath]);
 
   useEffect(() => {
     autoSubmitManager.setOnSubmit(() => handleContinue());
@@ -166,7 +208,7 @@ export function InfiniteAskDialog({
     setIsSubmitting(true);
     autoSubmitManager.cancel();
     // Record session with both summary and reason
-    const displaySummary = summary || reason || '任务已完成';
+    const displaySummary = summary || reason || t('common.taskCompleted');
     sessionManager.addMessage({
       type: 'response',
       summary: displaySummary,
@@ -176,7 +218,7 @@ export function InfiniteAskDialog({
     const targetConversation = activeConversation;
     addHistoryItem({
       conversationId: targetConversation?.id ?? 'default',
-      conversationName: targetConversation?.name ?? '默认对话',
+      conversationName: targetConversation?.name ?? t('common.defaultConversation'),
       workspacePath: targetConversation?.workspacePath || workspacePath || '',
       summary: displaySummary,
       action: 'end',
@@ -191,6 +233,7 @@ export function InfiniteAskDialog({
 
   const handlePromptSelect = useCallback((prompt: PromptTemplate) => {
     setInstruction(prompt.content);
+    setSelectedTemplateId(prompt.id);
     promptManager.recordUsage(prompt.id);
     if (prompt.autoSubmit && prompt.autoSubmitDelay) {
       autoSubmitManager.start(prompt.autoSubmitDelay, 'prompt');
@@ -198,14 +241,28 @@ export function InfiniteAskDialog({
     setActiveTab('main');
   }, []);
 
-  const handleLocalOptimize = useCallback(async () => {
+  // Without a profile id the host applies the default optimization profile
+  const handleLocalOptimize = useCallback(async (profileId?: string) => {
     if (!instruction.trim() || isOptimizing) {
       return;
     }
     setIsOptimizing(true);
-    vscode.postMessage({ type: 'optimize_prompt', data: { prompt: instruction.trim() } });
+    setOptimizeReview({ original: instruction.trim(), optimized: '', isStreaming: true });
+    vscode.postMessage({ type: 'optimize_prompt', data: { prompt: instruction.trim(), profileId } });
   }, [instruction, isOptimizing]);
 
+  const handleCancelOptimize = useCallback(() => {
+    vscode.postMessage({ type: 'cancel_optimize_prompt' });
+    setIsOptimizing(false);
+    setOptimizeReview(null);
+  }, []);
+
+  const handleApplyOptimized = useCallback((text: string) => {
+    setInstruction(text);
+    setOptimizeReview(null);
+    setTimeout(() => textareaRef.current?.focus(), 100);
+  }, []);
+
   const handleAIOptimize = useCallback(async () => {
     if (!instruction.trim() || isOptimizing) {
       return;
@@ -226,20 +283,31 @@ export function InfiniteAskDialog({
   useEffect(() => {
     const handler = (event: MessageEvent) => {
       const msg = event.data;
-      if (msg.type === 'prompt_optimized') {
+      if (msg.type === 'prompt_optimize_chunk' && msg.data?.chunk) {
+        setOptimizeReview(prev => prev?.isStreaming ? { ...prev, optimized: prev.optimized + msg.data.chunk } : prev);
+      }
+      else if (msg.type === 'prompt_optimized') {
         setIsOptimizing(false);
-        if (msg.data?.optimizedPrompt) {
-          setInstruction(msg.data.optimizedPrompt);
-        }
+        // The final text replaces the streamed one, which may carry untrimmed whitespace
+        setOptimizeReview(prev => prev && msg.data?.optimizedPrompt
+          ? { ...prev, optimized: msg.data.optimizedPrompt, isStreaming: false }
+          : null);
       }
       else if (msg.type === 'prompt_optimize_error') {
         setIsOptimizing(false);
+        setOptimizeReview(null);
       }
       else if (msg.type === 'fill_input' && msg.data?.content) {
         setInstruction(msg.data.content);
         setIsOptimizing(false);
+        setOptimizeReview(null);
         setTimeout(() => textareaRef.current?.focus(), 100);
       }
+      else if (msg.type === 'infinite_ask_request') {
+        // The host aborts an optimization when it moves on to the next checkpoint
+        setIsOptimizing(false);
+        setOptimizeReview(null);
+      }
     };
     window.addEventListener('message', handler);
     return () => window.removeEventListener('message', handler);
@@ -270,6 +338,27 @@ export function InfiniteAskDialog({
     return () => window.removeEventListener('keydown', handler);
   }, [prompts, isSubmitting, handleContinue, handleEnd, handlePromptSelect]);
 
+  // Force the configured dialog theme; 'system' follows VS Code
+  useEffect(() => {
+    const theme = settings.dialogTheme;
+    if (!theme || theme === 'system') {
+      return;
+    }
+    document.body.dataset.theme = theme;
+    return () => {
+      delete document.body.dataset.theme;
+    };
+  }, [settings.dialogTheme]);
+
+  // Tick the timeout countdown
+  useEffect(() => {
+    if (!expiresAt) {
+      return;
+    }
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [expiresAt]);
+
   const getIcon = (name: string) => iconMap[name] || Zap;
 
   return (
@@ -290,17 +379,31 @@ export function InfiniteAskDialog({
                       {audioEnabled ? <Volume2 className="size-4" /> : <VolumeX className="size-4 text-muted-foreground" />}
                     </Button>
                   </TooltipTrigger>
-                  <TooltipContent>{audioEnabled ? '关闭提示音' : '开启提示音'}</TooltipContent>
+                  <TooltipContent>{audioEnabled ? t('askDialog.muteSound') : t('askDialog.unmuteSound')}</TooltipContent>
                 </Tooltip>
               </TooltipProvider>
               <Badge variant="outline" className="gap-1 text-xs">
                 <Keyboard className="size-3" />
-                快捷键
+                {t('askDialog.hotkeys')}
               </Badge>
-              <Badge variant="secondary" className="font-mono">等待确认</Badge>
+              {expiresAt
+                ? (
+                    <TooltipProvider delayDuration={0}>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Badge variant="secondary" className="gap-1 font-mono">
+                            <Clock className="size-3" />
+                            {formatRemaining(expiresAt - now)}
+                          </Badge>
+                        </TooltipTrigger>
+                        <TooltipContent>{t(timeoutActionLabels[timeoutAction])}</TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  )
+                : <Badge variant="secondary" className="font-mono">{t('askDialog.waiting')}</Badge>}
             </div>
           </div>
-          <CardDescription className="text-base">AI 已完成当前任务，请选择是否继续对话</CardDescription>
+          <CardDescription className="text-base">{t('askDialog.description')}</CardDescription>
         </CardHeader>
         <Separator />
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
@@ -308,15 +411,15 @@ export function InfiniteAskDialog({
             <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="main" className="text-xs">
                 <MessageSquare className="size-3 mr-1" />
-                对话
+                {t('askDialog.tabConversation')}
               </TabsTrigger>
               <TabsTrigger value="prompts" className="text-xs">
                 <Star className="size-3 mr-1" />
-                提示词
+                {t('askDialog.tabPrompts')}
               </TabsTrigger>
               <TabsTrigger value="history" className="text-xs">
                 <History className="size-3 mr-1" />
-                历史
+                {t('askDialog.tabHistory')}
               </TabsTrigger>
             </TabsList>
           </div>
@@ -327,7 +430,7 @@ export function InfiniteAskDialog({
                 <div className="space-y-2">
                   <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
                     <Sparkles className="size-4" />
-                    <span>AI 完成的任务：</span>
+                    <span>{t('askDialog.summaryLabel')}</span>
                   </div>
                   <div className="rounded-lg bg-primary/10 border border-primary/20 p-3 text-sm leading-relaxed">
                     <MarkdownRenderer content={summary} />
@@ -339,7 +442,7 @@ export function InfiniteAskDialog({
                 <div className="space-y-2">
                   <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
                     <AlertCircle className="size-4" />
-                    <span>AI 想要结束的原因：</span>
+                    <span>{t('askDialog.reasonLabel')}</span>
                   </div>
                   <div className="rounded-lg bg-muted p-3 text-sm leading-relaxed">
                     <MarkdownRenderer content={reason} />
@@ -351,12 +454,12 @@ export function InfiniteAskDialog({
                 <div className="space-y-2">
                   <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
                     <Sparkles className="size-4" />
-                    <span>AI 状态：</span>
+                    <span>{t('askDialog.statusLabel')}</span>
                   </div>
                   <div className="rounded-lg bg-primary/10 border border-primary/20 p-3 text-sm leading-relaxed">
-                    <p className="text-muted-foreground">AI 已完成当前任务阶段，正在等待您的确认。</p>
+                    <p className="text-muted-foreground">{t('askDialog.statusWaiting')}</p>
                     <p className="mt-2 text-xs text-muted-foreground/70">
-                      提示：如果您看到此消息但期望看到详细的任务摘要，可能是 MCP 工具调用时未提供 summary 参数。
+                      {t('askDialog.missingSummaryHint')}
                     </p>
                   </div>
                 </div>
@@ -365,10 +468,10 @@ export function InfiniteAskDialog({
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
                     <Zap className="size-4" />
-                    <span>快捷指令：</span>
+                    <span>{t('askDialog.shortcutsLabel')}</span>
                   </div>
                   <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={() => setActiveTab('prompts')}>
-                    管理
+                    {t('askDialog.manage')}
                     <ChevronRight className="size-3 ml-1" />
                   </Button>
                 </div>
@@ -404,45 +507,88 @@ export function InfiniteAskDialog({
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
                     <MessageSquare className="size-4" />
-                    <span>自定义指令：</span>
+                    <span>{t('askDialog.customInstruction')}</span>
                   </div>
                   <div className="flex items-center gap-1">
                     <TooltipProvider delayDuration={0}>
                       <Tooltip>
                         <TooltipTrigger asChild>
-                          <Button variant="ghost" size="sm" onClick={handleLocalOptimize} disabled={isSubmitting || isOptimizing || !instruction.trim()} className="gap-1 h-7 text-xs">
+                          <Button variant="ghost" size="sm" onClick={isOptimizing ? handleCancelOptimize : () => handleLocalOptimize()} disabled={isSubmitting || (!isOptimizing && !instruction.trim())} className="gap-1 h-7 text-xs">
                             {isOptimizing
                               ? (
                                   <>
                                     <Loader2 className="size-3 animate-spin" />
-                                    优化中...
+                                    {t('askDialog.cancelOptimize')}
                                   </>
                                 )
                               : (
                                   <>
                                     <Wand2 className="size-3" />
-                                    本地优化
+                                    {t('askDialog.localOptimize')}
                                   </>
                                 )}
                           </Button>
                         </TooltipTrigger>
-                        <TooltipContent side="bottom"><p className="text-xs">使用Copilot优化</p></TooltipContent>
+                        <TooltipContent side="bottom"><p className="text-xs">{isOptimizing ? t('askDialog.optimizingClickToCancel') : t('askDialog.optimizeWithDefault', { profile: defaultProfileName })}</p></TooltipContent>
                       </Tooltip>
                     </TooltipProvider>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="sm" aria-label={t('askDialog.chooseProfile')} disabled={isSubmitting || isOptimizing || !instruction.trim() || profiles.length === 0} className="h-7 px-1">
+                          <ChevronDown className="size-3" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuLabel className="text-xs">{t('askDialog.chooseProfile')}</DropdownMenuLabel>
+                        {profiles.map(profile => (
+                          <DropdownMenuItem key={profile.id} onClick={() => handleLocalOptimize(profile.id)} className="flex-col items-start gap-0">
+                            <span className="text-sm">
+                              {profile.name}
+                              {profile.id === defaultProfileId && <span className="text-xs text-muted-foreground">{t('askDialog.defaultMark')}</span>}
+                            </span>
+                            {profile.description && <span className="text-xs text-muted-foreground">{profile.description}</span>}
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
                     <TooltipProvider delayDuration={0}>
                       <Tooltip>
                         <TooltipTrigger asChild>
                           <Button variant="outline" size="sm" onClick={handleAIOptimize} disabled={isSubmitting || isOptimizing || !instruction.trim()} className="gap-1 h-7 text-xs">
                             <Sparkles className="size-3" />
-                            AI优化
+                            {t('askDialog.aiOptimize')}
                           </Button>
                         </TooltipTrigger>
-                        <TooltipContent side="bottom"><p className="text-xs">让AI优化并填入</p></TooltipContent>
+                        <TooltipContent side="bottom"><p className="text-xs">{t('askDialog.aiOptimizeHint')}</p></TooltipContent>
                       </Tooltip>
                     </TooltipProvider>
                   </div>
                 </div>
-                <Textarea ref={textareaRef} value={instruction} onChange={e => setInstruction(e.target.value)} onPaste={handlePaste} placeholder="输入自定义指令... (Ctrl+Enter 发送，支持粘贴图片)" className="min-h-[80px] resize-none" disabled={isSubmitting} />
+                {optimizeReview && (
+                  <OptimizeReviewPanel
+                    original={optimizeReview.original}
+                    optimized={optimizeReview.optimized}
+                    isStreaming={optimizeReview.isStreaming}
+                    onApply={handleApplyOptimized}
+                    onDiscard={() => setOptimizeReview(null)}
+                    onCancel={handleCancelOptimize}
+                  />
+                )}
+                <Textarea
+                  ref={textareaRef}
+                  value={instruction}
+                  onChange={(e) => {
+                    setInstruction(e.target.value);
+                    // Clearing the input drops the template the instruction was based on
+                    if (!e.target.value.trim()) {
+                      setSelectedTemplateId(null);
+                    }
+                  }}
+                  onPaste={handlePaste}
+                  placeholder={t('askDialog.instructionPlaceholder')}
+                  className="min-h-[80px] resize-none"
+                  disabled={isSubmitting}
+                />
                 {pastedImages.length > 0 && (
                   <div className="flex flex-wrap gap-2 mt-2">
                     {pastedImages.map(img => (
@@ -450,7 +596,7 @@ export function InfiniteAskDialog({
                         <img src={img.dataUrl} alt={img.name} className="h-16 w-16 object-cover rounded-md border" />
                         <button
                           type="button"
-                          aria-label="移除图片"
+                          aria-label={t('askDialog.removeImage')}
                           onClick={() => removeImage(img.id)}
                           className="absolute -top-1 -right-1 size-4 bg-destructive text-destructive-foreground rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
                         >
@@ -461,13 +607,17 @@ export function InfiniteAskDialog({
                     <div className="flex items-center gap-1 text-xs text-muted-foreground">
                       <ImageIcon className="size-3" />
                       <span>
-                        {pastedImages.length}
-                        {' '}
-                        张图片
+                        {t('askDialog.imageCount', { count: pastedImages.length })}
                       </span>
                     </div>
                   </div>
                 )}
+                {imageError && (
+                  <p className="flex items-center gap-1 text-xs text-destructive">
+                    <AlertCircle className="size-3" />
+                    {imageError}
+                  </p>
+                )}
               </div>
             </CardContent>
           </TabsContent>
@@ -482,11 +632,11 @@ export function InfiniteAskDialog({
         <CardFooter className="flex gap-3 pt-4">
           <Button onClick={() => handleContinue()} disabled={isSubmitting} className="flex-1 gap-2" size="lg">
             <Play className="size-4" />
-            继续执行
+            {t('askDialog.continue')}
           </Button>
           <Button onClick={handleEnd} disabled={isSubmitting} variant="destructive" className="flex-1 gap-2" size="lg">
             <Square className="size-4" />
-            结束对话
+            {t('askDialog.end')}
           </Button>
         </CardFooter>
       </Card>
@@ -495,11 +645,12 @@ export function InfiniteAskDialog({
 }
 
 interface InfiniteAskPageProps {
-  initialData?: { reason?: string; summary?: string; workspacePath?: string; panelId?: string } | null;
+  initialData?: InfiniteAskRequestData | null;
 }
 
 export function InfiniteAskPage({ initialData }: InfiniteAskPageProps = {}) {
-  const [dialogData, setDialogData] = useState<{ reason?: string; summary?: string; workspacePath?: string; panelId?: string }>(
+  const { t } = useI18n();
+  const [dialogData, setDialogData] = useState<InfiniteAskRequestData>(
     initialData || {},
   );
   const [isResolved, setIsResolved] = useState(false);
@@ -527,6 +678,8 @@ export function InfiniteAskPage({ initialData }: InfiniteAskPageProps = {}) {
           summary,
           workspacePath: data.workspacePath || '',
           panelId: data.panelId || '',
+          expiresAt: data.expiresAt,
+          timeoutAction: data.timeoutAction,
         });
         setIsResolved(false);
       }
@@ -541,8 +694,8 @@ export function InfiniteAskPage({ initialData }: InfiniteAskPageProps = {}) {
       <div className="flex min-h-screen items-center justify-center">
         <Card className="w-full max-w-md text-center p-8">
           <Sparkles className="size-12 mx-auto text-primary mb-4" />
-          <h2 className="text-xl font-semibold mb-2">已提交</h2>
-          <p className="text-muted-foreground">您的选择已发送给 AI</p>
+          <h2 className="text-xl font-semibold mb-2">{t('askDialog.submitted')}</h2>
+          <p className="text-muted-foreground">{t('askDialog.submittedHint')}</p>
         </Card>
       </div>
     );
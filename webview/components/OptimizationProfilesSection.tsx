@@ -0,0 +1,277 @@
+/**
+ * Optimization Profiles Section Component
+ * Edit the named instructions used by prompt optimization
+ */
+
+import {
+  Edit2,
+  MoreVertical,
+  Plus,
+  RotateCcw,
+  Star,
+  Trash2,
+  Wand2,
+} from 'lucide-react';
+import { useState } from 'react';
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+import { useI18n, useOptimizationProfiles } from '../store';
+
+import type { OptimizationProfile } from '../types';
+
+const emptyForm = { name: '', description: '', systemPrompt: '' };
+
+export function OptimizationProfilesSection() {
+  const { profiles, defaultProfileId, saveProfiles } = useOptimizationProfiles();
+  const { t } = useI18n();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [editingProfile, setEditingProfile] = useState<OptimizationProfile | null>(null);
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+  const [isResetOpen, setIsResetOpen] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const closeForm = () => {
+    setIsCreateOpen(false);
+    setEditingProfile(null);
+    setFormData(emptyForm);
+  };
+
+  const handleSubmit = () => {
+    if (!formData.name.trim() || !formData.systemPrompt.trim()) {
+      return;
+    }
+    const next = editingProfile
+      ? profiles.map(p => (p.id === editingProfile.id ? { ...p, ...formData } : p))
+      : [...profiles, { id: `profile-${Date.now()}`, ...formData }];
+    saveProfiles({ profiles: next, defaultProfileId });
+    closeForm();
+  };
+
+  const handleDelete = (id: string) => {
+    const next = profiles.filter(p => p.id !== id);
+    saveProfiles({ profiles: next, defaultProfileId: id === defaultProfileId ? next[0].id : defaultProfileId });
+    setDeleteConfirmId(null);
+  };
+
+  const openEdit = (profile: OptimizationProfile) => {
+    setFormData({ name: profile.name, description: profile.description, systemPrompt: profile.systemPrompt });
+    setEditingProfile(profile);
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <Wand2 className="size-5" />
+            {t('profiles.title')}
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            {t('profiles.subtitleBefore')}
+            {' '}
+            <code>profile</code>
+            {' '}
+            {t('profiles.subtitleAfter')}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => setIsResetOpen(true)} className="gap-1">
+            <RotateCcw className="size-4" />
+            {t('profiles.restoreBuiltin')}
+          </Button>
+          <Button size="sm" onClick={() => setIsCreateOpen(true)} className="gap-1">
+            <Plus className="size-4" />
+            {t('profiles.new')}
+          </Button>
+        </div>
+      </div>
+
+      {/* Profiles List */}
+      <div className="grid gap-3 md:grid-cols-2">
+        {profiles.map(profile => (
+          <Card key={profile.id} className="group">
+            <CardContent className="p-4">
+              <div className="flex items-start justify-between gap-2">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="font-medium truncate">{profile.name}</span>
+                    {profile.id === defaultProfileId && (
+                      <Badge variant="secondary" className="text-xs">{t('profiles.default')}</Badge>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground mb-2 line-clamp-1">
+                    {profile.description}
+                  </p>
+                  <p className="text-xs bg-muted p-2 rounded line-clamp-2 whitespace-pre-wrap">
+                    {profile.systemPrompt}
+                  </p>
+                </div>
+
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="opacity-0 group-hover:opacity-100 transition-opacity shrink-0"
+                    >
+                      <MoreVertical className="size-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem
+                      disabled={profile.id === defaultProfileId}
+                      onClick={() => saveProfiles({ profiles, defaultProfileId: profile.id })}
+                    >
+                      <Star className="size-4 mr-2" />
+                      {t('profiles.setDefault')}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => openEdit(profile)}>
+                      <Edit2 className="size-4 mr-2" />
+                      {t('common.edit')}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      className="text-destructive"
+                      disabled={profiles.length <= 1}
+                      onClick={() => setDeleteConfirmId(profile.id)}
+                    >
+                      <Trash2 className="size-4 mr-2" />
+                      {t('common.delete')}
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Create/Edit Dialog */}
+      <Dialog
+        open={isCreateOpen || !!editingProfile}
+        onOpenChange={(open) => {
+          if (!open) {
+            closeForm();
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editingProfile ? t('profiles.editTitle') : t('profiles.newTitle')}
+            </DialogTitle>
+            <DialogDescription>
+              {t('profiles.dialogDescription')}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="profile-name">{t('profiles.name')}</Label>
+              <Input
+                id="profile-name"
+                value={formData.name}
+                onChange={e => setFormData({ ...formData, name: e.target.value })}
+                placeholder={t('profiles.namePlaceholder')}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="profile-description">{t('prompts.description')}</Label>
+              <Input
+                id="profile-description"
+                value={formData.description}
+                onChange={e => setFormData({ ...formData, description: e.target.value })}
+                placeholder={t('profiles.descriptionPlaceholder')}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="profile-system-prompt">{t('profiles.systemPrompt')}</Label>
+              <Textarea
+                id="profile-system-prompt"
+                value={formData.systemPrompt}
+                onChange={e => setFormData({ ...formData, systemPrompt: e.target.value })}
+                placeholder={t('profiles.systemPromptPlaceholder')}
+                rows={6}
+              />
+              <p className="text-xs text-muted-foreground">{t('profiles.systemPromptHint')}</p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeForm}>
+              {t('common.cancel')}
+            </Button>
+            <Button onClick={handleSubmit} disabled={!formData.name.trim() || !formData.systemPrompt.trim()}>
+              {editingProfile ? t('common.save') : t('common.create')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleteConfirmId} onOpenChange={() => setDeleteConfirmId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('profiles.confirmDelete')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('profiles.confirmDeleteDescription')}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleteConfirmId && handleDelete(deleteConfirmId)}>
+              {t('common.delete')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Reset Confirmation */}
+      <AlertDialog open={isResetOpen} onOpenChange={setIsResetOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('profiles.confirmRestore')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('profiles.confirmRestoreDescription')}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+            {/* The host restores the built-in profiles when it receives an empty list */}
+            <AlertDialogAction onClick={() => saveProfiles({ profiles: [], defaultProfileId: '' })}>
+              {t('common.restore')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+/**
+ * Optimize Review Panel Component
+ * Shows a prompt optimization while it streams in, then a diff against the
+ * original whose hunks can be accepted, rejected or edited before applying
+ */
+
+import { Check, Loader2, Pencil, RotateCcw, Square, Wand2, X } from 'lucide-react';
+import { useMemo, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+import { applyDiff, diffText } from '../lib/textDiff';
+import { useI18n } from '../store';
+
+import type { DiffHunk } from '../lib/textDiff';
+
+interface OptimizeReviewPanelProps {
+  original: string;
+  /** Optimized text received so far */
+  optimized: string;
+  isStreaming: boolean;
+  onApply: (text: string) => void;
+  onDiscard: () => void;
+  onCancel: () => void;
+}
+
+export function OptimizeReviewPanel({ original, optimized, isStreaming, onApply, onDiscard, onCancel }: OptimizeReviewPanelProps) {
+  const { t } = useI18n();
+  // Text chosen per hunk id; hunks without an entry are still undecided
+  const [resolutions, setResolutions] = useState<Record<number, string>>({});
+  const [editing, setEditing] = useState<{ id: number; text: string } | null>(null);
+
+  const segments = useMemo(() => (isStreaming ? [] : diffText(original, optimized)), [isStreaming, original, optimized]);
+  const hunks = useMemo(() => segments.filter((segment): segment is DiffHunk => segment.type === 'change'), [segments]);
+  const pendingCount = hunks.filter(hunk => resolutions[hunk.id] === undefined).length;
+
+  const resolve = (id: number, text: string | undefined) => {
+    setResolutions((prev) => {
+      const next = { ...prev };
+      if (text === undefined) {
+        delete next[id];
+      }
+      else {
+        next[id] = text;
+      }
+      return next;
+    });
+  };
+
+  const resolveAll = (pick: (hunk: DiffHunk) => string) => {
+    setEditing(null);
+    setResolutions(Object.fromEntries(hunks.map(hunk => [hunk.id, pick(hunk)])));
+  };
+
+  const finishEditing = () => {
+    if (editing) {
+      resolve(editing.id, editing.text);
+      setEditing(null);
+    }
+  };
+
+  const renderHunk = (hunk: DiffHunk) => {
+    if (editing?.id === hunk.id) {
+      return (
+        <span key={hunk.id} className="inline-flex items-center gap-1 align-middle">
+          <Input
+            autoFocus
+            value={editing.text}
+            onChange={e => setEditing({ id: hunk.id, text: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                finishEditing();
+              }
+              else if (e.key === 'Escape') {
+                e.stopPropagation();
+                setEditing(null);
+              }
+            }}
+            className="h-6 w-48 text-xs"
+          />
+          <Button variant="ghost" size="icon" className="size-5" onClick={finishEditing} aria-label={t('review.confirmEdit')}>
+            <Check className="size-3" />
+          </Button>
+        </span>
+      );
+    }
+
+    const resolution = resolutions[hunk.id];
+    if (resolution !== undefined) {
+      const state = resolution === hunk.added ? 'accepted' : resolution === hunk.removed ? 'rejected' : 'edited';
+      return (
+        <span key={hunk.id} className="group">
+          <span
+            className={state === 'accepted'
+              ? 'bg-green-500/15 text-green-600 dark:text-green-400 rounded-sm'
+              : state === 'edited' ? 'bg-blue-500/15 text-blue-600 dark:text-blue-400 rounded-sm' : undefined}
+          >
+            {resolution}
+          </span>
+          <button
+            type="button"
+            aria-label={t('review.undo')}
+            onClick={() => resolve(hunk.id, undefined)}
+            className="inline-flex align-middle ml-0.5 text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity"
+          >
+            <RotateCcw className="size-3" />
+          </button>
+        </span>
+      );
+    }
+
+    return (
+      <span key={hunk.id} className="rounded-sm ring-1 ring-border">
+        {hunk.removed && <del className="bg-red-500/15 text-red-600 dark:text-red-400">{hunk.removed}</del>}
+        {hunk.added && <ins className="bg-green-500/15 text-green-600 dark:text-green-400 no-underline">{hunk.added}</ins>}
+        <span className="inline-flex align-middle gap-0.5 mx-0.5">
+          <button type="button" aria-label={t('review.accept')} onClick={() => resolve(hunk.id, hunk.added)} className="text-green-600 hover:bg-accent rounded-sm">
+            <Check className="size-3" />
+          </button>
+          <button type="button" aria-label={t('review.reject')} onClick={() => resolve(hunk.id, hunk.removed)} className="text-red-600 hover:bg-accent rounded-sm">
+            <X className="size-3" />
+          </button>
+          <button type="button" aria-label={t('review.edit')} onClick={() => setEditing({ id: hunk.id, text: hunk.added })} className="text-muted-foreground hover:bg-accent rounded-sm">
+            <Pencil className="size-3" />
+          </button>
+        </span>
+      </span>
+    );
+  };
+
+  return (
+    <div className="rounded-md border p-3 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          {isStreaming ? <Loader2 className="size-4 animate-spin" /> : <Wand2 className="size-4" />}
+          <span>{isStreaming ? t('review.streaming') : t('review.result')}</span>
+          {!isStreaming && (
+            <Badge variant="secondary" className="text-xs">
+              {t('review.changes', { count: hunks.length })}
+              {pendingCount > 0 && pendingCount < hunks.length && t('review.pending', { count: pendingCount })}
+            </Badge>
+          )}
+        </div>
+        {isStreaming && (
+          <Button variant="ghost" size="sm" onClick={onCancel} className="gap-1 h-7 text-xs">
+            <Square className="size-3" />
+            {t('common.cancel')}
+          </Button>
+        )}
+      </div>
+
+      <div className="max-h-64 overflow-y-auto whitespace-pre-wrap break-words text-sm leading-relaxed">
+        {isStreaming
+          ? (
+              <>
+                {optimized}
+                <span className="inline-block w-1.5 h-4 align-middle bg-foreground/60 animate-pulse" />
+              </>
+            )
+          : segments.map((segment, index) => segment.type === 'equal'
+              ? <span key={`equal-${index}`}>{segment.text}</span>
+              : renderHunk(segment))}
+      </div>
+
+      {!isStreaming && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => resolveAll(hunk => hunk.added)} disabled={hunks.length === 0}>
+            {t('review.acceptAll')}
+          </Button>
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => resolveAll(hunk => hunk.removed)} disabled={hunks.length === 0}>
+            {t('review.rejectAll')}
+          </Button>
+          <div className="ml-auto flex gap-2">
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={onDiscard}>
+              {t('review.discard')}
+            </Button>
+            <Button size="sm" className="h-7 text-xs gap-1" onClick={() => onApply(applyDiff(segments, resolutions))} disabled={!!editing}>
+              <Check className="size-3" />
+              {t('review.apply')}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
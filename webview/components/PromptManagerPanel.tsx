@@ -50,6 +50,7 @@ import { Switch } from '@/components/ui/switch';
 import { Textarea } from '@/components/ui/textarea';
 
 import { promptManager } from '../lib/promptManager';
+import { useI18n } from '../store';
 import { DEFAULT_CATEGORIES } from '../types/session';
 
 import type { PromptTemplate } from '../types/session';
@@ -60,29 +61,29 @@ interface PromptManagerPanelProps {
 }
 
 const iconOptions = [
-  { value: 'play', label: '▶ 播放' },
-  { value: 'sparkles', label: '✨ 星光' },
-  { value: 'flask', label: '🧪 实验' },
-  { value: 'wrench', label: '🔧 工具' },
-  { value: 'file-text', label: '📄 文档' },
-  { value: 'message-circle', label: '💬 消息' },
-  { value: 'code', label: '💻 代码' },
-  { value: 'zap', label: '⚡ 闪电' },
-  { value: 'shield', label: '🛡️ 安全' },
-  { value: 'star', label: '⭐ 星标' },
-];
+  { value: 'play', emoji: '▶' },
+  { value: 'sparkles', emoji: '✨' },
+  { value: 'flask', emoji: '🧪' },
+  { value: 'wrench', emoji: '🔧' },
+  { value: 'file-text', emoji: '📄' },
+  { value: 'message-circle', emoji: '💬' },
+  { value: 'code', emoji: '💻' },
+  { value: 'zap', emoji: '⚡' },
+  { value: 'shield', emoji: '🛡️' },
+  { value: 'star', emoji: '⭐' },
+] as const;
 
 const colorOptions = [
-  { value: 'green', label: '绿色', class: 'bg-green-500' },
-  { value: 'blue', label: '蓝色', class: 'bg-blue-500' },
-  { value: 'purple', label: '紫色', class: 'bg-purple-500' },
-  { value: 'orange', label: '橙色', class: 'bg-orange-500' },
-  { value: 'cyan', label: '青色', class: 'bg-cyan-500' },
-  { value: 'pink', label: '粉色', class: 'bg-pink-500' },
-  { value: 'red', label: '红色', class: 'bg-red-500' },
-  { value: 'yellow', label: '黄色', class: 'bg-yellow-500' },
-  { value: 'indigo', label: '靛蓝', class: 'bg-indigo-500' },
-];
+  { value: 'green', class: 'bg-green-500' },
+  { value: 'blue', class: 'bg-blue-500' },
+  { value: 'purple', class: 'bg-purple-500' },
+  { value: 'orange', class: 'bg-orange-500' },
+  { value: 'cyan', class: 'bg-cyan-500' },
+  { value: 'pink', class: 'bg-pink-500' },
+  { value: 'red', class: 'bg-red-500' },
+  { value: 'yellow', class: 'bg-yellow-500' },
+  { value: 'indigo', class: 'bg-indigo-500' },
+] as const;
 
 const defaultNewPrompt: Partial<PromptTemplate> = {
   name: '',
@@ -97,6 +98,7 @@ const defaultNewPrompt: Partial<PromptTemplate> = {
 };
 
 export function PromptManagerPanel({ onSelectPrompt, mode = 'manage' }: PromptManagerPanelProps) {
+  const { t } = useI18n();
   const [prompts, setPrompts] = useState<PromptTemplate[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
@@ -188,7 +190,7 @@ export function PromptManagerPanel({ onSelectPrompt, mode = 'manage' }: PromptMa
 
   const handleReset = useCallback(() => {
     // eslint-disable-next-line no-alert
-    if (window.confirm('确定要重置所有提示词为默认值吗？这将删除所有自定义提示词。')) {
+    if (window.confirm(t('prompts.confirmReset'))) {
       promptManager.resetToDefaults();
     }
   }, []);
@@ -226,8 +228,9 @@ export function PromptManagerPanel({ onSelectPrompt, mode = 'manage' }: PromptMa
   }, []);
 
   const getCategoryLabel = (categoryId: string) => {
-    const cat = DEFAULT_CATEGORIES.find(c => c.id === categoryId);
-    return cat?.name || categoryId;
+    return DEFAULT_CATEGORIES.some(c => c.id === categoryId)
+      ? t(`promptCategories.${categoryId as PromptTemplate['category']}`)
+      : categoryId;
   };
 
   return (
@@ -237,27 +240,23 @@ export function PromptManagerPanel({ onSelectPrompt, mode = 'manage' }: PromptMa
           <div>
             <CardTitle className="text-lg flex items-center gap-2">
               <Star className="size-5" />
-              {mode === 'select' ? '选择提示词' : '提示词管理'}
+              {mode === 'select' ? t('prompts.selectTitle') : t('prompts.title')}
             </CardTitle>
             <CardDescription>
-              共
-              {' '}
-              {prompts.length}
-              {' '}
-              个提示词
+              {t('prompts.count', { count: prompts.length })}
             </CardDescription>
           </div>
           {mode === 'manage' && (
             <div className="flex items-center gap-2">
               <Button variant="outline" size="sm" onClick={handleExport}>
-                导出
+                {t('common.export')}
               </Button>
               <Button variant="outline" size="sm" onClick={handleImport}>
-                导入
+                {t('common.import')}
               </Button>
               <Button size="sm" onClick={handleCreateNew}>
                 <Plus className="size-4 mr-1" />
-                新建
+                {t('common.new')}
               </Button>
             </div>
           )}
@@ -271,7 +270,7 @@ export function PromptManagerPanel({ onSelectPrompt, mode = 'manage' }: PromptMa
         <div className="relative">
           <Search className="absolute left-2.5 top-2.5 size-4 text-muted-foreground" />
           <Input
-            placeholder="搜索提示词..."
+            placeholder={t('prompts.searchPlaceholder')}
             value={searchQuery}
             onChange={e => setSearchQuery(e.target.value)}
             className="pl-9"
@@ -285,7 +284,7 @@ export function PromptManagerPanel({ onSelectPrompt, mode = 'manage' }: PromptMa
             className="cursor-pointer shrink-0"
             onClick={() => setSelectedCategory('all')}
           >
-            全部
+            {t('prompts.all')}
           </Badge>
           {DEFAULT_CATEGORIES.map(cat => (
             <Badge
@@ -294,7 +293,7 @@ export function PromptManagerPanel({ onSelectPrompt, mode = 'manage' }: PromptMa
               className="cursor-pointer shrink-0"
               onClick={() => setSelectedCategory(cat.id)}
             >
-              {cat.name}
+              {getCategoryLabel(cat.id)}
             </Badge>
           ))}
         </div>
@@ -309,11 +308,11 @@ export function PromptManagerPanel({ onSelectPrompt, mode = 'manage' }: PromptMa
             ? (
                 <div className="p-8 text-center text-muted-foreground">
                   <Star className="size-12 mx-auto mb-2 opacity-50" />
-                  <p>暂无提示词</p>
+                  <p>{t('prompts.empty')}</p>
                   {mode === 'manage' && (
                     <Button variant="outline" size="sm" className="mt-2" onClick={handleCreateNew}>
                       <Plus className="size-4 mr-1" />
-                      创建第一个
+                      {t('prompts.createFirst')}
                     </Button>
                   )}
                 </div>
@@ -349,7 +348,7 @@ export function PromptManagerPanel({ onSelectPrompt, mode = 'manage' }: PromptMa
                                   <span className="font-medium text-sm">{prompt.name}</span>
                                   {prompt.isBuiltIn && (
                                     <Badge variant="secondary" className="text-[10px]">
-                                      内置
+                                      {t('prompts.builtin')}
                                     </Badge>
                                   )}
                                   {prompt.autoSubmit && (
@@ -365,11 +364,7 @@ export function PromptManagerPanel({ onSelectPrompt, mode = 'manage' }: PromptMa
                                 </p>
                                 {prompt.usageCount > 0 && (
                                   <span className="text-[10px] text-muted-foreground">
-                                    使用
-                                    {' '}
-                                    {prompt.usageCount}
-                                    {' '}
-                                    次
+                                    {t('prompts.usageCount', { count: prompt.usageCount })}
                                   </span>
                                 )}
                               </div>
@@ -389,17 +384,17 @@ export function PromptManagerPanel({ onSelectPrompt, mode = 'manage' }: PromptMa
                                 <DropdownMenuContent align="end">
                                   <DropdownMenuItem onClick={() => handleSelect(prompt)}>
                                     <Check className="size-4 mr-2" />
-                                    使用
+                                    {t('prompts.use')}
                                   </DropdownMenuItem>
                                   {prompt.isEditable && (
                                     <DropdownMenuItem onClick={() => handleEdit(prompt)}>
                                       <Edit className="size-4 mr-2" />
-                                      编辑
+                                      {t('common.edit')}
                                     </DropdownMenuItem>
                                   )}
                                   <DropdownMenuItem onClick={() => handleDuplicate(prompt)}>
                                     <Copy className="size-4 mr-2" />
-                                    复制
+                                    {t('common.copy')}
                                   </DropdownMenuItem>
                                   <DropdownMenuSeparator />
                                   {(!prompt.isBuiltIn || prompt.isEditable) && (
@@ -408,7 +403,7 @@ export function PromptManagerPanel({ onSelectPrompt, mode = 'manage' }: PromptMa
                                       onClick={() => handleDelete(prompt)}
                                     >
                                       <Trash2 className="size-4 mr-2" />
-                                      删除
+                                      {t('common.delete')}
                                     </DropdownMenuItem>
                                   )}
                                 </DropdownMenuContent>
@@ -443,7 +438,7 @@ export function PromptManagerPanel({ onSelectPrompt, mode = 'manage' }: PromptMa
           <div className="p-3 flex justify-end">
             <Button variant="ghost" size="sm" onClick={handleReset} className="text-muted-foreground">
               <RotateCcw className="size-4 mr-1" />
-              重置为默认
+              {t('settings.resetDefaults')}
             </Button>
           </div>
         </>
@@ -453,48 +448,48 @@ export function PromptManagerPanel({ onSelectPrompt, mode = 'manage' }: PromptMa
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
         <DialogContent className="max-w-md">
           <DialogHeader>
-            <DialogTitle>{isEditing ? '编辑提示词' : '新建提示词'}</DialogTitle>
+            <DialogTitle>{isEditing ? t('prompts.editTitle') : t('prompts.newTitle')}</DialogTitle>
             <DialogDescription>
-              {isEditing ? '修改提示词的内容和设置' : '创建一个新的提示词模板'}
+              {isEditing ? t('prompts.editDescription') : t('prompts.newDescription')}
             </DialogDescription>
           </DialogHeader>
 
           {editingPrompt && (
             <div className="space-y-4">
               <div className="space-y-2">
-                <Label htmlFor="name">名称</Label>
+                <Label htmlFor="name">{t('prompts.name')}</Label>
                 <Input
                   id="name"
                   value={editingPrompt.name || ''}
                   onChange={e => setEditingPrompt({ ...editingPrompt, name: e.target.value })}
-                  placeholder="例如：优化代码"
+                  placeholder={t('prompts.namePlaceholder')}
                 />
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="description">描述</Label>
+                <Label htmlFor="description">{t('prompts.description')}</Label>
                 <Input
                   id="description"
                   value={editingPrompt.description || ''}
                   onChange={e => setEditingPrompt({ ...editingPrompt, description: e.target.value })}
-                  placeholder="简短描述提示词的用途"
+                  placeholder={t('prompts.descriptionPlaceholder')}
                 />
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="content">提示词内容</Label>
+                <Label htmlFor="content">{t('prompts.content')}</Label>
                 <Textarea
                   id="content"
                   value={editingPrompt.content || ''}
                   onChange={e => setEditingPrompt({ ...editingPrompt, content: e.target.value })}
-                  placeholder="输入发送给 AI 的提示词内容..."
+                  placeholder={t('prompts.contentPlaceholder')}
                   rows={4}
                 />
               </div>
 
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label>分类</Label>
+                  <Label>{t('prompts.category')}</Label>
                   <Select
                     value={editingPrompt.category || 'custom'}
                     onValueChange={value => setEditingPrompt({
@@ -508,7 +503,7 @@ export function PromptManagerPanel({ onSelectPrompt, mode = 'manage' }: PromptMa
                     <SelectContent>
                       {DEFAULT_CATEGORIES.map(cat => (
                         <SelectItem key={cat.id} value={cat.id}>
-                          {cat.name}
+                          {getCategoryLabel(cat.id)}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -516,7 +511,7 @@ export function PromptManagerPanel({ onSelectPrompt, mode = 'manage' }: PromptMa
                 </div>
 
                 <div className="space-y-2">
-                  <Label>快捷键</Label>
+                  <Label>{t('prompts.hotkey')}</Label>
                   <Input
                     value={editingPrompt.hotkey || ''}
                     onChange={e => setEditingPrompt({
@@ -531,7 +526,7 @@ export function PromptManagerPanel({ onSelectPrompt, mode = 'manage' }: PromptMa
 
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label>颜色</Label>
+                  <Label>{t('prompts.color')}</Label>
                   <Select
                     value={editingPrompt.color || 'blue'}
                     onValueChange={value => setEditingPrompt({ ...editingPrompt, color: value })}
@@ -544,7 +539,7 @@ export function PromptManagerPanel({ onSelectPrompt, mode = 'manage' }: PromptMa
                         <SelectItem key={color.value} value={color.value}>
                           <div className="flex items-center gap-2">
                             <span className={`size-3 rounded-full ${color.class}`} />
-                            {color.label}
+                            {t(`prompts.colors.${color.value}`)}
                           </div>
                         </SelectItem>
                       ))}
@@ -553,7 +548,7 @@ export function PromptManagerPanel({ onSelectPrompt, mode = 'manage' }: PromptMa
                 </div>
 
                 <div className="space-y-2">
-                  <Label>图标</Label>
+                  <Label>{t('prompts.icon')}</Label>
                   <Select
                     value={editingPrompt.icon || 'zap'}
                     onValueChange={value => setEditingPrompt({ ...editingPrompt, icon: value })}
@@ -564,7 +559,7 @@ export function PromptManagerPanel({ onSelectPrompt, mode = 'manage' }: PromptMa
                     <SelectContent>
                       {iconOptions.map(icon => (
                         <SelectItem key={icon.value} value={icon.value}>
-                          {icon.label}
+                          {`${icon.emoji} ${t(`prompts.icons.${icon.value}`)}`}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -574,8 +569,8 @@ export function PromptManagerPanel({ onSelectPrompt, mode = 'manage' }: PromptMa
 
               <div className="flex items-center justify-between">
                 <div className="space-y-0.5">
-                  <Label>自动提交</Label>
-                  <p className="text-xs text-muted-foreground">选择后自动倒计时提交</p>
+                  <Label>{t('prompts.autoSubmit')}</Label>
+                  <p className="text-xs text-muted-foreground">{t('prompts.autoSubmitHint')}</p>
                 </div>
                 <Switch
                   checked={editingPrompt.autoSubmit || false}
@@ -585,7 +580,7 @@ export function PromptManagerPanel({ onSelectPrompt, mode = 'manage' }: PromptMa
 
               {editingPrompt.autoSubmit && (
                 <div className="space-y-2">
-                  <Label>倒计时 (秒)</Label>
+                  <Label>{t('prompts.autoSubmitDelay')}</Label>
                   <Input
                     type="number"
                     min={1}
@@ -603,13 +598,13 @@ export function PromptManagerPanel({ onSelectPrompt, mode = 'manage' }: PromptMa
 
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
-              取消
+              {t('common.cancel')}
             </Button>
             <Button
               onClick={handleSave}
               disabled={!editingPrompt?.name || !editingPrompt?.content}
             >
-              {isEditing ? '保存' : '创建'}
+              {isEditing ? t('common.save') : t('common.create')}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -22,6 +22,7 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 
+import { useI18n } from '../store';
 import { vscode } from '../utils/vscode';
 
 interface QuickActionsProps {
@@ -29,6 +30,8 @@ interface QuickActionsProps {
 }
 
 export function QuickActions({ onNavigate }: QuickActionsProps) {
+  const { t } = useI18n();
+
   const handleConfigure = () => {
     vscode.postMessage({ type: 'configure' });
   };
@@ -44,37 +47,37 @@ export function QuickActions({ onNavigate }: QuickActionsProps) {
   const actions = [
     {
       icon: RefreshCw,
-      label: '重新配置',
+      label: t('quickActions.reconfigure'),
       onClick: handleConfigure,
     },
     {
       icon: MessageSquare,
-      label: '对话管理',
+      label: t('quickActions.conversations'),
       onClick: () => onNavigate('conversations'),
     },
     {
       icon: History,
-      label: '历史记录',
+      label: t('quickActions.history'),
       onClick: () => onNavigate('history'),
     },
     {
       icon: FileText,
-      label: '指令模板',
+      label: t('quickActions.templates'),
       onClick: () => onNavigate('templates'),
     },
     {
       icon: Download,
-      label: '导出数据',
+      label: t('quickActions.export'),
       onClick: handleExport,
     },
     {
       icon: Upload,
-      label: '导入数据',
+      label: t('quickActions.import'),
       onClick: handleImport,
     },
     {
       icon: Settings,
-      label: '设置',
+      label: t('quickActions.settings'),
       onClick: () => onNavigate('settings'),
     },
   ];
@@ -0,0 +1,160 @@
+/**
+ * Session Branch View
+ * Tree of sessions forked from one another and a side-by-side comparison of two branches
+ */
+
+import { GitBranch, GitCompare, X } from 'lucide-react';
+import { useMemo } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+import { buildSessionTree, compareBranches } from '../lib/sessionBranches';
+import { useI18n } from '../store';
+
+import type { SessionTreeNode } from '../lib/sessionBranches';
+import type { EnhancedSession, SessionMessage } from '../types/session';
+
+function sessionName(session: EnhancedSession, fallback: string): string {
+  return session.workspacePath.split(/[/\\]/).pop() || fallback;
+}
+
+interface BranchMessageProps {
+  message: SessionMessage;
+  language: string;
+}
+
+function BranchMessage({ message, language }: BranchMessageProps) {
+  const { t } = useI18n();
+  return (
+    <div className="text-xs p-2 bg-muted/50 rounded space-y-1">
+      <div className="flex items-center gap-2">
+        <Badge variant={message.shouldContinue ? 'default' : 'destructive'} className="text-[10px] shrink-0">
+          {message.shouldContinue ? t('common.continue') : t('common.end')}
+        </Badge>
+        <span className="text-muted-foreground">
+          {new Date(message.timestamp).toLocaleTimeString(language, { hour: '2-digit', minute: '2-digit' })}
+        </span>
+      </div>
+      <p className="break-words">{message.summary || t('common.noContent')}</p>
+      {message.userInstruction && (
+        <p className="text-muted-foreground break-words">
+          {t('history.userInstruction')}
+          {message.userInstruction}
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface SessionBranchTreeProps {
+  sessions: EnhancedSession[];
+  compareIds: string[];
+  onToggleCompare: (id: string) => void;
+}
+
+export function SessionBranchTree({ sessions, compareIds, onToggleCompare }: SessionBranchTreeProps) {
+  const { language, t } = useI18n();
+  const roots = useMemo(() => buildSessionTree(sessions), [sessions]);
+  const byId = useMemo(() => new Map(sessions.map(session => [session.id, session])), [sessions]);
+
+  const renderNode = (node: SessionTreeNode, depth: number) => {
+    const { session } = node;
+    const parent = session.parentSessionId ? byId.get(session.parentSessionId) : undefined;
+    const forkedAt = parent?.messages.find(m => m.id === session.branchFromMessageId);
+    const selected = compareIds.includes(session.id);
+
+    return (
+      <div key={session.id}>
+        <div
+          className={cn('flex items-start gap-2 p-2 rounded hover:bg-muted/50', selected && 'bg-muted')}
+          style={{ paddingLeft: `${depth * 16 + 8}px` }}
+        >
+          <GitBranch className={cn('size-4 mt-0.5 shrink-0', depth === 0 ? 'text-muted-foreground' : 'text-primary')} />
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2 text-sm">
+              <span className="font-medium truncate">{sessionName(session, t('common.unknownWorkspace'))}</span>
+              <Badge variant="outline" className="text-xs">
+                {t('sessions.messageCount', { count: session.messageCount })}
+              </Badge>
+              <span className="text-xs text-muted-foreground">
+                {new Date(session.createdAt).toLocaleString(language, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+              </span>
+            </div>
+            {session.branchFromMessageId && (
+              <p className="text-xs text-muted-foreground truncate">
+                {t('sessions.branchedAt', { message: forkedAt?.summary || forkedAt?.userInstruction || t('common.noContent') })}
+              </p>
+            )}
+          </div>
+          <Button
+            variant={selected ? 'default' : 'ghost'}
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() => onToggleCompare(session.id)}
+          >
+            <GitCompare className="size-3 mr-1" />
+            {t('sessions.compare')}
+          </Button>
+        </div>
+        {node.children.map(child => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  if (roots.length === 0) {
+    return <p className="p-8 text-center text-muted-foreground">{t('sessions.empty')}</p>;
+  }
+  return <div className="p-2 space-y-1">{roots.map(root => renderNode(root, 0))}</div>;
+}
+
+interface SessionBranchCompareProps {
+  left: EnhancedSession;
+  right: EnhancedSession;
+  onClose: () => void;
+}
+
+export function SessionBranchCompare({ left, right, onClose }: SessionBranchCompareProps) {
+  const { language, t } = useI18n();
+  const comparison = useMemo(() => compareBranches(left, right), [left, right]);
+  const columns = [
+    { session: left, messages: comparison.left },
+    { session: right, messages: comparison.right },
+  ];
+
+  return (
+    <div className="border rounded-md p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <GitCompare className="size-4" />
+          {t('sessions.compareTitle')}
+        </div>
+        <Button variant="ghost" size="sm" className="size-7 p-0" onClick={onClose} aria-label={t('common.close')}>
+          <X className="size-4" />
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {t('sessions.sharedMessages', { count: comparison.common.length })}
+      </p>
+      <div className="grid grid-cols-2 gap-3">
+        {columns.map(({ session, messages }) => (
+          <div key={session.id} className="space-y-2 min-w-0">
+            <div className="text-xs font-medium truncate">
+              {sessionName(session, t('common.unknownWorkspace'))}
+              <span className="text-muted-foreground">
+                {' · '}
+                {new Date(session.createdAt).toLocaleString(language, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+              </span>
+            </div>
+            {messages.length === 0
+              ? <p className="text-xs text-muted-foreground">{t('sessions.noDivergence')}</p>
+              : messages.map(message => <BranchMessage key={message.id} message={message} language={language} />)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default SessionBranchTree;
@@ -9,6 +9,9 @@ import {
   Clock,
   Download,
   Filter,
+  GitBranch,
+  GitCompare,
+  List,
   MessageSquare,
   MoreVertical,
   Search,
@@ -23,8 +26,12 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
@@ -33,8 +40,12 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
 
 import { sessionManager } from '../lib/sessionManager';
+import { useI18n } from '../store';
+import { vscode } from '../utils/vscode';
 
-import type { EnhancedSession, SessionFilter, SessionStatus } from '../types/session';
+import { SessionBranchCompare, SessionBranchTree } from './SessionBranchView';
+
+import type { EnhancedSession, ExportFormat, SessionFilter, SessionMessage, SessionStatus } from '../types/session';
 
 interface SessionHistoryPanelProps {
   onSelectSession?: (session: EnhancedSession) => void;
@@ -48,18 +59,31 @@ const statusColors: Record<SessionStatus, string> = {
   expired: 'bg-gray-500',
 };
 
-const statusLabels: Record<SessionStatus, string> = {
-  active: '进行中',
-  paused: '已暂停',
-  completed: '已完成',
-  expired: '已过期',
-};
+const sessionStatuses: SessionStatus[] = ['active', 'paused', 'completed', 'expired'];
+
+type ExportRange = 'all' | 'day' | 'week' | 'month';
+
+const exportRangeHours: Record<Exclude<ExportRange, 'all'>, number> = { day: 24, week: 168, month: 720 };
+
+const exportFormats: { format: ExportFormat; label: 'sessions.exportJson' | 'sessions.exportCsv' | 'sessions.exportMarkdown' }[] = [
+  { format: 'markdown', label: 'sessions.exportMarkdown' },
+  { format: 'csv', label: 'sessions.exportCsv' },
+  { format: 'json', label: 'sessions.exportJson' },
+];
 
 export function SessionHistoryPanel({ onSelectSession, onClose: _onClose }: SessionHistoryPanelProps) {
+  const { language, t } = useI18n();
   const [sessions, setSessions] = useState<EnhancedSession[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<SessionStatus[]>([]);
   const [expandedSessionId, setExpandedSessionId] = useState<string | null>(null);
+  const [exportMessages, setExportMessages] = useState(true);
+  const [exportStatistics, setExportStatistics] = useState(true);
+  const [exportFiltered, setExportFiltered] = useState(false);
+  const [exportRange, setExportRange] = useState<ExportRange>('all');
+  const [view, setView] = useState<'list' | 'tree'>('list');
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [showAllMessagesId, setShowAllMessagesId] = useState<string | null>(null);
 
   // Load sessions
   useEffect(() => {
@@ -86,6 +110,14 @@ export function SessionHistoryPanel({ onSelectSession, onClose: _onClose }: Sess
   // Statistics
   const statistics = useMemo(() => sessionManager.getStatistics(), [sessions]);
 
+  // Text recorded at the 'metadata' privacy level is shown by its length and hash
+  const contentPlaceholder = (message: SessionMessage): string => {
+    const metadata = message.metadata?.summary ?? message.metadata?.userInstruction;
+    return metadata
+      ? t('history.contentNotStored', { length: metadata.length, hash: metadata.hash })
+      : t('common.noContent');
+  };
+
   // Format duration
   const formatDuration = useCallback((ms: number): string => {
     const seconds = Math.floor(ms / 1000);
@@ -93,13 +125,13 @@ export function SessionHistoryPanel({ onSelectSession, onClose: _onClose }: Sess
     const hours = Math.floor(minutes / 60);
 
     if (hours > 0) {
-      return `${hours}小时 ${minutes % 60}分钟`;
+      return t('time.hoursMinutes', { hours, minutes: minutes % 60 });
     }
     if (minutes > 0) {
-      return `${minutes}分钟`;
+      return t('time.minutes', { count: minutes });
     }
-    return `${seconds}秒`;
-  }, []);
+    return t('time.seconds', { count: seconds });
+  }, [t]);
 
   // Format date
   const formatDate = useCallback((timestamp: number): string => {
@@ -108,30 +140,31 @@ export function SessionHistoryPanel({ onSelectSession, onClose: _onClose }: Sess
     const diffDays = Math.floor((now.getTime() - date.getTime()) / (1000 * 60 * 60 * 24));
 
     if (diffDays === 0) {
-      return `今天 ${date.toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit' })}`;
+      return t('time.today', { time: date.toLocaleTimeString(language, { hour: '2-digit', minute: '2-digit' }) });
     }
     if (diffDays === 1) {
-      return `昨天 ${date.toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit' })}`;
+      return t('time.yesterday', { time: date.toLocaleTimeString(language, { hour: '2-digit', minute: '2-digit' }) });
     }
-    return date.toLocaleDateString('zh-CN', {
+    return date.toLocaleDateString(language, {
       month: 'short',
       day: 'numeric',
       hour: '2-digit',
       minute: '2-digit',
     });
-  }, []);
+  }, [language, t]);
 
-  // Handle export
-  const handleExport = useCallback(() => {
-    const json = sessionManager.exportSessions();
-    const blob = new Blob([json], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `sessions-${Date.now()}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
-  }, []);
+  // Build the export here and let the extension host save it
+  const handleExport = useCallback((format: ExportFormat) => {
+    const now = Date.now();
+    const content = sessionManager.exportSessions({
+      format,
+      includeMessages: exportMessages,
+      includeStatistics: exportStatistics,
+      dateRange: exportRange === 'all' ? undefined : { start: now - exportRangeHours[exportRange] * 3600000, end: now },
+      sessionIds: exportFiltered ? filteredSessions.map(session => session.id) : undefined,
+    }, language);
+    vscode.postMessage({ type: 'export_sessions', data: { format, content } });
+  }, [exportMessages, exportStatistics, exportRange, exportFiltered, filteredSessions, language]);
 
   // Handle import
   const handleImport = useCallback(() => {
@@ -160,6 +193,23 @@ export function SessionHistoryPanel({ onSelectSession, onClose: _onClose }: Sess
     sessionManager.deleteSession(id);
   }, []);
 
+  // Fork at a message and open the new branch
+  const handleFork = useCallback((sessionId: string, messageId: string) => {
+    const branch = sessionManager.forkSession(sessionId, messageId);
+    if (branch) {
+      setExpandedSessionId(branch.id);
+    }
+  }, []);
+
+  // Pick up to two sessions to compare; a third replaces the oldest pick
+  const toggleCompare = useCallback((id: string) => {
+    setCompareIds(prev => (prev.includes(id) ? prev.filter(other => other !== id) : [...prev, id].slice(-2)));
+  }, []);
+
+  const compared = compareIds
+    .map(id => sessions.find(session => session.id === id))
+    .filter((session): session is EnhancedSession => session !== undefined);
+
   // Toggle status filter
   const toggleStatusFilter = useCallback((status: SessionStatus) => {
     setStatusFilter((prev) => {
@@ -177,27 +227,50 @@ export function SessionHistoryPanel({ onSelectSession, onClose: _onClose }: Sess
           <div>
             <CardTitle className="text-lg flex items-center gap-2">
               <Clock className="size-5" />
-              会话历史
+              {t('sessions.title')}
             </CardTitle>
             <CardDescription>
-              共
-              {' '}
-              {statistics.totalSessions}
-              {' '}
-              个会话，
-              {statistics.totalMessages}
-              {' '}
-              条消息
+              {t('sessions.summary', { sessions: statistics.totalSessions, messages: statistics.totalMessages })}
             </CardDescription>
           </div>
           <div className="flex items-center gap-2">
-            <Button variant="outline" size="sm" onClick={handleExport}>
-              <Download className="size-4 mr-1" />
-              导出
-            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <Download className="size-4 mr-1" />
+                  {t('common.export')}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-56">
+                <DropdownMenuLabel>{t('sessions.exportFormat')}</DropdownMenuLabel>
+                {exportFormats.map(({ format, label }) => (
+                  <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+                    {t(label)}
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuSeparator />
+                <DropdownMenuCheckboxItem checked={exportMessages} onCheckedChange={setExportMessages} onSelect={e => e.preventDefault()}>
+                  {t('sessions.exportMessages')}
+                </DropdownMenuCheckboxItem>
+                <DropdownMenuCheckboxItem checked={exportStatistics} onCheckedChange={setExportStatistics} onSelect={e => e.preventDefault()}>
+                  {t('sessions.exportStatistics')}
+                </DropdownMenuCheckboxItem>
+                <DropdownMenuCheckboxItem checked={exportFiltered} onCheckedChange={setExportFiltered} onSelect={e => e.preventDefault()}>
+                  {t('sessions.exportFiltered')}
+                </DropdownMenuCheckboxItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>{t('sessions.exportRange')}</DropdownMenuLabel>
+                <DropdownMenuRadioGroup value={exportRange} onValueChange={value => setExportRange(value as ExportRange)}>
+                  <DropdownMenuRadioItem value="all" onSelect={e => e.preventDefault()}>{t('sessions.exportRangeAll')}</DropdownMenuRadioItem>
+                  <DropdownMenuRadioItem value="day" onSelect={e => e.preventDefault()}>{t('sessions.exportRangeDay')}</DropdownMenuRadioItem>
+                  <DropdownMenuRadioItem value="week" onSelect={e => e.preventDefault()}>{t('sessions.exportRangeWeek')}</DropdownMenuRadioItem>
+                  <DropdownMenuRadioItem value="month" onSelect={e => e.preventDefault()}>{t('sessions.exportRangeMonth')}</DropdownMenuRadioItem>
+                </DropdownMenuRadioGroup>
+              </DropdownMenuContent>
+            </DropdownMenu>
             <Button variant="outline" size="sm" onClick={handleImport}>
               <Upload className="size-4 mr-1" />
-              导入
+              {t('common.import')}
             </Button>
           </div>
         </div>
@@ -210,7 +283,7 @@ export function SessionHistoryPanel({ onSelectSession, onClose: _onClose }: Sess
         <div className="relative">
           <Search className="absolute left-2.5 top-2.5 size-4 text-muted-foreground" />
           <Input
-            placeholder="搜索会话..."
+            placeholder={t('sessions.searchPlaceholder')}
             value={searchQuery}
             onChange={e => setSearchQuery(e.target.value)}
             className="pl-9"
@@ -219,8 +292,28 @@ export function SessionHistoryPanel({ onSelectSession, onClose: _onClose }: Sess
 
         {/* Status filter */}
         <div className="flex items-center gap-2 flex-wrap">
+          <div className="flex items-center gap-1 mr-auto">
+            <Button
+              variant={view === 'list' ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => setView('list')}
+            >
+              <List className="size-3 mr-1" />
+              {t('sessions.viewList')}
+            </Button>
+            <Button
+              variant={view === 'tree' ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => setView('tree')}
+            >
+              <GitBranch className="size-3 mr-1" />
+              {t('sessions.viewTree')}
+            </Button>
+          </div>
           <Filter className="size-4 text-muted-foreground" />
-          {(Object.keys(statusLabels) as SessionStatus[]).map(status => (
+          {sessionStatuses.map(status => (
             <Badge
               key={status}
               variant={statusFilter.includes(status) ? 'default' : 'outline'}
@@ -228,7 +321,7 @@ export function SessionHistoryPanel({ onSelectSession, onClose: _onClose }: Sess
               onClick={() => toggleStatusFilter(status)}
             >
               <span className={`size-2 rounded-full mr-1 ${statusColors[status]}`} />
-              {statusLabels[status]}
+              {t(`sessions.status.${status}`)}
             </Badge>
           ))}
         </div>
@@ -237,162 +330,194 @@ export function SessionHistoryPanel({ onSelectSession, onClose: _onClose }: Sess
         <div className="grid grid-cols-4 gap-2 text-center text-xs">
           <div className="bg-muted rounded-md p-2">
             <div className="font-semibold text-lg">{statistics.activeSessions}</div>
-            <div className="text-muted-foreground">进行中</div>
+            <div className="text-muted-foreground">{t('sessions.status.active')}</div>
           </div>
           <div className="bg-muted rounded-md p-2">
             <div className="font-semibold text-lg">{statistics.completedSessions}</div>
-            <div className="text-muted-foreground">已完成</div>
+            <div className="text-muted-foreground">{t('sessions.status.completed')}</div>
           </div>
           <div className="bg-muted rounded-md p-2">
             <div className="font-semibold text-lg">{statistics.totalContinues}</div>
-            <div className="text-muted-foreground">继续</div>
+            <div className="text-muted-foreground">{t('common.continue')}</div>
           </div>
           <div className="bg-muted rounded-md p-2">
             <div className="font-semibold text-lg">{statistics.totalEnds}</div>
-            <div className="text-muted-foreground">结束</div>
+            <div className="text-muted-foreground">{t('common.end')}</div>
           </div>
         </div>
       </div>
 
       <Separator />
 
+      {/* Branch comparison */}
+      {compared.length === 2 && (
+        <div className="p-3">
+          <SessionBranchCompare left={compared[0]} right={compared[1]} onClose={() => setCompareIds([])} />
+        </div>
+      )}
+      {compared.length === 1 && (
+        <p className="px-3 pt-2 text-xs text-muted-foreground">{t('sessions.compareHint')}</p>
+      )}
+
       {/* Session list */}
       <CardContent className="flex-1 p-0">
         <ScrollArea className="h-[400px]">
-          {filteredSessions.length === 0
-            ? (
-                <div className="p-8 text-center text-muted-foreground">
-                  <Clock className="size-12 mx-auto mb-2 opacity-50" />
-                  <p>暂无会话记录</p>
-                </div>
-              )
-            : (
-                <div className="divide-y">
-                  {filteredSessions.map(session => (
-                    <div
-                      key={session.id}
-                      className="p-3 hover:bg-muted/50 cursor-pointer transition-colors"
-                      onClick={() => setExpandedSessionId(
-                        expandedSessionId === session.id ? null : session.id,
-                      )}
-                    >
-                      <div className="flex items-start justify-between">
-                        <div className="flex-1 min-w-0">
-                          <div className="flex items-center gap-2">
-                            <span className={`size-2 rounded-full ${statusColors[session.status]}`} />
-                            <span className="font-medium truncate text-sm">
-                              {session.workspacePath.split(/[/\\]/).pop() || '未知工作区'}
-                            </span>
-                            <Badge variant="outline" className="text-xs">
-                              {session.messageCount}
-                              {' '}
-                              消息
-                            </Badge>
-                          </div>
-                          <div className="flex items-center gap-3 mt-1 text-xs text-muted-foreground">
-                            <span className="flex items-center gap-1">
-                              <Calendar className="size-3" />
-                              {formatDate(session.createdAt)}
-                            </span>
-                            {session.totalDuration > 0 && (
+          {view === 'tree'
+            ? <SessionBranchTree sessions={filteredSessions} compareIds={compareIds} onToggleCompare={toggleCompare} />
+            : filteredSessions.length === 0
+              ? (
+                  <div className="p-8 text-center text-muted-foreground">
+                    <Clock className="size-12 mx-auto mb-2 opacity-50" />
+                    <p>{t('sessions.empty')}</p>
+                  </div>
+                )
+              : (
+                  <div className="divide-y">
+                    {filteredSessions.map(session => (
+                      <div
+                        key={session.id}
+                        className="p-3 hover:bg-muted/50 cursor-pointer transition-colors"
+                        onClick={() => setExpandedSessionId(
+                          expandedSessionId === session.id ? null : session.id,
+                        )}
+                      >
+                        <div className="flex items-start justify-between">
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2">
+                              <span className={`size-2 rounded-full ${statusColors[session.status]}`} />
+                              <span className="font-medium truncate text-sm">
+                                {session.workspacePath.split(/[/\\]/).pop() || t('common.unknownWorkspace')}
+                              </span>
+                              <Badge variant="outline" className="text-xs">
+                                {t('sessions.messageCount', { count: session.messageCount })}
+                              </Badge>
+                            </div>
+                            <div className="flex items-center gap-3 mt-1 text-xs text-muted-foreground">
                               <span className="flex items-center gap-1">
-                                <Clock className="size-3" />
-                                {formatDuration(session.totalDuration)}
+                                <Calendar className="size-3" />
+                                {formatDate(session.createdAt)}
                               </span>
+                              {session.totalDuration > 0 && (
+                                <span className="flex items-center gap-1">
+                                  <Clock className="size-3" />
+                                  {formatDuration(session.totalDuration)}
+                                </span>
+                              )}
+                            </div>
+                            {session.tags.length > 0 && (
+                              <div className="flex items-center gap-1 mt-1">
+                                <Tag className="size-3 text-muted-foreground" />
+                                {session.tags.map(tag => (
+                                  <Badge key={tag} variant="secondary" className="text-xs">
+                                    {tag}
+                                  </Badge>
+                                ))}
+                              </div>
                             )}
                           </div>
-                          {session.tags.length > 0 && (
-                            <div className="flex items-center gap-1 mt-1">
-                              <Tag className="size-3 text-muted-foreground" />
-                              {session.tags.map(tag => (
-                                <Badge key={tag} variant="secondary" className="text-xs">
-                                  {tag}
-                                </Badge>
-                              ))}
-                            </div>
-                          )}
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="sm" className="size-8 p-0">
+                                <MoreVertical className="size-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem onClick={() => onSelectSession?.(session)}>
+                                <MessageSquare className="size-4 mr-2" />
+                                {t('sessions.viewDetails')}
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  toggleCompare(session.id);
+                                }}
+                              >
+                                <GitCompare className="size-4 mr-2" />
+                                {compareIds.includes(session.id) ? t('sessions.uncompare') : t('sessions.compare')}
+                              </DropdownMenuItem>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem
+                                className="text-destructive"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleDeleteSession(session.id);
+                                }}
+                              >
+                                <Trash2 className="size-4 mr-2" />
+                                {t('common.delete')}
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
                         </div>
-                        <DropdownMenu>
-                          <DropdownMenuTrigger asChild>
-                            <Button variant="ghost" size="sm" className="size-8 p-0">
-                              <MoreVertical className="size-4" />
-                            </Button>
-                          </DropdownMenuTrigger>
-                          <DropdownMenuContent align="end">
-                            <DropdownMenuItem onClick={() => onSelectSession?.(session)}>
-                              <MessageSquare className="size-4 mr-2" />
-                              查看详情
-                            </DropdownMenuItem>
-                            <DropdownMenuSeparator />
-                            <DropdownMenuItem
-                              className="text-destructive"
+
+                        {/* Expanded content */}
+                        {expandedSessionId === session.id && (
+                          <div className="mt-3 pt-3 border-t space-y-2">
+                            <div className="flex items-center gap-4 text-xs">
+                              <span className="text-muted-foreground">
+                                {t('sessions.continueCount')}
+                                {' '}
+                                <strong className="text-green-600">{session.continueCount}</strong>
+                              </span>
+                              <span className="text-muted-foreground">
+                                {t('sessions.endCount')}
+                                {' '}
+                                <strong className="text-red-600">{session.endCount}</strong>
+                              </span>
+                            </div>
+                            {session.notes && (
+                              <p className="text-xs text-muted-foreground bg-muted p-2 rounded">
+                                {session.notes}
+                              </p>
+                            )}
+                            {(showAllMessagesId === session.id ? session.messages : session.messages.slice(-3)).map(msg => (
+                              <div
+                                key={msg.id}
+                                className="group/message text-xs p-2 bg-muted/50 rounded flex items-start gap-2"
+                              >
+                                <Badge
+                                  variant={msg.shouldContinue ? 'default' : 'destructive'}
+                                  className="text-[10px] shrink-0"
+                                >
+                                  {msg.shouldContinue ? t('common.continue') : t('common.end')}
+                                </Badge>
+                                <span className="text-muted-foreground truncate flex-1">
+                                  {msg.summary || msg.userInstruction || contentPlaceholder(msg)}
+                                </span>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-5 px-1 text-[10px] opacity-0 group-hover/message:opacity-100"
+                                  title={t('sessions.forkHint')}
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleFork(session.id, msg.id);
+                                  }}
+                                >
+                                  <GitBranch className="size-3 mr-1" />
+                                  {t('sessions.fork')}
+                                </Button>
+                              </div>
+                            ))}
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="w-full text-xs"
                               onClick={(e) => {
                                 e.stopPropagation();
-                                handleDeleteSession(session.id);
+                                setShowAllMessagesId(showAllMessagesId === session.id ? null : session.id);
+                                onSelectSession?.(session);
                               }}
                             >
-                              <Trash2 className="size-4 mr-2" />
-                              删除
-                            </DropdownMenuItem>
-                          </DropdownMenuContent>
-                        </DropdownMenu>
-                      </div>
-
-                      {/* Expanded content */}
-                      {expandedSessionId === session.id && (
-                        <div className="mt-3 pt-3 border-t space-y-2">
-                          <div className="flex items-center gap-4 text-xs">
-                            <span className="text-muted-foreground">
-                              继续:
-                              {' '}
-                              <strong className="text-green-600">{session.continueCount}</strong>
-                            </span>
-                            <span className="text-muted-foreground">
-                              结束:
-                              {' '}
-                              <strong className="text-red-600">{session.endCount}</strong>
-                            </span>
+                              <ChevronDown className="size-3 mr-1" />
+                              {t('sessions.viewAll', { count: session.messageCount })}
+                            </Button>
                           </div>
-                          {session.notes && (
-                            <p className="text-xs text-muted-foreground bg-muted p-2 rounded">
-                              {session.notes}
-                            </p>
-                          )}
-                          {session.messages.slice(-3).map(msg => (
-                            <div
-                              key={msg.id}
-                              className="text-xs p-2 bg-muted/50 rounded flex items-start gap-2"
-                            >
-                              <Badge
-                                variant={msg.shouldContinue ? 'default' : 'destructive'}
-                                className="text-[10px] shrink-0"
-                              >
-                                {msg.shouldContinue ? '继续' : '结束'}
-                              </Badge>
-                              <span className="text-muted-foreground truncate">
-                                {msg.summary || msg.userInstruction || '无内容'}
-                              </span>
-                            </div>
-                          ))}
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            className="w-full text-xs"
-                            onClick={() => onSelectSession?.(session)}
-                          >
-                            <ChevronDown className="size-3 mr-1" />
-                            查看全部
-                            {' '}
-                            {session.messageCount}
-                            {' '}
-                            条消息
-                          </Button>
-                        </div>
-                      )}
-                    </div>
-                  ))}
-                </div>
-              )}
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
         </ScrollArea>
       </CardContent>
     </Card>
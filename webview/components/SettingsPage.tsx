@@ -8,9 +8,11 @@ import {
   ChevronDown,
   ChevronUp,
   Clock,
+  Copy,
   FolderOpen,
   Globe,
   History,
+  Layers,
   Loader2,
   Play,
   RefreshCw,
@@ -18,6 +20,8 @@ import {
   Save,
   Server,
   Settings2,
+  Shield,
+  Sparkles,
   Wifi,
   WifiOff,
   Zap,
@@ -39,56 +43,86 @@ import {
 import { Separator } from '@/components/ui/separator';
 import { Slider } from '@/components/ui/slider';
 import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
 
-import { useSettings } from '../store';
+import { invalidRedactionPatterns, MAX_REDACTION_PATTERN_LENGTH, PRIVACY_LEVELS, REDACTION_DETECTORS } from '../../shared/privacy';
+import { promptManager } from '../lib/promptManager';
+import { useI18n, useSettings } from '../store';
 import { defaultSettings, portPresets } from '../types';
 import { vscode } from '../utils/vscode';
 
+import type { MessageKey } from '../../shared/i18n';
+import type { CheckpointMode, DialogTimeoutAction, LanguageModelInfo, OptimizerProviderId, PrivacyLevel, Settings, SettingsScope } from '../types';
 import type { ConnectionMode, ServerState, TransportType } from '../types/session';
 
 // Re-export types from index for consistency
 export type { ConnectionMode, TransportType } from '../types/session';
 
-// Validation functions
-function validateServerName(name: string): string | undefined {
+// Select has no empty value, so automatic model choice uses a sentinel
+const AUTO_MODEL = 'auto';
+
+const optimizerProviders: OptimizerProviderId[] = ['vscode-lm', 'openai-compatible', 'rule-based'];
+
+// Validation functions return message keys so errors follow language switches
+function validateServerName(name: string): MessageKey | undefined {
   if (!name || name.trim().length === 0) {
-    return '服务器名称不能为空';
+    return 'config.serverNameEmpty';
   }
   if (name.length > 50) {
-    return '服务器名称不能超过50个字符';
+    return 'config.serverNameTooLong';
   }
   if (!/^[a-z][\w-]*$/i.test(name)) {
-    return '服务器名称只能包含字母、数字、下划线和连字符，且必须以字母开头';
+    return 'config.serverNameInvalid';
   }
   return undefined;
 }
 
-function validateServerPort(port: number): string | undefined {
+function validateServerPort(port: number): MessageKey | undefined {
   if (!Number.isInteger(port)) {
-    return '端口必须是整数';
+    return 'config.portNotInteger';
   }
   if (port < 1 || port > 65535) {
-    return '端口必须在 1-65535 范围内';
+    return 'config.portOutOfRange';
   }
   return undefined;
 }
 
 export function SettingsPage() {
-  const { settings, saveSettings } = useSettings();
+  const { settings, globalSettings, settingsOverrides, saveSettings: saveToScope, resetSettings, copySettingsToGlobal } = useSettings();
+  const { language, t } = useI18n();
+  const overrideCount = Object.keys(settingsOverrides).length;
+  // Start in the workspace scope when this workspace already overrides something
+  const [scope, setScope] = React.useState<SettingsScope>(overrideCount > 0 ? 'workspace' : 'global');
+  const saveSettings = (values: Partial<Settings>) => saveToScope(values, scope);
   const [mcpServerName, setMcpServerName] = React.useState(settings.mcpServerName);
   const [mcpServerPort, setMcpServerPort] = React.useState(settings.mcpServerPort);
   const [transportType, setTransportType] = React.useState<TransportType>(settings.transportType || 'http');
   const [connectionMode, setConnectionMode] = React.useState<ConnectionMode>(settings.connectionMode || 'simple');
   const [fallbackPorts, setFallbackPorts] = React.useState<number[]>(settings.fallbackPorts || [6001, 6002, 16000]);
   const [showAdvanced, setShowAdvanced] = React.useState(false);
-  const [nameError, setNameError] = React.useState<string | undefined>();
-  const [portError, setPortError] = React.useState<string | undefined>();
+  const [nameError, setNameError] = React.useState<MessageKey | undefined>();
+  const [portError, setPortError] = React.useState<MessageKey | undefined>();
   const [isSavingMcp, setIsSavingMcp] = React.useState(false);
   const [isSwitchingTransport, setIsSwitchingTransport] = React.useState(false);
   const [isRestartingServer, setIsRestartingServer] = React.useState(false);
   const [serverState, setServerState] = React.useState<ServerState | null>(null);
   const [portAvailability, setPortAvailability] = React.useState<Record<number, boolean>>({});
 
+  // LOAD_STATE replaces settings wholesale, so fields added later may be missing
+  const timeoutAction = settings.dialogTimeoutAction || defaultSettings.dialogTimeoutAction;
+  const timeoutTemplates = React.useMemo(() => promptManager.getAllPrompts(), [language]);
+  const optimizerProvider = settings.optimizerProvider || defaultSettings.optimizerProvider;
+  const optimizerTimeouts = { ...defaultSettings.optimizerTimeouts, ...settings.optimizerTimeouts };
+  const [languageModels, setLanguageModels] = React.useState<LanguageModelInfo[]>([]);
+  const [hasOptimizerApiKey, setHasOptimizerApiKey] = React.useState(false);
+  const [optimizerApiKey, setOptimizerApiKey] = React.useState('');
+  const privacyLevel = settings.privacyLevel || defaultSettings.privacyLevel;
+  const redactionDetectors = settings.redactionDetectors ?? defaultSettings.redactionDetectors;
+  // Edited as text and saved on blur, so blank lines can be typed
+  const [redactionPatterns, setRedactionPatterns] = React.useState((settings.redactionPatterns ?? []).join('\n'));
+  const patternLines = redactionPatterns.split('\n').map(line => line.trim()).filter(Boolean);
+  const invalidPatterns = invalidRedactionPatterns(patternLines);
+
   // Check if MCP settings have changed
   const mcpSettingsChanged = mcpServerName !== settings.mcpServerName
     || mcpServerPort !== settings.mcpServerPort
@@ -114,13 +148,18 @@ export function SettingsPage() {
             [message.data.port]: message.data.available,
           }));
           break;
+        case 'optimizer_state':
+          setLanguageModels(message.data?.models ?? []);
+          setHasOptimizerApiKey(!!message.data?.hasApiKey);
+          break;
       }
     };
 
     window.addEventListener('message', handleMessage);
 
-    // Request initial server state
+    // Request initial server and optimizer state
     vscode.postMessage({ type: 'get_server_state' });
+    vscode.postMessage({ type: 'get_optimizer_state' });
 
     return () => window.removeEventListener('message', handleMessage);
   }, []);
@@ -134,13 +173,19 @@ export function SettingsPage() {
     setPortError(validateServerPort(mcpServerPort));
   }, [mcpServerPort]);
 
-  const handleReset = () => {
-    saveSettings(defaultSettings);
-    setMcpServerName(defaultSettings.mcpServerName);
-    setMcpServerPort(defaultSettings.mcpServerPort);
-    setTransportType(defaultSettings.transportType || 'http');
-    setConnectionMode(defaultSettings.connectionMode || 'simple');
-    setFallbackPorts(defaultSettings.fallbackPorts || [6001, 6002, 16000]);
+  /**
+   * Reset the settings of the selected scope; the workspace falls back to the global settings, those to the defaults
+   */
+  const handleReset = (resetScope: SettingsScope = scope) => {
+    const next: Settings = resetScope === 'global'
+      ? { ...defaultSettings, ...settingsOverrides }
+      : { ...defaultSettings, ...globalSettings };
+    resetSettings(resetScope);
+    setMcpServerName(next.mcpServerName);
+    setMcpServerPort(next.mcpServerPort);
+    setTransportType(next.transportType || 'http');
+    setConnectionMode(next.connectionMode || 'simple');
+    setFallbackPorts(next.fallbackPorts || [6001, 6002, 16000]);
   };
 
   const handleSaveMcpSettings = () => {
@@ -217,6 +262,14 @@ export function SettingsPage() {
     handleCheckPort(presetPort);
   };
 
+  const handleSaveOptimizerApiKey = () => {
+    vscode.postMessage({
+      type: 'save_optimizer_api_key',
+      data: { apiKey: optimizerApiKey },
+    });
+    setOptimizerApiKey('');
+  };
+
   const handleTestMcpConnection = () => {
     vscode.postMessage({
       type: 'test_mcp_connection',
@@ -229,20 +282,65 @@ export function SettingsPage() {
 
   return (
     <div className="space-y-6">
+      {/* Settings Scope */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="size-5" />
+            {t('settings.scope.title')}
+          </CardTitle>
+          <CardDescription>{t('settings.scope.description')}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label>{t('settings.scope.saveTo')}</Label>
+              <p className="text-sm text-muted-foreground">
+                {overrideCount > 0 ? t('settings.scope.overrides', { count: overrideCount }) : t('settings.scope.noOverrides')}
+              </p>
+            </div>
+            <Select value={scope} onValueChange={(value: SettingsScope) => setScope(value)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="global">{t('settings.scope.global')}</SelectItem>
+                <SelectItem value="workspace">{t('settings.scope.workspace')}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={copySettingsToGlobal} disabled={overrideCount === 0} className="gap-1">
+              <Copy className="size-4" />
+              {t('settings.scope.copyToGlobal')}
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleReset('workspace')} disabled={overrideCount === 0} className="gap-1">
+              <RotateCcw className="size-4" />
+              {t('settings.scope.resetWorkspace')}
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleReset('global')} className="gap-1">
+              <RotateCcw className="size-4" />
+              {t('settings.scope.resetGlobal')}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* General Settings */}
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Globe className="size-5" />
-            常规设置
+            {t('settings.general.title')}
           </CardTitle>
-          <CardDescription>配置插件的基本行为</CardDescription>
+          <CardDescription>{t('settings.general.description')}</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="flex items-center justify-between">
             <div className="space-y-0.5">
-              <Label>自动启动</Label>
-              <p className="text-sm text-muted-foreground">打开工作区时自动配置 MCP</p>
+              <Label>{t('settings.general.autoStart')}</Label>
+              <p className="text-sm text-muted-foreground">{t('settings.general.autoStartHint')}</p>
             </div>
             <Switch
               checked={settings.autoStart}
@@ -256,9 +354,9 @@ export function SettingsPage() {
             <div className="space-y-0.5">
               <Label className="flex items-center gap-2">
                 <Bell className="size-4" />
-                显示通知
+                {t('settings.general.notifications')}
               </Label>
-              <p className="text-sm text-muted-foreground">配置完成时显示通知消息</p>
+              <p className="text-sm text-muted-foreground">{t('settings.general.notificationsHint')}</p>
             </div>
             <Switch
               checked={settings.showNotifications}
@@ -270,8 +368,8 @@ export function SettingsPage() {
 
           <div className="flex items-center justify-between">
             <div className="space-y-0.5">
-              <Label>语言</Label>
-              <p className="text-sm text-muted-foreground">选择界面显示语言</p>
+              <Label>{t('settings.general.language')}</Label>
+              <p className="text-sm text-muted-foreground">{t('settings.general.languageHint')}</p>
             </div>
             <Select
               value={settings.language}
@@ -294,9 +392,9 @@ export function SettingsPage() {
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Server className="size-5" />
-            MCP 服务器设置
+            {t('settings.mcp.title')}
           </CardTitle>
-          <CardDescription>配置 MCP 服务器的连接方式、名称和端口</CardDescription>
+          <CardDescription>{t('settings.mcp.description')}</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           {/* Server Status */}
@@ -312,12 +410,12 @@ export function SettingsPage() {
                         <WifiOff className="size-4 text-red-500" />
                       )}
                   <span className="text-sm font-medium">
-                    服务器状态
+                    {t('settings.mcp.serverStatus')}
                   </span>
                 </div>
                 <div className="flex items-center gap-2">
                   <Badge variant={serverState.isRunning ? 'default' : 'destructive'}>
-                    {serverState.isRunning ? '运行中' : '已停止'}
+                    {serverState.isRunning ? t('settings.mcp.running') : t('settings.mcp.stopped')}
                   </Badge>
                   {serverState.isRunning && (
                     <Badge variant="outline">
@@ -334,8 +432,8 @@ export function SettingsPage() {
 
           <div className="flex items-center justify-between">
             <div className="space-y-0.5">
-              <Label>自动配置 MCP</Label>
-              <p className="text-sm text-muted-foreground">启动时自动配置 MCP 服务器</p>
+              <Label>{t('settings.mcp.autoConfigure')}</Label>
+              <p className="text-sm text-muted-foreground">{t('settings.mcp.autoConfigureHint')}</p>
             </div>
             <Switch
               checked={settings.mcpAutoConfig}
@@ -349,7 +447,7 @@ export function SettingsPage() {
           <div className="space-y-2">
             <Label className="flex items-center gap-2">
               <Zap className="size-4" />
-              连接方式
+              {t('settings.mcp.transport')}
               {isSwitchingTransport && <Loader2 className="size-3 animate-spin" />}
             </Label>
             <Select
@@ -358,33 +456,33 @@ export function SettingsPage() {
               disabled={isSwitchingTransport}
             >
               <SelectTrigger>
-                <SelectValue placeholder="选择连接方式" />
+                <SelectValue placeholder={t('settings.mcp.transportPlaceholder')} />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="http">
                   <div className="flex items-center gap-2">
                     <span>HTTP/SSE</span>
-                    <Badge variant="secondary" className="text-xs">推荐</Badge>
+                    <Badge variant="secondary" className="text-xs">{t('settings.mcp.recommended')}</Badge>
                   </div>
                 </SelectItem>
                 <SelectItem value="stdio">
                   <div className="flex items-center gap-2">
                     <span>Stdio</span>
-                    <Badge variant="outline" className="text-xs">备用</Badge>
+                    <Badge variant="outline" className="text-xs">{t('settings.mcp.fallback')}</Badge>
                   </div>
                 </SelectItem>
                 <SelectItem value="auto">
                   <div className="flex items-center gap-2">
-                    <span>自动</span>
-                    <Badge variant="outline" className="text-xs">智能切换</Badge>
+                    <span>{t('settings.mcp.auto')}</span>
+                    <Badge variant="outline" className="text-xs">{t('settings.mcp.smartSwitch')}</Badge>
                   </div>
                 </SelectItem>
               </SelectContent>
             </Select>
             <p className="text-xs text-muted-foreground">
-              {transportType === 'http' && 'HTTP/SSE 模式性能更好，支持多客户端连接'}
-              {transportType === 'stdio' && 'Stdio 模式兼容性更好，适用于特殊环境'}
-              {transportType === 'auto' && '自动模式会在 HTTP 失败时切换到 Stdio'}
+              {transportType === 'http' && t('settings.mcp.httpHint')}
+              {transportType === 'stdio' && t('settings.mcp.stdioHint')}
+              {transportType === 'auto' && t('settings.mcp.autoHint')}
             </p>
           </div>
 
@@ -394,17 +492,18 @@ export function SettingsPage() {
           {transportType !== 'stdio' && (
             <>
               <div className="space-y-2">
-                <Label>端口预设</Label>
+                <Label>{t('settings.mcp.portPresets')}</Label>
                 <div className="flex flex-wrap gap-2">
                   {portPresets.map(preset => (
                     <Button
                       key={preset.port}
+                      title={t(`settings.portPresets.${preset.id}.description`)}
                       variant={mcpServerPort === preset.port ? 'default' : 'outline'}
                       size="sm"
                       onClick={() => handlePortPresetChange(preset.port)}
                       className="text-xs"
                     >
-                      {preset.name}
+                      {t(`settings.portPresets.${preset.id}.name`)}
                       {preset.port > 0 && ` (${preset.port})`}
                     </Button>
                   ))}
@@ -416,7 +515,7 @@ export function SettingsPage() {
           )}
 
           <div className="space-y-2">
-            <Label>服务器名称</Label>
+            <Label>{t('settings.mcp.serverName')}</Label>
             <Input
               value={mcpServerName}
               onChange={e => setMcpServerName(e.target.value)}
@@ -426,10 +525,10 @@ export function SettingsPage() {
             {nameError && (
               <p className="flex items-center gap-1 text-xs text-red-500">
                 <AlertCircle className="size-3" />
-                {nameError}
+                {t(nameError)}
               </p>
             )}
-            <p className="text-xs text-muted-foreground">MCP 配置文件中的服务器标识名称</p>
+            <p className="text-xs text-muted-foreground">{t('settings.mcp.serverNameHint')}</p>
           </div>
 
           <Separator />
@@ -437,7 +536,7 @@ export function SettingsPage() {
           {transportType !== 'stdio' && (
             <>
               <div className="space-y-2">
-                <Label>服务器端口</Label>
+                <Label>{t('settings.mcp.serverPort')}</Label>
                 <div className="flex gap-2">
                   <Input
                     type="number"
@@ -456,7 +555,7 @@ export function SettingsPage() {
                     variant="outline"
                     size="icon"
                     onClick={() => handleCheckPort(mcpServerPort)}
-                    title="检查端口可用性"
+                    title={t('settings.mcp.checkPort')}
                   >
                     <RefreshCw className="size-4" />
                   </Button>
@@ -464,15 +563,15 @@ export function SettingsPage() {
                 {portError && (
                   <p className="flex items-center gap-1 text-xs text-red-500">
                     <AlertCircle className="size-3" />
-                    {portError}
+                    {t(portError)}
                   </p>
                 )}
                 {portAvailability[mcpServerPort] !== undefined && (
                   <p className={`flex items-center gap-1 text-xs ${portAvailability[mcpServerPort] ? 'text-green-500' : 'text-red-500'}`}>
-                    {portAvailability[mcpServerPort] ? '✓ 端口可用' : '✗ 端口已被占用'}
+                    {portAvailability[mcpServerPort] ? t('settings.mcp.portAvailable') : t('settings.mcp.portInUse')}
                   </p>
                 )}
-                <p className="text-xs text-muted-foreground">MCP HTTP 服务器监听的端口号 (1-65535)</p>
+                <p className="text-xs text-muted-foreground">{t('settings.mcp.serverPortHint')}</p>
               </div>
 
               <Separator />
@@ -488,7 +587,7 @@ export function SettingsPage() {
           >
             <span className="flex items-center gap-2">
               <Settings2 className="size-4" />
-              高级选项
+              {t('settings.mcp.advanced')}
             </span>
             {showAdvanced ? <ChevronUp className="size-4" /> : <ChevronDown className="size-4" />}
           </Button>
@@ -498,8 +597,8 @@ export function SettingsPage() {
             <div className="space-y-4 rounded-lg border p-4">
               <div className="flex items-center justify-between">
                 <div className="space-y-0.5">
-                  <Label>自动重连</Label>
-                  <p className="text-sm text-muted-foreground">连接断开时自动尝试重连</p>
+                  <Label>{t('settings.mcp.autoReconnect')}</Label>
+                  <p className="text-sm text-muted-foreground">{t('settings.mcp.autoReconnectHint')}</p>
                 </div>
                 <Switch
                   checked={settings.autoReconnect}
@@ -511,11 +610,9 @@ export function SettingsPage() {
 
               <div className="space-y-3">
                 <div className="flex items-center justify-between">
-                  <Label>重连尝试次数</Label>
+                  <Label>{t('settings.mcp.reconnectAttempts')}</Label>
                   <span className="text-sm text-muted-foreground">
-                    {settings.reconnectAttempts}
-                    {' '}
-                    次
+                    {t('settings.units.times', { count: settings.reconnectAttempts })}
                   </span>
                 </div>
                 <Slider
@@ -531,11 +628,9 @@ export function SettingsPage() {
 
               <div className="space-y-3">
                 <div className="flex items-center justify-between">
-                  <Label>连接超时</Label>
+                  <Label>{t('settings.mcp.connectionTimeout')}</Label>
                   <span className="text-sm text-muted-foreground">
-                    {settings.connectionTimeout}
-                    {' '}
-                    秒
+                    {t('settings.units.seconds', { count: settings.connectionTimeout })}
                   </span>
                 </div>
                 <Slider
@@ -551,8 +646,8 @@ export function SettingsPage() {
 
               <div className="flex items-center justify-between">
                 <div className="space-y-0.5">
-                  <Label>自动回退到 Stdio</Label>
-                  <p className="text-sm text-muted-foreground">HTTP 连接失败时自动切换</p>
+                  <Label>{t('settings.mcp.fallbackToStdio')}</Label>
+                  <p className="text-sm text-muted-foreground">{t('settings.mcp.fallbackToStdioHint')}</p>
                 </div>
                 <Switch
                   checked={settings.fallbackToStdio}
@@ -563,11 +658,9 @@ export function SettingsPage() {
               <Separator />
 
               <div className="space-y-2">
-                <Label>备用端口</Label>
+                <Label>{t('settings.mcp.fallbackPorts')}</Label>
                 <p className="text-xs text-muted-foreground">
-                  当前备用端口:
-                  {' '}
-                  {fallbackPorts.join(', ')}
+                  {t('settings.mcp.currentFallbackPorts', { ports: fallbackPorts.join(', ') })}
                 </p>
                 <div className="flex flex-wrap gap-2">
                   {[6001, 6002, 6003, 16000, 16001].map(port => (
@@ -596,7 +689,7 @@ export function SettingsPage() {
 
           <div className="space-y-2">
             <div className="flex items-center justify-between text-sm">
-              <span className="text-muted-foreground">当前配置:</span>
+              <span className="text-muted-foreground">{t('settings.mcp.currentConfig')}</span>
               <span className="font-mono text-xs">
                 {transportType.toUpperCase()}
                 {' '}
@@ -609,7 +702,7 @@ export function SettingsPage() {
             {mcpSettingsChanged && (
               <div className="flex items-center gap-2 rounded-md bg-yellow-500/10 p-2 text-xs text-yellow-600 dark:text-yellow-400">
                 <AlertCircle className="size-4" />
-                设置已修改，需要保存并重启 Windsurf 才能生效
+                {t('settings.mcp.restartRequired')}
               </div>
             )}
           </div>
@@ -622,7 +715,7 @@ export function SettingsPage() {
               className="gap-2"
             >
               <RefreshCw className="size-4" />
-              测试连接
+              {t('settings.mcp.testConnection')}
             </Button>
             <Button
               variant="outline"
@@ -638,7 +731,7 @@ export function SettingsPage() {
                 : (
                     <Play className="size-4" />
                   )}
-              重启服务器
+              {t('settings.mcp.restartServer')}
             </Button>
             <Button
               size="sm"
@@ -653,7 +746,7 @@ export function SettingsPage() {
                 : (
                     <Save className="size-4" />
                   )}
-              保存 MCP 配置
+              {t('settings.mcp.saveConfig')}
             </Button>
           </div>
         </CardContent>
@@ -664,18 +757,38 @@ export function SettingsPage() {
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Clock className="size-5" />
-            对话框设置
+            {t('settings.dialog.title')}
           </CardTitle>
-          <CardDescription>配置 Windsurf Endless 对话框的行为</CardDescription>
+          <CardDescription>{t('settings.dialog.description')}</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label>{t('settings.dialog.mode')}</Label>
+              <p className="text-sm text-muted-foreground">{t('settings.dialog.modeHint')}</p>
+            </div>
+            <Select
+              value={settings.checkpointMode || defaultSettings.checkpointMode}
+              onValueChange={(value: CheckpointMode) =>
+                saveSettings({ checkpointMode: value })}
+            >
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="webview">{t('settings.dialog.modeWebview')}</SelectItem>
+                <SelectItem value="native">{t('settings.dialog.modeNative')}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Separator />
+
           <div className="space-y-3">
             <div className="flex items-center justify-between">
-              <Label>超时时间</Label>
+              <Label>{t('settings.dialog.timeout')}</Label>
               <span className="text-sm text-muted-foreground">
-                {settings.dialogTimeout}
-                {' '}
-                小时
+                {t('settings.units.hours', { count: settings.dialogTimeout })}
               </span>
             </div>
             <Slider
@@ -685,15 +798,66 @@ export function SettingsPage() {
               max={48}
               step={1}
             />
-            <p className="text-xs text-muted-foreground">对话框等待用户响应的最长时间</p>
+            <p className="text-xs text-muted-foreground">{t('settings.dialog.timeoutHint')}</p>
           </div>
 
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label>{t('settings.dialog.timeoutAction')}</Label>
+              <p className="text-sm text-muted-foreground">{t('settings.dialog.timeoutActionHint')}</p>
+            </div>
+            <Select
+              value={timeoutAction}
+              onValueChange={(value: DialogTimeoutAction) =>
+                saveSettings({ dialogTimeoutAction: value })}
+            >
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="end">{t('settings.dialog.actionEnd')}</SelectItem>
+                <SelectItem value="continue">{t('settings.dialog.actionContinue')}</SelectItem>
+                <SelectItem value="template">{t('settings.dialog.actionTemplate')}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {timeoutAction === 'continue' && (
+            <div className="space-y-2">
+              <Label>{t('settings.dialog.timeoutInstruction')}</Label>
+              <Input
+                value={settings.dialogTimeoutInstruction ?? ''}
+                onChange={e => saveSettings({ dialogTimeoutInstruction: e.target.value })}
+                placeholder={t('settings.dialog.timeoutInstructionPlaceholder')}
+              />
+            </div>
+          )}
+
+          {timeoutAction === 'template' && (
+            <div className="flex items-center justify-between">
+              <Label>{t('settings.dialog.timeoutTemplate')}</Label>
+              <Select
+                value={settings.dialogTimeoutTemplateId || undefined}
+                onValueChange={value => saveSettings({ dialogTimeoutTemplateId: value })}
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue placeholder={t('settings.dialog.templatePlaceholder')} />
+                </SelectTrigger>
+                <SelectContent>
+                  {timeoutTemplates.map(prompt => (
+                    <SelectItem key={prompt.id} value={prompt.id}>{prompt.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <Separator />
 
           <div className="flex items-center justify-between">
             <div className="space-y-0.5">
-              <Label>对话框位置</Label>
-              <p className="text-sm text-muted-foreground">对话框显示的位置</p>
+              <Label>{t('settings.dialog.position')}</Label>
+              <p className="text-sm text-muted-foreground">{t('settings.dialog.positionHint')}</p>
             </div>
             <Select
               value={settings.dialogPosition}
@@ -704,9 +868,9 @@ export function SettingsPage() {
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="center">居中</SelectItem>
-                <SelectItem value="top-right">右上角</SelectItem>
-                <SelectItem value="bottom-right">右下角</SelectItem>
+                <SelectItem value="center">{t('settings.dialog.center')}</SelectItem>
+                <SelectItem value="top-right">{t('settings.dialog.topRight')}</SelectItem>
+                <SelectItem value="bottom-right">{t('settings.dialog.bottomRight')}</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -715,8 +879,8 @@ export function SettingsPage() {
 
           <div className="flex items-center justify-between">
             <div className="space-y-0.5">
-              <Label>主题</Label>
-              <p className="text-sm text-muted-foreground">对话框的颜色主题</p>
+              <Label>{t('settings.dialog.theme')}</Label>
+              <p className="text-sm text-muted-foreground">{t('settings.dialog.themeHint')}</p>
             </div>
             <Select
               value={settings.dialogTheme}
@@ -727,29 +891,157 @@ export function SettingsPage() {
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="system">跟随系统</SelectItem>
-                <SelectItem value="light">浅色</SelectItem>
-                <SelectItem value="dark">深色</SelectItem>
+                <SelectItem value="system">{t('settings.dialog.themeSystem')}</SelectItem>
+                <SelectItem value="light">{t('settings.dialog.themeLight')}</SelectItem>
+                <SelectItem value="dark">{t('settings.dialog.themeDark')}</SelectItem>
               </SelectContent>
             </Select>
           </div>
         </CardContent>
       </Card>
 
+      {/* Prompt Optimization Settings */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Sparkles className="size-5" />
+            {t('settings.optimizer.title')}
+          </CardTitle>
+          <CardDescription>{t('settings.optimizer.description')}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label>{t('settings.optimizer.provider')}</Label>
+              <p className="text-sm text-muted-foreground">{t('settings.optimizer.providerHint')}</p>
+            </div>
+            <Select
+              value={optimizerProvider}
+              onValueChange={(value: OptimizerProviderId) =>
+                saveSettings({ optimizerProvider: value })}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {optimizerProviders.map(id => (
+                  <SelectItem key={id} value={id}>{t(`settings.providers.${id}`)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {optimizerProvider === 'vscode-lm' && (
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label>{t('settings.optimizer.model')}</Label>
+                <p className="text-sm text-muted-foreground">{t('settings.optimizer.modelHint')}</p>
+              </div>
+              <Select
+                value={settings.optimizerModelId || AUTO_MODEL}
+                onValueChange={value => saveSettings({ optimizerModelId: value === AUTO_MODEL ? '' : value })}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTO_MODEL}>{t('settings.optimizer.autoModel')}</SelectItem>
+                  {languageModels.map(model => (
+                    <SelectItem key={model.id} value={model.id}>
+                      {model.name}
+                      {' '}
+                      (
+                      {model.vendor}
+                      )
+                    </SelectItem>
+                  ))}
+                  {/* Keep a saved model visible even when it is not installed right now */}
+                  {settings.optimizerModelId && !languageModels.some(model => model.id === settings.optimizerModelId) && (
+                    <SelectItem value={settings.optimizerModelId}>{settings.optimizerModelId}</SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {optimizerProvider === 'openai-compatible' && (
+            <>
+              <div className="space-y-2">
+                <Label>{t('settings.optimizer.endpoint')}</Label>
+                <Input
+                  value={settings.optimizerEndpoint ?? defaultSettings.optimizerEndpoint}
+                  onChange={e => saveSettings({ optimizerEndpoint: e.target.value })}
+                  placeholder={defaultSettings.optimizerEndpoint}
+                />
+                <p className="text-xs text-muted-foreground">{t('settings.optimizer.endpointHint')}</p>
+              </div>
+              <div className="space-y-2">
+                <Label>{t('settings.optimizer.modelName')}</Label>
+                <Input
+                  value={settings.optimizerModel ?? ''}
+                  onChange={e => saveSettings({ optimizerModel: e.target.value })}
+                  placeholder={t('settings.optimizer.modelNamePlaceholder')}
+                />
+              </div>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>API Key</Label>
+                  <Badge variant={hasOptimizerApiKey ? 'default' : 'secondary'}>
+                    {hasOptimizerApiKey ? t('settings.optimizer.apiKeySaved') : t('settings.optimizer.apiKeyUnset')}
+                  </Badge>
+                </div>
+                <div className="flex gap-2">
+                  <Input
+                    type="password"
+                    value={optimizerApiKey}
+                    onChange={e => setOptimizerApiKey(e.target.value)}
+                    placeholder={hasOptimizerApiKey ? t('settings.optimizer.apiKeyReplace') : t('settings.optimizer.apiKeyOptional')}
+                  />
+                  <Button variant="outline" onClick={handleSaveOptimizerApiKey} className="gap-1">
+                    <Save className="size-4" />
+                    {t('common.save')}
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">{t('settings.optimizer.apiKeyHint')}</p>
+              </div>
+            </>
+          )}
+
+          <Separator />
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>{t('settings.optimizer.timeout')}</Label>
+              <span className="text-sm text-muted-foreground">
+                {t('settings.units.seconds', { count: optimizerTimeouts[optimizerProvider] })}
+              </span>
+            </div>
+            <Slider
+              value={[optimizerTimeouts[optimizerProvider]]}
+              onValueChange={([value]) => saveSettings({ optimizerTimeouts: { ...optimizerTimeouts, [optimizerProvider]: value } })}
+              min={5}
+              max={300}
+              step={5}
+            />
+            <p className="text-xs text-muted-foreground">{t('settings.optimizer.timeoutHint')}</p>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Rules Settings */}
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <FolderOpen className="size-5" />
-            规则设置
+            {t('settings.rules.title')}
           </CardTitle>
-          <CardDescription>配置 AI 规则文件的注入</CardDescription>
+          <CardDescription>{t('settings.rules.description')}</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="flex items-center justify-between">
             <div className="space-y-0.5">
-              <Label>自动注入规则</Label>
-              <p className="text-sm text-muted-foreground">自动创建 .windsurfrules 文件</p>
+              <Label>{t('settings.rules.autoInject')}</Label>
+              <p className="text-sm text-muted-foreground">{t('settings.rules.autoInjectHint')}</p>
             </div>
             <Switch
               checked={settings.autoInjectRules}
@@ -760,13 +1052,13 @@ export function SettingsPage() {
           <Separator />
 
           <div className="space-y-2">
-            <Label>自定义规则路径</Label>
+            <Label>{t('settings.rules.customPath')}</Label>
             <Input
               value={settings.customRulesPath}
               onChange={e => saveSettings({ customRulesPath: e.target.value })}
-              placeholder="留空使用默认规则"
+              placeholder={t('settings.rules.customPathPlaceholder')}
             />
-            <p className="text-xs text-muted-foreground">指定自定义规则文件的路径（可选）</p>
+            <p className="text-xs text-muted-foreground">{t('settings.rules.customPathHint')}</p>
           </div>
         </CardContent>
       </Card>
@@ -776,15 +1068,15 @@ export function SettingsPage() {
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <History className="size-5" />
-            历史记录设置
+            {t('settings.history.title')}
           </CardTitle>
-          <CardDescription>配置对话历史的存储和管理</CardDescription>
+          <CardDescription>{t('settings.history.description')}</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="flex items-center justify-between">
             <div className="space-y-0.5">
-              <Label>保存历史记录</Label>
-              <p className="text-sm text-muted-foreground">记录所有 Windsurf Endless 交互</p>
+              <Label>{t('settings.history.enabled')}</Label>
+              <p className="text-sm text-muted-foreground">{t('settings.history.enabledHint')}</p>
             </div>
             <Switch
               checked={settings.saveHistory}
@@ -796,11 +1088,9 @@ export function SettingsPage() {
 
           <div className="space-y-3">
             <div className="flex items-center justify-between">
-              <Label>最大记录数</Label>
+              <Label>{t('settings.history.maxEntries')}</Label>
               <span className="text-sm text-muted-foreground">
-                {settings.maxHistoryItems}
-                {' '}
-                条
+                {t('settings.units.entries', { count: settings.maxHistoryItems })}
               </span>
             </div>
             <Slider
@@ -816,8 +1106,21 @@ export function SettingsPage() {
 
           <div className="flex items-center justify-between">
             <div className="space-y-0.5">
-              <Label>自动清理历史</Label>
-              <p className="text-sm text-muted-foreground">自动删除过期的历史记录</p>
+              <Label>{t('settings.history.syncAcrossWorkspaces')}</Label>
+              <p className="text-sm text-muted-foreground">{t('settings.history.syncAcrossWorkspacesHint')}</p>
+            </div>
+            <Switch
+              checked={settings.syncAcrossWorkspaces}
+              onCheckedChange={checked => saveSettings({ syncAcrossWorkspaces: checked })}
+            />
+          </div>
+
+          <Separator />
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label>{t('settings.history.autoClean')}</Label>
+              <p className="text-sm text-muted-foreground">{t('settings.history.autoCleanHint')}</p>
             </div>
             <Switch
               checked={settings.autoCleanHistory}
@@ -830,11 +1133,9 @@ export function SettingsPage() {
               <Separator />
               <div className="space-y-3">
                 <div className="flex items-center justify-between">
-                  <Label>保留天数</Label>
+                  <Label>{t('settings.history.retentionDays')}</Label>
                   <span className="text-sm text-muted-foreground">
-                    {settings.historyRetentionDays}
-                    {' '}
-                    天
+                    {t('settings.units.days', { count: settings.historyRetentionDays })}
                   </span>
                 </div>
                 <Slider
@@ -845,20 +1146,104 @@ export function SettingsPage() {
                   step={1}
                 />
               </div>
+              <Separator />
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label>{t('settings.history.keepStatistics')}</Label>
+                  <p className="text-sm text-muted-foreground">{t('settings.history.keepStatisticsHint')}</p>
+                </div>
+                <Switch
+                  checked={settings.keepSessionStatistics}
+                  onCheckedChange={checked => saveSettings({ keepSessionStatistics: checked })}
+                />
+              </div>
             </>
           )}
         </CardContent>
       </Card>
 
+      {/* Privacy Settings */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Shield className="size-5" />
+            {t('settings.privacy.title')}
+          </CardTitle>
+          <CardDescription>{t('settings.privacy.description')}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-0.5">
+              <Label>{t('settings.privacy.level')}</Label>
+              <p className="text-sm text-muted-foreground">{t(`settings.privacy.levelHints.${privacyLevel}`)}</p>
+            </div>
+            <Select
+              value={privacyLevel}
+              onValueChange={(value: PrivacyLevel) => saveSettings({ privacyLevel: value })}
+            >
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PRIVACY_LEVELS.map(level => (
+                  <SelectItem key={level} value={level}>{t(`settings.privacy.levels.${level}`)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-xs text-muted-foreground">{t('settings.privacy.levelHint')}</p>
+
+          <Separator />
+
+          <div className="space-y-3">
+            <Label>{t('settings.privacy.detectors')}</Label>
+            {REDACTION_DETECTORS.map(detector => (
+              <div key={detector} className="flex items-center justify-between">
+                <span className="text-sm">{t(`settings.privacy.detectorNames.${detector}`)}</span>
+                <Switch
+                  checked={redactionDetectors.includes(detector)}
+                  onCheckedChange={checked => saveSettings({
+                    redactionDetectors: checked
+                      ? REDACTION_DETECTORS.filter(d => d === detector || redactionDetectors.includes(d))
+                      : redactionDetectors.filter(d => d !== detector),
+                  })}
+                />
+              </div>
+            ))}
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <Label>{t('settings.privacy.patterns')}</Label>
+            <Textarea
+              value={redactionPatterns}
+              onChange={e => setRedactionPatterns(e.target.value)}
+              onBlur={() => saveSettings({ redactionPatterns: patternLines })}
+              placeholder={t('settings.privacy.patternsPlaceholder')}
+              className="font-mono text-xs"
+              rows={3}
+            />
+            <p className="text-xs text-muted-foreground">{t('settings.privacy.patternsHint', { max: MAX_REDACTION_PATTERN_LENGTH })}</p>
+            {invalidPatterns.length > 0 && (
+              <p className="flex items-center gap-1 text-xs text-destructive">
+                <AlertCircle className="size-3" />
+                {t('settings.privacy.invalidPatterns', { patterns: invalidPatterns.join(', ') })}
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Action Buttons */}
       <div className="flex gap-3">
-        <Button variant="outline" onClick={handleReset} className="gap-2">
+        <Button variant="outline" onClick={() => handleReset()} className="gap-2">
           <RotateCcw className="size-4" />
-          重置为默认
+          {t('settings.resetDefaults')}
         </Button>
         <Button className="gap-2 ml-auto">
           <Save className="size-4" />
-          保存设置
+          {t('settings.save')}
         </Button>
       </div>
     </div>
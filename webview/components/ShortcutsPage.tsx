@@ -59,8 +59,11 @@ import {
 } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 
+import { localizeBuiltin, translate } from '../../shared/i18n';
+import { useHostStore, useI18n } from '../store';
 import { defaultShortcuts } from '../types';
 
+import type { Language, Messages } from '../../shared/i18n';
 import type { Shortcut } from '../types';
 
 const iconMap: Record<string, React.ComponentType<{ className?: string }>> = {
@@ -85,20 +88,35 @@ const colorMap: Record<string, string> = {
   yellow: 'bg-yellow-500/20 text-yellow-600 border-yellow-500/30',
 };
 
-const categoryLabels: Record<string, string> = {
-  quick: '快捷',
-  code: '代码',
-  test: '测试',
-  doc: '文档',
-  custom: '自定义',
+const builtinShortcutKeys: Record<string, keyof Messages['builtinShortcuts']> = {
+  'sc-continue': 'continue',
+  'sc-optimize': 'optimize',
+  'sc-test': 'test',
+  'sc-fix': 'fix',
+  'sc-doc': 'doc',
+  'sc-explain': 'explain',
 };
 
+// Built-in shortcuts follow the UI language until the user edits them
+function localizeShortcut(shortcut: Shortcut, language: Language): Shortcut {
+  const key = builtinShortcutKeys[shortcut.id];
+  if (!key) {
+    return shortcut;
+  }
+  return localizeBuiltin(shortcut, lang => ({
+    name: translate(lang, `builtinShortcuts.${key}.name`),
+    description: translate(lang, `builtinShortcuts.${key}.description`),
+    content: translate(lang, `builtinShortcuts.${key}.content`),
+  }), language);
+}
+
 interface ShortcutsPageProps {
   onUseShortcut?: (shortcut: Shortcut) => void;
 }
 
 export function ShortcutsPage({ onUseShortcut }: ShortcutsPageProps) {
-  const [shortcuts, setShortcuts] = useState<Shortcut[]>(defaultShortcuts);
+  const { language, t } = useI18n();
+  const [shortcuts, setShortcuts] = useHostStore<Shortcut[]>('shortcuts', defaultShortcuts);
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [editingShortcut, setEditingShortcut] = useState<Shortcut | null>(null);
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
@@ -198,7 +216,7 @@ export function ShortcutsPage({ onUseShortcut }: ShortcutsPageProps) {
   };
 
   // Group shortcuts by category
-  const groupedShortcuts = shortcuts.reduce(
+  const groupedShortcuts = shortcuts.map(s => localizeShortcut(s, language)).reduce(
     (acc, shortcut) => {
       const cat = shortcut.category;
       if (!acc[cat]) {
@@ -217,15 +235,15 @@ export function ShortcutsPage({ onUseShortcut }: ShortcutsPageProps) {
         <div>
           <h2 className="text-lg font-semibold flex items-center gap-2">
             <Keyboard className="size-5" />
-            快捷指令
+            {t('shortcuts.title')}
           </h2>
           <p className="text-sm text-muted-foreground">
-            管理自定义快捷指令，按数字键快速使用
+            {t('shortcuts.subtitle')}
           </p>
         </div>
         <Button size="sm" onClick={() => setIsCreateOpen(true)} className="gap-1">
           <Plus className="size-4" />
-          新建快捷指令
+          {t('shortcuts.new')}
         </Button>
       </div>
 
@@ -235,11 +253,9 @@ export function ShortcutsPage({ onUseShortcut }: ShortcutsPageProps) {
           {Object.entries(groupedShortcuts).map(([category, items]) => (
             <div key={category}>
               <h3 className="text-sm font-medium mb-3 flex items-center gap-2">
-                <Badge variant="outline">{categoryLabels[category]}</Badge>
+                <Badge variant="outline">{t(`promptCategories.${category as Shortcut['category']}`)}</Badge>
                 <span className="text-muted-foreground text-xs">
-                  {items.length}
-                  {' '}
-                  个
+                  {t('shortcuts.count', { count: items.length })}
                 </span>
               </h3>
               <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-3">
@@ -288,7 +304,7 @@ export function ShortcutsPage({ onUseShortcut }: ShortcutsPageProps) {
                               }}
                               >
                                 <Edit2 className="size-4 mr-2" />
-                                编辑
+                                {t('common.edit')}
                               </DropdownMenuItem>
                               {!shortcut.isBuiltIn && (
                                 <DropdownMenuItem
@@ -299,7 +315,7 @@ export function ShortcutsPage({ onUseShortcut }: ShortcutsPageProps) {
                                   }}
                                 >
                                   <Trash2 className="size-4 mr-2" />
-                                  删除
+                                  {t('common.delete')}
                                 </DropdownMenuItem>
                               )}
                             </DropdownMenuContent>
@@ -332,74 +348,74 @@ export function ShortcutsPage({ onUseShortcut }: ShortcutsPageProps) {
         <DialogContent className="max-w-md">
           <DialogHeader>
             <DialogTitle>
-              {editingShortcut ? '编辑快捷指令' : '新建快捷指令'}
+              {editingShortcut ? t('shortcuts.editTitle') : t('shortcuts.new')}
             </DialogTitle>
             <DialogDescription>
-              创建快捷指令，在 Windsurf Endless 对话框中快速使用
+              {t('shortcuts.dialogDescription')}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-4">
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="name">名称</Label>
+                <Label htmlFor="name">{t('prompts.name')}</Label>
                 <Input
                   id="name"
                   value={formData.name}
                   onChange={e => setFormData({ ...formData, name: e.target.value })}
-                  placeholder="例如：继续优化"
+                  placeholder={t('shortcuts.namePlaceholder')}
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="hotkey">快捷键</Label>
+                <Label htmlFor="hotkey">{t('prompts.hotkey')}</Label>
                 <Input
                   id="hotkey"
                   value={formData.hotkey}
                   onChange={e => setFormData({ ...formData, hotkey: e.target.value.slice(0, 1) })}
-                  placeholder="1-9 或字母"
+                  placeholder={t('shortcuts.hotkeyPlaceholder')}
                   maxLength={1}
                 />
               </div>
             </div>
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
-                <Label>图标</Label>
+                <Label>{t('prompts.icon')}</Label>
                 <Select value={formData.icon} onValueChange={v => setFormData({ ...formData, icon: v })}>
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="play">▶️ 播放</SelectItem>
-                    <SelectItem value="sparkles">✨ 闪光</SelectItem>
-                    <SelectItem value="flask">🧪 烧瓶</SelectItem>
-                    <SelectItem value="wrench">🔧 扳手</SelectItem>
-                    <SelectItem value="file-text">📄 文件</SelectItem>
-                    <SelectItem value="message-circle">💬 消息</SelectItem>
-                    <SelectItem value="code">💻 代码</SelectItem>
-                    <SelectItem value="zap">⚡ 闪电</SelectItem>
+                    <SelectItem value="play">{`▶️ ${t('prompts.icons.play')}`}</SelectItem>
+                    <SelectItem value="sparkles">{`✨ ${t('prompts.icons.sparkles')}`}</SelectItem>
+                    <SelectItem value="flask">{`🧪 ${t('prompts.icons.flask')}`}</SelectItem>
+                    <SelectItem value="wrench">{`🔧 ${t('prompts.icons.wrench')}`}</SelectItem>
+                    <SelectItem value="file-text">{`📄 ${t('prompts.icons.file-text')}`}</SelectItem>
+                    <SelectItem value="message-circle">{`💬 ${t('prompts.icons.message-circle')}`}</SelectItem>
+                    <SelectItem value="code">{`💻 ${t('prompts.icons.code')}`}</SelectItem>
+                    <SelectItem value="zap">{`⚡ ${t('prompts.icons.zap')}`}</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
               <div className="space-y-2">
-                <Label>颜色</Label>
+                <Label>{t('prompts.color')}</Label>
                 <Select value={formData.color} onValueChange={v => setFormData({ ...formData, color: v })}>
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="green">🟢 绿色</SelectItem>
-                    <SelectItem value="blue">🔵 蓝色</SelectItem>
-                    <SelectItem value="purple">🟣 紫色</SelectItem>
-                    <SelectItem value="orange">🟠 橙色</SelectItem>
-                    <SelectItem value="cyan">🔵 青色</SelectItem>
-                    <SelectItem value="pink">🩷 粉色</SelectItem>
-                    <SelectItem value="red">🔴 红色</SelectItem>
-                    <SelectItem value="yellow">🟡 黄色</SelectItem>
+                    <SelectItem value="green">{`🟢 ${t('prompts.colors.green')}`}</SelectItem>
+                    <SelectItem value="blue">{`🔵 ${t('prompts.colors.blue')}`}</SelectItem>
+                    <SelectItem value="purple">{`🟣 ${t('prompts.colors.purple')}`}</SelectItem>
+                    <SelectItem value="orange">{`🟠 ${t('prompts.colors.orange')}`}</SelectItem>
+                    <SelectItem value="cyan">{`🔵 ${t('prompts.colors.cyan')}`}</SelectItem>
+                    <SelectItem value="pink">{`🩷 ${t('prompts.colors.pink')}`}</SelectItem>
+                    <SelectItem value="red">{`🔴 ${t('prompts.colors.red')}`}</SelectItem>
+                    <SelectItem value="yellow">{`🟡 ${t('prompts.colors.yellow')}`}</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
             </div>
             <div className="space-y-2">
-              <Label>分类</Label>
+              <Label>{t('prompts.category')}</Label>
               <Select
                 value={formData.category}
                 onValueChange={v => setFormData({ ...formData, category: v as Shortcut['category'] })}
@@ -408,30 +424,30 @@ export function ShortcutsPage({ onUseShortcut }: ShortcutsPageProps) {
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="quick">快捷</SelectItem>
-                  <SelectItem value="code">代码</SelectItem>
-                  <SelectItem value="test">测试</SelectItem>
-                  <SelectItem value="doc">文档</SelectItem>
-                  <SelectItem value="custom">自定义</SelectItem>
+                  <SelectItem value="quick">{t('promptCategories.quick')}</SelectItem>
+                  <SelectItem value="code">{t('promptCategories.code')}</SelectItem>
+                  <SelectItem value="test">{t('promptCategories.test')}</SelectItem>
+                  <SelectItem value="doc">{t('promptCategories.doc')}</SelectItem>
+                  <SelectItem value="custom">{t('promptCategories.custom')}</SelectItem>
                 </SelectContent>
               </Select>
             </div>
             <div className="space-y-2">
-              <Label htmlFor="description">描述</Label>
+              <Label htmlFor="description">{t('prompts.description')}</Label>
               <Input
                 id="description"
                 value={formData.description}
                 onChange={e => setFormData({ ...formData, description: e.target.value })}
-                placeholder="简短描述"
+                placeholder={t('shortcuts.descriptionPlaceholder')}
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="content">指令内容</Label>
+              <Label htmlFor="content">{t('shortcuts.content')}</Label>
               <Textarea
                 id="content"
                 value={formData.content}
                 onChange={e => setFormData({ ...formData, content: e.target.value })}
-                placeholder="输入发送给AI的指令..."
+                placeholder={t('shortcuts.contentPlaceholder')}
                 rows={3}
               />
             </div>
@@ -445,10 +461,10 @@ export function ShortcutsPage({ onUseShortcut }: ShortcutsPageProps) {
                 resetForm();
               }}
             >
-              取消
+              {t('common.cancel')}
             </Button>
             <Button onClick={editingShortcut ? handleEdit : handleCreate}>
-              {editingShortcut ? '保存' : '创建'}
+              {editingShortcut ? t('common.save') : t('common.create')}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -458,15 +474,15 @@ export function ShortcutsPage({ onUseShortcut }: ShortcutsPageProps) {
       <AlertDialog open={!!deleteConfirmId} onOpenChange={() => setDeleteConfirmId(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>确认删除？</AlertDialogTitle>
+            <AlertDialogTitle>{t('shortcuts.confirmDelete')}</AlertDialogTitle>
             <AlertDialogDescription>
-              此操作无法撤销，快捷指令将被永久删除。
+              {t('shortcuts.confirmDeleteDescription')}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel>取消</AlertDialogCancel>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
             <AlertDialogAction onClick={() => deleteConfirmId && handleDelete(deleteConfirmId)}>
-              删除
+              {t('common.delete')}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
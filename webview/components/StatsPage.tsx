@@ -30,13 +30,14 @@ import {
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 
-import { useConversations, useHistory } from '../store';
+import { useConversations, useHistory, useI18n } from '../store';
 
 const COLORS = ['hsl(var(--primary))', 'hsl(var(--secondary))', '#10b981', '#f59e0b', '#ef4444'];
 
 export function StatsPage() {
   const { conversations } = useConversations();
   const { history } = useHistory();
+  const { language, t } = useI18n();
 
   // Calculate statistics
   const stats = useMemo(() => {
@@ -65,7 +66,7 @@ export function StatsPage() {
     for (let i = 6; i >= 0; i--) {
       const date = new Date(now);
       date.setDate(date.getDate() - i);
-      const dateStr = date.toLocaleDateString('zh-CN', { month: 'short', day: 'numeric' });
+      const dateStr = date.toLocaleDateString(language, { month: 'short', day: 'numeric' });
       const dayStart = new Date(date.setHours(0, 0, 0, 0)).getTime();
       const dayEnd = new Date(date.setHours(23, 59, 59, 999)).getTime();
 
@@ -82,15 +83,15 @@ export function StatsPage() {
     }
 
     return days;
-  }, [history]);
+  }, [history, language]);
 
   // Pie chart data for action distribution
   const actionDistribution = useMemo(() => {
     return [
-      { name: '继续对话', value: stats.continueCount, color: COLORS[0] },
-      { name: '结束对话', value: stats.endCount, color: COLORS[4] },
+      { name: t('stats.continueConversation'), value: stats.continueCount, color: COLORS[0] },
+      { name: t('stats.endConversation'), value: stats.endCount, color: COLORS[4] },
     ].filter(d => d.value > 0);
-  }, [stats]);
+  }, [stats, t]);
 
   // Conversation activity data
   const conversationActivity = useMemo(() => {
@@ -108,49 +109,49 @@ export function StatsPage() {
       <div>
         <h2 className="text-lg font-semibold flex items-center gap-2">
           <BarChart3 className="size-5" />
-          数据统计
+          {t('stats.title')}
         </h2>
-        <p className="text-sm text-muted-foreground">查看使用情况和趋势分析</p>
+        <p className="text-sm text-muted-foreground">{t('stats.subtitle')}</p>
       </div>
 
       {/* Stats Cards */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">总对话数</CardTitle>
+            <CardTitle className="text-sm font-medium">{t('stats.totalConversations')}</CardTitle>
             <MessageSquare className="size-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{stats.totalConversations}</div>
-            <p className="text-xs text-muted-foreground">个独立对话</p>
+            <p className="text-xs text-muted-foreground">{t('stats.totalConversationsHint')}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">总消息数</CardTitle>
+            <CardTitle className="text-sm font-medium">{t('stats.totalMessages')}</CardTitle>
             <Activity className="size-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{stats.totalMessages}</div>
-            <p className="text-xs text-muted-foreground">条交互记录</p>
+            <p className="text-xs text-muted-foreground">{t('stats.totalMessagesHint')}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">历史记录</CardTitle>
+            <CardTitle className="text-sm font-medium">{t('stats.history')}</CardTitle>
             <Clock className="size-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{stats.totalHistoryItems}</div>
-            <p className="text-xs text-muted-foreground">次 Windsurf Endless</p>
+            <p className="text-xs text-muted-foreground">{t('stats.historyHint')}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">继续率</CardTitle>
+            <CardTitle className="text-sm font-medium">{t('stats.continueRate')}</CardTitle>
             <TrendingUp className="size-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -158,7 +159,7 @@ export function StatsPage() {
               {stats.continueRate}
               %
             </div>
-            <p className="text-xs text-muted-foreground">选择继续对话</p>
+            <p className="text-xs text-muted-foreground">{t('stats.continueRateHint')}</p>
           </CardContent>
         </Card>
       </div>
@@ -170,9 +171,9 @@ export function StatsPage() {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Calendar className="size-5" />
-              7天活动趋势
+              {t('stats.activityTrend')}
             </CardTitle>
-            <CardDescription>最近7天的 Windsurf Endless 使用情况</CardDescription>
+            <CardDescription>{t('stats.activityTrendDescription')}</CardDescription>
           </CardHeader>
           <CardContent>
             {activityData.some(d => d.total > 0)
@@ -196,7 +197,7 @@ export function StatsPage() {
                         stroke="hsl(var(--primary))"
                         fill="hsl(var(--primary))"
                         fillOpacity={0.6}
-                        name="继续"
+                        name={t('common.continue')}
                       />
                       <Area
                         type="monotone"
@@ -205,7 +206,7 @@ export function StatsPage() {
                         stroke="hsl(var(--destructive))"
                         fill="hsl(var(--destructive))"
                         fillOpacity={0.6}
-                        name="结束"
+                        name={t('common.end')}
                       />
                       <Legend />
                     </AreaChart>
@@ -213,7 +214,7 @@ export function StatsPage() {
                 )
               : (
                   <div className="flex items-center justify-center h-[200px] text-muted-foreground">
-                    暂无数据
+                    {t('common.noData')}
                   </div>
                 )}
           </CardContent>
@@ -224,9 +225,9 @@ export function StatsPage() {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <TrendingUp className="size-5" />
-              操作分布
+              {t('stats.actionDistribution')}
             </CardTitle>
-            <CardDescription>继续与结束的比例</CardDescription>
+            <CardDescription>{t('stats.actionDistributionDescription')}</CardDescription>
           </CardHeader>
           <CardContent>
             {actionDistribution.length > 0
@@ -259,7 +260,7 @@ export function StatsPage() {
                 )
               : (
                   <div className="flex items-center justify-center h-[200px] text-muted-foreground">
-                    暂无数据
+                    {t('common.noData')}
                   </div>
                 )}
           </CardContent>
@@ -271,9 +272,9 @@ export function StatsPage() {
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <MessageSquare className="size-5" />
-            对话活跃度
+            {t('stats.conversationActivity')}
           </CardTitle>
-          <CardDescription>各对话的消息数量（前5个）</CardDescription>
+          <CardDescription>{t('stats.conversationActivityDescription')}</CardDescription>
         </CardHeader>
         <CardContent>
           {conversationActivity.length > 0
@@ -290,13 +291,13 @@ export function StatsPage() {
                         borderRadius: '8px',
                       }}
                     />
-                    <Bar dataKey="messages" fill="hsl(var(--primary))" radius={[0, 4, 4, 0]} name="消息数" />
+                    <Bar dataKey="messages" fill="hsl(var(--primary))" radius={[0, 4, 4, 0]} name={t('stats.messages')} />
                   </BarChart>
                 </ResponsiveContainer>
               )
             : (
                 <div className="flex items-center justify-center h-[200px] text-muted-foreground">
-                  暂无对话数据
+                  {t('stats.noConversationData')}
                 </div>
               )}
         </CardContent>
@@ -43,10 +43,17 @@ import {
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Separator } from '@/components/ui/separator';
 import { Textarea } from '@/components/ui/textarea';
 
+import { DEFAULT_LANGUAGE, localizeBuiltin, translate } from '../../shared/i18n';
+import { useHostStore, useI18n } from '../store';
 import { vscode } from '../utils/vscode';
 
+import { OptimizationProfilesSection } from './OptimizationProfilesSection';
+
+import type { Language, Messages } from '../../shared/i18n';
+
 interface Template {
   id: string;
   name: string;
@@ -56,43 +63,66 @@ interface Template {
   createdAt: number;
 }
 
+const BUILTIN_TEMPLATE_KEYS: Record<string, keyof Messages['builtinTemplates']> = {
+  'tpl-1': 'optimize',
+  'tpl-2': 'test',
+  'tpl-3': 'fix',
+  'tpl-4': 'doc',
+};
+
+// Stored in the default language; unedited ones are shown in the UI language
 const DEFAULT_TEMPLATES: Template[] = [
   {
     id: 'tpl-1',
-    name: '继续优化',
-    description: '让AI继续优化当前代码',
-    content: '请继续优化这段代码，注意保持代码风格一致，添加必要的注释。',
-    category: '代码',
+    name: translate(DEFAULT_LANGUAGE, 'builtinTemplates.optimize.name'),
+    description: translate(DEFAULT_LANGUAGE, 'builtinTemplates.optimize.description'),
+    content: translate(DEFAULT_LANGUAGE, 'builtinTemplates.optimize.content'),
+    category: translate(DEFAULT_LANGUAGE, 'builtinTemplates.optimize.category'),
     createdAt: Date.now(),
   },
   {
     id: 'tpl-2',
-    name: '添加测试',
-    description: '为当前功能添加单元测试',
-    content: '请为刚才实现的功能添加完整的单元测试，覆盖正常情况和边界情况。',
-    category: '测试',
+    name: translate(DEFAULT_LANGUAGE, 'builtinTemplates.test.name'),
+    description: translate(DEFAULT_LANGUAGE, 'builtinTemplates.test.description'),
+    content: translate(DEFAULT_LANGUAGE, 'builtinTemplates.test.content'),
+    category: translate(DEFAULT_LANGUAGE, 'builtinTemplates.test.category'),
     createdAt: Date.now(),
   },
   {
     id: 'tpl-3',
-    name: '修复Bug',
-    description: '继续修复发现的问题',
-    content: '请继续修复刚才发现的问题，确保不影响其他功能。',
-    category: '修复',
+    name: translate(DEFAULT_LANGUAGE, 'builtinTemplates.fix.name'),
+    description: translate(DEFAULT_LANGUAGE, 'builtinTemplates.fix.description'),
+    content: translate(DEFAULT_LANGUAGE, 'builtinTemplates.fix.content'),
+    category: translate(DEFAULT_LANGUAGE, 'builtinTemplates.fix.category'),
     createdAt: Date.now(),
   },
   {
     id: 'tpl-4',
-    name: '添加文档',
-    description: '为代码添加文档注释',
-    content: '请为刚才的代码添加详细的文档注释，包括函数说明、参数说明和返回值说明。',
-    category: '文档',
+    name: translate(DEFAULT_LANGUAGE, 'builtinTemplates.doc.name'),
+    description: translate(DEFAULT_LANGUAGE, 'builtinTemplates.doc.description'),
+    content: translate(DEFAULT_LANGUAGE, 'builtinTemplates.doc.content'),
+    category: translate(DEFAULT_LANGUAGE, 'builtinTemplates.doc.category'),
     createdAt: Date.now(),
   },
 ];
 
+function localizeTemplate(template: Template, language: Language): Template {
+  const key = BUILTIN_TEMPLATE_KEYS[template.id];
+  if (!key) {
+    return template;
+  }
+  return localizeBuiltin(template, lang => ({
+    name: translate(lang, `builtinTemplates.${key}.name`),
+    description: translate(lang, `builtinTemplates.${key}.description`),
+    content: translate(lang, `builtinTemplates.${key}.content`),
+    category: translate(lang, `builtinTemplates.${key}.category`),
+  }), language);
+}
+
 export function TemplatesPage() {
-  const [templates, setTemplates] = useState<Template[]>(DEFAULT_TEMPLATES);
+  const { language, t } = useI18n();
+  const [storedTemplates, setTemplates] = useHostStore<Template[]>('templates', DEFAULT_TEMPLATES);
+  const templates = storedTemplates.map(template => localizeTemplate(template, language));
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [editingTemplate, setEditingTemplate] = useState<Template | null>(null);
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
@@ -111,7 +141,7 @@ export function TemplatesPage() {
         name: formData.name,
         description: formData.description,
         content: formData.content,
-        category: formData.category || '通用',
+        category: formData.category || t('templates.defaultCategory'),
         createdAt: Date.now(),
       };
       setTemplates([newTemplate, ...templates]);
@@ -122,10 +152,10 @@ export function TemplatesPage() {
 
   const handleEdit = () => {
     if (editingTemplate && formData.name && formData.content) {
-      setTemplates(templates.map(t =>
-        t.id === editingTemplate.id
-          ? { ...t, ...formData }
-          : t,
+      setTemplates(templates.map(template =>
+        template.id === editingTemplate.id
+          ? { ...template, ...formData }
+          : template,
       ));
       setEditingTemplate(null);
       setFormData({ name: '', description: '', content: '', category: '' });
@@ -133,7 +163,7 @@ export function TemplatesPage() {
   };
 
   const handleDelete = (id: string) => {
-    setTemplates(templates.filter(t => t.id !== id));
+    setTemplates(templates.filter(template => template.id !== id));
     setDeleteConfirmId(null);
   };
 
@@ -158,7 +188,7 @@ export function TemplatesPage() {
     setEditingTemplate(template);
   };
 
-  const categories = [...new Set(templates.map(t => t.category))];
+  const categories = [...new Set(templates.map(template => template.category))];
 
   return (
     <div className="space-y-4">
@@ -167,15 +197,15 @@ export function TemplatesPage() {
         <div>
           <h2 className="text-lg font-semibold flex items-center gap-2">
             <FileText className="size-5" />
-            指令模板
+            {t('templates.title')}
           </h2>
           <p className="text-sm text-muted-foreground">
-            预设常用指令，快速继续对话
+            {t('templates.subtitle')}
           </p>
         </div>
         <Button size="sm" onClick={() => setIsCreateOpen(true)} className="gap-1">
           <Plus className="size-4" />
-          新建模板
+          {t('templates.new')}
         </Button>
       </div>
 
@@ -183,11 +213,7 @@ export function TemplatesPage() {
       <div className="flex gap-2 flex-wrap">
         {categories.map(cat => (
           <Badge key={cat} variant="outline">
-            {cat}
-            {' '}
-            (
-            {templates.filter(t => t.category === cat).length}
-            )
+            {t('templates.categoryCount', { category: cat, count: templates.filter(template => template.category === cat).length })}
           </Badge>
         ))}
       </div>
@@ -227,22 +253,22 @@ export function TemplatesPage() {
                     <DropdownMenuContent align="end">
                       <DropdownMenuItem onClick={() => handleUse(template)}>
                         <FileText className="size-4 mr-2" />
-                        使用
+                        {t('prompts.use')}
                       </DropdownMenuItem>
                       <DropdownMenuItem onClick={() => handleCopy(template.content)}>
                         <Copy className="size-4 mr-2" />
-                        复制
+                        {t('common.copy')}
                       </DropdownMenuItem>
                       <DropdownMenuItem onClick={() => openEdit(template)}>
                         <Edit2 className="size-4 mr-2" />
-                        编辑
+                        {t('common.edit')}
                       </DropdownMenuItem>
                       <DropdownMenuItem
                         className="text-destructive"
                         onClick={() => setDeleteConfirmId(template.id)}
                       >
                         <Trash2 className="size-4 mr-2" />
-                        删除
+                        {t('common.delete')}
                       </DropdownMenuItem>
                     </DropdownMenuContent>
                   </DropdownMenu>
@@ -253,7 +279,7 @@ export function TemplatesPage() {
                   className="w-full mt-3"
                   onClick={() => handleUse(template)}
                 >
-                  使用此模板
+                  {t('templates.useThis')}
                 </Button>
               </CardContent>
             </Card>
@@ -275,47 +301,47 @@ export function TemplatesPage() {
         <DialogContent>
           <DialogHeader>
             <DialogTitle>
-              {editingTemplate ? '编辑模板' : '新建模板'}
+              {editingTemplate ? t('templates.editTitle') : t('templates.new')}
             </DialogTitle>
             <DialogDescription>
-              创建常用的指令模板，在继续对话时快速使用
+              {t('templates.dialogDescription')}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-4">
             <div className="space-y-2">
-              <Label htmlFor="name">模板名称</Label>
+              <Label htmlFor="name">{t('templates.name')}</Label>
               <Input
                 id="name"
                 value={formData.name}
                 onChange={e => setFormData({ ...formData, name: e.target.value })}
-                placeholder="例如：继续优化"
+                placeholder={t('templates.namePlaceholder')}
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="category">分类</Label>
+              <Label htmlFor="category">{t('prompts.category')}</Label>
               <Input
                 id="category"
                 value={formData.category}
                 onChange={e => setFormData({ ...formData, category: e.target.value })}
-                placeholder="例如：代码、测试、文档"
+                placeholder={t('templates.categoryPlaceholder')}
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="description">描述</Label>
+              <Label htmlFor="description">{t('prompts.description')}</Label>
               <Input
                 id="description"
                 value={formData.description}
                 onChange={e => setFormData({ ...formData, description: e.target.value })}
-                placeholder="简短描述这个模板的用途"
+                placeholder={t('templates.descriptionPlaceholder')}
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="content">指令内容</Label>
+              <Label htmlFor="content">{t('shortcuts.content')}</Label>
               <Textarea
                 id="content"
                 value={formData.content}
                 onChange={e => setFormData({ ...formData, content: e.target.value })}
-                placeholder="输入要发送给AI的指令内容..."
+                placeholder={t('templates.contentPlaceholder')}
                 rows={4}
               />
             </div>
@@ -329,10 +355,10 @@ export function TemplatesPage() {
                 setFormData({ name: '', description: '', content: '', category: '' });
               }}
             >
-              取消
+              {t('common.cancel')}
             </Button>
             <Button onClick={editingTemplate ? handleEdit : handleCreate}>
-              {editingTemplate ? '保存' : '创建'}
+              {editingTemplate ? t('common.save') : t('common.create')}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -342,19 +368,24 @@ export function TemplatesPage() {
       <AlertDialog open={!!deleteConfirmId} onOpenChange={() => setDeleteConfirmId(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>确认删除模板？</AlertDialogTitle>
+            <AlertDialogTitle>{t('templates.confirmDelete')}</AlertDialogTitle>
             <AlertDialogDescription>
-              此操作无法撤销，模板将被永久删除。
+              {t('templates.confirmDeleteDescription')}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel>取消</AlertDialogCancel>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
             <AlertDialogAction onClick={() => deleteConfirmId && handleDelete(deleteConfirmId)}>
-              删除
+              {t('common.delete')}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <Separator />
+
+      {/* Optimization Profiles */}
+      <OptimizationProfilesSection />
     </div>
   );
 }
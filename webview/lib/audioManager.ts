@@ -5,9 +5,9 @@
 
 import { AUDIO_SOUNDS } from '../types/session';
 
-import type { AudioSettings, AudioSoundType } from '../types/session';
+import { hostStorage } from './hostStorage';
 
-const AUDIO_SETTINGS_KEY = 'windsurf-endless-audio-settings';
+import type { AudioSettings, AudioSoundType } from '../types/session';
 
 export class AudioManager {
   private settings: AudioSettings;
@@ -17,6 +17,7 @@ export class AudioManager {
   constructor() {
     this.settings = this.getDefaultSettings();
     this.loadSettings();
+    hostStorage.subscribe('audioSettings', () => this.loadSettings());
   }
 
   private getDefaultSettings(): AudioSettings {
@@ -31,30 +32,17 @@ export class AudioManager {
   }
 
   /**
-   * Load settings from localStorage
+   * Load settings from host storage
    */
   private loadSettings(): void {
-    try {
-      const settingsJson = localStorage.getItem(AUDIO_SETTINGS_KEY);
-      if (settingsJson) {
-        this.settings = { ...this.settings, ...JSON.parse(settingsJson) };
-      }
-    }
-    catch (error) {
-      console.error('[AudioManager] Failed to load settings:', error);
-    }
+    this.settings = { ...this.getDefaultSettings(), ...hostStorage.get<Partial<AudioSettings>>('audioSettings') };
   }
 
   /**
-   * Save settings to localStorage
+   * Save settings to host storage
    */
   private saveSettings(): void {
-    try {
-      localStorage.setItem(AUDIO_SETTINGS_KEY, JSON.stringify(this.settings));
-    }
-    catch (error) {
-      console.error('[AudioManager] Failed to save settings:', error);
-    }
+    hostStorage.set('audioSettings', this.settings);
   }
 
   /**
@@ -3,9 +3,9 @@
  * Handles countdown timer and automatic submission
  */
 
-import type { AutoSubmitSettings, AutoSubmitState } from '../types/session';
+import { hostStorage } from './hostStorage';
 
-const AUTO_SUBMIT_SETTINGS_KEY = 'windsurf-endless-auto-submit-settings';
+import type { AutoSubmitSettings, AutoSubmitState } from '../types/session';
 
 export type AutoSubmitCallback = () => void;
 
@@ -20,6 +20,7 @@ export class AutoSubmitManager {
     this.settings = this.getDefaultSettings();
     this.state = this.getDefaultState();
     this.loadSettings();
+    hostStorage.subscribe('autoSubmitSettings', () => this.loadSettings());
   }
 
   private getDefaultSettings(): AutoSubmitSettings {
@@ -41,30 +42,17 @@ export class AutoSubmitManager {
   }
 
   /**
-   * Load settings from localStorage
+   * Load settings from host storage
    */
   private loadSettings(): void {
-    try {
-      const settingsJson = localStorage.getItem(AUTO_SUBMIT_SETTINGS_KEY);
-      if (settingsJson) {
-        this.settings = { ...this.settings, ...JSON.parse(settingsJson) };
-      }
-    }
-    catch (error) {
-      console.error('[AutoSubmitManager] Failed to load settings:', error);
-    }
+    this.settings = { ...this.getDefaultSettings(), ...hostStorage.get<Partial<AutoSubmitSettings>>('autoSubmitSettings') };
   }
 
   /**
-   * Save settings to localStorage
+   * Save settings to host storage
    */
   private saveSettings(): void {
-    try {
-      localStorage.setItem(AUTO_SUBMIT_SETTINGS_KEY, JSON.stringify(this.settings));
-    }
-    catch (error) {
-      console.error('[AutoSubmitManager] Failed to save settings:', error);
-    }
+    hostStorage.set('autoSubmitSettings', this.settings);
   }
 
   /**
@@ -4,6 +4,9 @@
  * Supports HTTP and Stdio transport types
  */
 
+import { getLanguage, translate } from '../../shared/i18n';
+
+import type { Language } from '../../shared/i18n';
 import type { ConnectionState, ConnectionStatus, ServerState, TransportType } from '../types/session';
 
 const PING_INTERVAL = 30000; // 30 seconds
@@ -332,25 +335,25 @@ export class ConnectionMonitor {
   /**
    * Get status text
    */
-  getStatusText(): string {
+  getStatusText(language: Language = getLanguage()): string {
     const transportSuffix = this.currentTransport !== 'http' ? ` (${this.currentTransport.toUpperCase()})` : '';
 
     switch (this.state.status) {
       case 'connected':
         if (this.currentTransport === 'stdio') {
-          return `已连接${transportSuffix}`;
+          return `${translate(language, 'connection.connected')}${transportSuffix}`;
         }
-        return `已连接 (${this.state.latency}ms)`;
+        return translate(language, 'connection.connectedLatency', { latency: this.state.latency });
       case 'connecting':
         return this.state.reconnectAttempts > 0
-          ? `重连中... (${this.state.reconnectAttempts}/${MAX_RECONNECT_ATTEMPTS})`
-          : '连接中...';
+          ? translate(language, 'connection.reconnecting', { attempt: this.state.reconnectAttempts, max: MAX_RECONNECT_ATTEMPTS })
+          : translate(language, 'connection.connecting');
       case 'disconnected':
-        return '未连接';
+        return translate(language, 'connection.disconnected');
       case 'error':
-        return `错误: ${this.state.error || '未知错误'}`;
+        return translate(language, 'connection.error', { error: this.state.error || translate(language, 'common.unknownError') });
       default:
-        return '未知状态';
+        return translate(language, 'connection.unknown');
     }
   }
 
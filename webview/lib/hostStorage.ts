@@ -0,0 +1,170 @@
+/**
+ * Host Storage
+ * Client side of the extension's webview storage: a cached snapshot of the stores,
+ * written through to the host and kept in sync with the other panels
+ */
+
+import { STORE_NAMES } from '../../shared/storage';
+import { vscode } from '../utils/vscode';
+
+import type { StoreName, StoreSnapshot } from '../../shared/storage';
+
+// Keys the managers used while they persisted to localStorage
+const LEGACY_KEYS = {
+  prompts: 'windsurf-endless-prompts',
+  promptCategories: 'windsurf-endless-prompt-categories',
+  autoSubmitSettings: 'windsurf-endless-auto-submit-settings',
+  audioSettings: 'windsurf-endless-audio-settings',
+} as const satisfies Partial<Record<StoreName, string>>;
+
+// Sessions and statistics were kept per panel, with the panelId appended to these prefixes
+const LEGACY_SESSIONS_PREFIX = 'windsurf-endless-sessions';
+const LEGACY_STATISTICS_PREFIX = 'windsurf-endless-statistics';
+
+export type StoreListener = (value: unknown) => void;
+
+function readLegacyJson(key: string): unknown {
+  try {
+    const json = localStorage.getItem(key);
+    return json ? JSON.parse(json) : undefined;
+  }
+  catch (error) {
+    console.error(`[HostStorage] Failed to read legacy key ${key}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Collect everything the managers left in localStorage
+ * Per-panel sessions are merged; the statistics with the most sessions win
+ */
+function collectLegacyStores(): { stores: StoreSnapshot; keys: string[] } {
+  const stores: StoreSnapshot = {};
+  const keys: string[] = [];
+
+  for (const [name, key] of Object.entries(LEGACY_KEYS) as [StoreName, string][]) {
+    const value = readLegacyJson(key);
+    if (value !== undefined) {
+      stores[name] = value;
+      keys.push(key);
+    }
+  }
+
+  const sessions = new Map<string, any>();
+  let statistics: any;
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(LEGACY_SESSIONS_PREFIX)) {
+      const value = readLegacyJson(key);
+      if (Array.isArray(value)) {
+        value.forEach(session => sessions.set(session.id, session));
+      }
+      keys.push(key);
+    }
+    else if (key?.startsWith(LEGACY_STATISTICS_PREFIX)) {
+      const value: any = readLegacyJson(key);
+      if (value && (!statistics || value.totalSessions > statistics.totalSessions)) {
+        statistics = value;
+      }
+      keys.push(key);
+    }
+  }
+  if (sessions.size > 0) {
+    stores.sessions = Array.from(sessions.values());
+  }
+  if (statistics) {
+    stores.sessionStatistics = statistics;
+  }
+
+  return { stores, keys };
+}
+
+export class HostStorage {
+  private values: StoreSnapshot = {};
+  // Copies of the values as last sent to or received from the host; the managers edit `values` in place
+  private bases: StoreSnapshot = {};
+  private ready = false;
+  private listeners: Map<StoreName, Set<StoreListener>> = new Map();
+
+  constructor() {
+    window.addEventListener('message', this.handleMessage);
+  }
+
+  private handleMessage = (event: MessageEvent): void => {
+    const message = event.data;
+    if (message?.type === 'storage_sync') {
+      this.values = { ...message.data };
+      this.bases = structuredClone(message.data ?? {});
+      if (!this.ready) {
+        this.ready = true;
+        this.migrateLegacyStorage();
+      }
+      STORE_NAMES.forEach(name => this.notify(name));
+    }
+    else if (message?.type === 'storage_update') {
+      for (const name of Object.keys(message.data ?? {}) as StoreName[]) {
+        this.values[name] = message.data[name];
+        this.bases[name] = structuredClone(message.data[name]);
+        this.notify(name);
+      }
+    }
+  };
+
+  /**
+   * Hand localStorage leftovers to the host once; the host keeps whatever it already has
+   */
+  private migrateLegacyStorage(): void {
+    try {
+      const { stores, keys } = collectLegacyStores();
+      if (keys.length === 0) {
+        return;
+      }
+      vscode.postMessage({ type: 'storage_migrate', data: stores });
+      keys.forEach(key => localStorage.removeItem(key));
+    }
+    catch (error) {
+      console.error('[HostStorage] Failed to migrate localStorage:', error);
+    }
+  }
+
+  private notify(name: StoreName): void {
+    this.listeners.get(name)?.forEach(listener => listener(this.values[name]));
+  }
+
+  /**
+   * Whether the first snapshot has arrived from the host
+   */
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  /**
+   * Get the cached value of a store, or undefined if it was never written
+   */
+  get<T>(name: StoreName): T | undefined {
+    return this.values[name] as T | undefined;
+  }
+
+  /**
+   * Write a store; the host persists it and forwards it to the other panels
+   * The copy it was edited from goes along, so the host can merge it with writes from other panels
+   */
+  set(name: StoreName, value: unknown): void {
+    this.values[name] = value;
+    vscode.postMessage({ type: 'storage_set', data: { name, value, base: this.bases[name] } });
+    this.bases[name] = structuredClone(value);
+  }
+
+  /**
+   * Subscribe to values arriving from the host (the initial snapshot and changes made by other panels)
+   */
+  subscribe(name: StoreName, listener: StoreListener): () => void {
+    if (!this.listeners.has(name)) {
+      this.listeners.set(name, new Set());
+    }
+    this.listeners.get(name)!.add(listener);
+    return () => this.listeners.get(name)?.delete(listener);
+  }
+}
+
+export const hostStorage = new HostStorage();
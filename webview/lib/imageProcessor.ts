@@ -0,0 +1,117 @@
+/**
+ * Image Processor
+ * Validates and downscales pasted images before they are sent to the extension
+ */
+
+import { t } from '../../shared/i18n';
+
+export interface PastedImage {
+  id: string;
+  dataUrl: string;
+  name: string;
+  mimeType: string;
+  size: number; // decoded bytes
+}
+
+// Limits mirror the MCP server so images are never silently dropped on the host side
+export const MAX_PASTED_IMAGES = 5;
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+// Images larger than this are downscaled before being attached
+export const MAX_IMAGE_DIMENSION = 1920;
+export const TARGET_IMAGE_BYTES = 1.5 * 1024 * 1024;
+
+const SUPPORTED_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+/**
+ * Estimate decoded byte size of a base64 data URL
+ */
+export function getDataUrlByteSize(dataUrl: string): number {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
+
+function readAsDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read image'));
+    reader.readAsDataURL(file);
+  });
+}
+
+function loadImage(dataUrl: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to decode image'));
+    img.src = dataUrl;
+  });
+}
+
+/**
+ * Re-encode an image on a canvas, shrinking it until it fits TARGET_IMAGE_BYTES
+ */
+async function downscale(dataUrl: string, mimeType: string): Promise<{ dataUrl: string; mimeType: string }> {
+  const img = await loadImage(dataUrl);
+  let scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(img.width, img.height));
+  // PNG keeps screenshots crisp; everything else is re-encoded as JPEG
+  const outputType = mimeType === 'image/png' ? 'image/png' : 'image/jpeg';
+  let result = dataUrl;
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(img.width * scale));
+    canvas.height = Math.max(1, Math.round(img.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      break;
+    }
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+    // Fall back to JPEG once PNG alone cannot get under the target size
+    const type = attempt >= 2 ? 'image/jpeg' : outputType;
+    result = canvas.toDataURL(type, 0.85);
+    if (getDataUrlByteSize(result) <= TARGET_IMAGE_BYTES) {
+      return { dataUrl: result, mimeType: type };
+    }
+    scale *= 0.75;
+  }
+
+  return { dataUrl: result, mimeType: result.slice(5, result.indexOf(';')) };
+}
+
+/**
+ * Read a pasted image file, downscaling it when it exceeds the size limits
+ * @throws Error if the image type is unsupported or it cannot be made small enough
+ */
+export async function processPastedImage(file: File): Promise<PastedImage> {
+  if (!SUPPORTED_TYPES.includes(file.type)) {
+    throw new Error(t('image.unsupported', { type: file.type || 'unknown' }));
+  }
+
+  let dataUrl = await readAsDataUrl(file);
+  let mimeType = file.type;
+
+  const img = await loadImage(dataUrl).catch(() => null);
+  const tooLarge = file.size > TARGET_IMAGE_BYTES
+    || (img !== null && Math.max(img.width, img.height) > MAX_IMAGE_DIMENSION);
+
+  // Animated GIFs would lose their frames on a canvas, so only size-check them
+  if (tooLarge && img && file.type !== 'image/gif') {
+    ({ dataUrl, mimeType } = await downscale(dataUrl, file.type));
+  }
+
+  const size = getDataUrlByteSize(dataUrl);
+  if (size > MAX_IMAGE_BYTES) {
+    throw new Error(t('image.tooLarge', { size: (size / 1024 / 1024).toFixed(1), max: MAX_IMAGE_BYTES / 1024 / 1024 }));
+  }
+
+  return {
+    id: `img-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+    dataUrl,
+    name: file.name || 'image.png',
+    mimeType,
+    size,
+  };
+}
@@ -7,6 +7,18 @@ export { autoSubmitManager, AutoSubmitManager } from './autoSubmitManager';
 export type { AutoSubmitCallback } from './autoSubmitManager';
 export { connectionMonitor, ConnectionMonitor } from './connectionMonitor';
 export type { ConnectionChangeCallback } from './connectionMonitor';
+export { hostStorage, HostStorage } from './hostStorage';
+export type { StoreListener } from './hostStorage';
+export { MAX_PASTED_IMAGES, processPastedImage } from './imageProcessor';
+export type { PastedImage } from './imageProcessor';
 
 export { promptManager, PromptManager } from './promptManager';
+export { conversationDocument, highlight, historyDocument, parseQuery, SearchIndex, sessionDocument, snippet } from './searchIndex';
+export type { HighlightSegment, ParsedQuery, SearchDocument, SearchKind, SearchResult } from './searchIndex';
+export { buildSessionTree, compareBranches } from './sessionBranches';
+export type { BranchComparison, SessionTreeNode } from './sessionBranches';
+export { formatSessionExport, selectSessionsForExport, summarizeSessions } from './sessionExport';
 export { createSessionManager, sessionManager, SessionManager } from './sessionManager';
+export { StateSync } from './stateSync';
+export { applyDiff, diffText } from './textDiff';
+export type { DiffHunk, DiffSegment } from './textDiff';
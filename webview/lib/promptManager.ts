@@ -3,20 +3,47 @@
  * Handles CRUD operations for prompt templates
  */
 
+import { getLanguage, localizeBuiltin, onDidChangeLanguage, t, translate } from '../../shared/i18n';
 import { DEFAULT_CATEGORIES } from '../types/session';
 
+import { hostStorage } from './hostStorage';
+
+import type { Language } from '../../shared/i18n';
 import type { PromptCategory, PromptTemplate } from '../types/session';
 
-const PROMPTS_STORAGE_KEY = 'windsurf-endless-prompts';
-const CATEGORIES_STORAGE_KEY = 'windsurf-endless-prompt-categories';
+// Catalog entries of the built-in prompts, by prompt id
+const BUILTIN_PROMPT_KEYS = {
+  'prompt-continue': 'continue',
+  'prompt-optimize': 'optimize',
+  'prompt-test': 'test',
+  'prompt-fix': 'fix',
+  'prompt-doc': 'doc',
+  'prompt-explain': 'explain',
+  'prompt-refactor': 'refactor',
+  'prompt-performance': 'performance',
+  'prompt-security': 'security',
+} as const;
+
+type BuiltinPromptId = keyof typeof BUILTIN_PROMPT_KEYS;
+type PromptText = Pick<PromptTemplate, 'name' | 'description' | 'content'>;
+
+function isBuiltinPromptId(id: string): id is BuiltinPromptId {
+  return Object.hasOwn(BUILTIN_PROMPT_KEYS, id);
+}
 
-// Default built-in prompts
-const DEFAULT_PROMPTS: PromptTemplate[] = [
+function getBuiltinPromptText(id: BuiltinPromptId, language: Language = getLanguage()): PromptText {
+  const key = BUILTIN_PROMPT_KEYS[id];
+  return {
+    name: translate(language, `builtinPrompts.${key}.name`),
+    description: translate(language, `builtinPrompts.${key}.description`),
+    content: translate(language, `builtinPrompts.${key}.content`),
+  };
+}
+
+// Default built-in prompts; their text comes from the message catalog
+const DEFAULT_PROMPTS: (Omit<PromptTemplate, keyof PromptText> & { id: BuiltinPromptId })[] = [
   {
     id: 'prompt-continue',
-    name: '继续',
-    description: '继续当前任务',
-    content: '继续',
     icon: 'play',
     color: 'green',
     hotkey: '1',
@@ -30,9 +57,6 @@ const DEFAULT_PROMPTS: PromptTemplate[] = [
   },
   {
     id: 'prompt-optimize',
-    name: '优化代码',
-    description: '优化当前代码，保持代码风格一致',
-    content: '请继续优化这段代码，保持代码风格一致。',
     icon: 'sparkles',
     color: 'blue',
     hotkey: '2',
@@ -46,9 +70,6 @@ const DEFAULT_PROMPTS: PromptTemplate[] = [
   },
   {
     id: 'prompt-test',
-    name: '添加测试',
-    description: '为代码添加完整的单元测试',
-    content: '请为刚才的代码添加完整的单元测试。',
     icon: 'flask',
     color: 'purple',
     hotkey: '3',
@@ -62,9 +83,6 @@ const DEFAULT_PROMPTS: PromptTemplate[] = [
   },
   {
     id: 'prompt-fix',
-    name: '修复问题',
-    description: '继续修复发现的问题',
-    content: '请继续修复刚才发现的问题。',
     icon: 'wrench',
     color: 'orange',
     hotkey: '4',
@@ -78,9 +96,6 @@ const DEFAULT_PROMPTS: PromptTemplate[] = [
   },
   {
     id: 'prompt-doc',
-    name: '添加文档',
-    description: '为代码添加详细的文档注释',
-    content: '请为代码添加详细的文档注释。',
     icon: 'file-text',
     color: 'cyan',
     hotkey: '5',
@@ -94,9 +109,6 @@ const DEFAULT_PROMPTS: PromptTemplate[] = [
   },
   {
     id: 'prompt-explain',
-    name: '解释代码',
-    description: '详细解释代码的逻辑和实现原理',
-    content: '请详细解释这段代码的逻辑和实现原理。',
     icon: 'message-circle',
     color: 'pink',
     hotkey: '6',
@@ -110,9 +122,6 @@ const DEFAULT_PROMPTS: PromptTemplate[] = [
   },
   {
     id: 'prompt-refactor',
-    name: '重构代码',
-    description: '重构代码以提高可读性和可维护性',
-    content: '请重构这段代码，提高可读性和可维护性，但不要改变功能。',
     icon: 'code',
     color: 'indigo',
     hotkey: '7',
@@ -126,9 +135,6 @@ const DEFAULT_PROMPTS: PromptTemplate[] = [
   },
   {
     id: 'prompt-performance',
-    name: '性能优化',
-    description: '优化代码性能',
-    content: '请优化这段代码的性能，并解释优化点。',
     icon: 'zap',
     color: 'yellow',
     hotkey: '8',
@@ -142,9 +148,6 @@ const DEFAULT_PROMPTS: PromptTemplate[] = [
   },
   {
     id: 'prompt-security',
-    name: '安全检查',
-    description: '检查代码的安全漏洞',
-    content: '请检查这段代码是否存在安全漏洞，并提供修复建议。',
     icon: 'shield',
     color: 'red',
     hotkey: '9',
@@ -158,6 +161,23 @@ const DEFAULT_PROMPTS: PromptTemplate[] = [
   },
 ];
 
+function createDefaultPrompts(): PromptTemplate[] {
+  return DEFAULT_PROMPTS.map(prompt => ({ ...prompt, ...getBuiltinPromptText(prompt.id) }));
+}
+
+// Built-in prompts and categories follow the UI language until the user edits them
+function localizePrompt(prompt: PromptTemplate): PromptTemplate {
+  const id = prompt.id;
+  return isBuiltinPromptId(id) ? localizeBuiltin(prompt, language => getBuiltinPromptText(id, language)) : prompt;
+}
+
+function localizeCategory(category: PromptCategory): PromptCategory {
+  const id = category.id as PromptTemplate['category'];
+  return DEFAULT_CATEGORIES.some(c => c.id === id)
+    ? localizeBuiltin(category, language => ({ name: translate(language, `promptCategories.${id}`) }))
+    : category;
+}
+
 export class PromptManager {
   private prompts: Map<string, PromptTemplate> = new Map();
   private categories: PromptCategory[] = DEFAULT_CATEGORIES;
@@ -165,6 +185,10 @@ export class PromptManager {
 
   constructor() {
     this.loadFromStorage();
+    hostStorage.subscribe('prompts', () => this.reloadFromStorage());
+    hostStorage.subscribe('promptCategories', () => this.reloadFromStorage());
+    // Re-send the localized built-ins to subscribers
+    onDidChangeLanguage(() => this.notifyListeners());
   }
 
   private generateId(): string {
@@ -172,50 +196,35 @@ export class PromptManager {
   }
 
   /**
-   * Load prompts from localStorage
+   * Load prompts from host storage, starting with the defaults when none were saved
    */
   private loadFromStorage(): void {
-    try {
-      const promptsJson = localStorage.getItem(PROMPTS_STORAGE_KEY);
-      if (promptsJson) {
-        const savedPrompts: PromptTemplate[] = JSON.parse(promptsJson);
-        savedPrompts.forEach((prompt) => {
-          this.prompts.set(prompt.id, prompt);
-        });
-      }
-      else {
-        // Initialize with defaults
-        DEFAULT_PROMPTS.forEach((prompt) => {
-          this.prompts.set(prompt.id, prompt);
-        });
-      }
+    const savedPrompts = hostStorage.get<PromptTemplate[]>('prompts') ?? createDefaultPrompts();
+    savedPrompts.forEach((prompt) => {
+      this.prompts.set(prompt.id, prompt);
+    });
+    this.categories = hostStorage.get<PromptCategory[]>('promptCategories') ?? DEFAULT_CATEGORIES;
+  }
 
-      const categoriesJson = localStorage.getItem(CATEGORIES_STORAGE_KEY);
-      if (categoriesJson) {
-        this.categories = JSON.parse(categoriesJson);
-      }
-    }
-    catch (error) {
-      console.error('[PromptManager] Failed to load from storage:', error);
-      // Fallback to defaults
-      DEFAULT_PROMPTS.forEach((prompt) => {
-        this.prompts.set(prompt.id, prompt);
-      });
+  /**
+   * Replace the in-memory library with the stored one and notify listeners
+   */
+  private reloadFromStorage(): void {
+    this.prompts.clear();
+    this.loadFromStorage();
+    // Store the defaults on first run, so the host can serve them as MCP prompts
+    if (hostStorage.get('prompts') === undefined) {
+      this.saveToStorage();
     }
+    this.notifyListeners();
   }
 
   /**
-   * Save prompts to localStorage
+   * Save prompts to host storage
    */
   private saveToStorage(): void {
-    try {
-      const promptsArray = Array.from(this.prompts.values());
-      localStorage.setItem(PROMPTS_STORAGE_KEY, JSON.stringify(promptsArray));
-      localStorage.setItem(CATEGORIES_STORAGE_KEY, JSON.stringify(this.categories));
-    }
-    catch (error) {
-      console.error('[PromptManager] Failed to save to storage:', error);
-    }
+    hostStorage.set('prompts', Array.from(this.prompts.values()));
+    hostStorage.set('promptCategories', this.categories);
   }
 
   /**
@@ -238,7 +247,7 @@ export class PromptManager {
    * Get all prompts
    */
   getAllPrompts(): PromptTemplate[] {
-    return Array.from(this.prompts.values());
+    return Array.from(this.prompts.values(), localizePrompt);
   }
 
   /**
@@ -259,7 +268,8 @@ export class PromptManager {
    * Get prompt by ID
    */
   getPrompt(id: string): PromptTemplate | undefined {
-    return this.prompts.get(id);
+    const prompt = this.prompts.get(id);
+    return prompt && localizePrompt(prompt);
   }
 
   /**
@@ -362,13 +372,13 @@ export class PromptManager {
    * Duplicate a prompt
    */
   duplicatePrompt(id: string): PromptTemplate | null {
-    const prompt = this.prompts.get(id);
+    const prompt = this.getPrompt(id);
     if (!prompt) {
       return null;
     }
 
     return this.createPrompt({
-      name: `${prompt.name} (副本)`,
+      name: `${prompt.name} ${t('common.copySuffix')}`,
       description: prompt.description,
       content: prompt.content,
       icon: prompt.icon,
@@ -384,7 +394,7 @@ export class PromptManager {
    * Get all categories
    */
   getCategories(): PromptCategory[] {
-    return [...this.categories];
+    return this.categories.map(localizeCategory);
   }
 
   /**
@@ -428,7 +438,7 @@ export class PromptManager {
     }
 
     // Move prompts in this category to 'custom'
-    this.getAllPrompts()
+    Array.from(this.prompts.values())
       .filter(p => p.category === id)
       .forEach((p) => {
         p.category = 'custom';
@@ -446,8 +456,8 @@ export class PromptManager {
    */
   resetToDefaults(): void {
     this.prompts.clear();
-    DEFAULT_PROMPTS.forEach((prompt) => {
-      this.prompts.set(prompt.id, { ...prompt, usageCount: 0 });
+    createDefaultPrompts().forEach((prompt) => {
+      this.prompts.set(prompt.id, prompt);
     });
     this.categories = [...DEFAULT_CATEGORIES];
     this.saveToStorage();
@@ -463,7 +473,7 @@ export class PromptManager {
         exportedAt: Date.now(),
         version: '1.0.0',
         prompts: this.getAllPrompts(),
-        categories: this.categories,
+        categories: this.getCategories(),
       },
       null,
       2,
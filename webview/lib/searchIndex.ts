@@ -0,0 +1,424 @@
+/**
+ * Search Index
+ * Inverted index over history, sessions and conversations with ranked, highlighted results
+ * CJK text has no spaces, so it is indexed as single characters and character pairs;
+ * other text is indexed as lowercase words and query words also match as prefixes
+ */
+
+import type { Conversation, HistoryItem } from '../types';
+import type { EnhancedSession } from '../types/session';
+
+export type SearchKind = 'history' | 'session' | 'conversation';
+
+export interface SearchDocument {
+  /** Unique across kinds, `${kind}:${ref}` */
+  id: string;
+  kind: SearchKind;
+  /** Id of the history item, session or conversation */
+  ref: string;
+  title: string;
+  body: string;
+  timestamp: number;
+  workspace: string;
+  tags: string[];
+  /** Decisions recorded in the document, for action: filters */
+  actions: ('continue' | 'end')[];
+}
+
+export interface SearchFilters {
+  action?: 'continue' | 'end';
+  tags: string[];
+  workspace?: string;
+  type?: SearchKind;
+  before?: number;
+  after?: number;
+}
+
+export interface ParsedQuery {
+  /** Free text words, lowercase, as typed */
+  words: string[];
+  filters: SearchFilters;
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+type Field = 'title' | 'body';
+
+const FIELD_WEIGHTS: Record<Field, number> = { title: 3, body: 1 };
+// Partial credit for a query word that is only the start of an indexed word
+const PREFIX_WEIGHT = 0.6;
+const SEARCH_KINDS: SearchKind[] = ['history', 'session', 'conversation'];
+
+const CJK_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+const TOKEN_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+|[\p{L}\p{N}_]+/gu;
+const QUERY_PATTERN = /([a-z]+):(?:"([^"]*)"|(\S+))|"([^"]*)"|(\S+)/gi;
+
+function cjkPairs(run: string): string[] {
+  const chars = Array.from(run);
+  if (chars.length === 1) {
+    return chars;
+  }
+  return chars.slice(0, -1).map((char, i) => char + chars[i + 1]);
+}
+
+/**
+ * Terms stored for a text: words, plus every CJK character and character pair
+ */
+export function indexTerms(text: string): string[] {
+  const terms: string[] = [];
+  for (const [token] of text.toLowerCase().matchAll(TOKEN_PATTERN)) {
+    if (CJK_CHAR.test(token)) {
+      const chars = Array.from(token);
+      terms.push(...chars, ...(chars.length > 1 ? cjkPairs(token) : []));
+    }
+    else {
+      terms.push(token);
+    }
+  }
+  return terms;
+}
+
+/**
+ * Terms a query word must match: the word itself, or the character pairs of a CJK run
+ */
+export function queryTerms(text: string): string[] {
+  const terms: string[] = [];
+  for (const [token] of text.toLowerCase().matchAll(TOKEN_PATTERN)) {
+    terms.push(...(CJK_CHAR.test(token) ? cjkPairs(token) : [token]));
+  }
+  return terms;
+}
+
+// Dates are read as local midnight; full timestamps are accepted as well
+function parseDate(value: string): number | undefined {
+  const day = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(value);
+  const time = day ? new Date(Number(day[1]), Number(day[2]) - 1, Number(day[3])).getTime() : Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Split a query into free text and field filters
+ * Filters: action:continue|end, tag:, workspace:, type:history|session|conversation, before: and after: dates
+ * Values with spaces can be quoted; filters with values that cannot be understood are ignored
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const words: string[] = [];
+  const filters: SearchFilters = { tags: [] };
+
+  for (const match of query.matchAll(QUERY_PATTERN)) {
+    const [whole, key, quotedValue, plainValue, phrase, word] = match;
+    if (key !== undefined) {
+      const value = (quotedValue ?? plainValue ?? '').trim();
+      switch (key.toLowerCase()) {
+        case 'action':
+          if (value === 'continue' || value === 'end') {
+            filters.action = value;
+          }
+          continue;
+        case 'tag':
+          if (value) {
+            filters.tags.push(value.toLowerCase());
+          }
+          continue;
+        case 'workspace':
+          filters.workspace = value.toLowerCase() || undefined;
+          continue;
+        case 'type':
+          if ((SEARCH_KINDS as string[]).includes(value)) {
+            filters.type = value as SearchKind;
+          }
+          continue;
+        case 'before':
+          filters.before = parseDate(value);
+          continue;
+        case 'after':
+          filters.after = parseDate(value);
+          continue;
+        default:
+          // Not a filter, e.g. a URL or "note:" in the text
+          words.push(whole.toLowerCase());
+          continue;
+      }
+    }
+    const text = (phrase ?? word ?? '').trim().toLowerCase();
+    if (text) {
+      words.push(text);
+    }
+  }
+
+  return { words, filters };
+}
+
+function matchesFilters(document: SearchDocument, filters: SearchFilters): boolean {
+  return (!filters.type || document.kind === filters.type)
+    && (!filters.action || document.actions.includes(filters.action))
+    && filters.tags.every(tag => document.tags.some(t => t.toLowerCase() === tag))
+    && (!filters.workspace || document.workspace.toLowerCase().includes(filters.workspace))
+    && (filters.before === undefined || document.timestamp < filters.before)
+    && (filters.after === undefined || document.timestamp >= filters.after);
+}
+
+interface IndexedDocument {
+  document: SearchDocument;
+  terms: Set<string>;
+  lengths: Record<Field, number>;
+}
+
+export class SearchIndex {
+  private documents = new Map<string, IndexedDocument>();
+  // term -> document id -> occurrences per field
+  private postings = new Map<string, Map<string, Record<Field, number>>>();
+
+  static from(documents: SearchDocument[]): SearchIndex {
+    const index = new SearchIndex();
+    documents.forEach(document => index.add(document));
+    return index;
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Add a document, replacing any with the same id
+   */
+  add(document: SearchDocument): void {
+    this.remove(document.id);
+    const terms = new Set<string>();
+    const lengths = { title: 0, body: 0 };
+
+    (Object.keys(FIELD_WEIGHTS) as Field[]).forEach((field) => {
+      const fieldTerms = indexTerms(document[field]);
+      lengths[field] = fieldTerms.length;
+      fieldTerms.forEach((term) => {
+        terms.add(term);
+        let posting = this.postings.get(term);
+        if (!posting) {
+          posting = new Map();
+          this.postings.set(term, posting);
+        }
+        const counts = posting.get(document.id) ?? { title: 0, body: 0 };
+        counts[field]++;
+        posting.set(document.id, counts);
+      });
+    });
+
+    this.documents.set(document.id, { document, terms, lengths });
+  }
+
+  remove(id: string): void {
+    const indexed = this.documents.get(id);
+    if (!indexed) {
+      return;
+    }
+    indexed.terms.forEach((term) => {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting?.size === 0) {
+        this.postings.delete(term);
+      }
+    });
+    this.documents.delete(id);
+  }
+
+  /**
+   * Documents matching every query term and filter, best first
+   * Without free text, matching documents are returned newest first
+   */
+  search(query: string | ParsedQuery, limit = Infinity): SearchResult[] {
+    const parsed = typeof query === 'string' ? parseQuery(query) : query;
+    const terms = [...new Set(parsed.words.flatMap(queryTerms))];
+
+    if (terms.length === 0) {
+      return [...this.documents.values()]
+        .filter(({ document }) => matchesFilters(document, parsed.filters))
+        .sort((a, b) => b.document.timestamp - a.document.timestamp)
+        .slice(0, limit)
+        .map(({ document }) => ({ document, score: 0 }));
+    }
+
+    let scores: Map<string, number> | undefined;
+    for (const term of terms) {
+      const termScores = this.scoreTerm(term);
+      // Every term has to match somewhere
+      if (scores) {
+        const merged = new Map<string, number>();
+        scores.forEach((score, id) => {
+          const termScore = termScores.get(id);
+          if (termScore !== undefined) {
+            merged.set(id, score + termScore);
+          }
+        });
+        scores = merged;
+      }
+      else {
+        scores = termScores;
+      }
+      if (scores.size === 0) {
+        return [];
+      }
+    }
+
+    return [...scores!.entries()]
+      .map(([id, score]) => ({ document: this.documents.get(id)!.document, score }))
+      .filter(({ document }) => matchesFilters(document, parsed.filters))
+      .sort((a, b) => b.score - a.score || b.document.timestamp - a.document.timestamp)
+      .slice(0, limit);
+  }
+
+  /**
+   * Score of each document for one query term (tf-idf with length damping and field weights)
+   * CJK terms and short words match exactly; longer words also match indexed words they start
+   */
+  private scoreTerm(term: string): Map<string, number> {
+    const scores = new Map<string, number>();
+    const matches: [string, number][] = [[term, 1]];
+    if (!CJK_CHAR.test(term) && term.length >= 2) {
+      this.postings.forEach((_, indexed) => {
+        if (indexed !== term && indexed.startsWith(term)) {
+          matches.push([indexed, PREFIX_WEIGHT]);
+        }
+      });
+    }
+
+    for (const [indexed, weight] of matches) {
+      const posting = this.postings.get(indexed);
+      if (!posting) {
+        continue;
+      }
+      const idf = Math.log(1 + this.documents.size / posting.size);
+      posting.forEach((counts, id) => {
+        const { lengths } = this.documents.get(id)!;
+        let fieldScore = 0;
+        (Object.keys(FIELD_WEIGHTS) as Field[]).forEach((field) => {
+          if (counts[field] > 0) {
+            fieldScore += FIELD_WEIGHTS[field] * counts[field] / (counts[field] + 1 + lengths[field] / 50);
+          }
+        });
+        const score = weight * idf * fieldScore;
+        scores.set(id, Math.max(scores.get(id) ?? 0, score));
+      });
+    }
+    return scores;
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function highlightPattern(words: string[]): RegExp | undefined {
+  const parts = [...new Set(words.flatMap(word => [...word.toLowerCase().matchAll(TOKEN_PATTERN)].flatMap(([token]) =>
+    CJK_CHAR.test(token) ? cjkPairs(token) : [token],
+  )))];
+  if (parts.length === 0) {
+    return undefined;
+  }
+  parts.sort((a, b) => b.length - a.length);
+  return new RegExp(parts.map(escapeRegExp).join('|'), 'giu');
+}
+
+/**
+ * Split a text into matched and unmatched segments for the query words
+ */
+export function highlight(text: string, words: string[]): HighlightSegment[] {
+  const pattern = highlightPattern(words);
+  if (!pattern || !text) {
+    return text ? [{ text, match: false }] : [];
+  }
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index!;
+    if (start > last) {
+      segments.push({ text: text.slice(last, start), match: false });
+    }
+    // Adjacent matches, e.g. overlapping CJK pairs, become one highlight
+    const previous = segments.at(-1);
+    if (previous?.match && start === last) {
+      previous.text += match[0];
+    }
+    else {
+      segments.push({ text: match[0], match: true });
+    }
+    last = start + match[0].length;
+  }
+  if (last < text.length) {
+    segments.push({ text: text.slice(last), match: false });
+  }
+  return segments;
+}
+
+/**
+ * A window of the text around its first match, so long bodies show the relevant part
+ */
+export function snippet(text: string, words: string[], radius = 60): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const pattern = highlightPattern(words);
+  const index = pattern ? flat.search(pattern) : -1;
+  if (flat.length <= radius * 2 || index <= radius) {
+    return flat.length > radius * 2 ? `${flat.slice(0, radius * 2)}…` : flat;
+  }
+  const start = index - radius;
+  const end = Math.min(flat.length, index + radius);
+  return `…${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+}
+
+// Documents
+
+export function historyDocument(item: HistoryItem): SearchDocument {
+  return {
+    id: `history:${item.id}`,
+    kind: 'history',
+    ref: item.id,
+    title: item.summary,
+    body: [item.userInstruction, item.conversationName].filter(Boolean).join('\n'),
+    timestamp: item.timestamp,
+    workspace: item.workspacePath,
+    tags: [],
+    actions: [item.action],
+  };
+}
+
+export function sessionDocument(session: EnhancedSession): SearchDocument {
+  return {
+    id: `session:${session.id}`,
+    kind: 'session',
+    ref: session.id,
+    title: session.workspacePath.split(/[/\\]/).pop() || session.workspacePath,
+    body: [
+      session.workspacePath,
+      session.notes,
+      ...session.messages.flatMap(m => [m.summary, m.reason, m.userInstruction]),
+    ].filter(Boolean).join('\n'),
+    timestamp: session.updatedAt,
+    workspace: session.workspacePath,
+    tags: session.tags,
+    actions: [
+      ...(session.continueCount > 0 ? ['continue' as const] : []),
+      ...(session.endCount > 0 ? ['end' as const] : []),
+    ],
+  };
+}
+
+export function conversationDocument(conversation: Conversation): SearchDocument {
+  return {
+    id: `conversation:${conversation.id}`,
+    kind: 'conversation',
+    ref: conversation.id,
+    title: conversation.name,
+    body: conversation.messages.flatMap(m => [m.summary, m.reason, m.userInstruction]).filter(Boolean).join('\n'),
+    timestamp: conversation.updatedAt,
+    workspace: conversation.workspacePath,
+    tags: [],
+    actions: [...new Set(conversation.messages.map(m => (m.shouldContinue ? 'continue' as const : 'end' as const)))],
+  };
+}
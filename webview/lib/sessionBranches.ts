@@ -0,0 +1,75 @@
+/**
+ * Session Branches
+ * Sessions forked from one another through parentSessionId, arranged as a tree,
+ * and the comparison of two branches from the point where they diverge
+ */
+
+import type { EnhancedSession, SessionMessage } from '../types/session';
+
+export interface SessionTreeNode {
+  session: EnhancedSession;
+  children: SessionTreeNode[];
+}
+
+export interface BranchComparison {
+  /** Messages both branches share, up to the point where they diverge */
+  common: SessionMessage[];
+  left: SessionMessage[];
+  right: SessionMessage[];
+}
+
+/**
+ * Arrange sessions by parentSessionId, most recent root first and branches in the order they were forked
+ * A session whose parent is gone becomes a root
+ */
+export function buildSessionTree(sessions: EnhancedSession[]): SessionTreeNode[] {
+  const nodes = new Map(sessions.map(session => [session.id, { session, children: [] } as SessionTreeNode]));
+  const roots: SessionTreeNode[] = [];
+
+  nodes.forEach((node) => {
+    const parent = node.session.parentSessionId ? nodes.get(node.session.parentSessionId) : undefined;
+    // A cycle can only come from an edited import; it is broken at the session that closes it
+    if (parent && !isDescendant(parent, node.session.id, nodes)) {
+      parent.children.push(node);
+    }
+    else {
+      roots.push(node);
+    }
+  });
+
+  nodes.forEach(node => node.children.sort((a, b) => a.session.createdAt - b.session.createdAt));
+  return roots.sort((a, b) => b.session.updatedAt - a.session.updatedAt);
+}
+
+function isDescendant(node: SessionTreeNode, ancestorId: string, nodes: Map<string, SessionTreeNode>): boolean {
+  const seen = new Set<string>();
+  let current: SessionTreeNode | undefined = node;
+  while (current && !seen.has(current.session.id)) {
+    if (current.session.id === ancestorId) {
+      return true;
+    }
+    seen.add(current.session.id);
+    current = current.session.parentSessionId ? nodes.get(current.session.parentSessionId) : undefined;
+  }
+  return false;
+}
+
+/**
+ * Split two branches into their shared history and what each did afterwards
+ * Forks keep the ids of the messages they copy, so the shared part is the common prefix of ids
+ */
+export function compareBranches(left: EnhancedSession, right: EnhancedSession): BranchComparison {
+  let shared = 0;
+  while (
+    shared < left.messages.length
+    && shared < right.messages.length
+    && left.messages[shared].id === right.messages[shared].id
+  ) {
+    shared++;
+  }
+  return {
+    common: left.messages.slice(0, shared),
+    left: left.messages.slice(shared),
+    right: right.messages.slice(shared),
+  };
+}
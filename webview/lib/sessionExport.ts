@@ -0,0 +1,315 @@
+/**
+ * Session Export
+ * Turns sessions into JSON, CSV or a Markdown transcript following SessionExportOptions
+ * The webview only builds the text; the extension host asks where to save it and writes the file
+ */
+
+import { translate } from '../../shared/i18n';
+
+import type { Language } from '../../shared/i18n';
+import type { PrivateField } from '../../shared/privacy';
+import type { EnhancedSession, SessionExportOptions, SessionMessage, SessionStatistics } from '../types/session';
+
+const EXPORT_VERSION = '1.1.0';
+
+/**
+ * The sessions an export covers, oldest first
+ * With a date range, a session is kept when its lifetime overlaps the range and only the messages inside it are kept
+ */
+export function selectSessionsForExport(sessions: EnhancedSession[], options: SessionExportOptions): EnhancedSession[] {
+  const { sessionIds, dateRange } = options;
+  let selected = sessionIds ? sessions.filter(session => sessionIds.includes(session.id)) : sessions;
+
+  if (dateRange) {
+    selected = selected
+      .filter(session => session.createdAt <= dateRange.end && (session.completedAt ?? session.updatedAt) >= dateRange.start)
+      .map(session => ({
+        ...session,
+        messages: session.messages.filter(m => m.timestamp >= dateRange.start && m.timestamp <= dateRange.end),
+      }));
+  }
+
+  return [...selected].sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Statistics of the exported sessions alone, so they always match the file's contents
+ */
+export function summarizeSessions(sessions: EnhancedSession[]): SessionStatistics {
+  const completed = sessions.filter(s => s.status === 'completed');
+  const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0);
+  return {
+    totalSessions: sessions.length,
+    activeSessions: sessions.filter(s => s.status === 'active').length,
+    completedSessions: completed.length,
+    totalMessages: sessions.reduce((sum, s) => sum + s.messageCount, 0),
+    totalContinues: sessions.reduce((sum, s) => sum + s.continueCount, 0),
+    totalEnds: sessions.reduce((sum, s) => sum + s.endCount, 0),
+    averageSessionDuration: average(completed.map(s => s.totalDuration)),
+    averageMessagesPerSession: average(completed.map(s => s.messageCount)),
+  };
+}
+
+/**
+ * Build the export file for the given sessions
+ */
+export function formatSessionExport(
+  sessions: EnhancedSession[],
+  options: SessionExportOptions,
+  language: Language,
+  exportedAt: number = Date.now(),
+): string {
+  const selected = selectSessionsForExport(sessions, options);
+  switch (options.format) {
+    case 'csv':
+      return formatCsv(selected, options);
+    case 'markdown':
+      return formatMarkdown(selected, options, language, exportedAt);
+    case 'json':
+    default:
+      return JSON.stringify(
+        {
+          exportedAt,
+          version: EXPORT_VERSION,
+          ...(options.includeStatistics ? { statistics: summarizeSessions(selected) } : {}),
+          sessions: options.includeMessages ? selected : selected.map(({ messages: _messages, ...session }) => session),
+        },
+        null,
+        2,
+      );
+  }
+}
+
+// CSV
+
+const SESSION_COLUMNS = [
+  'sessionId',
+  'parentSessionId',
+  'workspacePath',
+  'status',
+  'privacyLevel',
+  'createdAt',
+  'completedAt',
+  'durationMs',
+  'messageCount',
+  'continueCount',
+  'endCount',
+  'tags',
+  'notes',
+] as const;
+
+const MESSAGE_COLUMNS = [
+  'messageId',
+  'timestamp',
+  'type',
+  'decision',
+  'summary',
+  'reason',
+  'userInstruction',
+  'imageCount',
+] as const;
+
+function toIso(timestamp: number | undefined): string {
+  return timestamp ? new Date(timestamp).toISOString() : '';
+}
+
+/**
+ * Quote a CSV field when needed (RFC 4180)
+ * Fields a spreadsheet would run as a formula get a leading apostrophe
+ */
+function csvField(value: string | number | undefined): string {
+  let text = value === undefined ? '' : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRow(values: (string | number | undefined)[]): string {
+  return values.map(csvField).join(',');
+}
+
+function sessionValues(session: EnhancedSession): (string | number | undefined)[] {
+  return [
+    session.id,
+    session.parentSessionId,
+    session.workspacePath,
+    session.status,
+    session.privacyLevel,
+    toIso(session.createdAt),
+    toIso(session.completedAt),
+    session.totalDuration,
+    session.messageCount,
+    session.continueCount,
+    session.endCount,
+    session.tags.join(';'),
+    session.notes,
+  ];
+}
+
+function messageValues(message: SessionMessage): (string | number | undefined)[] {
+  return [
+    message.id,
+    toIso(message.timestamp),
+    message.type,
+    message.shouldContinue ? 'continue' : 'end',
+    message.summary,
+    message.reason,
+    message.userInstruction,
+    message.imageCount ?? (message.hasImages ? 1 : 0),
+  ];
+}
+
+/**
+ * One row per session, or one row per message with its session's columns repeated
+ * Statistics follow as a separate metric,value table after a blank line
+ */
+function formatCsv(sessions: EnhancedSession[], options: SessionExportOptions): string {
+  const rows: string[] = [];
+  if (options.includeMessages) {
+    rows.push(csvRow([...SESSION_COLUMNS, ...MESSAGE_COLUMNS]));
+    sessions.forEach((session) => {
+      session.messages.forEach(message => rows.push(csvRow([...sessionValues(session), ...messageValues(message)])));
+    });
+  }
+  else {
+    rows.push(csvRow([...SESSION_COLUMNS]));
+    sessions.forEach(session => rows.push(csvRow(sessionValues(session))));
+  }
+
+  if (options.includeStatistics) {
+    rows.push('', csvRow(['metric', 'value']));
+    Object.entries(summarizeSessions(sessions)).forEach(([metric, value]) => rows.push(csvRow([metric, value])));
+  }
+
+  return `${rows.join('\r\n')}\r\n`;
+}
+
+// Markdown
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+// Local time, the same in every language so transcripts sort and diff cleanly
+function formatTimestamp(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+function formatDuration(ms: number, language: Language): string {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes >= 60) {
+    return translate(language, 'time.hoursMinutes', { hours: Math.floor(minutes / 60), minutes: minutes % 60 });
+  }
+  return minutes > 0
+    ? translate(language, 'time.minutes', { count: minutes })
+    : translate(language, 'time.seconds', { count: Math.floor(ms / 1000) });
+}
+
+function quote(text: string): string {
+  return text.split(/\r?\n/).map(line => `> ${line}`).join('\n');
+}
+
+function transcriptEntry(message: SessionMessage, language: Language): string[] {
+  const time = formatTimestamp(message.timestamp);
+  const lines: string[] = [];
+  if (message.type === 'ask') {
+    lines.push(`**${time}** · ${translate(language, 'sessionExport.checkpoint')}`);
+    lines.push('', quote(message.summary || translate(language, 'common.noContent')));
+    if (message.reason) {
+      lines.push('', `${translate(language, 'sessionExport.reason')} ${message.reason}`);
+    }
+  }
+  else {
+    const decision = message.shouldContinue ? translate(language, 'common.continue') : translate(language, 'common.end');
+    lines.push(`**${time}** · ${translate(language, 'sessionExport.decision', { decision })}`);
+    if (message.userInstruction) {
+      lines.push('', quote(message.userInstruction));
+    }
+  }
+  if (message.hasImages) {
+    lines.push('', `_${translate(language, 'sessionExport.images', { count: message.imageCount ?? 1 })}_`);
+  }
+  // Recorded at the 'metadata' privacy level: what is known about the text instead of the text
+  Object.entries(message.metadata ?? {}).forEach(([field, metadata]) => {
+    const parts = [translate(language, 'sessionExport.contentMetadata', {
+      field: translate(language, `sessionExport.fields.${field as PrivateField}`),
+      length: metadata.length,
+      hash: metadata.hash,
+    })];
+    if (metadata.tags.length > 0) {
+      parts.push(translate(language, 'sessionExport.contentDetected', { tags: metadata.tags.join(', ') }));
+    }
+    lines.push('', `_${parts.join('; ')}_`);
+  });
+  return lines;
+}
+
+function formatMarkdown(sessions: EnhancedSession[], options: SessionExportOptions, language: Language, exportedAt: number): string {
+  const lines: string[] = [
+    `# ${translate(language, 'sessionExport.title')}`,
+    '',
+    translate(language, 'sessionExport.exportedAt', { time: formatTimestamp(exportedAt), count: sessions.length }),
+  ];
+  if (options.dateRange) {
+    lines.push('', translate(language, 'sessionExport.range', {
+      start: formatTimestamp(options.dateRange.start),
+      end: formatTimestamp(options.dateRange.end),
+    }));
+  }
+
+  if (options.includeStatistics) {
+    const statistics = summarizeSessions(sessions);
+    lines.push(
+      '',
+      `## ${translate(language, 'sessionExport.statistics')}`,
+      '',
+      `| ${translate(language, 'sessionExport.metric')} | ${translate(language, 'sessionExport.value')} |`,
+      '| --- | --- |',
+      `| ${translate(language, 'sessionExport.sessions')} | ${statistics.totalSessions} |`,
+      `| ${translate(language, 'sessions.status.completed')} | ${statistics.completedSessions} |`,
+      `| ${translate(language, 'sessionExport.messages')} | ${statistics.totalMessages} |`,
+      `| ${translate(language, 'common.continue')} | ${statistics.totalContinues} |`,
+      `| ${translate(language, 'common.end')} | ${statistics.totalEnds} |`,
+      `| ${translate(language, 'sessionExport.averageDuration')} | ${formatDuration(statistics.averageSessionDuration, language)} |`,
+    );
+  }
+
+  sessions.forEach((session) => {
+    const name = session.workspacePath.split(/[/\\]/).pop() || translate(language, 'common.unknownWorkspace');
+    lines.push(
+      '',
+      `## ${name} · ${formatTimestamp(session.createdAt)}`,
+      '',
+      `- ${translate(language, 'sessionExport.session')} \`${session.id}\``,
+      `- ${translate(language, 'sessionExport.status')} ${translate(language, `sessions.status.${session.status}`)}`,
+    );
+    if (session.parentSessionId) {
+      lines.push(`- ${translate(language, 'sessionExport.branchOf')} \`${session.parentSessionId}\``);
+    }
+    if (session.totalDuration > 0) {
+      lines.push(`- ${translate(language, 'sessionExport.duration')} ${formatDuration(session.totalDuration, language)}`);
+    }
+    lines.push(`- ${translate(language, 'sessionExport.decisions', { continues: session.continueCount, ends: session.endCount })}`);
+    if (session.tags.length > 0) {
+      lines.push(`- ${translate(language, 'sessionExport.tags')} ${session.tags.map(tag => `\`${tag}\``).join(' ')}`);
+    }
+    if (session.notes) {
+      lines.push('', quote(session.notes));
+    }
+
+    if (options.includeMessages) {
+      lines.push('', `### ${translate(language, 'sessionExport.transcript')}`);
+      if (session.messages.length === 0) {
+        lines.push('', `_${translate(language, 'sessionExport.noMessages')}_`);
+      }
+      else if (session.privacyLevel !== 'full') {
+        lines.push('', `_${translate(language, 'sessionExport.contentNotRecorded')}_`);
+      }
+      session.messages.forEach(message => lines.push('', ...transcriptEntry(message, language)));
+    }
+  });
+
+  return `${lines.join('\n')}\n`;
+}
@@ -1,12 +1,22 @@
 /**
  * Session Manager
  * Handles session isolation, history, and persistence
- * Now supports per-window/panel isolation via panelId
+ * Sessions are stored per workspace on the extension host and shared by all panels
  */
 
+import { getLanguage } from '../../shared/i18n';
+import { createRedactor, protectContent } from '../../shared/privacy';
+
+import { hostStorage } from './hostStorage';
+import { SearchIndex, sessionDocument } from './searchIndex';
+import { formatSessionExport } from './sessionExport';
+
+import type { Language } from '../../shared/i18n';
+import type { PrivacySettings, Redactor } from '../../shared/privacy';
 import type {
   EnhancedSession,
   PrivacyLevel,
+  SessionExportOptions,
   SessionFilter,
   SessionMessage,
   SessionRetention,
@@ -15,50 +25,38 @@ import type {
   SessionStatus,
 } from '../types/session';
 
-const SESSION_STORAGE_KEY_PREFIX = 'windsurf-endless-sessions';
-const STATISTICS_STORAGE_KEY_PREFIX = 'windsurf-endless-statistics';
-
 export class SessionManager {
   private sessions: Map<string, EnhancedSession> = new Map();
   private currentSessionId: string | null = null;
   private statistics: SessionStatistics;
   private listeners: Set<(sessions: EnhancedSession[]) => void> = new Set();
   private panelId: string | null = null;
+  // Level of new sessions and the detectors their text goes through; set from the settings
+  private privacyLevel: PrivacyLevel = 'full';
+  private redactor: Redactor = createRedactor({});
 
   constructor(panelId?: string) {
     this.panelId = panelId || null;
     this.statistics = this.getDefaultStatistics();
     this.loadFromStorage();
+    // Sessions changed by another panel, or the first snapshot from the host
+    hostStorage.subscribe('sessions', () => this.reloadFromStorage());
+    hostStorage.subscribe('sessionStatistics', () => this.reloadFromStorage());
   }
 
   /**
-   * Get storage key with optional panelId suffix for isolation
-   */
-  private getSessionStorageKey(): string {
-    return this.panelId
-      ? `${SESSION_STORAGE_KEY_PREFIX}-${this.panelId}`
-      : SESSION_STORAGE_KEY_PREFIX;
-  }
-
-  /**
-   * Get statistics storage key with optional panelId suffix for isolation
+   * Set the panelId for this session manager (called after initialization)
    */
-  private getStatisticsStorageKey(): string {
-    return this.panelId
-      ? `${STATISTICS_STORAGE_KEY_PREFIX}-${this.panelId}`
-      : STATISTICS_STORAGE_KEY_PREFIX;
+  setPanelId(panelId: string): void {
+    this.panelId = panelId;
   }
 
   /**
-   * Set the panelId for this session manager (called after initialization)
+   * Apply the privacy settings to new sessions and messages, and to exports
    */
-  setPanelId(panelId: string): void {
-    if (this.panelId !== panelId) {
-      this.panelId = panelId;
-      // Reload from storage with new panelId
-      this.sessions.clear();
-      this.loadFromStorage();
-    }
+  setPrivacySettings(settings: Partial<PrivacySettings>): void {
+    this.privacyLevel = settings.privacyLevel ?? 'full';
+    this.redactor = createRedactor(settings);
   }
 
   /**
@@ -90,40 +88,33 @@ export class SessionManager {
   }
 
   /**
-   * Load sessions from localStorage
+   * Load sessions from host storage
    */
   private loadFromStorage(): void {
-    try {
-      const sessionsJson = localStorage.getItem(this.getSessionStorageKey());
-      if (sessionsJson) {
-        const sessionsArray: EnhancedSession[] = JSON.parse(sessionsJson);
-        sessionsArray.forEach((session) => {
-          this.sessions.set(session.id, session);
-        });
-      }
+    hostStorage.get<EnhancedSession[]>('sessions')?.forEach((session) => {
+      this.sessions.set(session.id, session);
+    });
+    this.statistics = hostStorage.get<SessionStatistics>('sessionStatistics') ?? this.getDefaultStatistics();
+  }
 
-      const statsJson = localStorage.getItem(this.getStatisticsStorageKey());
-      if (statsJson) {
-        this.statistics = JSON.parse(statsJson);
-      }
-    }
-    catch (error) {
-      console.error('[SessionManager] Failed to load from storage:', error);
+  /**
+   * Replace the in-memory sessions with the stored ones and notify listeners
+   */
+  private reloadFromStorage(): void {
+    this.sessions.clear();
+    this.loadFromStorage();
+    if (this.currentSessionId && !this.sessions.has(this.currentSessionId)) {
+      this.currentSessionId = null;
     }
+    this.notifyListeners();
   }
 
   /**
-   * Save sessions to localStorage
+   * Save sessions to host storage
    */
   private saveToStorage(): void {
-    try {
-      const sessionsArray = Array.from(this.sessions.values());
-      localStorage.setItem(this.getSessionStorageKey(), JSON.stringify(sessionsArray));
-      localStorage.setItem(this.getStatisticsStorageKey(), JSON.stringify(this.statistics));
-    }
-    catch (error) {
-      console.error('[SessionManager] Failed to save to storage:', error);
-    }
+    hostStorage.set('sessions', Array.from(this.sessions.values()));
+    hostStorage.set('sessionStatistics', this.statistics);
   }
 
   /**
@@ -148,7 +139,7 @@ export class SessionManager {
   createSession(
     workspaceId: string,
     workspacePath: string,
-    privacyLevel: PrivacyLevel = 'full',
+    privacyLevel: PrivacyLevel = this.privacyLevel,
     parentSessionId?: string,
   ): EnhancedSession {
     const session: EnhancedSession = {
@@ -228,17 +219,10 @@ export class SessionManager {
         sessions = sessions.filter(s => filter.tags!.some(tag => s.tags.includes(tag)));
       }
       if (filter.searchQuery) {
-        const query = filter.searchQuery.toLowerCase();
-        sessions = sessions.filter(
-          s =>
-            s.workspacePath.toLowerCase().includes(query)
-            || s.notes?.toLowerCase().includes(query)
-            || s.messages.some(
-              m =>
-                m.summary?.toLowerCase().includes(query)
-                || m.userInstruction?.toLowerCase().includes(query),
-            ),
-        );
+        // Full-text search, so session filters like tag: and before: work in the query too
+        const index = SearchIndex.from(sessions.map(sessionDocument));
+        const matches = new Set(index.search(filter.searchQuery).map(result => result.document.ref));
+        sessions = sessions.filter(s => matches.has(s.id));
       }
     }
 
@@ -286,25 +270,12 @@ export class SessionManager {
     if (!session)
       return null;
 
-    const fullMessage: SessionMessage = {
+    // Apply privacy level filtering: redacted text, only its metadata, or nothing
+    const fullMessage = protectContent<SessionMessage>({
       ...message,
       id: `msg-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
       timestamp: Date.now(),
-    };
-
-    // Apply privacy level filtering
-    if (session.privacyLevel === 'statistics') {
-      // Only store metadata
-      delete fullMessage.summary;
-      delete fullMessage.reason;
-      delete fullMessage.userInstruction;
-    }
-    else if (session.privacyLevel === 'metadata') {
-      // Store timestamp and type but not content
-      delete fullMessage.summary;
-      delete fullMessage.reason;
-      delete fullMessage.userInstruction;
-    }
+    }, session.privacyLevel, this.redactor);
 
     session.messages.push(fullMessage);
     session.messageCount++;
@@ -364,7 +335,7 @@ export class SessionManager {
   completeAndCreateNew(
     workspaceId: string,
     workspacePath: string,
-    privacyLevel: PrivacyLevel = 'full',
+    privacyLevel: PrivacyLevel = this.privacyLevel,
   ): EnhancedSession {
     if (this.currentSessionId) {
       this.updateSessionStatus(this.currentSessionId, 'completed');
@@ -372,6 +343,54 @@ export class SessionManager {
     return this.createSession(workspaceId, workspacePath, privacyLevel, this.currentSessionId ?? undefined);
   }
 
+  /**
+   * Fork a session at one of its messages
+   * The branch gets the messages before that one, so the same checkpoint can be answered differently,
+   * and becomes the current session; copied messages keep their ids so branches can be compared
+   */
+  forkSession(sessionId: string, messageId: string): EnhancedSession | null {
+    const parent = this.sessions.get(sessionId);
+    const index = parent?.messages.findIndex(m => m.id === messageId) ?? -1;
+    if (!parent || index === -1)
+      return null;
+
+    const messages = parent.messages.slice(0, index).map(m => ({ ...m }));
+    const now = Date.now();
+    const branch: EnhancedSession = {
+      id: this.generateId(),
+      workspaceId: parent.workspaceId,
+      workspacePath: parent.workspacePath,
+      createdAt: now,
+      updatedAt: now,
+      status: 'active',
+      isolationKey: this.generateIsolationKey(parent.workspaceId),
+      parentSessionId: parent.id,
+      branchFromMessageId: messageId,
+      messageCount: messages.length,
+      continueCount: messages.filter(m => m.shouldContinue).length,
+      endCount: messages.filter(m => !m.shouldContinue).length,
+      totalDuration: 0,
+      privacyLevel: parent.privacyLevel,
+      messages,
+      tags: [...parent.tags],
+    };
+
+    this.sessions.set(branch.id, branch);
+    this.currentSessionId = branch.id;
+
+    // Counted like any other session so deleting the branch later balances out
+    this.statistics.totalSessions++;
+    this.statistics.activeSessions++;
+    this.statistics.totalMessages += branch.messageCount;
+    this.statistics.totalContinues += branch.continueCount;
+    this.statistics.totalEnds += branch.endCount;
+
+    this.saveToStorage();
+    this.notifyListeners();
+
+    return branch;
+  }
+
   /**
    * Switch to a different session
    */
@@ -452,6 +471,13 @@ export class SessionManager {
 
     this.sessions.delete(id);
 
+    // Branches of the deleted session move up to its parent
+    this.sessions.forEach((other) => {
+      if (other.parentSessionId === id) {
+        other.parentSessionId = session.parentSessionId;
+      }
+    });
+
     if (this.currentSessionId === id) {
       this.currentSessionId = null;
     }
@@ -530,23 +556,16 @@ export class SessionManager {
   }
 
   /**
-   * Export sessions
+   * Export sessions in the requested format; see sessionExport for what each option does
    */
-  exportSessions(sessionIds?: string[]): string {
-    const sessionsToExport = sessionIds
-      ? sessionIds.map(id => this.sessions.get(id)).filter((s): s is EnhancedSession => s !== undefined)
-      : this.getAllSessions();
-
-    return JSON.stringify(
-      {
-        exportedAt: Date.now(),
-        version: '1.0.0',
-        statistics: this.statistics,
-        sessions: sessionsToExport,
-      },
-      null,
-      2,
-    );
+  exportSessions(options: SessionExportOptions, language: Language = getLanguage()): string {
+    // Redact again on the way out, for text recorded before a detector or pattern was enabled
+    const sessions = this.getAllSessions().map(session => ({
+      ...session,
+      notes: session.notes && this.redactor.redact(session.notes),
+      messages: session.messages.map(message => protectContent(message, 'full', this.redactor)),
+    }));
+    return formatSessionExport(sessions, options, language);
   }
 
   /**
@@ -598,7 +617,7 @@ export class SessionManager {
 export const sessionManager = new SessionManager();
 
 /**
- * Create a new SessionManager with a specific panelId for window isolation
+ * Create a new SessionManager with a specific panelId
  */
 export function createSessionManager(panelId: string): SessionManager {
   return new SessionManager(panelId);
@@ -0,0 +1,95 @@
+/**
+ * State Sync
+ * Client side of the host's state store: the state last confirmed by the host plus the commands this panel
+ * sent that the host has not answered yet. The panel shows the confirmed state with those commands replayed on top,
+ * so its own edits appear at once and edits from other panels are never overwritten
+ */
+
+import { applyStateCommand, applyStatePatch } from '../../shared/state';
+import { vscode } from '../utils/vscode';
+
+import type { StateCommand, StatePatch, SyncedState } from '../../shared/state';
+
+interface PendingCommand {
+  id: string;
+  command: StateCommand;
+}
+
+export class StateSync<S extends SyncedState> {
+  private confirmed: S;
+  // Revision of the confirmed state; -1 until the first snapshot arrives
+  private revision = -1;
+  private pending: PendingCommand[] = [];
+  private commandCounter = 0;
+  private resyncRequested = false;
+
+  constructor(initial: S) {
+    this.confirmed = initial;
+  }
+
+  /**
+   * The confirmed state with the pending commands replayed on top
+   * Commands that no longer fit are left out; the host rejects them as well
+   */
+  getState(): S {
+    return this.pending.reduce((state, { command }) => {
+      try {
+        return applyStateCommand(state, command);
+      }
+      catch {
+        return state;
+      }
+    }, this.confirmed);
+  }
+
+  getRevision(): number {
+    return this.revision;
+  }
+
+  /**
+   * Replace the confirmed state with a snapshot from the host
+   */
+  reset(state: S, revision: number): S {
+    this.confirmed = state;
+    this.revision = revision;
+    this.resyncRequested = false;
+    return this.getState();
+  }
+
+  /**
+   * Apply a command optimistically and send it to the host
+   */
+  issue(command: StateCommand): S {
+    const id = `cmd-${Date.now()}-${++this.commandCounter}-${Math.random().toString(36).slice(2, 7)}`;
+    this.pending.push({ id, command });
+    vscode.postMessage({ ...command, commandId: id });
+    return this.getState();
+  }
+
+  /**
+   * Apply a patch from the host and drop the command it answers
+   * A patch that does not follow the confirmed revision means one was missed, so a fresh snapshot is requested
+   */
+  applyPatch(patch: StatePatch): S {
+    if (patch.commandId) {
+      this.pending = this.pending.filter(p => p.id !== patch.commandId);
+    }
+    if (patch.baseRevision === this.revision) {
+      this.confirmed = applyStatePatch(this.confirmed, patch.ops);
+      this.revision = patch.revision;
+    }
+    else if (patch.baseRevision > this.revision && this.revision >= 0 && !this.resyncRequested) {
+      this.resyncRequested = true;
+      vscode.postMessage({ type: 'request_state_sync' });
+    }
+    return this.getState();
+  }
+
+  /**
+   * Drop a command the host refused, reverting its optimistic change
+   */
+  reject(commandId: string): S {
+    this.pending = this.pending.filter(p => p.id !== commandId);
+    return this.getState();
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Text Diff
+ * Word-level diff between an instruction and its optimized version, grouped
+ * into hunks that can be accepted, rejected or edited one by one
+ */
+
+export interface DiffEqual {
+  type: 'equal';
+  text: string;
+}
+
+export interface DiffHunk {
+  type: 'change';
+  id: number;
+  /** Text of the original that the hunk replaces, empty for pure insertions */
+  removed: string;
+  /** Replacement text, empty for pure deletions */
+  added: string;
+}
+
+export type DiffSegment = DiffEqual | DiffHunk;
+
+// Above this many token pairs the LCS table gets too large; the diff becomes one hunk
+const MAX_TABLE_SIZE = 4_000_000;
+
+// Han characters stand alone, words and whitespace runs stay together, punctuation is split
+const TOKEN_PATTERN = /\p{Script=Han}|[\p{L}\p{N}_]+|\s+|[^\s\p{L}\p{N}_]/gu;
+
+export function tokenize(text: string): string[] {
+  return text.match(TOKEN_PATTERN) ?? [];
+}
+
+/**
+ * Diff two texts into equal runs and change hunks, in order
+ */
+export function diffText(original: string, revised: string): DiffSegment[] {
+  const a = tokenize(original);
+  const b = tokenize(revised);
+  const segments: DiffSegment[] = [];
+  let hunkId = 0;
+  let removed = '';
+  let added = '';
+
+  const flushHunk = () => {
+    if (removed || added) {
+      segments.push({ type: 'change', id: hunkId++, removed, added });
+      removed = '';
+      added = '';
+    }
+  };
+  const pushEqual = (text: string) => {
+    flushHunk();
+    const last = segments.at(-1);
+    if (last?.type === 'equal') {
+      last.text += text;
+    }
+    else {
+      segments.push({ type: 'equal', text });
+    }
+  };
+
+  if ((a.length + 1) * (b.length + 1) > MAX_TABLE_SIZE) {
+    removed = original;
+    added = revised;
+    flushHunk();
+    return segments;
+  }
+
+  // lcs[i][j]: length of the longest common subsequence of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      pushEqual(a[i]);
+      i++;
+      j++;
+    }
+    else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      added += b[j++];
+    }
+    else {
+      removed += a[i++];
+    }
+  }
+  flushHunk();
+  return mergeWhitespaceGaps(segments);
+}
+
+/**
+ * Join hunks separated only by whitespace, so "a b" -> "c d" is one change instead of two
+ */
+function mergeWhitespaceGaps(segments: DiffSegment[]): DiffSegment[] {
+  const merged: DiffSegment[] = [];
+  for (const segment of segments) {
+    const previous = merged.at(-1);
+    const gap = merged.at(-2);
+    if (segment.type === 'change' && previous?.type === 'equal' && gap?.type === 'change' && !previous.text.trim()) {
+      gap.removed += previous.text + segment.removed;
+      gap.added += previous.text + segment.added;
+      merged.pop();
+    }
+    else {
+      merged.push(segment);
+    }
+  }
+
+  let hunkId = 0;
+  return merged.map(segment => segment.type === 'change' ? { ...segment, id: hunkId++ } : segment);
+}
+
+/**
+ * Rebuild the text from a diff
+ * `resolutions` holds the text chosen for each hunk by id; unresolved hunks take the optimized text
+ */
+export function applyDiff(segments: DiffSegment[], resolutions: Record<number, string> = {}): string {
+  return segments
+    .map(segment => segment.type === 'equal' ? segment.text : (resolutions[segment.id] ?? segment.added))
+    .join('');
+}
@@ -1,4 +1,4 @@
 /**
  * Store exports
  */
-export { AppProvider, useApp, useConversations, useHistory, useSettings } from './index.tsx';
+export { AppProvider, useApp, useConversations, useHistory, useHostStore, useI18n, useOptimizationProfiles, useSettings } from './index.tsx';
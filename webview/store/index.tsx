@@ -2,23 +2,31 @@
  * State management for Windsurf Endless
  */
 
-import { createContext, useContext, useEffect, useReducer, useRef } from 'react';
+import { createContext, useCallback, useContext, useEffect, useReducer, useRef, useState } from 'react';
 
-import { sessionManager } from '../lib';
+import { setLanguage, translate } from '../../shared/i18n';
+import { saveSettingsCommands } from '../../shared/state';
+import { hostStorage, sessionManager, StateSync } from '../lib';
 import { defaultSettings } from '../types';
 import { vscode } from '../utils/vscode';
 
+import type { MessageKey, MessageParams } from '../../shared/i18n';
+import type { StateCommand } from '../../shared/state';
+import type { StoreName } from '../../shared/storage';
 import type {
   AppState,
   Conversation,
-  ConversationMessage,
   HistoryItem,
+  OptimizationProfilesState,
   Settings,
+  SettingsScope,
 } from '../types';
 import type { ReactNode } from 'react';
 
 const initialState: AppState = {
   settings: defaultSettings,
+  globalSettings: {},
+  settingsOverrides: {},
   conversations: [],
   sessions: [],
   history: [],
@@ -28,68 +36,41 @@ const initialState: AppState = {
   panelId: null,
 };
 
+// Fields the extension host persists and keeps in sync across panels
+type SyncedAppState = Pick<
+  AppState,
+  'settings' | 'globalSettings' | 'settingsOverrides' | 'conversations' | 'history' | 'activeConversationId' | 'activeSessionId' | 'workspacePath'
+>;
+
+function pickSynced(state: Partial<AppState>): SyncedAppState {
+  // State saved by an older webview has only the effective settings
+  const layered = state.globalSettings !== undefined || state.settingsOverrides !== undefined;
+  return {
+    settings: layered
+      ? { ...defaultSettings, ...state.globalSettings, ...state.settingsOverrides }
+      : { ...defaultSettings, ...state.settings },
+    globalSettings: state.globalSettings ?? {},
+    settingsOverrides: state.settingsOverrides ?? {},
+    conversations: state.conversations ?? [],
+    history: state.history ?? [],
+    activeConversationId: state.activeConversationId ?? null,
+    activeSessionId: state.activeSessionId ?? null,
+    workspacePath: state.workspacePath ?? '',
+  };
+}
+
 type Action
-  = | { type: 'SET_SETTINGS'; payload: Settings }
-    | { type: 'UPDATE_SETTINGS'; payload: Partial<Settings> }
-    | { type: 'SET_CONVERSATIONS'; payload: Conversation[] }
-    | { type: 'ADD_CONVERSATION'; payload: Conversation }
-    | { type: 'UPDATE_CONVERSATION'; payload: { id: string; updates: Partial<Conversation> } }
-    | { type: 'DELETE_CONVERSATION'; payload: string }
-    | { type: 'SET_ACTIVE_CONVERSATION'; payload: string | null }
-    | { type: 'ADD_MESSAGE'; payload: { conversationId: string; message: ConversationMessage } }
-    | { type: 'SET_HISTORY'; payload: HistoryItem[] }
-    | { type: 'ADD_HISTORY_ITEM'; payload: HistoryItem }
-    | { type: 'DELETE_HISTORY_ITEM'; payload: string }
-    | { type: 'CLEAR_HISTORY' }
-    | { type: 'LOAD_STATE'; payload: Partial<AppState> }
+  = | { type: 'LOAD_STATE'; payload: Partial<AppState> }
+    | { type: 'SYNC_STATE'; payload: SyncedAppState }
     | { type: 'SET_PANEL_ID'; payload: string };
 
 function appReducer(state: AppState, action: Action): AppState {
   switch (action.type) {
-    case 'SET_SETTINGS':
-      return { ...state, settings: action.payload };
-    case 'UPDATE_SETTINGS':
-      return { ...state, settings: { ...state.settings, ...action.payload } };
-    case 'SET_CONVERSATIONS':
-      return { ...state, conversations: action.payload };
-    case 'ADD_CONVERSATION':
-      return { ...state, conversations: [...state.conversations, action.payload] };
-    case 'UPDATE_CONVERSATION':
-      return {
-        ...state,
-        conversations: state.conversations.map(c =>
-          c.id === action.payload.id ? { ...c, ...action.payload.updates } : c,
-        ),
-      };
-    case 'DELETE_CONVERSATION':
-      return {
-        ...state,
-        conversations: state.conversations.filter(c => c.id !== action.payload),
-        activeConversationId: state.activeConversationId === action.payload ? null : state.activeConversationId,
-      };
-    case 'SET_ACTIVE_CONVERSATION':
-      return { ...state, activeConversationId: action.payload };
-    case 'ADD_MESSAGE':
-      return {
-        ...state,
-        conversations: state.conversations.map(c =>
-          c.id === action.payload.conversationId
-            ? { ...c, messages: [...c.messages, action.payload.message], updatedAt: Date.now() }
-            : c,
-        ),
-      };
-    case 'SET_HISTORY':
-      return { ...state, history: action.payload };
-    case 'ADD_HISTORY_ITEM': {
-      const newHistory = [action.payload, ...state.history];
-      return { ...state, history: newHistory.slice(0, state.settings.maxHistoryItems) };
-    }
-    case 'DELETE_HISTORY_ITEM':
-      return { ...state, history: state.history.filter(h => h.id !== action.payload) };
-    case 'CLEAR_HISTORY':
-      return { ...state, history: [] };
     case 'LOAD_STATE':
       return { ...state, ...action.payload };
+    case 'SYNC_STATE':
+      // Only the host-owned fields; panel-local ones such as panelId stay as they are
+      return { ...state, ...pickSynced(action.payload) };
     case 'SET_PANEL_ID':
       return { ...state, panelId: action.payload };
     default:
@@ -100,7 +81,9 @@ function appReducer(state: AppState, action: Action): AppState {
 interface AppContextType {
   state: AppState;
   dispatch: React.Dispatch<Action>;
-  saveSettings: (settings: Partial<Settings>) => void;
+  saveSettings: (settings: Partial<Settings>, scope?: SettingsScope) => void;
+  resetSettings: (scope: SettingsScope) => void;
+  copySettingsToGlobal: () => void;
   createConversation: (name: string, workspacePath: string) => Conversation;
   updateConversation: (id: string, updates: Partial<Conversation>) => void;
   deleteConversation: (id: string) => void;
@@ -119,6 +102,12 @@ interface AppProviderProps {
 export function AppProvider({ children }: AppProviderProps) {
   const [state, dispatch] = useReducer(appReducer, initialState);
   const stateRef = useRef(state);
+  // Host-owned fields: confirmed by the host, with this panel's unanswered commands replayed on top
+  const [stateSync] = useState(() => new StateSync(pickSynced({ ...initialState, ...(vscode.getState() as Partial<AppState> | undefined) })));
+
+  const issueCommand = (command: StateCommand) => {
+    dispatch({ type: 'SYNC_STATE', payload: stateSync.issue(command) });
+  };
 
   useEffect(() => {
     stateRef.current = state;
@@ -136,21 +125,25 @@ export function AppProvider({ children }: AppProviderProps) {
       if (message.type === 'request_export_data') {
         vscode.postMessage({ type: 'export_data_response', data: stateRef.current });
       }
-      else if (message.type === 'import_data_response') {
-        dispatch({ type: 'LOAD_STATE', payload: message.data });
-      }
       else if (message.type === 'state_sync') {
         // Capture panelId from the first state_sync message
         if (message.panelId && !stateRef.current.panelId) {
           dispatch({ type: 'SET_PANEL_ID', payload: message.panelId });
-          // Also sync panelId to sessionManager for localStorage isolation
+          // Also tell sessionManager which panel it runs in
           sessionManager.setPanelId(message.panelId);
         }
         // Only accept state_sync if panelId matches or we don't have one yet
         if (!stateRef.current.panelId || message.panelId === stateRef.current.panelId) {
-          dispatch({ type: 'LOAD_STATE', payload: message.data as Partial<AppState> });
+          dispatch({ type: 'SYNC_STATE', payload: stateSync.reset(pickSynced(message.data), message.revision) });
         }
       }
+      else if (message.type === 'state_patch') {
+        dispatch({ type: 'SYNC_STATE', payload: stateSync.applyPatch(message.data) });
+      }
+      else if (message.type === 'state_command_rejected') {
+        console.warn('[Store] State command rejected:', message.data?.reason);
+        dispatch({ type: 'SYNC_STATE', payload: stateSync.reject(message.data?.commandId) });
+      }
     };
 
     window.addEventListener('message', handleMessage);
@@ -165,9 +158,33 @@ export function AppProvider({ children }: AppProviderProps) {
     vscode.setState(state);
   }, [state]);
 
-  const saveSettings = (settings: Partial<Settings>) => {
-    dispatch({ type: 'UPDATE_SETTINGS', payload: settings });
-    vscode.postMessage({ type: 'save_settings', data: { ...state.settings, ...settings } });
+  // Modules outside React (prompt library, connection monitor) read the module-level language
+  useEffect(() => {
+    setLanguage(state.settings.language);
+  }, [state.settings.language]);
+
+  // Sessions are recorded and exported outside React, at the privacy level of the settings
+  useEffect(() => {
+    sessionManager.setPrivacySettings(state.settings);
+  }, [state.settings.privacyLevel, state.settings.redactionDetectors, state.settings.redactionPatterns]);
+
+  /**
+   * Save changed settings only, so settings saved meanwhile by another panel are kept
+   * Without a scope, each setting is saved in the layer that defines it now
+   */
+  const saveSettings = (settings: Partial<Settings>, scope?: SettingsScope) => {
+    const commands: StateCommand[] = scope
+      ? [{ type: 'save_settings', data: { values: settings, scope } }]
+      : saveSettingsCommands(stateSync.getState(), settings);
+    commands.forEach(issueCommand);
+  };
+
+  const resetSettings = (scope: SettingsScope) => {
+    issueCommand({ type: 'reset_settings', data: { scope } });
+  };
+
+  const copySettingsToGlobal = () => {
+    issueCommand({ type: 'copy_settings_to_global' });
   };
 
   const createConversation = (name: string, workspacePath: string): Conversation => {
@@ -180,25 +197,20 @@ export function AppProvider({ children }: AppProviderProps) {
       messages: [],
       isActive: true,
     };
-    dispatch({ type: 'ADD_CONVERSATION', payload: conversation });
-    dispatch({ type: 'SET_ACTIVE_CONVERSATION', payload: conversation.id });
-    vscode.postMessage({ type: 'create_conversation', data: conversation });
+    issueCommand({ type: 'create_conversation', data: conversation });
     return conversation;
   };
 
   const updateConversation = (id: string, updates: Partial<Conversation>) => {
-    dispatch({ type: 'UPDATE_CONVERSATION', payload: { id, updates } });
-    vscode.postMessage({ type: 'update_conversation', data: { id, updates } });
+    issueCommand({ type: 'update_conversation', data: { id, updates, updatedAt: Date.now() } });
   };
 
   const deleteConversation = (id: string) => {
-    dispatch({ type: 'DELETE_CONVERSATION', payload: id });
-    vscode.postMessage({ type: 'delete_conversation', data: { id } });
+    issueCommand({ type: 'delete_conversation', data: { id } });
   };
 
   const switchConversation = (id: string) => {
-    dispatch({ type: 'SET_ACTIVE_CONVERSATION', payload: id });
-    vscode.postMessage({ type: 'switch_conversation', data: { id } });
+    issueCommand({ type: 'switch_conversation', data: { id } });
   };
 
   const addHistoryItem = (item: Omit<HistoryItem, 'id' | 'timestamp'>) => {
@@ -207,24 +219,23 @@ export function AppProvider({ children }: AppProviderProps) {
       id: `hist-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
       timestamp: Date.now(),
     };
-    dispatch({ type: 'ADD_HISTORY_ITEM', payload: historyItem });
-    vscode.postMessage({ type: 'add_history_item', data: historyItem });
+    issueCommand({ type: 'add_history_item', data: historyItem });
   };
 
   const clearHistory = () => {
-    dispatch({ type: 'CLEAR_HISTORY' });
-    vscode.postMessage({ type: 'clear_history' });
+    issueCommand({ type: 'clear_history' });
   };
 
   const deleteHistoryItem = (id: string) => {
-    dispatch({ type: 'DELETE_HISTORY_ITEM', payload: id });
-    vscode.postMessage({ type: 'delete_history_item', data: { id } });
+    issueCommand({ type: 'delete_history_item', data: { id } });
   };
 
   const contextValue: AppContextType = {
     state,
     dispatch,
     saveSettings,
+    resetSettings,
+    copySettingsToGlobal,
     createConversation,
     updateConversation,
     deleteConversation,
@@ -250,8 +261,28 @@ export function useApp() {
 }
 
 export function useSettings() {
-  const { state, saveSettings } = useApp();
-  return { settings: state.settings, saveSettings };
+  const { state, saveSettings, resetSettings, copySettingsToGlobal } = useApp();
+  return {
+    settings: state.settings,
+    globalSettings: state.globalSettings,
+    settingsOverrides: state.settingsOverrides,
+    saveSettings,
+    resetSettings,
+    copySettingsToGlobal,
+  };
+}
+
+/**
+ * Messages in the language chosen in Settings; components re-render when it changes
+ */
+export function useI18n() {
+  const { state } = useApp();
+  const language = state.settings.language || defaultSettings.language;
+  const t = useCallback(
+    (key: MessageKey, params?: MessageParams) => translate(language, key, params),
+    [language],
+  );
+  return { language, t };
 }
 
 export function useConversations() {
@@ -277,3 +308,50 @@ export function useHistory() {
     deleteHistoryItem,
   };
 }
+
+/**
+ * Optimization profiles kept by the extension host
+ * Saving broadcasts the stored profiles back to every webview, including this one
+ */
+export function useOptimizationProfiles() {
+  const [state, setState] = useState<OptimizationProfilesState>({ profiles: [], defaultProfileId: '' });
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'optimization_profiles' && event.data.data) {
+        setState(event.data.data);
+      }
+    };
+    window.addEventListener('message', handleMessage);
+    vscode.postMessage({ type: 'get_optimization_profiles' });
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  const saveProfiles = useCallback((next: OptimizationProfilesState) => {
+    setState(next);
+    vscode.postMessage({ type: 'save_optimization_profiles', data: next });
+  }, []);
+
+  return { ...state, saveProfiles };
+}
+
+/**
+ * A store kept by the extension host, shared with the other panels (and workspaces, for global stores)
+ * Shows the fallback until the store is first written
+ */
+export function useHostStore<T>(name: StoreName, fallback: T): [T, (value: T) => void] {
+  const [value, setValue] = useState<T>(() => hostStorage.get<T>(name) ?? fallback);
+
+  useEffect(() => {
+    setValue(hostStorage.get<T>(name) ?? fallback);
+    return hostStorage.subscribe(name, stored => setValue((stored as T | undefined) ?? fallback));
+    // The fallback only matters before the first write, so a new one does not resubscribe
+  }, [name]);
+
+  const save = useCallback((next: T) => {
+    setValue(next);
+    hostStorage.set(name, next);
+  }, [name]);
+
+  return [value, save];
+}
@@ -2,25 +2,59 @@
  * Type definitions for Windsurf Endless
  */
 
+import { DEFAULT_LANGUAGE, translate } from '../../shared/i18n';
+
+import type { Language } from '../../shared/i18n';
+import type { ContentMetadataFields, PrivacyLevel, RedactionDetector } from '../../shared/privacy';
+
 // Transport type for MCP connection
 export type TransportType = 'http' | 'stdio' | 'auto';
 
 // Connection mode for advanced configuration
 export type ConnectionMode = 'simple' | 'advanced';
 
+// What happens when nobody answers the dialog before dialogTimeout
+export type DialogTimeoutAction = 'end' | 'continue' | 'template';
+
+// Checkpoint UI: the React dialog or VS Code's QuickPick/InputBox
+export type CheckpointMode = 'webview' | 'native';
+
+// Backend used by the dialog's local prompt optimization
+export type OptimizerProviderId = 'vscode-lm' | 'openai-compatible' | 'rule-based';
+
+// Chat model offered by vscode.lm
+export interface LanguageModelInfo {
+  id: string;
+  name: string;
+  vendor: string;
+}
+
+// Named instructions for prompt optimization, stored by the extension host
+export interface OptimizationProfile {
+  id: string;
+  name: string;
+  description: string;
+  systemPrompt: string;
+}
+
+export interface OptimizationProfilesState {
+  profiles: OptimizationProfile[];
+  defaultProfileId: string;
+}
+
 // Port preset options
+// Names and descriptions live in the message catalog under settings.portPresets
 export interface PortPreset {
-  name: string;
+  id: 'default' | 'backup1' | 'backup2' | 'high' | 'custom';
   port: number;
-  description: string;
 }
 
 export const portPresets: PortPreset[] = [
-  { name: '默认', port: 6000, description: '推荐端口' },
-  { name: '备用 1', port: 6001, description: '备用端口' },
-  { name: '备用 2', port: 6002, description: '备用端口' },
-  { name: '高位', port: 16000, description: '避免冲突' },
-  { name: '自定义', port: 0, description: '手动输入' },
+  { id: 'default', port: 6000 },
+  { id: 'backup1', port: 6001 },
+  { id: 'backup2', port: 6002 },
+  { id: 'high', port: 16000 },
+  { id: 'custom', port: 0 },
 ];
 
 // Settings types
@@ -28,7 +62,7 @@ export interface Settings {
   // General settings
   autoStart: boolean;
   showNotifications: boolean;
-  language: 'zh-CN' | 'en-US';
+  language: Language;
 
   // MCP settings
   mcpAutoConfig: boolean;
@@ -46,10 +80,21 @@ export interface Settings {
   fallbackPorts: number[]; // Fallback ports to try
 
   // Dialog settings
+  checkpointMode: CheckpointMode;
   dialogTimeout: number; // in hours
+  dialogTimeoutAction: DialogTimeoutAction;
+  dialogTimeoutInstruction: string; // used by the 'continue' action
+  dialogTimeoutTemplateId: string; // used by the 'template' action
   dialogPosition: 'center' | 'top-right' | 'bottom-right';
   dialogTheme: 'system' | 'light' | 'dark';
 
+  // Prompt optimization settings
+  optimizerProvider: OptimizerProviderId;
+  optimizerModelId: string; // vscode-lm model id, empty for automatic
+  optimizerEndpoint: string; // OpenAI-compatible base URL
+  optimizerModel: string; // OpenAI-compatible model name
+  optimizerTimeouts: Record<OptimizerProviderId, number>; // in seconds
+
   // Rules settings
   autoInjectRules: boolean;
   customRulesPath: string;
@@ -59,8 +104,18 @@ export interface Settings {
   maxHistoryItems: number;
   autoCleanHistory: boolean;
   historyRetentionDays: number;
+  keepSessionStatistics: boolean; // expired sessions keep their counts but lose their content
+  syncAcrossWorkspaces: boolean; // share this workspace's history and browse others read-only
+
+  // Privacy settings
+  privacyLevel: PrivacyLevel; // applies to history and new sessions
+  redactionDetectors: RedactionDetector[];
+  redactionPatterns: string[]; // user regular expressions
 }
 
+// Where a setting is saved: shared by every workspace, or overridden for this one
+export type SettingsScope = 'global' | 'workspace';
+
 export const defaultSettings: Settings = {
   autoStart: true,
   showNotifications: true,
@@ -76,15 +131,29 @@ export const defaultSettings: Settings = {
   connectionTimeout: 10,
   fallbackToStdio: false,
   fallbackPorts: [6001, 6002, 16000],
+  checkpointMode: 'webview',
   dialogTimeout: 24,
+  dialogTimeoutAction: 'end',
+  dialogTimeoutInstruction: '',
+  dialogTimeoutTemplateId: '',
   dialogPosition: 'center',
   dialogTheme: 'system',
+  optimizerProvider: 'vscode-lm',
+  optimizerModelId: '',
+  optimizerEndpoint: 'http://localhost:11434/v1',
+  optimizerModel: '',
+  optimizerTimeouts: { 'vscode-lm': 30, 'openai-compatible': 60, 'rule-based': 5 },
   autoInjectRules: true,
   customRulesPath: '',
   saveHistory: true,
   maxHistoryItems: 100,
   autoCleanHistory: false,
   historyRetentionDays: 30,
+  keepSessionStatistics: true,
+  syncAcrossWorkspaces: false,
+  privacyLevel: 'full',
+  redactionDetectors: ['apiKey', 'token', 'email'],
+  redactionPatterns: [],
 };
 
 // Conversation/Session types
@@ -96,6 +165,7 @@ export interface ConversationMessage {
   summary?: string;
   shouldContinue: boolean;
   userInstruction?: string;
+  metadata?: ContentMetadataFields;
 }
 
 export interface Conversation {
@@ -131,12 +201,13 @@ export interface Shortcut {
   usageCount: number;
 }
 
+// Stored in the default language; the Shortcuts page shows unedited ones in the UI language
 export const defaultShortcuts: Shortcut[] = [
   {
     id: 'sc-continue',
-    name: '继续',
-    description: '继续当前任务',
-    content: '继续',
+    name: translate(DEFAULT_LANGUAGE, 'builtinShortcuts.continue.name'),
+    description: translate(DEFAULT_LANGUAGE, 'builtinShortcuts.continue.description'),
+    content: translate(DEFAULT_LANGUAGE, 'builtinShortcuts.continue.content'),
     icon: 'play',
     color: 'green',
     hotkey: '1',
@@ -147,9 +218,9 @@ export const defaultShortcuts: Shortcut[] = [
   },
   {
     id: 'sc-optimize',
-    name: '优化代码',
-    description: '优化当前代码',
-    content: '请继续优化这段代码，保持代码风格一致。',
+    name: translate(DEFAULT_LANGUAGE, 'builtinShortcuts.optimize.name'),
+    description: translate(DEFAULT_LANGUAGE, 'builtinShortcuts.optimize.description'),
+    content: translate(DEFAULT_LANGUAGE, 'builtinShortcuts.optimize.content'),
     icon: 'sparkles',
     color: 'blue',
     hotkey: '2',
@@ -160,9 +231,9 @@ export const defaultShortcuts: Shortcut[] = [
   },
   {
     id: 'sc-test',
-    name: '添加测试',
-    description: '为代码添加单元测试',
-    content: '请为刚才的代码添加完整的单元测试。',
+    name: translate(DEFAULT_LANGUAGE, 'builtinShortcuts.test.name'),
+    description: translate(DEFAULT_LANGUAGE, 'builtinShortcuts.test.description'),
+    content: translate(DEFAULT_LANGUAGE, 'builtinShortcuts.test.content'),
     icon: 'flask',
     color: 'purple',
     hotkey: '3',
@@ -173,9 +244,9 @@ export const defaultShortcuts: Shortcut[] = [
   },
   {
     id: 'sc-fix',
-    name: '修复问题',
-    description: '继续修复问题',
-    content: '请继续修复刚才发现的问题。',
+    name: translate(DEFAULT_LANGUAGE, 'builtinShortcuts.fix.name'),
+    description: translate(DEFAULT_LANGUAGE, 'builtinShortcuts.fix.description'),
+    content: translate(DEFAULT_LANGUAGE, 'builtinShortcuts.fix.content'),
     icon: 'wrench',
     color: 'orange',
     hotkey: '4',
@@ -186,9 +257,9 @@ export const defaultShortcuts: Shortcut[] = [
   },
   {
     id: 'sc-doc',
-    name: '添加文档',
-    description: '添加代码文档',
-    content: '请为代码添加详细的文档注释。',
+    name: translate(DEFAULT_LANGUAGE, 'builtinShortcuts.doc.name'),
+    description: translate(DEFAULT_LANGUAGE, 'builtinShortcuts.doc.description'),
+    content: translate(DEFAULT_LANGUAGE, 'builtinShortcuts.doc.content'),
     icon: 'file-text',
     color: 'cyan',
     hotkey: '5',
@@ -199,9 +270,9 @@ export const defaultShortcuts: Shortcut[] = [
   },
   {
     id: 'sc-explain',
-    name: '解释代码',
-    description: '解释代码逻辑',
-    content: '请详细解释这段代码的逻辑和实现原理。',
+    name: translate(DEFAULT_LANGUAGE, 'builtinShortcuts.explain.name'),
+    description: translate(DEFAULT_LANGUAGE, 'builtinShortcuts.explain.description'),
+    content: translate(DEFAULT_LANGUAGE, 'builtinShortcuts.explain.content'),
     icon: 'message-circle',
     color: 'pink',
     hotkey: '6',
@@ -222,11 +293,36 @@ export interface HistoryItem {
   summary: string;
   action: 'continue' | 'end';
   userInstruction?: string;
+  // Absent for answers given by the user
+  resolution?: 'user' | 'timeout';
+  // Kept instead of the text under the 'metadata' privacy level
+  metadata?: ContentMetadataFields;
+}
+
+// History another workspace shares through syncAcrossWorkspaces (mirrors the host's workspace library)
+export interface SharedWorkspaceSummary {
+  workspaceKey: string;
+  workspacePath: string;
+  updatedAt: number;
+  historyCount: number;
+}
+
+// A checkpoint call waiting for an answer (mirrors the host's checkpoint queue)
+export interface PendingCheckpoint {
+  id: string;
+  summary: string;
+  reason: string;
+  source: string; // client and session that made the call
+  createdAt: number;
+  expiresAt: number;
 }
 
 // App state types
 export interface AppState {
+  // Effective settings: the defaults, then globalSettings, then settingsOverrides
   settings: Settings;
+  globalSettings: Partial<Settings>;
+  settingsOverrides: Partial<Settings>;
   conversations: Conversation[];
   sessions: Session[];
   history: HistoryItem[];
@@ -240,6 +336,9 @@ export interface AppState {
 export type MessageType
   = | 'webview_ready'
     | 'state_sync'
+    | 'state_patch'
+    | 'state_command_rejected'
+    | 'request_state_sync'
     | 'get_settings'
     | 'save_settings'
     | 'get_conversations'
@@ -252,14 +351,31 @@ export type MessageType
     | 'clear_history'
     | 'delete_history_item'
     | 'export_history'
+    | 'export_sessions'
+    | 'get_shared_workspaces'
+    | 'shared_workspaces'
+    | 'get_shared_workspace_history'
+    | 'shared_workspace_history'
     | 'infinite_ask_request'
     | 'infinite_ask_response'
     | 'configure'
     | 'test_infinite_ask'
     | 'mcp_status'
     | 'optimize_prompt'
+    | 'prompt_optimize_chunk'
     | 'prompt_optimized'
-    | 'prompt_optimize_error';
+    | 'prompt_optimize_error'
+    | 'cancel_optimize_prompt'
+    | 'get_optimizer_state'
+    | 'optimizer_state'
+    | 'save_optimizer_api_key'
+    | 'get_optimization_profiles'
+    | 'optimization_profiles'
+    | 'save_optimization_profiles'
+    | 'checkpoint_queue_update'
+    | 'answer_checkpoints'
+    | 'dismiss_all_checkpoints'
+    | 'focus_search';
 
 export interface WebviewMessage<T = any> {
   type: MessageType;
@@ -3,8 +3,12 @@
  * Based on mcp-feedback-enhanced patterns
  */
 
+import { DEFAULT_LANGUAGE, translate } from '../../shared/i18n';
+
+import type { ContentMetadataFields, PrivacyLevel } from '../../shared/privacy';
+
 // Privacy control levels for session recording
-export type PrivacyLevel = 'full' | 'metadata' | 'statistics';
+export type { PrivacyLevel };
 
 // Session status
 export type SessionStatus = 'active' | 'paused' | 'completed' | 'expired';
@@ -25,6 +29,7 @@ export interface EnhancedSession {
   // Session isolation
   isolationKey: string; // Unique key for session isolation
   parentSessionId?: string; // For session branching
+  branchFromMessageId?: string; // Message of the parent the branch was forked at
 
   // Metrics
   messageCount: number;
@@ -48,10 +53,12 @@ export interface SessionMessage {
   timestamp: number;
   type: 'ask' | 'response';
 
-  // Content (only if privacyLevel is 'full')
+  // Content (only if privacyLevel is 'full', with secrets redacted)
   summary?: string;
   reason?: string;
   userInstruction?: string;
+  // Length, hash and detected content of the text (only if privacyLevel is 'metadata')
+  metadata?: ContentMetadataFields;
 
   // Response data
   shouldContinue: boolean;
@@ -214,12 +221,13 @@ export interface PromptCategory {
   order: number;
 }
 
+// Stored in the default language; PromptManager shows them in the UI language
 export const DEFAULT_CATEGORIES: PromptCategory[] = [
-  { id: 'quick', name: '快捷指令', icon: 'zap', color: 'yellow', order: 0 },
-  { id: 'code', name: '代码相关', icon: 'code', color: 'blue', order: 1 },
-  { id: 'test', name: '测试相关', icon: 'flask', color: 'purple', order: 2 },
-  { id: 'doc', name: '文档相关', icon: 'file-text', color: 'cyan', order: 3 },
-  { id: 'custom', name: '自定义', icon: 'star', color: 'orange', order: 4 },
+  { id: 'quick', name: translate(DEFAULT_LANGUAGE, 'promptCategories.quick'), icon: 'zap', color: 'yellow', order: 0 },
+  { id: 'code', name: translate(DEFAULT_LANGUAGE, 'promptCategories.code'), icon: 'code', color: 'blue', order: 1 },
+  { id: 'test', name: translate(DEFAULT_LANGUAGE, 'promptCategories.test'), icon: 'flask', color: 'purple', order: 2 },
+  { id: 'doc', name: translate(DEFAULT_LANGUAGE, 'promptCategories.doc'), icon: 'file-text', color: 'cyan', order: 3 },
+  { id: 'custom', name: translate(DEFAULT_LANGUAGE, 'promptCategories.custom'), icon: 'star', color: 'orange', order: 4 },
 ];
 
 // Enhanced settings
@@ -229,7 +237,7 @@ export interface EnhancedSettings {
     privacyLevel: PrivacyLevel;
     retention: SessionRetention;
     autoSave: boolean;
-    syncAcrossWorkspaces: boolean;
+    syncAcrossWorkspaces: boolean; // mirrors Settings.syncAcrossWorkspaces, which the host acts on
   };
 
   // Audio settings